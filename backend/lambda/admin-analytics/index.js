@@ -8,10 +8,20 @@
  * - GET /admin/language-split - Language distribution
  * - GET /admin/frequently-asked-questions - FAQ analysis
  * - GET /admin/unanswered-questions - Unanswered questions
+ * - GET /admin/unanswered-questions/triage - Unanswered question clusters with triage status
+ * - PATCH /admin/unanswered-questions/{clusterId} - Update triage status, assignee and notes
+ * - GET /admin/feedback - Answer satisfaction by category, language and source page
  * - GET /admin/health - Health check
+ *
+ * Every GET analytics endpoint accepts from, to, language, category and granularity query
+ * parameters (see parseAnalyticsFilters).
+ *
+ * Metrics, the conversations chart and the language split read the counters (rollups) that
+ * analytics-aggregator keeps in the analytics table, not the source tables. The FAQ and unanswered
+ * questions read the per-cluster rollups the question-clustering job keeps there.
  */
 
-const { DynamoDBClient, ScanCommand, QueryCommand } = require('@aws-sdk/client-dynamodb');
+const { DynamoDBClient, ScanCommand, QueryCommand, GetItemCommand, PutItemCommand } = require('@aws-sdk/client-dynamodb');
 const { unmarshall, marshall } = require('@aws-sdk/util-dynamodb');
 
 // Initialize AWS clients
@@ -22,8 +32,79 @@ const ANALYTICS_TABLE = process.env.ANALYTICS_TABLE;
 const CHAT_SESSIONS_TABLE = process.env.CHAT_SESSIONS_TABLE;
 const QUESTIONS_TABLE = process.env.QUESTIONS_TABLE;
 const ESCALATION_REQUESTS_TABLE = process.env.ESCALATION_REQUESTS_TABLE;
+const UNANSWERED_TRIAGE_TABLE = process.env.UNANSWERED_TRIAGE_TABLE;
+const QUESTION_CLUSTERS_TABLE = process.env.QUESTION_CLUSTERS_TABLE;
+const FEEDBACK_TABLE = process.env.FEEDBACK_TABLE;
 // Note: CONVERSATIONS_TABLE removed - analytics now uses CHAT_SESSIONS_TABLE instead
 
+// Triage lifecycle of an unanswered question cluster
+const TRIAGE_STATUSES = ['new', 'in_review', 'content_gap', 'answered', 'dismissed'];
+const CLOSED_TRIAGE_STATUSES = ['answered', 'dismissed'];
+const MAX_TRIAGE_HISTORY = 50;
+
+// Analytics filters accepted by every GET endpoint
+const ANALYTICS_LANGUAGES = ['en', 'es'];
+const ANALYTICS_GRANULARITIES = ['hour', 'day', 'week', 'month'];
+const MAX_RANGE_DAYS = 731;
+const MAX_HOURLY_RANGE_DAYS = 31;
+const ROLLUP_HOUR_RETENTION_DAYS = 90; // ROLLUP_HOUR_TTL_DAYS in analytics-aggregator
+const DEFAULT_CHART_POINTS = { hour: 24, day: 7, week: 12, month: 12 };
+
+// Exportable datasets: source table, exported columns and the analytics filters that apply
+const EXPORT_DATASETS = {
+  questions: {
+    tableName: QUESTIONS_TABLE,
+    timeAttribute: 'timestamp',
+    dimensions: ['language', 'category'],
+    columns: ['questionId', 'timestamp', 'sessionId', 'language', 'category', 'question', 'response', 'confidence', 'answerSource', 'escalated', 'clusterId']
+  },
+  escalations: {
+    tableName: ESCALATION_REQUESTS_TABLE,
+    timeAttribute: 'timestamp',
+    dimensions: [],
+    columns: ['escalationId', 'timestamp', 'source', 'status', 'sessionId', 'reason', 'name', 'email', 'phoneNumber', 'zipCode', 'dateTime']
+  },
+  sessions: {
+    tableName: CHAT_SESSIONS_TABLE,
+    timeAttribute: 'startTime',
+    dimensions: ['language'],
+    columns: ['sessionId', 'startTime', 'lastActivity', 'language', 'messageCount', 'escalated']
+  }
+};
+const EXPORT_FORMATS = ['csv', 'ndjson'];
+const EXPORT_REDACTION_MODES = ['mask', 'remove', 'none'];
+const EXPORT_CONTACT_COLUMNS = ['name', 'email', 'phoneNumber', 'zipCode'];
+const EXPORT_FREE_TEXT_COLUMNS = ['question', 'response']; // Users type emails and phone numbers into chat messages
+
+// Dimensions each rollup counter is broken down by (see collectCounters in analytics-aggregator)
+const COUNTER_DIMENSIONS = {
+  conversations: ['language'],
+  questions: ['language', 'category'],
+  escalatedQuestions: ['language', 'category'],
+  escalations_form_submit: [],
+  answerCacheHits: ['language'],
+  answerCacheMisses: ['language'],
+  safetyEvents: ['language']
+};
+
+const CATEGORY_DISPLAY_NAMES = {
+  'type-1-diabetes': 'Type 1 Diabetes',
+  'type-2-diabetes': 'Type 2 Diabetes',
+  'gestational-diabetes': 'Gestational Diabetes',
+  'prediabetes': 'Prediabetes',
+  'symptoms-diagnosis': 'Symptoms & Diagnosis',
+  'blood-sugar-management': 'Blood Sugar Management',
+  'insulin-medication': 'Insulin & Medication',
+  'diet-nutrition': 'Diet & Nutrition',
+  'exercise-lifestyle': 'Exercise & Lifestyle',
+  'complications': 'Complications',
+  'emergency-care': 'Emergency Care',
+  'insurance-coverage': 'Insurance & Coverage',
+  'general-information': 'General Information',
+  'non-diabetes-related': 'Non-Diabetes Related',
+  'general': 'Uncategorized' // Legacy fallback
+};
+
 /**
  * Main Lambda handler
  */
@@ -36,7 +117,9 @@ exports.handler = async (event) => {
 
     // Authentication is handled by API Gateway Cognito Authorizer
     if (method === 'GET') {
-      return await handleGetRequest(path);
+      return await handleGetRequest(path, event.queryStringParameters || {});
+    } else if (method === 'PATCH') {
+      return await handlePatchRequest(path, event);
     } else if (method === 'OPTIONS') {
       return createResponse(200, '');
     } else {
@@ -55,34 +138,109 @@ exports.handler = async (event) => {
   }
 };
 
+/**
+ * Streaming Lambda handler for GET /admin/export/{dataset}
+ * Writes every questions, escalations or sessions record matching the analytics filters as it is
+ * scanned, so exports are not limited by the API Gateway response size:
+ * - format: csv (default) or ndjson, one record per line
+ * - redact: mask (default) masks names, emails and phone numbers like the escalation logs, and ZIP codes,
+ *   remove leaves out the contact columns, none exports them unchanged. Unless none, emails and phone
+ *   numbers typed into questions and responses are masked too
+ * - escalated=true: questions only, just the escalated (unanswered) ones
+ *
+ * awslambda.streamifyResponse is only provided by the Lambda Node.js runtime.
+ */
+if (typeof globalThis.awslambda?.streamifyResponse === 'function') {
+  exports.exportHandler = awslambda.streamifyResponse(async (event, responseStream) => {
+    console.log('Admin export invoked:', JSON.stringify({ path: event.path, queryStringParameters: event.queryStringParameters }));
+
+    const dataset = event.pathParameters?.dataset || (event.path || '').split('/').pop();
+    const validation = parseExportRequest(dataset, event.queryStringParameters || {});
+
+    // Validation failures are returned as a regular JSON error response
+    if (!validation.valid) {
+      const response = createResponse(validation.statusCode, {
+        error: validation.statusCode === 404 ? 'Endpoint not found' : 'Validation error',
+        message: validation.message
+      });
+      const errorStream = awslambda.HttpResponseStream.from(responseStream, {
+        statusCode: response.statusCode,
+        headers: response.headers
+      });
+      errorStream.write(response.body);
+      errorStream.end();
+      return;
+    }
+
+    const { format } = validation.options;
+    const { headers } = createResponse(200, '');
+    const stream = awslambda.HttpResponseStream.from(responseStream, {
+      statusCode: 200,
+      headers: {
+        ...headers,
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+        'Content-Disposition': `attachment; filename="ada-clara-${dataset}-${new Date().toISOString().split('T')[0]}.${format}"`,
+        'Cache-Control': 'no-cache'
+      }
+    });
+
+    try {
+      const count = await writeExport(dataset, validation.options, line => stream.write(line + '\n'));
+      console.log(`Exported ${count} ${dataset} records as ${format}`);
+    } catch (error) {
+      // Headers are already sent, so the failure is reported as the last line
+      console.error('Admin export error:', error);
+      const message = `Export failed: ${error.message || 'Unknown error'}`;
+      stream.write((format === 'csv' ? toCsvRow([message]) : JSON.stringify({ error: 'Export failed', message })) + '\n');
+    } finally {
+      stream.end();
+    }
+  });
+}
+
 /**
  * Handle GET requests
  */
-async function handleGetRequest(path) {
+async function handleGetRequest(path, queryParams) {
+  const validation = parseAnalyticsFilters(queryParams);
+  if (!validation.valid) {
+    return createResponse(400, {
+      error: 'Validation error',
+      message: validation.message
+    });
+  }
+  const filters = validation.filters;
+
   switch (path) {
     case '/admin/dashboard':
-      return await getDashboardData();
+      return await getDashboardData(filters);
     
     case '/admin/metrics':
-      return await getMetrics();
+      return await getMetrics(filters);
     
     case '/admin/conversations/chart':
-      return await getConversationsChart();
+      return await getConversationsChart(filters);
     
     case '/admin/language-split':
-      return await getLanguageSplit();
+      return await getLanguageSplit(filters);
     
     case '/admin/frequently-asked-questions':
-      return await getFrequentlyAskedQuestions();
+      return await getFrequentlyAskedQuestions(filters);
     
     case '/admin/unanswered-questions':
-      return await getUnansweredQuestions();
+      return await getUnansweredQuestions(filters);
+    
+    case '/admin/unanswered-questions/triage':
+      return await getUnansweredTriage(queryParams.status, filters);
+    
+    case '/admin/feedback':
+      return await getFeedbackAnalytics(filters);
     
     case '/admin/question-analytics':
-      return await getQuestionAnalytics();
+      return await getQuestionAnalytics(filters);
     
     case '/admin/category-insights':
-      return await getCategoryInsights();
+      return await getCategoryInsights(filters);
     
     case '/admin/health':
     case '/admin':
@@ -98,6 +256,9 @@ async function handleGetRequest(path) {
           'GET /admin/language-split',
           'GET /admin/frequently-asked-questions',
           'GET /admin/unanswered-questions',
+          'GET /admin/unanswered-questions/triage',
+          'PATCH /admin/unanswered-questions/{clusterId}',
+          'GET /admin/feedback',
           'GET /admin/question-analytics',
           'GET /admin/category-insights',
           'GET /admin/health'
@@ -106,20 +267,37 @@ async function handleGetRequest(path) {
   }
 }
 
+/**
+ * Handle PATCH requests
+ */
+async function handlePatchRequest(path, event) {
+  const clusterId = event.pathParameters?.clusterId
+    || path.match(/^\/admin\/unanswered-questions\/([^/]+)$/)?.[1];
+
+  if (!clusterId || clusterId === 'triage') {
+    return createResponse(404, {
+      error: 'Endpoint not found',
+      availableEndpoints: ['PATCH /admin/unanswered-questions/{clusterId}']
+    });
+  }
+
+  return await updateUnansweredTriage(decodeURIComponent(clusterId), event);
+}
+
 /**
  * Get comprehensive dashboard data
  */
-async function getDashboardData() {
+async function getDashboardData(filters) {
   try {
     console.log('Fetching comprehensive dashboard data...');
 
     // Get all dashboard components
     const [metricsResponse, chartResponse, languageResponse, faqResponse, unansweredResponse] = await Promise.all([
-      getMetrics(),
-      getConversationsChart(), 
-      getLanguageSplit(),
-      getFrequentlyAskedQuestions(),
-      getUnansweredQuestions()
+      getMetrics(filters),
+      getConversationsChart(filters),
+      getLanguageSplit(filters),
+      getFrequentlyAskedQuestions(filters),
+      getUnansweredQuestions(filters)
     ]);
 
     // Extract data from responses
@@ -152,17 +330,12 @@ async function getDashboardData() {
 /**
  * Get question analytics
  */
-async function getQuestionAnalytics() {
+async function getQuestionAnalytics(filters) {
   try {
     console.log('Fetching question analytics...');
 
-    // Get all questions from questions table
-    const scanResult = await dynamodb.send(new ScanCommand({
-      TableName: QUESTIONS_TABLE,
-      Limit: 1000
-    }));
-
-    const items = scanResult.Items?.map(item => unmarshall(item)) || [];
+    // Get questions matching the filters from questions table
+    const items = await scanQuestions(filters, { from: filters.from, to: filters.to });
     console.log(`Found ${items.length} questions for analytics`);
 
     // Calculate analytics with proper null handling
@@ -188,23 +361,6 @@ async function getQuestionAnalytics() {
 
     // Get top categories with better display names
     const categoryCounts = {};
-    const categoryDisplayNames = {
-      'type-1-diabetes': 'Type 1 Diabetes',
-      'type-2-diabetes': 'Type 2 Diabetes',
-      'gestational-diabetes': 'Gestational Diabetes',
-      'prediabetes': 'Prediabetes',
-      'symptoms-diagnosis': 'Symptoms & Diagnosis',
-      'blood-sugar-management': 'Blood Sugar Management',
-      'insulin-medication': 'Insulin & Medication',
-      'diet-nutrition': 'Diet & Nutrition',
-      'exercise-lifestyle': 'Exercise & Lifestyle',
-      'complications': 'Complications',
-      'emergency-care': 'Emergency Care',
-      'insurance-coverage': 'Insurance & Coverage',
-      'general-information': 'General Information',
-      'non-diabetes-related': 'Non-Diabetes Related',
-      'general': 'Uncategorized' // Legacy fallback
-    };
 
     items.forEach(item => {
       const category = (item.category && typeof item.category === 'string') ? item.category : 'general';
@@ -215,7 +371,7 @@ async function getQuestionAnalytics() {
       .sort(([,a], [,b]) => b - a)
       .slice(0, 10) // Show top 10 categories instead of 5
       .map(([category, count]) => ({ 
-        category: categoryDisplayNames[category] || category, 
+        category: CATEGORY_DISPLAY_NAMES[category] || category, 
         categoryKey: category,
         count 
       }));
@@ -257,51 +413,33 @@ async function getQuestionAnalytics() {
 
 /**
  * Get dashboard metrics
+ * Reads the rollups maintained by analytics-aggregator instead of scanning the source tables.
+ * Totals cover the from/to range (all time when no range is given); trends compare the range with
+ * the period of the same length before it (the last 7 days by default).
  */
-async function getMetrics() {
+async function getMetrics(filters) {
   try {
     console.log('Fetching dashboard metrics...');
 
-    // Get total questions (more accurate than sessions for conversation activity)
-    const totalQuestions = await getTotalQuestions();
-
-    // Get escalation rate from questions table (now consistent)
-    const escalationRate = await getEscalationRate();
-
-    // Get out of scope rate from analytics table
-    const outOfScopeRate = await getOutOfScopeRate();
-
-    // Calculate week-over-week trends
-    const now = Date.now();
-    const oneWeekMs = 7 * 24 * 60 * 60 * 1000;
-    const twoWeeksMs = 14 * 24 * 60 * 60 * 1000;
-
-    // Define time periods
-    const currentWeekStart = now - oneWeekMs;
-    const currentWeekEnd = now;
-    const previousWeekStart = now - twoWeeksMs;
-    const previousWeekEnd = now - oneWeekMs;
+    const { current, previous } = getTrendPeriods(filters);
 
     console.log('Calculating trends for periods:');
-    console.log(`  Current week: ${new Date(currentWeekStart).toISOString()} to ${new Date(currentWeekEnd).toISOString()}`);
-    console.log(`  Previous week: ${new Date(previousWeekStart).toISOString()} to ${new Date(previousWeekEnd).toISOString()}`);
-
-    // Calculate trends in parallel for performance
-    const [
-      currentConversations,
-      previousConversations,
-      currentEscalationRate,
-      previousEscalationRate,
-      currentOutOfScopeRate,
-      previousOutOfScopeRate
-    ] = await Promise.all([
-      getConversationCountForPeriod(currentWeekStart, currentWeekEnd),
-      getConversationCountForPeriod(previousWeekStart, previousWeekEnd),
-      getEscalationRateForPeriod(currentWeekStart, currentWeekEnd),
-      getEscalationRateForPeriod(previousWeekStart, previousWeekEnd),
-      getOutOfScopeRateForPeriod(currentWeekStart, currentWeekEnd),
-      getOutOfScopeRateForPeriod(previousWeekStart, previousWeekEnd)
+    console.log(`  Current period: ${new Date(current.start).toISOString()} to ${new Date(current.end).toISOString()}`);
+    console.log(`  Previous period: ${new Date(previous.start).toISOString()} to ${new Date(previous.end).toISOString()}`);
+
+    const [currentPeriod, previousPeriod, allTime] = await Promise.all([
+      getRollupCountersForPeriod(current.start, current.end),
+      getRollupCountersForPeriod(previous.start, previous.end),
+      filters.from === null ? getRollupTotals() : null
     ]);
+    const totals = allTime || currentPeriod;
+
+    const currentConversations = getCounter(currentPeriod, 'conversations', filters);
+    const previousConversations = getCounter(previousPeriod, 'conversations', filters);
+    const currentEscalationRate = getEscalationRate(currentPeriod, filters);
+    const previousEscalationRate = getEscalationRate(previousPeriod, filters);
+    const currentOutOfScopeRate = getOutOfScopeRate(currentPeriod, filters);
+    const previousOutOfScopeRate = getOutOfScopeRate(previousPeriod, filters);
 
     console.log('Trend calculation values:');
     console.log(`  Conversations: ${previousConversations} → ${currentConversations}`);
@@ -319,11 +457,14 @@ async function getMetrics() {
 
     console.log('Calculated trends:', trends);
 
+    // Null where a metric is not broken down by the language or category filter
     const metrics = {
-      totalConversations: await getConversationCount(), // Keep session count for actual conversations
-      totalQuestions: totalQuestions, // Add total questions metric
-      escalationRate: escalationRate,
-      outOfScopeRate: outOfScopeRate,
+      totalConversations: getCounter(totals, 'conversations', filters),
+      totalQuestions: getCounter(totals, 'questions', filters),
+      escalationRate: getEscalationRate(totals, filters),
+      outOfScopeRate: getOutOfScopeRate(totals, filters),
+      answerCache: getAnswerCacheStats(currentPeriod, filters), // Hit/miss counts for the current period
+      safetyEvents: getCounter(currentPeriod, 'safetyEvents', filters), // Crisis messages answered with emergency guidance
       trends: trends
     };
 
@@ -333,6 +474,8 @@ async function getMetrics() {
       totalConversations: metrics.totalConversations,
       escalationRate: metrics.escalationRate,
       outOfScopeRate: metrics.outOfScopeRate,
+      answerCache: metrics.answerCache,
+      safetyEvents: metrics.safetyEvents,
       trends: metrics.trends
     });
 
@@ -347,49 +490,43 @@ async function getMetrics() {
 
 /**
  * Get conversation chart data
+ * One point per hour, day, week (starting Monday) or month of the from/to range. Without a range,
+ * the last 24 hours, 7 days, 12 weeks or 12 months up to now.
  */
-async function getConversationsChart() {
+async function getConversationsChart(filters) {
   try {
     console.log('Fetching conversations chart data...');
 
-    // Get all sessions first, then filter by date in memory for better performance
-    const scanResult = await dynamodb.send(new ScanCommand({
-      TableName: CHAT_SESSIONS_TABLE,
-      ProjectionExpression: 'startTime',
-      Limit: 1000
-    }));
-
-    const sessions = scanResult.Items?.map(item => unmarshall(item)) || [];
-    console.log(`Found ${sessions.length} total sessions for chart analysis`);
+    const { granularity } = filters;
+    const end = filters.to ?? Date.now();
+    const start = filters.from ?? addBuckets(getBucketStart(end - 1, granularity), granularity, 1 - DEFAULT_CHART_POINTS[granularity]);
+
+    // Weeks and months are summed from the daily rollups
+    const rollups = await getRollups(granularity === 'hour' ? 'hour' : 'day', start, end - 1);
+    const countersByBucket = new Map();
+    for (const rollup of rollups) {
+      const time = Date.parse(rollup.granularity === 'hour' ? `${rollup.SK}:00:00Z` : `${rollup.SK}T00:00:00Z`);
+      const key = getBucketKey(time, granularity);
+      countersByBucket.set(key, addCounters(countersByBucket.get(key) || {}, rollup));
+    }
 
-    // Generate last 7 days of data
     const chartData = [];
-    const today = new Date();
-    
-    for (let i = 6; i >= 0; i--) {
-      const targetDate = new Date(today);
-      targetDate.setDate(targetDate.getDate() - i);
-      const dateStr = targetDate.toISOString().split('T')[0]; // YYYY-MM-DD format
-      
-      // Count sessions that started on this date
-      const conversationsOnDate = sessions.filter(session => {
-        if (!session.startTime) return false;
-        
-        // Extract date from startTime (handles both ISO strings and date strings)
-        const sessionDate = new Date(session.startTime).toISOString().split('T')[0];
-        return sessionDate === dateStr;
-      }).length;
-      
+    for (let time = getBucketStart(start, granularity); time < end; time = addBuckets(time, granularity, 1)) {
+      const counters = countersByBucket.get(getBucketKey(time, granularity)) || {};
       chartData.push({
-        date: dateStr,
-        conversations: conversationsOnDate
+        date: getBucketKey(time, granularity), // YYYY-MM-DDTHH, YYYY-MM-DD (day or week start) or YYYY-MM
+        conversations: getCounter(counters, 'conversations', filters),
+        questions: getCounter(counters, 'questions', filters)
       });
     }
 
-    console.log('Chart data:', chartData);
+    console.log(`Chart data: ${chartData.length} ${granularity} points`);
 
     return createResponse(200, {
-      data: chartData
+      data: chartData,
+      granularity,
+      from: new Date(start).toISOString(),
+      to: new Date(end).toISOString()
     });
 
   } catch (error) {
@@ -403,58 +540,35 @@ async function getConversationsChart() {
 
 /**
  * Get language split data
+ * Conversations by session language, or questions by language when filtering by category
+ * (conversations have no category). The language filter does not apply.
  */
-async function getLanguageSplit() {
+async function getLanguageSplit(filters) {
   try {
     console.log('Fetching language split data...');
 
-    // Scan chat sessions table to get language distribution
-    const scanResult = await dynamodb.send(new ScanCommand({
-      TableName: CHAT_SESSIONS_TABLE,
-      ProjectionExpression: '#lang',
-      ExpressionAttributeNames: {
-        '#lang': 'language'
-      },
-      Limit: 1000
-    }));
-
-    const items = scanResult.Items?.map(item => unmarshall(item)) || [];
-    console.log(`Found ${items.length} chat sessions for language analysis`);
+    const counters = filters.from === null
+      ? await getRollupTotals() // All time
+      : await getRollupCountersForPeriod(filters.from, filters.to);
+    const basis = filters.category ? 'questions' : 'conversations';
+    const byLanguage = language => getCounter(counters, basis, { language, category: filters.category });
 
-    // Count languages with better handling of missing/invalid values
-    const languageCounts = {
-      english: 0,
-      spanish: 0,
-      other: 0
-    };
+    const total = byLanguage(null);
+    const english = byLanguage('en');
+    const spanish = byLanguage('es');
 
-    items.forEach(item => {
-      const language = item.language;
-      
-      // Handle missing or invalid language values
-      if (!language || typeof language !== 'string') {
-        languageCounts.english++; // Default to English for missing values
-      } else if (language.toLowerCase() === 'en' || language.toLowerCase() === 'english') {
-        languageCounts.english++;
-      } else if (language.toLowerCase() === 'es' || language.toLowerCase() === 'spanish') {
-        languageCounts.spanish++;
-      } else {
-        languageCounts.other++;
-      }
-    });
-
-    console.log('Language distribution:', languageCounts);
+    console.log('Language distribution:', { basis, english, spanish, other: total - english - spanish });
 
     // Calculate percentages
-    const total = items.length;
-    const englishPercent = total > 0 ? Math.round((languageCounts.english / total) * 100) : 0;
-    const spanishPercent = total > 0 ? Math.round((languageCounts.spanish / total) * 100) : 0;
+    const englishPercent = total > 0 ? Math.round((english / total) * 100) : 0;
+    const spanishPercent = total > 0 ? Math.round((spanish / total) * 100) : 0;
 
     console.log(`Language percentages: English ${englishPercent}%, Spanish ${spanishPercent}%`);
 
     return createResponse(200, {
       english: englishPercent,
-      spanish: spanishPercent
+      spanish: spanishPercent,
+      basis
     });
 
   } catch (error) {
@@ -469,50 +583,30 @@ async function getLanguageSplit() {
 /**
  * Get frequently asked questions
  */
-async function getFrequentlyAskedQuestions() {
+async function getFrequentlyAskedQuestions(filters) {
   try {
     console.log('Fetching frequently asked questions...');
 
-    // Scan questions table and aggregate by question content
-    const scanResult = await dynamodb.send(new ScanCommand({
-      TableName: QUESTIONS_TABLE,
-      Limit: 1000
-    }));
-
-    const items = scanResult.Items?.map(item => unmarshall(item)) || [];
-    console.log(`Found ${items.length} questions in table`);
+    const clusters = await getQuestionClusters({ filters });
+    console.log(`Found ${clusters.length} question clusters`);
 
-    // Aggregate questions by content while preserving original capitalization
-    const questionCounts = new Map();
-    items.forEach(item => {
-      if (item.question && typeof item.question === 'string') {
-        const normalizedQuestion = item.question.trim().toLowerCase();
-        const originalQuestion = item.question.trim();
-        
-        if (questionCounts.has(normalizedQuestion)) {
-          questionCounts.get(normalizedQuestion).count++;
-        } else {
-          questionCounts.set(normalizedQuestion, {
-            original: originalQuestion,
-            count: 1
-          });
-        }
-      }
-    });
-
-    // Sort by count and take top 10
-    const sortedQuestions = Array.from(questionCounts.entries())
-      .sort(([,a], [,b]) => b.count - a.count)
+    // Sort by count and take top 6
+    const topQuestions = clusters
+      .sort((a, b) => b.count - a.count)
       .slice(0, 6)
-      .map(([normalizedQuestion, data]) => ({
-        question: data.original, // Use original capitalization
-        count: data.count
+      .map(cluster => ({
+        clusterId: cluster.clusterId,
+        question: cluster.question, // Representative phrasing
+        count: cluster.count,
+        trend: cluster.trend,
+        language: cluster.languages[0] || 'en',
+        variants: cluster.variants
       }));
 
-    console.log(`Returning ${sortedQuestions.length} frequently asked questions`);
+    console.log(`Returning ${topQuestions.length} frequently asked questions`);
 
     return createResponse(200, {
-      questions: sortedQuestions
+      questions: topQuestions
     });
 
   } catch (error) {
@@ -526,60 +620,37 @@ async function getFrequentlyAskedQuestions() {
 
 /**
  * Get unanswered questions
+ * Top open clusters - clusters triaged as answered or dismissed are left out.
  */
-async function getUnansweredQuestions() {
+async function getUnansweredQuestions(filters) {
   try {
     console.log('Fetching unanswered questions...');
 
-    // Scan questions table for escalated questions (unanswered)
-    const scanResult = await dynamodb.send(new ScanCommand({
-      TableName: QUESTIONS_TABLE,
-      FilterExpression: 'escalated = :escalated',
-      ExpressionAttributeValues: marshall({
-        ':escalated': true
-      }),
-      Limit: 100
-    }));
-
-    const items = scanResult.Items?.map(item => unmarshall(item)) || [];
-    console.log(`Found ${items.length} unanswered questions in questions table`);
-
-    // Aggregate by question content while preserving original capitalization
-    const questionCounts = new Map();
-    items.forEach(item => {
-      if (item.question && typeof item.question === 'string') {
-        const normalizedQuestion = item.question.trim().toLowerCase();
-        const originalQuestion = item.question.trim();
-        
-        if (questionCounts.has(normalizedQuestion)) {
-          questionCounts.get(normalizedQuestion).count++;
-        } else {
-          questionCounts.set(normalizedQuestion, {
-            original: originalQuestion,
-            count: 1,
-            confidence: item.confidence || 0,
-            language: item.language || 'en'
-          });
-        }
-      }
-    });
+    const [clusters, triage] = await Promise.all([getQuestionClusters({ escalatedOnly: true, filters }), getTriageRecords()]);
+    const totalUnanswered = clusters.reduce((sum, cluster) => sum + cluster.count, 0);
+    console.log(`Found ${totalUnanswered} unanswered questions in ${clusters.length} clusters`);
 
-    // Sort by count and take top 10
-    const sortedQuestions = Array.from(questionCounts.entries())
-      .sort(([,a], [,b]) => b.count - a.count)
+    const openQuestions = clusters
+      .filter(cluster => !CLOSED_TRIAGE_STATUSES.includes(triage.get(cluster.clusterId)?.status))
+      .sort((a, b) => b.count - a.count)
       .slice(0, 6)
-      .map(([normalizedQuestion, data]) => ({
-        question: data.original, // Use original capitalization
-        count: data.count,
-        averageConfidence: data.confidence,
-        language: data.language
+      .map(cluster => ({
+        clusterId: cluster.clusterId,
+        question: cluster.question, // Use original capitalization
+        count: cluster.count,
+        trend: cluster.trend,
+        averageConfidence: cluster.averageConfidence,
+        negativeFeedback: cluster.negativeFeedback, // Questions whose answer was rated negatively
+        language: cluster.languages[0] || 'en',
+        variants: cluster.variants,
+        status: triage.get(cluster.clusterId)?.status || 'new'
       }));
 
-    console.log(`Returning ${sortedQuestions.length} unanswered questions`);
+    console.log(`Returning ${openQuestions.length} unanswered questions`);
 
     return createResponse(200, {
-      questions: sortedQuestions,
-      totalUnanswered: items.length
+      questions: openQuestions,
+      totalUnanswered
     });
 
   } catch (error) {
@@ -591,13 +662,422 @@ async function getUnansweredQuestions() {
   }
 }
 
+/**
+ * Get unanswered question clusters with their triage status, assignee and notes
+ * Clusters that were triaged but no longer have questions (expired by TTL) are still listed,
+ * unless the list is filtered by date range, language or category.
+ */
+async function getUnansweredTriage(statusFilter, filters) {
+  try {
+    if (statusFilter && !TRIAGE_STATUSES.includes(statusFilter)) {
+      return createResponse(400, {
+        error: 'Invalid status',
+        message: `status must be one of: ${TRIAGE_STATUSES.join(', ')}`
+      });
+    }
+
+    const [clusters, triage] = await Promise.all([getQuestionClusters({ escalatedOnly: true, filters }), getTriageRecords()]);
+    const clustersById = new Map(clusters.map(cluster => [cluster.clusterId, cluster]));
+    const unfiltered = filters.from === null && !filters.language && !filters.category;
+
+    for (const record of triage.values()) {
+      if (unfiltered && !clustersById.has(record.clusterId)) {
+        clustersById.set(record.clusterId, {
+          clusterId: record.clusterId,
+          question: record.question,
+          count: 0,
+          trend: '0%',
+          languages: [],
+          averageConfidence: null,
+          negativeFeedback: 0,
+          lastAskedAt: null,
+          variants: []
+        });
+      }
+    }
+
+    const statusCounts = Object.fromEntries(TRIAGE_STATUSES.map(status => [status, 0]));
+    const items = Array.from(clustersById.values()).map(cluster => {
+      const record = triage.get(cluster.clusterId);
+      const status = record?.status || 'new';
+      statusCounts[status]++;
+
+      return {
+        ...cluster,
+        status,
+        assignee: record?.assignee || null,
+        notes: record?.notes || '',
+        contentGapRef: record?.contentGapRef || null,
+        curatedAnswerId: record?.curatedAnswerId || null,
+        // Closed clusters that keep being asked may need another look
+        askedSinceClosed: CLOSED_TRIAGE_STATUSES.includes(status) && cluster.lastAskedAt > record.updatedAt,
+        updatedAt: record?.updatedAt || null,
+        updatedBy: record?.updatedBy || null,
+        history: record?.history || []
+      };
+    });
+
+    const filtered = items
+      .filter(item => !statusFilter || item.status === statusFilter)
+      .sort((a, b) => b.count - a.count || (b.lastAskedAt || '').localeCompare(a.lastAskedAt || ''));
+
+    return createResponse(200, {
+      clusters: filtered,
+      total: filtered.length,
+      statusCounts
+    });
+
+  } catch (error) {
+    console.error('Error fetching unanswered question triage:', error);
+    return createResponse(500, {
+      error: 'Failed to fetch unanswered question triage',
+      message: error.message || 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Update the triage status, assignee, notes, content gap reference or curated answer of a cluster
+ * Every change is appended to the cluster's history.
+ */
+async function updateUnansweredTriage(clusterId, event) {
+  if (!event.body) {
+    return createResponse(400, {
+      error: 'Request body is required',
+      message: 'Please provide the triage fields to update'
+    });
+  }
+
+  let request;
+  try {
+    request = JSON.parse(event.body);
+  } catch (parseError) {
+    return createResponse(400, {
+      error: 'Invalid JSON',
+      message: 'Request body must be valid JSON'
+    });
+  }
+
+  const validation = validateTriageUpdate(request);
+  if (!validation.valid) {
+    return createResponse(400, {
+      error: 'Validation error',
+      message: validation.message
+    });
+  }
+
+  const result = await dynamodb.send(new GetItemCommand({
+    TableName: UNANSWERED_TRIAGE_TABLE,
+    Key: marshall({ clusterId })
+  }));
+  const existing = result.Item ? unmarshall(result.Item) : null;
+
+  if (!existing && !request.question) {
+    return createResponse(400, {
+      error: 'Validation error',
+      message: 'question is required the first time a cluster is triaged'
+    });
+  }
+
+  const now = new Date().toISOString();
+  const editor = event.requestContext?.authorizer?.claims?.email || 'unknown';
+
+  const record = {
+    clusterId,
+    question: existing?.question || request.question.trim(),
+    status: request.status ?? existing?.status ?? 'new',
+    assignee: request.assignee !== undefined ? (request.assignee || '').trim() || undefined : existing?.assignee,
+    notes: request.notes !== undefined ? request.notes || undefined : existing?.notes,
+    contentGapRef: request.contentGapRef !== undefined ? (request.contentGapRef || '').trim() || undefined : existing?.contentGapRef,
+    curatedAnswerId: request.curatedAnswerId !== undefined ? request.curatedAnswerId || undefined : existing?.curatedAnswerId,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    updatedBy: editor
+  };
+
+  if (record.status === 'answered' && !record.curatedAnswerId) {
+    return createResponse(400, {
+      error: 'Validation error',
+      message: 'curatedAnswerId is required to mark a cluster as answered'
+    });
+  }
+
+  const changes = ['status', 'assignee', 'notes', 'contentGapRef', 'curatedAnswerId']
+    .filter(field => record[field] !== existing?.[field]);
+  record.history = [
+    ...(existing?.history || []),
+    { at: now, by: editor, status: record.status, changes }
+  ].slice(-MAX_TRIAGE_HISTORY);
+
+  await dynamodb.send(new PutItemCommand({
+    TableName: UNANSWERED_TRIAGE_TABLE,
+    Item: marshall(record, { removeUndefinedValues: true })
+  }));
+
+  console.log(`Updated triage for cluster ${clusterId}: ${changes.join(', ') || 'no changes'}`);
+  return createResponse(200, record);
+}
+
+/**
+ * Validate a triage update request
+ */
+function validateTriageUpdate(request) {
+  if (request.status !== undefined && !TRIAGE_STATUSES.includes(request.status)) {
+    return { valid: false, message: `status must be one of: ${TRIAGE_STATUSES.join(', ')}` };
+  }
+
+  const limits = { question: 500, assignee: 200, notes: 2000, contentGapRef: 500, curatedAnswerId: 100 };
+  for (const [field, maxLength] of Object.entries(limits)) {
+    const value = request[field];
+    if (value !== undefined && value !== null && (typeof value !== 'string' || value.length > maxLength)) {
+      return { valid: false, message: `${field} must be a string of ${maxLength} characters or less` };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Helper: Question clusters with their counts, read from the cluster rollups written by the
+ * question-clustering job (questions appear once the hourly job has clustered them)
+ * Each cluster has its representative phrasing, example variants, count and trend. Counts cover the
+ * from/to range in whole UTC days (all time by default); the trend compares the range with the period
+ * of the same length before it (the last 7 days by default). With escalatedOnly, only unanswered
+ * questions are counted - escalated ones and those whose answer was rated negatively (negativeFeedback).
+ */
+async function getQuestionClusters({ escalatedOnly = false, filters }) {
+  const { current, previous } = getTrendPeriods(filters);
+  const [clusterRecords, totals, days] = await Promise.all([
+    getClusterRecords(),
+    filters.from === null ? getClusterRollups('TOTAL') : null,
+    getClusterRollups('DAY', previous.start, current.end - 1)
+  ]);
+
+  const metric = escalatedOnly ? 'unanswered' : 'questions';
+  const counter = (rollup, name) => rollup[filters.category ? `${name}_cat_${filters.category}` : name] || 0;
+  const inLanguage = rollup => !filters.language || (rollup.language || 'en') === filters.language;
+  const currentStartDay = new Date(current.start).toISOString().substring(0, 10);
+
+  const clusters = new Map();
+  const getCluster = (rollup) => {
+    if (!clusters.has(rollup.clusterId)) {
+      clusters.set(rollup.clusterId, {
+        clusterId: rollup.clusterId,
+        question: clusterRecords.get(rollup.clusterId)?.representative || null,
+        count: 0,
+        thisPeriod: 0,
+        lastPeriod: 0,
+        language: rollup.language || 'en',
+        confidenceTotal: 0,
+        negativeFeedback: 0,
+        lastAskedAt: null
+      });
+    }
+    return clusters.get(rollup.clusterId);
+  };
+  const addCounts = (cluster, rollup) => {
+    cluster.count += counter(rollup, metric);
+    cluster.confidenceTotal += counter(rollup, 'unansweredConfidence');
+    cluster.negativeFeedback += counter(rollup, 'negativeFeedback');
+    const lastAskedAt = escalatedOnly ? rollup.lastUnansweredAt : rollup.lastAskedAt;
+    if (lastAskedAt && !(cluster.lastAskedAt > lastAskedAt)) {
+      cluster.lastAskedAt = lastAskedAt;
+    }
+  };
+
+  for (const rollup of days.filter(inLanguage)) {
+    const cluster = getCluster(rollup);
+    if (rollup.SK.substring(0, 10) >= currentStartDay) {
+      cluster.thisPeriod += counter(rollup, metric);
+      // Days before the range only count towards the trend
+      if (!totals) addCounts(cluster, rollup);
+    } else {
+      cluster.lastPeriod += counter(rollup, metric);
+    }
+  }
+  for (const rollup of (totals || []).filter(inLanguage)) {
+    addCounts(getCluster(rollup), rollup);
+  }
+
+  return Array.from(clusters.values())
+    .filter(cluster => cluster.count > 0 && cluster.question)
+    .map(({ confidenceTotal, language, thisPeriod, lastPeriod, ...cluster }) => ({
+      ...cluster,
+      trend: calculateWeekOverWeekTrend(thisPeriod, lastPeriod),
+      languages: [language],
+      averageConfidence: escalatedOnly ? Math.round((confidenceTotal / cluster.count) * 100) / 100 : null,
+      // Most frequent phrasings seen by the clustering job
+      variants: (clusterRecords.get(cluster.clusterId)?.variants || []).slice(0, 5).map(variant => variant.text)
+    }));
+}
+
+/**
+ * Helper: Get the all-time cluster rollups, or the daily ones whose day falls between two timestamps (inclusive)
+ *
+ * @param {'DAY'|'TOTAL'} granularity - Rollup bucket
+ * @param {number} [startTime] - Start timestamp (milliseconds), for DAY
+ * @param {number} [endTime] - End timestamp (milliseconds), for DAY
+ * @returns {Promise<object[]>} Rollup items; daily SKs are YYYY-MM-DD#<clusterId>
+ */
+async function getClusterRollups(granularity, startTime, endTime) {
+  const rollups = [];
+  let lastEvaluatedKey;
+
+  const keyCondition = granularity === 'DAY'
+    ? {
+      KeyConditionExpression: 'PK = :pk AND SK BETWEEN :start AND :end',
+      ExpressionAttributeValues: marshall({
+        ':pk': 'CLUSTER_ROLLUP#DAY',
+        ':start': new Date(startTime).toISOString().substring(0, 10),
+        ':end': `${new Date(endTime).toISOString().substring(0, 10)}#~`
+      })
+    }
+    : {
+      KeyConditionExpression: 'PK = :pk',
+      ExpressionAttributeValues: marshall({ ':pk': 'CLUSTER_ROLLUP#TOTAL' })
+    };
+
+  do {
+    const result = await dynamodb.send(new QueryCommand({
+      TableName: ANALYTICS_TABLE,
+      ...keyCondition,
+      ExclusiveStartKey: lastEvaluatedKey
+    }));
+
+    rollups.push(...(result.Items || []).map(item => unmarshall(item)));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return rollups;
+}
+
+/**
+ * Helper: Scan questions matching the language and category filters
+ * Optionally only those asked from `from` up to `to` (milliseconds).
+ */
+async function scanQuestions(filters, { from = null, to = null } = {}) {
+  const items = [];
+  let lastEvaluatedKey;
+
+  do {
+    const result = await dynamodb.send(new ScanCommand({
+      TableName: QUESTIONS_TABLE,
+      ...getScanFilter(filters, { from, to }),
+      ExclusiveStartKey: lastEvaluatedKey
+    }));
+
+    items.push(...(result.Items || []).map(item => unmarshall(item)));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return items;
+}
+
+/**
+ * Helper: Scan filter for the language and category filters and a time range
+ * Questions, sessions (metadataOnly, timeAttribute startTime), escalation requests and answer
+ * feedback share it.
+ *
+ * @returns {object} FilterExpression, ExpressionAttributeNames and ExpressionAttributeValues, or {}
+ */
+function getScanFilter(filters, { timeAttribute = 'timestamp', escalatedOnly = false, metadataOnly = false, from = null, to = null } = {}) {
+  const conditions = [];
+  const names = {};
+  const values = {};
+
+  if (metadataOnly) {
+    conditions.push('SK = :metadata');
+    values[':metadata'] = 'METADATA';
+  }
+  if (escalatedOnly) {
+    conditions.push('escalated = :escalated');
+    values[':escalated'] = true;
+  }
+  if (filters.language) {
+    // Records without a language are English
+    names['#language'] = 'language';
+    values[':language'] = filters.language;
+    conditions.push(filters.language === 'en'
+      ? '(#language = :language OR attribute_not_exists(#language))'
+      : '#language = :language');
+  }
+  if (filters.category) {
+    // Questions recorded without a category count as general
+    names['#category'] = 'category';
+    values[':category'] = filters.category;
+    conditions.push(filters.category === 'general'
+      ? '(#category = :category OR attribute_not_exists(#category))'
+      : '#category = :category');
+  }
+  if (from !== null) {
+    names['#ts'] = timeAttribute;
+    values[':from'] = new Date(from).toISOString();
+    values[':to'] = new Date(to ?? Date.now()).toISOString();
+    conditions.push('#ts >= :from AND #ts < :to');
+  }
+
+  if (conditions.length === 0) return {};
+  return {
+    FilterExpression: conditions.join(' AND '),
+    ...(Object.keys(names).length > 0 && { ExpressionAttributeNames: names }),
+    ExpressionAttributeValues: marshall(values)
+  };
+}
+
+/**
+ * Helper: Load question clusters written by the question-clustering job, keyed by clusterId
+ */
+async function getClusterRecords() {
+  const records = new Map();
+  if (!QUESTION_CLUSTERS_TABLE) return records;
+
+  let lastEvaluatedKey;
+  do {
+    const result = await dynamodb.send(new ScanCommand({
+      TableName: QUESTION_CLUSTERS_TABLE,
+      ProjectionExpression: 'clusterId, representative, variants',
+      ExclusiveStartKey: lastEvaluatedKey
+    }));
+    (result.Items || []).forEach(item => {
+      const record = unmarshall(item);
+      records.set(record.clusterId, record);
+    });
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return records;
+}
+
+/**
+ * Helper: Load triage records keyed by clusterId
+ */
+async function getTriageRecords() {
+  const records = new Map();
+  if (!UNANSWERED_TRIAGE_TABLE) return records;
+
+  let lastEvaluatedKey;
+  do {
+    const result = await dynamodb.send(new ScanCommand({
+      TableName: UNANSWERED_TRIAGE_TABLE,
+      ExclusiveStartKey: lastEvaluatedKey
+    }));
+    (result.Items || []).forEach(item => {
+      const record = unmarshall(item);
+      records.set(record.clusterId, record);
+    });
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return records;
+}
+
 /**
  * Health check
  */
 async function getHealthCheck() {
   try {
     // Test access to all required tables (excluding CONVERSATIONS_TABLE - not used, analytics uses CHAT_SESSIONS_TABLE)
-    const tables = [ANALYTICS_TABLE, CHAT_SESSIONS_TABLE, QUESTIONS_TABLE, ESCALATION_REQUESTS_TABLE];
+    const tables = [ANALYTICS_TABLE, CHAT_SESSIONS_TABLE, QUESTIONS_TABLE, ESCALATION_REQUESTS_TABLE, UNANSWERED_TRIAGE_TABLE, QUESTION_CLUSTERS_TABLE];
     const tableStatus = {};
 
     for (const table of tables) {
@@ -631,143 +1111,215 @@ async function getHealthCheck() {
 }
 
 /**
- * Helper: Get conversation count from chat sessions table
+ * Helper: Get escalation rate from actual form submissions
+ * Calculates percentage of questions that resulted in users submitting the escalation form
+ * This is different from out-of-scope rate (which uses auto-escalations)
+ *
+ * @param {object} counters - Rollup counters (all-time or summed for a period)
+ * @param {object} filters - Analytics filters (language and category)
+ * @returns {number|null} Escalation rate percentage (0-100), or null when filtered by language or
+ *   category (form submissions are not broken down by either)
  */
-async function getConversationCount() {
-  try {
-    const scanResult = await dynamodb.send(new ScanCommand({
-      TableName: CHAT_SESSIONS_TABLE,
-      Select: 'COUNT'
-    }));
-    return scanResult.Count || 0;
-  } catch (error) {
-    console.error('Error getting conversation count:', error);
-    return 0;
-  }
+function getEscalationRate(counters, filters) {
+  const totalQuestions = getCounter(counters, 'questions', filters);
+  const formSubmissions = getCounter(counters, 'escalations_form_submit', filters);
+  if (formSubmissions === null) return null;
+  if (totalQuestions === 0) return 0;
+
+  const rate = Math.round((formSubmissions / totalQuestions) * 100);
+  return Math.min(rate, 100); // Cap at 100%
 }
 
 /**
- * Helper: Get total questions count from questions table
+ * Helper: Get out of scope rate from question counters
+ * Calculates percentage of questions that couldn't be adequately answered by the chatbot
+ * This includes both escalated questions (low confidence) and off-topic questions
+ *
+ * @param {object} counters - Rollup counters (all-time or summed for a period)
+ * @param {object} filters - Analytics filters (language and category)
+ * @returns {number} Out-of-scope rate percentage (0-100)
  */
-async function getTotalQuestions() {
-  try {
-    const scanResult = await dynamodb.send(new ScanCommand({
-      TableName: QUESTIONS_TABLE,
-      Select: 'COUNT'
-    }));
-    return scanResult.Count || 0;
-  } catch (error) {
-    console.error('Error getting total questions count:', error);
-    return 0;
-  }
+function getOutOfScopeRate(counters, filters) {
+  const totalQuestions = getCounter(counters, 'questions', filters);
+  if (totalQuestions === 0) return 0;
+
+  const outOfScopeQuestions = getCounter(counters, 'escalatedQuestions', filters);
+  const rate = Math.round((outOfScopeQuestions / totalQuestions) * 100);
+  return Math.min(rate, 100); // Cap at 100%
 }
 
 /**
- * Helper: Get escalation rate from actual form submissions
- * Calculates percentage of questions that resulted in users submitting the escalation form
- * This is different from out-of-scope rate (which uses auto-escalations)
+ * Helper: Get answer cache hit/miss counts from the answer_cache lookups chat-processor records
+ *
+ * @param {object} counters - Rollup counters (all-time or summed for a period)
+ * @param {object} filters - Analytics filters (language and category)
+ * @returns {{hits: number, misses: number, hitRate: number}|null} Counts and hit rate percentage
+ *   (0-100), or null when filtered by category
  */
-async function getEscalationRate() {
-  try {
-    // Get total questions count
-    const totalQuestions = await getTotalQuestions();
-
-    if (totalQuestions === 0) return 0;
-
-    // Get count of actual form submissions using GSI (much more efficient)
-    const queryResult = await dynamodb.send(new QueryCommand({
-      TableName: ESCALATION_REQUESTS_TABLE,
-      IndexName: 'SourceIndex',
-      KeyConditionExpression: '#source = :formSubmit',
-      ExpressionAttributeNames: {
-        '#source': 'source'
-      },
-      ExpressionAttributeValues: marshall({
-        ':formSubmit': 'form_submit'
-      }),
-      Select: 'COUNT'
-    }));
+function getAnswerCacheStats(counters, filters) {
+  const hits = getCounter(counters, 'answerCacheHits', filters);
+  const misses = getCounter(counters, 'answerCacheMisses', filters);
+  if (hits === null || misses === null) return null;
 
-    const formSubmissions = queryResult.Count || 0;
-    const rate = Math.round((formSubmissions / totalQuestions) * 100);
+  const total = hits + misses;
+  return {
+    hits,
+    misses,
+    hitRate: total > 0 ? Math.round((hits / total) * 100) : 0
+  };
+}
 
-    console.log(`Escalation rate (actual form submissions): ${formSubmissions}/${totalQuestions} = ${rate}%`);
-    return Math.min(rate, 100); // Cap at 100%
-  } catch (error) {
-    console.error('Error calculating escalation rate:', error);
-    return 0;
+/**
+ * Helper: Read a rollup counter for the language and category filters
+ *
+ * @param {object} counters - Rollup counters
+ * @param {string} metric - Counter name, a key of COUNTER_DIMENSIONS
+ * @param {{language?: string|null, category?: string|null}} filters - Analytics filters
+ * @returns {number|null} Count, or null when the counter is not broken down by a filtered dimension
+ */
+function getCounter(counters, metric, filters) {
+  const dimensions = COUNTER_DIMENSIONS[metric];
+  if ((filters.language && !dimensions.includes('language')) || (filters.category && !dimensions.includes('category'))) {
+    return null;
   }
+
+  let name = metric;
+  if (filters.language) name += `_lang_${filters.language}`;
+  if (filters.category) name += `_cat_${filters.category}`;
+  return counters[name] || 0;
 }
 
 /**
- * Helper: Get out of scope rate from questions table
- * Calculates percentage of questions that couldn't be adequately answered by the chatbot
- * This includes both escalated questions (low confidence) and off-topic questions
+ * Get answer satisfaction from the thumbs up/down ratings in the feedback table
+ * Ratings are broken down by question category, language and the source pages the answers
+ * cited; negative ratings are also summarized by reason, with the most recent comments.
  */
-async function getOutOfScopeRate() {
+async function getFeedbackAnalytics(filters) {
   try {
-    // Get all questions to calculate out-of-scope rate
-    const scanResult = await dynamodb.send(new ScanCommand({
-      TableName: QUESTIONS_TABLE,
-      ProjectionExpression: 'escalated',
-      Limit: 1000
-    }));
+    console.log('Fetching answer feedback...');
+
+    const items = [];
+    if (FEEDBACK_TABLE) {
+      let lastEvaluatedKey;
+      do {
+        const result = await dynamodb.send(new ScanCommand({
+          TableName: FEEDBACK_TABLE,
+          ...getScanFilter(filters, { from: filters.from, to: filters.to }),
+          ExclusiveStartKey: lastEvaluatedKey
+        }));
+        items.push(...(result.Items || []).map(item => unmarshall(item)));
+        lastEvaluatedKey = result.LastEvaluatedKey;
+      } while (lastEvaluatedKey);
+    }
+    console.log(`Found ${items.length} ratings`);
+
+    const totals = newSatisfaction();
+    const byCategory = new Map();
+    const byLanguage = new Map();
+    const bySourcePage = new Map();
+    const reasonCounts = {};
+    const addRating = (groups, key, fields, item) => {
+      if (!groups.has(key)) {
+        groups.set(key, { ...fields, ...newSatisfaction() });
+      }
+      countRating(groups.get(key), item);
+    };
 
-    const items = scanResult.Items?.map(item => unmarshall(item)) || [];
-    const totalQuestions = items.length;
+    for (const item of items) {
+      countRating(totals, item);
+
+      const category = item.category || 'general';
+      addRating(byCategory, category, { category, displayName: CATEGORY_DISPLAY_NAMES[category] || category }, item);
+      const language = item.language || 'en';
+      addRating(byLanguage, language, { language }, item);
+      for (const source of item.sources || []) {
+        addRating(bySourcePage, source.url, { url: source.url, title: source.title || source.url }, item);
+      }
 
-    if (totalQuestions === 0) return 0;
+      if (item.rating === 'down') {
+        (item.reasons || []).forEach(reason => {
+          reasonCounts[reason] = (reasonCounts[reason] || 0) + 1;
+        });
+      }
+    }
 
-    // Count questions that were escalated (couldn't be adequately answered)
-    // This includes both low-confidence questions and off-topic questions
-    const outOfScopeQuestions = items.filter(item =>
-      item.escalated === true
-    ).length;
+    const recentNegative = items
+      .filter(item => item.rating === 'down')
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .slice(0, 20)
+      .map(item => ({
+        sessionId: item.sessionId,
+        messageId: item.messageId,
+        timestamp: item.timestamp,
+        question: item.question || null,
+        reasons: item.reasons || [],
+        comment: item.comment || null,
+        category: item.category || 'general',
+        language: item.language || 'en'
+      }));
 
-    const rate = Math.round((outOfScopeQuestions / totalQuestions) * 100);
+    const byRatings = (a, b) => b.ratings - a.ratings;
+    return createResponse(200, {
+      totals: withSatisfactionRate(totals),
+      byCategory: Array.from(byCategory.values()).map(withSatisfactionRate).sort(byRatings),
+      byLanguage: Array.from(byLanguage.values()).map(withSatisfactionRate).sort(byRatings),
+      // Pages behind the most negative ratings first
+      bySourcePage: Array.from(bySourcePage.values())
+        .map(withSatisfactionRate)
+        .sort((a, b) => b.negative - a.negative || byRatings(a, b))
+        .slice(0, 20),
+      reasons: Object.entries(reasonCounts)
+        .map(([reason, count]) => ({ reason, count }))
+        .sort((a, b) => b.count - a.count),
+      recentNegative
+    });
 
-    console.log(`Out of scope rate (unanswered by chatbot): ${outOfScopeQuestions}/${totalQuestions} = ${rate}%`);
-    return Math.min(rate, 100); // Cap at 100%
   } catch (error) {
-    console.error('Error calculating out of scope rate:', error);
-    return 0;
+    console.error('Error fetching answer feedback:', error);
+    return createResponse(500, {
+      error: 'Failed to fetch answer feedback',
+      message: error.message || 'Unknown error'
+    });
   }
 }
 
+/**
+ * Helper: Empty rating counts
+ */
+function newSatisfaction() {
+  return { ratings: 0, positive: 0, negative: 0 };
+}
+
+/**
+ * Helper: Add a feedback record to rating counts
+ */
+function countRating(counts, item) {
+  counts.ratings++;
+  if (item.rating === 'up') counts.positive++;
+  else if (item.rating === 'down') counts.negative++;
+}
+
+/**
+ * Helper: Rating counts with the share of positive ratings (0-100, null without ratings)
+ */
+function withSatisfactionRate(counts) {
+  return {
+    ...counts,
+    satisfactionRate: counts.ratings > 0 ? Math.round((counts.positive / counts.ratings) * 100) : null
+  };
+}
+
 /**
  * Get detailed category insights
  */
-async function getCategoryInsights() {
+async function getCategoryInsights(filters) {
   try {
     console.log('Fetching category insights...');
 
-    // Get all questions from questions table
-    const scanResult = await dynamodb.send(new ScanCommand({
-      TableName: QUESTIONS_TABLE,
-      Limit: 1000
-    }));
-
-    const items = scanResult.Items?.map(item => unmarshall(item)) || [];
+    // Get questions matching the filters from questions table
+    const items = await scanQuestions(filters, { from: filters.from, to: filters.to });
     console.log(`Found ${items.length} questions for category analysis`);
 
-    const categoryDisplayNames = {
-      'type-1-diabetes': 'Type 1 Diabetes',
-      'type-2-diabetes': 'Type 2 Diabetes',
-      'gestational-diabetes': 'Gestational Diabetes',
-      'prediabetes': 'Prediabetes',
-      'symptoms-diagnosis': 'Symptoms & Diagnosis',
-      'blood-sugar-management': 'Blood Sugar Management',
-      'insulin-medication': 'Insulin & Medication',
-      'diet-nutrition': 'Diet & Nutrition',
-      'exercise-lifestyle': 'Exercise & Lifestyle',
-      'complications': 'Complications',
-      'emergency-care': 'Emergency Care',
-      'insurance-coverage': 'Insurance & Coverage',
-      'general-information': 'General Information',
-      'non-diabetes-related': 'Non-Diabetes Related',
-      'general': 'Uncategorized'
-    };
-
     // Analyze each category
     const categoryInsights = {};
     
@@ -776,7 +1328,7 @@ async function getCategoryInsights() {
       
       if (!categoryInsights[category]) {
         categoryInsights[category] = {
-          displayName: categoryDisplayNames[category] || category,
+          displayName: CATEGORY_DISPLAY_NAMES[category] || category,
           totalQuestions: 0,
           escalatedQuestions: 0,
           averageConfidence: 0,
@@ -854,6 +1406,128 @@ async function getCategoryInsights() {
   }
 }
 
+/**
+ * Helper: Parse and validate the analytics filter query parameters
+ * - from, to: ISO 8601 date (YYYY-MM-DD, whole day) or date-time; to defaults to now and from to
+ *   7 days before to. Without either, each endpoint uses its default window.
+ * - language: en or es
+ * - category: a question category key (see CATEGORY_DISPLAY_NAMES)
+ * - granularity: hour, day (default), week or month - chart bucket size
+ *
+ * @returns {{valid: boolean, message?: string, filters?: object}} filters.from/to are timestamps
+ *   (milliseconds, to exclusive) or null
+ */
+function parseAnalyticsFilters(queryParams) {
+  const invalid = message => ({ valid: false, message });
+  const filters = {
+    from: null,
+    to: null,
+    language: queryParams.language || null,
+    category: queryParams.category || null,
+    granularity: queryParams.granularity || 'day'
+  };
+
+  if (queryParams.from) {
+    filters.from = parseDateParam(queryParams.from, false);
+    if (filters.from === null) return invalid('from must be an ISO 8601 date or date-time');
+  }
+  if (queryParams.to) {
+    filters.to = parseDateParam(queryParams.to, true);
+    if (filters.to === null) return invalid('to must be an ISO 8601 date or date-time');
+  }
+  if (filters.from !== null || filters.to !== null) {
+    filters.to = filters.to ?? Date.now();
+    filters.from = filters.from ?? filters.to - 7 * 24 * 60 * 60 * 1000;
+
+    const rangeDays = (filters.to - filters.from) / (24 * 60 * 60 * 1000);
+    if (rangeDays <= 0) return invalid('from must be before to');
+    if (rangeDays > MAX_RANGE_DAYS) return invalid(`Date range must be ${MAX_RANGE_DAYS} days or less`);
+    if (filters.granularity === 'hour' && rangeDays > MAX_HOURLY_RANGE_DAYS) {
+      return invalid(`Hourly granularity supports date ranges of ${MAX_HOURLY_RANGE_DAYS} days or less`);
+    }
+    if (filters.granularity === 'hour' && filters.from < Date.now() - ROLLUP_HOUR_RETENTION_DAYS * 24 * 60 * 60 * 1000) {
+      return invalid(`Hourly granularity is only available for the last ${ROLLUP_HOUR_RETENTION_DAYS} days`);
+    }
+  }
+
+  if (filters.language && !ANALYTICS_LANGUAGES.includes(filters.language)) {
+    return invalid(`language must be one of: ${ANALYTICS_LANGUAGES.join(', ')}`);
+  }
+  if (filters.category && !Object.hasOwn(CATEGORY_DISPLAY_NAMES, filters.category)) {
+    return invalid(`category must be one of: ${Object.keys(CATEGORY_DISPLAY_NAMES).join(', ')}`);
+  }
+  if (!ANALYTICS_GRANULARITIES.includes(filters.granularity)) {
+    return invalid(`granularity must be one of: ${ANALYTICS_GRANULARITIES.join(', ')}`);
+  }
+
+  return { valid: true, filters };
+}
+
+/**
+ * Helper: Parse a from/to parameter to a timestamp (milliseconds)
+ * A date without a time is the start of that day (UTC), or the end of it for `to`.
+ */
+function parseDateParam(value, isEnd) {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const dayStart = Date.parse(`${value}T00:00:00Z`);
+    return isNaN(dayStart) ? null : dayStart + (isEnd ? 24 * 60 * 60 * 1000 : 0);
+  }
+  const time = Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Helper: The period metrics and trends cover, and the period of the same length before it
+ * Defaults to the last 7 days, in whole hours ending with the current hour.
+ */
+function getTrendPeriods(filters) {
+  const hourMs = 60 * 60 * 1000;
+  const end = filters.to ?? Math.ceil(Date.now() / hourMs) * hourMs;
+  const start = filters.from ?? end - 7 * 24 * hourMs;
+  return {
+    current: { start, end },
+    previous: { start: start - (end - start), end: start }
+  };
+}
+
+/**
+ * Helper: Start of the hour, day, week (Monday) or month (UTC) containing a timestamp
+ */
+function getBucketStart(time, granularity) {
+  const date = new Date(time);
+  if (granularity === 'hour') {
+    date.setUTCMinutes(0, 0, 0);
+  } else {
+    date.setUTCHours(0, 0, 0, 0);
+    if (granularity === 'week') date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    if (granularity === 'month') date.setUTCDate(1);
+  }
+  return date.getTime();
+}
+
+/**
+ * Helper: Move a bucket start by a number of buckets
+ */
+function addBuckets(time, granularity, count) {
+  const date = new Date(time);
+  if (granularity === 'hour') date.setUTCHours(date.getUTCHours() + count);
+  if (granularity === 'day') date.setUTCDate(date.getUTCDate() + count);
+  if (granularity === 'week') date.setUTCDate(date.getUTCDate() + count * 7);
+  if (granularity === 'month') date.setUTCMonth(date.getUTCMonth() + count);
+  return date.getTime();
+}
+
+/**
+ * Helper: Chart label of the bucket containing a timestamp
+ * YYYY-MM-DDTHH (hour), YYYY-MM-DD (day, or the Monday of a week) or YYYY-MM (month)
+ */
+function getBucketKey(time, granularity) {
+  const iso = new Date(getBucketStart(time, granularity)).toISOString();
+  if (granularity === 'hour') return iso.substring(0, 13);
+  if (granularity === 'month') return iso.substring(0, 7);
+  return iso.substring(0, 10);
+}
+
 /**
  * Helper: Calculate week-over-week trend
  *
@@ -899,119 +1573,283 @@ function calculateWeekOverWeekTrend(currentValue, previousValue, invertSign = fa
 }
 
 /**
- * Helper: Get conversation count for a time period
+ * Helper: Get the all-time counters (ROLLUP#TOTAL) written by analytics-aggregator
+ *
+ * @returns {Promise<object>} Counter name -> count
+ */
+async function getRollupTotals() {
+  const result = await dynamodb.send(new GetItemCommand({
+    TableName: ANALYTICS_TABLE,
+    Key: marshall({ PK: 'ROLLUP#TOTAL', SK: 'ALL' })
+  }));
+  return result.Item ? unmarshall(result.Item) : {};
+}
+
+/**
+ * Helper: Sum the rollup counters for a time period
+ * Covers the hours from startTime up to, but not including, endTime. Periods longer than
+ * MAX_HOURLY_RANGE_DAYS, or older than the hourly rollups, are summed from whole days.
  *
  * @param {number} startTime - Start timestamp (milliseconds)
  * @param {number} endTime - End timestamp (milliseconds)
- * @returns {Promise<number>} Count of conversations in period
+ * @returns {Promise<object>} Counter name -> count
  */
-async function getConversationCountForPeriod(startTime, endTime) {
-  try {
-    const scanResult = await dynamodb.send(new ScanCommand({
-      TableName: CHAT_SESSIONS_TABLE,
-      FilterExpression: 'startTime BETWEEN :start AND :end',
-      ExpressionAttributeValues: marshall({
-        ':start': new Date(startTime).toISOString(),
-        ':end': new Date(endTime).toISOString()
-      }),
-      Select: 'COUNT'
-    }));
-    return scanResult.Count || 0;
-  } catch (error) {
-    console.error('Error getting conversation count for period:', error);
-    return 0;
+async function getRollupCountersForPeriod(startTime, endTime) {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const hourly = endTime - startTime <= MAX_HOURLY_RANGE_DAYS * dayMs
+    && startTime >= Date.now() - ROLLUP_HOUR_RETENTION_DAYS * dayMs;
+
+  const rollups = await getRollups(hourly ? 'hour' : 'day', startTime, endTime - 1);
+  return rollups.reduce((counters, rollup) => addCounters(counters, rollup), {});
+}
+
+/**
+ * Helper: Add a rollup item's counters to a counters object
+ */
+function addCounters(counters, rollup) {
+  for (const [name, value] of Object.entries(rollup)) {
+    if (typeof value !== 'number' || name === 'ttl') continue;
+    counters[name] = (counters[name] || 0) + value;
   }
+  return counters;
 }
 
 /**
- * Helper: Get escalation rate for a time period
+ * Helper: Get the hourly or daily rollup items whose bucket falls between two timestamps (inclusive)
  *
+ * @param {'hour'|'day'} granularity - Rollup bucket size
  * @param {number} startTime - Start timestamp (milliseconds)
  * @param {number} endTime - End timestamp (milliseconds)
- * @returns {Promise<number>} Escalation rate percentage (0-100)
+ * @returns {Promise<object[]>} Rollup items, SK is the bucket (YYYY-MM-DDTHH or YYYY-MM-DD)
  */
-async function getEscalationRateForPeriod(startTime, endTime) {
-  try {
-    // Get total questions in period
-    const questionsScan = await dynamodb.send(new ScanCommand({
-      TableName: QUESTIONS_TABLE,
-      FilterExpression: '#ts BETWEEN :start AND :end',
-      ExpressionAttributeNames: {
-        '#ts': 'timestamp'
-      },
+async function getRollups(granularity, startTime, endTime) {
+  const bucketLength = granularity === 'hour' ? 13 : 10;
+  const rollups = [];
+  let lastEvaluatedKey;
+
+  do {
+    const result = await dynamodb.send(new QueryCommand({
+      TableName: ANALYTICS_TABLE,
+      KeyConditionExpression: 'PK = :pk AND SK BETWEEN :start AND :end',
       ExpressionAttributeValues: marshall({
-        ':start': new Date(startTime).toISOString(),
-        ':end': new Date(endTime).toISOString()
+        ':pk': `ROLLUP#${granularity.toUpperCase()}`,
+        ':start': new Date(startTime).toISOString().substring(0, bucketLength),
+        ':end': new Date(endTime).toISOString().substring(0, bucketLength)
       }),
-      Select: 'COUNT'
+      ExclusiveStartKey: lastEvaluatedKey
     }));
 
-    const totalQuestions = questionsScan.Count || 0;
-    if (totalQuestions === 0) return 0;
-
-    // Get form submissions in period
-    const escalationsScan = await dynamodb.send(new ScanCommand({
-      TableName: ESCALATION_REQUESTS_TABLE,
-      FilterExpression: '#src = :formSubmit AND #ts BETWEEN :start AND :end',
-      ExpressionAttributeNames: {
-        '#src': 'source',
-        '#ts': 'timestamp'
-      },
-      ExpressionAttributeValues: marshall({
-        ':formSubmit': 'form_submit',
-        ':start': new Date(startTime).toISOString(),
-        ':end': new Date(endTime).toISOString()
-      }),
-      Select: 'COUNT'
-    }));
+    rollups.push(...(result.Items || []).map(item => unmarshall(item)));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
 
-    const formSubmissions = escalationsScan.Count || 0;
-    const rate = Math.round((formSubmissions / totalQuestions) * 100);
+  return rollups;
+}
 
-    return Math.min(rate, 100); // Cap at 100%
-  } catch (error) {
-    console.error('Error calculating escalation rate for period:', error);
-    return 0;
+/**
+ * Helper: Validate the dataset and query parameters of an export request
+ *
+ * @returns {{valid: boolean, statusCode?: number, message?: string, options?: object}}
+ */
+function parseExportRequest(dataset, queryParams) {
+  const config = EXPORT_DATASETS[dataset];
+  if (!config) {
+    return {
+      valid: false,
+      statusCode: 404,
+      message: `Unknown export dataset: ${dataset}. Use one of: ${Object.keys(EXPORT_DATASETS).join(', ')}`
+    };
+  }
+
+  // Exports are not bucketed, so granularity does not apply
+  const { format = 'csv', redact = 'mask', escalated, granularity, ...analyticsParams } = queryParams;
+  const validation = parseAnalyticsFilters(analyticsParams);
+  if (!validation.valid) {
+    return { valid: false, statusCode: 400, message: validation.message };
+  }
+  const filters = validation.filters;
+
+  for (const dimension of ['language', 'category']) {
+    if (filters[dimension] && !config.dimensions.includes(dimension)) {
+      return { valid: false, statusCode: 400, message: `${dataset} cannot be filtered by ${dimension}` };
+    }
+  }
+  if (!EXPORT_FORMATS.includes(format)) {
+    return { valid: false, statusCode: 400, message: `format must be one of: ${EXPORT_FORMATS.join(', ')}` };
+  }
+  if (!EXPORT_REDACTION_MODES.includes(redact)) {
+    return { valid: false, statusCode: 400, message: `redact must be one of: ${EXPORT_REDACTION_MODES.join(', ')}` };
+  }
+  if (escalated !== undefined && (dataset !== 'questions' || !['true', 'false'].includes(escalated))) {
+    return { valid: false, statusCode: 400, message: 'escalated must be true or false and only applies to questions' };
   }
+
+  return {
+    valid: true,
+    options: { format, redact, filters, escalatedOnly: escalated === 'true' }
+  };
 }
 
 /**
- * Helper: Get out-of-scope rate for a time period
+ * Helper: Scan an export dataset page by page, writing each matching record as a line
  *
- * @param {number} startTime - Start timestamp (milliseconds)
- * @param {number} endTime - End timestamp (milliseconds)
- * @returns {Promise<number>} Out-of-scope rate percentage (0-100)
+ * @param {string} dataset - Key of EXPORT_DATASETS
+ * @param {object} options - Options from parseExportRequest
+ * @param {function(string): void} writeLine - Called with each output line (without newline)
+ * @returns {Promise<number>} Number of records written
  */
-async function getOutOfScopeRateForPeriod(startTime, endTime) {
-  try {
-    // Get all questions in period
-    const scanResult = await dynamodb.send(new ScanCommand({
-      TableName: QUESTIONS_TABLE,
-      FilterExpression: '#ts BETWEEN :start AND :end',
-      ExpressionAttributeNames: {
-        '#ts': 'timestamp'
-      },
-      ExpressionAttributeValues: marshall({
-        ':start': new Date(startTime).toISOString(),
-        ':end': new Date(endTime).toISOString()
+async function writeExport(dataset, { format, redact, filters, escalatedOnly }, writeLine) {
+  const config = EXPORT_DATASETS[dataset];
+  const columns = redact === 'remove'
+    ? config.columns.filter(column => !EXPORT_CONTACT_COLUMNS.includes(column))
+    : config.columns;
+
+  if (format === 'csv') {
+    writeLine(toCsvRow(columns));
+  }
+
+  let count = 0;
+  let lastEvaluatedKey;
+
+  do {
+    const result = await dynamodb.send(new ScanCommand({
+      TableName: config.tableName,
+      ...getScanFilter(filters, {
+        timeAttribute: config.timeAttribute,
+        metadataOnly: dataset === 'sessions',
+        escalatedOnly,
+        from: filters.from,
+        to: filters.to
       }),
-      ProjectionExpression: 'escalated'
+      ExclusiveStartKey: lastEvaluatedKey
     }));
 
-    const items = scanResult.Items?.map(item => unmarshall(item)) || [];
-    const totalQuestions = items.length;
+    for (const item of result.Items || []) {
+      const record = unmarshall(item);
+      const projected = {};
+      for (const column of columns) {
+        if (record[column] !== undefined) projected[column] = record[column];
+      }
+      const row = redact === 'none' ? projected : maskExportRow(projected, redact);
 
-    if (totalQuestions === 0) return 0;
+      writeLine(format === 'csv' ? toCsvRow(columns.map(column => row[column])) : JSON.stringify(row));
+      count++;
+    }
 
-    // Count escalated questions
-    const outOfScopeQuestions = items.filter(item => item.escalated === true).length;
-    const rate = Math.round((outOfScopeQuestions / totalQuestions) * 100);
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
 
-    return Math.min(rate, 100); // Cap at 100%
-  } catch (error) {
-    console.error('Error calculating out of scope rate for period:', error);
-    return 0;
+  return count;
+}
+
+/**
+ * Helper: Format values as a CSV row (RFC 4180 quoting)
+ * Text starting with =, +, - or @ is prefixed with ' so spreadsheets do not run it as a formula.
+ */
+function toCsvRow(values) {
+  return values.map(value => {
+    if (value === undefined || value === null) return '';
+    let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',');
+}
+
+/**
+ * Helper: Mask the contact details in an export row (redact=mask), and those typed into free text (mask or remove)
+ */
+function maskExportRow(row, redact) {
+  const masked = redact === 'mask' ? redactPII(row) : { ...row };
+
+  if (redact === 'mask' && masked.zipCode !== undefined) {
+    masked.zipCode = typeof masked.zipCode === 'string' && masked.zipCode.length >= 3
+      ? `${masked.zipCode.slice(0, 3)}**`
+      : '[REDACTED-ZIP]';
+  }
+  for (const column of EXPORT_FREE_TEXT_COLUMNS) {
+    if (typeof masked[column] === 'string') {
+      masked[column] = maskContactDetails(masked[column]);
+    }
   }
+  return masked;
+}
+
+/**
+ * Helper: Mask email addresses and phone numbers (10 to 15 digits) in free text, in the redactPII formats
+ */
+function maskContactDetails(text) {
+  return text
+    .replace(/[\w.+-]+@[\w-]+(\.[\w-]+)+/g, email => `${email[0]}***@${email.split('@')[1]}`)
+    .replace(/\+?\(?\d[\d\s().-]{8,}\d/g, match => {
+      const digits = match.replace(/\D/g, '');
+      return digits.length >= 10 && digits.length <= 15 ? '***-***-' + digits.slice(-4) : match;
+    });
+}
+
+/**
+ * Redact PII from exported records
+ * Masks email addresses, phone numbers, and other sensitive data
+ * Keep in sync with redactPII in escalation-handler/index.js
+ */
+function redactPII(obj) {
+  if (!obj || typeof obj !== 'object') return obj;
+
+  const redacted = JSON.parse(JSON.stringify(obj)); // Deep clone
+
+  function redactRecursive(item) {
+    if (Array.isArray(item)) {
+      return item.map(redactRecursive);
+    }
+
+    if (item && typeof item === 'object') {
+      const result = {};
+      for (const [key, value] of Object.entries(item)) {
+        const lowerKey = key.toLowerCase();
+
+        // Redact email addresses
+        if (lowerKey.includes('email')) {
+          if (typeof value === 'string' && value.includes('@')) {
+            const parts = value.split('@');
+            result[key] = `${parts[0][0]}***@${parts[1]}`;
+          } else {
+            result[key] = '[REDACTED-EMAIL]';
+          }
+        }
+        // Redact phone numbers
+        else if (lowerKey.includes('phone')) {
+          result[key] = typeof value === 'string' && value.length > 0 ? '***-***-' + value.slice(-4) : '[REDACTED-PHONE]';
+        }
+        // Redact names
+        else if (lowerKey === 'name') {
+          result[key] = typeof value === 'string' && value.length > 0 ? value[0] + '***' : '[REDACTED-NAME]';
+        }
+        // Redact body content which might contain PII
+        else if (lowerKey === 'body' && typeof value === 'string') {
+          try {
+            const parsed = JSON.parse(value);
+            result[key] = JSON.stringify(redactRecursive(parsed));
+          } catch {
+            result[key] = '[REDACTED-BODY]';
+          }
+        }
+        // Recursively handle nested objects
+        else if (value && typeof value === 'object') {
+          result[key] = redactRecursive(value);
+        }
+        // Keep other fields as-is
+        else {
+          result[key] = value;
+        }
+      }
+      return result;
+    }
+
+    return item;
+  }
+
+  return redactRecursive(redacted);
 }
 
 /**
@@ -1024,7 +1862,7 @@ function createResponse(statusCode, body) {
       'Content-Type': 'application/json',
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-      'Access-Control-Allow-Methods': 'GET, OPTIONS'
+      'Access-Control-Allow-Methods': 'GET, PATCH, OPTIONS'
     },
     body: typeof body === 'string' ? body : JSON.stringify(body)
   };
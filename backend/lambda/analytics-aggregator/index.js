@@ -0,0 +1,258 @@
+/**
+ * Analytics Aggregator Lambda
+ * Consolidated single-file implementation
+ *
+ * Maintains pre-aggregated counters (rollups) in the analytics table so admin-analytics can read
+ * dashboard metrics without scanning the sessions, questions and escalation tables.
+ *
+ * Handles:
+ * - DynamoDB Stream records (INSERT) from the chat sessions, questions, escalation requests and
+ *   analytics tables - increments the hourly, daily and all-time rollups
+ * - { action: 'backfill' } - rebuilds the rollups from the source tables (run once after deploy)
+ *
+ * Rollup items:
+ * - PK ROLLUP#HOUR, SK YYYY-MM-DDTHH (kept for ROLLUP_HOUR_TTL_DAYS)
+ * - PK ROLLUP#DAY, SK YYYY-MM-DD
+ * - PK ROLLUP#TOTAL, SK ALL
+ * Each holds one numeric attribute per counter, e.g. questions, questions_lang_es,
+ * questions_cat_diet-nutrition, questions_lang_es_cat_diet-nutrition, escalatedQuestions,
+ * conversations, escalations_form_submit. admin-analytics filters by reading the counter for a
+ * language and/or category.
+ */
+
+const { DynamoDBClient, ScanCommand, UpdateItemCommand, PutItemCommand } = require('@aws-sdk/client-dynamodb');
+const { marshall, unmarshall } = require('@aws-sdk/util-dynamodb');
+
+// Initialize AWS clients
+const dynamodb = new DynamoDBClient({ region: process.env.AWS_REGION || 'us-west-2' });
+
+// Environment variables - No fallbacks for table names (must be set by CDK)
+const ANALYTICS_TABLE = process.env.ANALYTICS_TABLE;
+const CHAT_SESSIONS_TABLE = process.env.CHAT_SESSIONS_TABLE;
+const QUESTIONS_TABLE = process.env.QUESTIONS_TABLE;
+const ESCALATION_REQUESTS_TABLE = process.env.ESCALATION_REQUESTS_TABLE;
+const ROLLUP_HOUR_TTL_DAYS = parseInt(process.env.ROLLUP_HOUR_TTL_DAYS || '90');
+
+/**
+ * Main Lambda handler
+ */
+exports.handler = async (event) => {
+  if (event.action === 'backfill') {
+    console.log('Rollup backfill started');
+    return await backfillRollups();
+  }
+
+  const records = event.Records || [];
+  console.log(`Aggregating ${records.length} stream records`);
+
+  const rollups = new Map();
+  for (const record of records) {
+    if (record.eventName !== 'INSERT' || !record.dynamodb?.NewImage) continue;
+
+    const tableName = record.eventSourceARN?.split('/')[1];
+    const item = unmarshall(record.dynamodb.NewImage);
+    addToRollups(rollups, collectCounters(tableName, item));
+  }
+
+  // Throwing retries the whole batch; a partially applied batch may then be counted twice
+  for (const rollup of rollups.values()) {
+    await incrementRollup(rollup);
+  }
+
+  console.log(`Updated ${rollups.size} rollup items`);
+  return { updated: rollups.size };
+};
+
+/**
+ * Counters contributed by one source item, and the time they are bucketed under
+ * Returns null for items that are not counted.
+ */
+function collectCounters(tableName, item) {
+  const counters = {};
+
+  if (tableName === CHAT_SESSIONS_TABLE) {
+    // Session metadata only - other items in the table are not conversations
+    if (item.SK !== 'METADATA') return null;
+    const language = normalizeLanguage(item.language);
+    counters.conversations = 1;
+    counters[`conversations_lang_${language}`] = 1;
+    return { timestamp: item.startTime, counters };
+  }
+
+  if (tableName === QUESTIONS_TABLE) {
+    const language = normalizeLanguage(item.language);
+    const category = item.category && typeof item.category === 'string' ? item.category : 'general';
+    const metrics = item.escalated === true ? ['questions', 'escalatedQuestions'] : ['questions'];
+    for (const metric of metrics) {
+      counters[metric] = 1;
+      counters[`${metric}_lang_${language}`] = 1;
+      counters[`${metric}_cat_${category}`] = 1;
+      counters[`${metric}_lang_${language}_cat_${category}`] = 1;
+    }
+    return { timestamp: item.timestamp, counters };
+  }
+
+  if (tableName === ESCALATION_REQUESTS_TABLE) {
+    counters.escalations = 1;
+    counters[`escalations_${item.source || 'unknown'}`] = 1;
+    return { timestamp: item.timestamp, counters };
+  }
+
+  if (tableName === ANALYTICS_TABLE) {
+    // Events recorded by chat-processor; rollup items themselves are never counted
+    if (item.PK === 'ANALYTICS#chat' && item.action === 'answer_cache') {
+      const metric = item.data?.hit === true ? 'answerCacheHits' : 'answerCacheMisses';
+      counters[metric] = 1;
+      counters[`${metric}_lang_${normalizeLanguage(item.data?.language)}`] = 1;
+      return { timestamp: item.timestamp, counters };
+    }
+    if (item.PK === 'ANALYTICS#safety' && item.action === 'crisis_detected') {
+      counters.safetyEvents = 1;
+      counters[`safetyEvents_lang_${normalizeLanguage(item.data?.language)}`] = 1;
+      return { timestamp: item.timestamp, counters };
+    }
+    return null;
+  }
+
+  return null;
+}
+
+/**
+ * Add an item's counters to the hourly, daily and all-time rollups
+ */
+function addToRollups(rollups, collected) {
+  if (!collected) return;
+
+  const time = new Date(collected.timestamp || Date.now());
+  if (isNaN(time.getTime())) return;
+
+  const iso = time.toISOString();
+  const keys = [
+    { PK: 'ROLLUP#HOUR', SK: iso.substring(0, 13), granularity: 'hour' },
+    { PK: 'ROLLUP#DAY', SK: iso.substring(0, 10), granularity: 'day' },
+    { PK: 'ROLLUP#TOTAL', SK: 'ALL', granularity: 'total' }
+  ];
+
+  for (const key of keys) {
+    const id = `${key.PK}|${key.SK}`;
+    if (!rollups.has(id)) {
+      rollups.set(id, { ...key, counters: {} });
+    }
+    const rollup = rollups.get(id);
+    for (const [name, value] of Object.entries(collected.counters)) {
+      rollup.counters[name] = (rollup.counters[name] || 0) + value;
+    }
+  }
+}
+
+/**
+ * Atomically add a rollup's counters to its item
+ */
+async function incrementRollup(rollup) {
+  const names = { '#granularity': 'granularity', '#updatedAt': 'updatedAt' };
+  const values = { ':granularity': rollup.granularity, ':updatedAt': new Date().toISOString() };
+  const additions = [];
+
+  Object.entries(rollup.counters).forEach(([name, value], i) => {
+    names[`#c${i}`] = name;
+    values[`:c${i}`] = value;
+    additions.push(`#c${i} :c${i}`);
+  });
+
+  let setExpression = 'SET #granularity = :granularity, #updatedAt = :updatedAt';
+  const ttl = getRollupTtl(rollup);
+  if (ttl) {
+    names['#ttl'] = 'ttl';
+    values[':ttl'] = ttl;
+    setExpression += ', #ttl = :ttl';
+  }
+
+  await dynamodb.send(new UpdateItemCommand({
+    TableName: ANALYTICS_TABLE,
+    Key: marshall({ PK: rollup.PK, SK: rollup.SK }),
+    UpdateExpression: `${setExpression} ADD ${additions.join(', ')}`,
+    ExpressionAttributeNames: names,
+    ExpressionAttributeValues: marshall(values)
+  }));
+}
+
+/**
+ * Rebuild all rollups from the source tables
+ * Overwrites existing rollup items. Counts for records already expired from the source tables
+ * (sessions after 30 days, escalations after 90) are lost, so run this once after deploying.
+ */
+async function backfillRollups() {
+  const rollups = new Map();
+  const sources = [CHAT_SESSIONS_TABLE, QUESTIONS_TABLE, ESCALATION_REQUESTS_TABLE];
+
+  for (const tableName of sources) {
+    let lastEvaluatedKey;
+    let count = 0;
+    do {
+      const result = await dynamodb.send(new ScanCommand({
+        TableName: tableName,
+        ExclusiveStartKey: lastEvaluatedKey
+      }));
+      for (const item of (result.Items || []).map(item => unmarshall(item))) {
+        addToRollups(rollups, collectCounters(tableName, item));
+        count++;
+      }
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+    console.log(`Backfill scanned ${count} items from ${tableName}`);
+  }
+
+  // Answer cache and safety events live in the analytics table itself
+  const analyticsEvents = [
+    { pk: 'ANALYTICS#chat', action: 'answer_cache#' },
+    { pk: 'ANALYTICS#safety', action: 'crisis_detected#' }
+  ];
+  for (const { pk, action } of analyticsEvents) {
+    let lastEvaluatedKey;
+    do {
+      const result = await dynamodb.send(new ScanCommand({
+        TableName: ANALYTICS_TABLE,
+        FilterExpression: 'PK = :pk AND begins_with(SK, :action)',
+        ExpressionAttributeValues: marshall({ ':pk': pk, ':action': action }),
+        ExclusiveStartKey: lastEvaluatedKey
+      }));
+      for (const item of (result.Items || []).map(item => unmarshall(item))) {
+        addToRollups(rollups, collectCounters(ANALYTICS_TABLE, item));
+      }
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+  }
+
+  for (const rollup of rollups.values()) {
+    await dynamodb.send(new PutItemCommand({
+      TableName: ANALYTICS_TABLE,
+      Item: marshall({
+        PK: rollup.PK,
+        SK: rollup.SK,
+        granularity: rollup.granularity,
+        ...rollup.counters,
+        updatedAt: new Date().toISOString(),
+        ttl: getRollupTtl(rollup)
+      }, { removeUndefinedValues: true })
+    }));
+  }
+
+  console.log(`Rollup backfill wrote ${rollups.size} rollup items`);
+  return { statusCode: 200, body: JSON.stringify({ rollups: rollups.size }) };
+}
+
+/**
+ * Hourly rollups expire; daily and all-time rollups are kept
+ */
+function getRollupTtl(rollup) {
+  if (rollup.granularity !== 'hour') return undefined;
+  return Math.floor(new Date(`${rollup.SK}:00:00Z`).getTime() / 1000) + ROLLUP_HOUR_TTL_DAYS * 24 * 60 * 60;
+}
+
+function normalizeLanguage(language) {
+  if (!language || typeof language !== 'string') return 'en';
+  const value = language.toLowerCase();
+  if (value === 'english') return 'en';
+  if (value === 'spanish') return 'es';
+  return value;
+}
@@ -4,34 +4,94 @@
  * 
  * Handles:
  * - POST /chat - Process chat messages
+ * - POST /chat/stream - Process chat messages with a streamed response (streamHandler)
+ * - POST /chat/feedback - Rate an answer (thumbs up/down with reasons and a comment)
  * - GET /health - Health check
  * - GET /chat/history - Get chat history for a session
  * - GET /chat/sessions - Get list of chat sessions
  * - OPTIONS - CORS support
  */
 
-const { DynamoDBClient, PutItemCommand, GetItemCommand, ScanCommand, UpdateItemCommand } = require('@aws-sdk/client-dynamodb');
+const { DynamoDBClient, PutItemCommand, GetItemCommand, ScanCommand, QueryCommand, UpdateItemCommand } = require('@aws-sdk/client-dynamodb');
 const { marshall, unmarshall } = require('@aws-sdk/util-dynamodb');
 const { ComprehendClient, DetectDominantLanguageCommand } = require('@aws-sdk/client-comprehend');
-const { LambdaClient, InvokeCommand } = require('@aws-sdk/client-lambda');
-const { BedrockRuntimeClient, InvokeModelCommand } = require('@aws-sdk/client-bedrock-runtime');
+const { LambdaClient, InvokeCommand, InvokeWithResponseStreamCommand } = require('@aws-sdk/client-lambda');
 const crypto = require('crypto');
+const { createLlmProvider } = require('../shared/llm-provider');
+const { publishEscalationEvent } = require('../shared/escalation-events');
+const { SAFETY_CATEGORIES, classifyMessageSafety, getSafetyResponse } = require('./safety-classifier');
+const { DEFAULT_ESCALATION_POLICY, validateEscalationPolicy, evaluateEscalationPolicy, getConfidenceThreshold, describeReasons } = require('../shared/escalation-policy');
 
 // Initialize AWS clients
 const dynamodb = new DynamoDBClient({ region: process.env.AWS_REGION || 'us-west-2' });
 const comprehend = new ComprehendClient({ region: process.env.AWS_REGION || 'us-west-2' });
 const lambda = new LambdaClient({ region: process.env.AWS_REGION || 'us-west-2' });
 
+// LLM provider (LLM_PROVIDER=bedrock|local)
+const llm = createLlmProvider();
+
 // Environment variables - No fallbacks for table names (must be set by CDK)
 const SESSIONS_TABLE = process.env.CHAT_SESSIONS_TABLE;
 const MESSAGES_TABLE = process.env.MESSAGES_TABLE;
 const ANALYTICS_TABLE = process.env.ANALYTICS_TABLE;
 const ESCALATION_TABLE = process.env.ESCALATION_REQUESTS_TABLE;
 const QUESTIONS_TABLE = process.env.QUESTIONS_TABLE;
+const FEEDBACK_TABLE = process.env.FEEDBACK_TABLE;
 const RAG_FUNCTION_NAME = process.env.RAG_FUNCTION_NAME;
+const RAG_STREAM_FUNCTION_NAME = process.env.RAG_STREAM_FUNCTION_NAME;
 const RAG_ENDPOINT = process.env.RAG_ENDPOINT || '';
 const FRONTEND_URL = process.env.FRONTEND_URL || '';
 
+// Number of prior messages sent to the RAG processor as conversation context
+const HISTORY_WINDOW_MESSAGES = parseInt(process.env.HISTORY_WINDOW_MESSAGES || '10', 10);
+// Languages answers are given in; a turn's language is resolved by resolveTurnLanguage
+const SUPPORTED_LANGUAGES = ['en', 'es'];
+// Detection only decides the language on its own when Comprehend is this sure, on messages of at least this many words
+const LANGUAGE_DETECTION_MIN_SCORE = parseFloat(process.env.LANGUAGE_DETECTION_MIN_SCORE || '0.8');
+const LANGUAGE_DETECTION_MIN_WORDS = 3;
+
+// Latest messages returned by GET /chat/history; feedback looks up the rated answer among them
+const HISTORY_MAX_MESSAGES = 100;
+const CLASSIFICATION_MODEL = process.env.CLASSIFICATION_MODEL || 'anthropic.claude-3-haiku-20240307-v1:0';
+
+// Safety classifier - crisis messages get a fixed emergency response instead of a generated answer
+const SAFETY_MODEL_CHECK = (process.env.SAFETY_MODEL_CHECK || 'true').toLowerCase() === 'true';
+const SAFETY_CLASSIFICATION_MODEL = process.env.SAFETY_CLASSIFICATION_MODEL || CLASSIFICATION_MODEL;
+
+// Semantic answer cache - repeated standalone questions reuse a stored answer until it expires or a KB ingestion completes
+const ANSWER_CACHE_TABLE = process.env.ANSWER_CACHE_TABLE;
+const ANSWER_CACHE_SIMILARITY = parseFloat(process.env.ANSWER_CACHE_SIMILARITY || '0.95');
+const ANSWER_CACHE_TTL_HOURS = parseInt(process.env.ANSWER_CACHE_TTL_HOURS || '168', 10);
+const ANSWER_CACHE_MAX_CANDIDATES = parseInt(process.env.ANSWER_CACHE_MAX_CANDIDATES || '5000', 10); // Memory bound per language
+const ANSWER_CACHE_CANDIDATES_REFRESH_MS = 5 * 60 * 1000; // Other containers' answers become matchable within 5 minutes
+// Written by content-processor when an ingestion job completes; entries created before it are stale
+const ANSWER_CACHE_INVALIDATION_KEY = { language: 'META', questionHash: 'INVALIDATION' };
+
+// Cached question embeddings per language, reused across warm invocations so cache misses don't query the table
+const answerCacheCandidates = new Map();
+
+// Curated answers - vetted answers authored by clinical staff, served before the answer cache and RAG
+const CURATED_ANSWERS_TABLE = process.env.CURATED_ANSWERS_TABLE;
+const CURATED_FUZZY_THRESHOLD = parseFloat(process.env.CURATED_FUZZY_THRESHOLD || '0.95');
+const CURATED_TYPO_MIN_LENGTH = 5; // Shorter words ("not", "stop", "take") must match exactly
+const CURATED_SEMANTIC_THRESHOLD = parseFloat(process.env.CURATED_SEMANTIC_THRESHOLD || '0.9');
+const CURATED_ANSWERS_REFRESH_MS = 60 * 1000; // Edits are picked up within a minute
+
+// Curated answers loaded from the table, reused across warm invocations
+let curatedAnswersCache = { loadedAt: 0, answers: [] };
+
+// Answer feedback - one rating per bot message; negative ratings are listed in the unanswered question triage
+const FEEDBACK_RATINGS = ['up', 'down'];
+const FEEDBACK_REASONS = ['incorrect', 'not_helpful', 'incomplete', 'hard_to_understand', 'outdated', 'other'];
+const MAX_FEEDBACK_COMMENT_LENGTH = 1000;
+
+// Escalation policy - thresholds and patterns edited in the admin dashboard (see escalation-policy.js)
+const ESCALATION_POLICY_TABLE = process.env.ESCALATION_POLICY_TABLE;
+const ESCALATION_POLICY_REFRESH_MS = 60 * 1000; // Edits are picked up within a minute
+
+// Escalation policy loaded from the table, reused across warm invocations
+let escalationPolicyCache = { loadedAt: 0, policy: DEFAULT_ESCALATION_POLICY };
+
 /**
  * Main Lambda handler
  */
@@ -52,7 +112,9 @@ exports.handler = async (event) => {
     const method = event.httpMethod;
 
     // Route requests
-    if (method === 'POST' && (path === '/chat' || path.endsWith('/chat'))) {
+    if (method === 'POST' && (path === '/chat/feedback' || path.endsWith('/chat/feedback'))) {
+      return await handleFeedback(event);
+    } else if (method === 'POST' && (path === '/chat' || path.endsWith('/chat'))) {
       return await handleChatMessage(event);
     } else if (method === 'GET' && (path === '/health' || path === '/chat/health' || path.endsWith('/health'))) {
       return await handleHealthCheck(event);
@@ -67,6 +129,7 @@ exports.handler = async (event) => {
         error: 'Endpoint not found',
         availableEndpoints: [
           'POST /chat',
+          'POST /chat/feedback',
           'GET /health',
           'GET /chat/history?sessionId=<sessionId>',
           'GET /chat/sessions?limit=<limit>'
@@ -88,159 +151,390 @@ exports.handler = async (event) => {
  */
 async function handleChatMessage(event) {
   try {
-    if (!event.body) {
-      return createResponse(400, {
-        error: 'Request body is required',
-        message: 'Please provide a chat message'
-      }, event);
+    const turn = await prepareChatTurn(event);
+    if (turn.response) {
+      return turn.response;
     }
 
-    let request;
+    // Step 4a: Answer crisis messages with fixed emergency guidance, without RAG
+    const processingStart = Date.now();
+    const safety = await classifyTurnSafety(turn);
+    if (safety) {
+      const safetyResponse = await completeSafetyTurn(turn, safety, Date.now() - processingStart);
+      return createResponse(200, safetyResponse, event);
+    }
+
+    // Step 5: Generate response using a curated answer, the answer cache or RAG
+    const ragResponse = await generateAnswer(
+      turn,
+      () => generateResponse(turn.request.message, turn.language, turn.history, turn.policy)
+    );
+    const processingTime = Date.now() - processingStart;
+
+    const frontendResponse = await completeChatTurn(turn, ragResponse, processingTime);
+
+    return createResponse(200, frontendResponse, event);
+
+  } catch (error) {
+    console.error('Chat message processing error:', error);
+    const { statusCode, ...details } = getChatErrorDetails(error);
+    return createResponse(statusCode, details, event);
+  }
+}
+
+/**
+ * Streaming Lambda handler for POST /chat/stream
+ * Writes one JSON object per line so the chat UI can render the answer as it is generated:
+ * - { type: 'start', sessionId } once the session is known
+ * - { type: 'delta', text } for each generated text fragment
+ * - { type: 'reset', text } when the text sent so far is replaced by text (an answer that failed verification)
+ * - { type: 'done', message, messageId, sources, citations, sessionId, language, escalated, safety? } with the same payload POST /chat returns
+ * - { type: 'error', error, message } if processing fails after the stream has started
+ *
+ * awslambda.streamifyResponse is only provided by the Lambda Node.js runtime.
+ */
+if (typeof globalThis.awslambda?.streamifyResponse === 'function') {
+  exports.streamHandler = awslambda.streamifyResponse(async (event, responseStream) => {
+    console.log('Chat stream processor invoked:', JSON.stringify(event, null, 2));
+
+    let turn;
     try {
-      request = JSON.parse(event.body);
-    } catch (parseError) {
-      return createResponse(400, {
+      turn = await prepareChatTurn(event);
+    } catch (error) {
+      console.error('Chat stream setup error:', error);
+      const { statusCode, ...details } = getChatErrorDetails(error);
+      turn = { response: createResponse(statusCode, details, event) };
+    }
+
+    // Validation failures are returned as a regular JSON error response
+    if (turn.response) {
+      const errorStream = awslambda.HttpResponseStream.from(responseStream, {
+        statusCode: turn.response.statusCode,
+        headers: turn.response.headers
+      });
+      errorStream.write(turn.response.body);
+      errorStream.end();
+      return;
+    }
+
+    const { headers } = createResponse(200, '', event);
+    const stream = awslambda.HttpResponseStream.from(responseStream, {
+      statusCode: 200,
+      headers: {
+        ...headers,
+        'Content-Type': 'application/x-ndjson',
+        'Cache-Control': 'no-cache'
+      }
+    });
+    const writeEvent = (payload) => stream.write(JSON.stringify(payload) + '\n');
+
+    try {
+      writeEvent({ type: 'start', sessionId: turn.session.sessionId });
+
+      // Step 4a: Answer crisis messages with fixed emergency guidance, without RAG
+      const processingStart = Date.now();
+      const safety = await classifyTurnSafety(turn);
+      if (safety) {
+        const safetyResponse = await completeSafetyTurn(turn, safety, Date.now() - processingStart);
+        writeEvent({ type: 'delta', text: safetyResponse.message });
+        writeEvent({ type: 'done', ...safetyResponse });
+        return;
+      }
+
+      // Step 5: Generate response using a curated answer, the answer cache or RAG, forwarding text as it arrives
+      const onDelta = (text) => writeEvent({ type: 'delta', text });
+      const onReset = (text) => writeEvent({ type: 'reset', text });
+      const ragResponse = await generateAnswer(
+        turn,
+        () => generateResponseStream(turn.request.message, turn.language, turn.history, turn.policy, onDelta, onReset),
+        onDelta
+      );
+      const processingTime = Date.now() - processingStart;
+
+      const frontendResponse = await completeChatTurn(turn, ragResponse, processingTime);
+      writeEvent({ type: 'done', ...frontendResponse });
+
+    } catch (error) {
+      console.error('Chat stream processing error:', error);
+      writeEvent({
+        type: 'error',
+        error: 'Failed to process chat message',
+        message: error.message || 'Unknown error'
+      });
+    } finally {
+      stream.end();
+    }
+  });
+}
+
+/**
+ * Validate the request and set up the session for a chat turn (steps 1-4)
+ * Returns { request, session, language, languageSource, history, policy } or { response } with an error response
+ */
+async function prepareChatTurn(event) {
+  if (!event.body) {
+    return {
+      response: createResponse(400, {
+        error: 'Request body is required',
+        message: 'Please provide a chat message'
+      }, event)
+    };
+  }
+
+  let request;
+  try {
+    request = JSON.parse(event.body);
+  } catch (parseError) {
+    return {
+      response: createResponse(400, {
         error: 'Invalid JSON',
         message: 'Request body must be valid JSON'
-      }, event);
-    }
+      }, event)
+    };
+  }
 
-    // Validate request
-    const validation = validateChatRequest(request);
-    if (!validation.valid) {
-      return createResponse(400, {
+  // Validate request
+  const validation = validateChatRequest(request);
+  if (!validation.valid) {
+    return {
+      response: createResponse(400, {
         error: 'Validation error',
         message: validation.message
-      }, event);
-    }
+      }, event)
+    };
+  }
 
-    const timestamp = new Date();
-
-    // Step 1: Check if session exists first
-    let existingSession = null;
-    if (request.sessionId) {
-      try {
-        const result = await dynamodb.send(new GetItemCommand({
-          TableName: SESSIONS_TABLE,
-          Key: marshall({
-            PK: `SESSION#${request.sessionId}`,
-            SK: 'METADATA'
-          })
-        }));
+  const timestamp = new Date();
 
-        if (result.Item) {
-          existingSession = unmarshall(result.Item);
-        }
-      } catch (error) {
-        console.log('Session not found, will create new one:', error);
+  // Step 1: Check if session exists first
+  let existingSession = null;
+  if (request.sessionId) {
+    try {
+      const result = await dynamodb.send(new GetItemCommand({
+        TableName: SESSIONS_TABLE,
+        Key: marshall({
+          PK: `SESSION#${request.sessionId}`,
+          SK: 'METADATA'
+        })
+      }));
+
+      if (result.Item) {
+        existingSession = unmarshall(result.Item);
       }
+    } catch (error) {
+      console.log('Session not found, will create new one:', error);
     }
+  }
 
-    // Step 2: Detect language only for new sessions (optimization)
-    let language;
-    if (existingSession) {
-      // Reuse existing session language (no API call needed)
-      language = existingSession.language || 'en';
-      console.log(`Reusing session language: ${language}`);
-    } else {
-      // New session - detect language from first message
-      language = await detectLanguage(request.message);
-      console.log(`Detected language for new session: ${language}`);
-    }
+  // Step 2: Resolve the language of this turn (message, UI selection, then session language)
+  const { language, source: languageSource } = await resolveTurnLanguage(request, existingSession);
+  console.log(`Language for this turn: ${language} (${languageSource})`);
 
-    // Step 3: Get or create session (will reuse existingSession if available)
-    const session = await getOrCreateSession(request.sessionId, language, request.userInfo, existingSession);
+  // Step 3: Get or create session (will reuse existingSession if available)
+  const session = await getOrCreateSession(request.sessionId, language, request.userInfo, existingSession);
 
-    // Step 4: Store user message
-    await storeUserMessage(session.sessionId, request.message, language, timestamp);
+  // Step 3a: Load recent turns before storing the new message so it isn't duplicated in the history
+  const history = existingSession ? await getConversationContext(session.sessionId) : [];
 
-    // Step 5: Generate response using RAG
-    const processingStart = Date.now();
-    const ragResponse = await generateResponse(request.message, language);
-    const processingTime = Date.now() - processingStart;
+  // Step 4: Store user message
+  await storeUserMessage(session.sessionId, request.message, language, timestamp);
 
-    // Step 6: Store bot response
-    await storeBotMessage(
-      session.sessionId,
-      ragResponse.response,
-      language,
-      ragResponse.confidence,
-      ragResponse.sources,
-      processingTime
-    );
+  const policy = await loadEscalationPolicy();
 
-    // Step 7: Check for escalation
-    const escalationSuggested = shouldEscalate(ragResponse.confidence, request.message);
+  return { request, session, language, languageSource, history, policy };
+}
 
-    // Step 7a: Handle escalation
-    let finalResponse = ragResponse.response;
-    if (escalationSuggested) {
-      await createEscalation(session.sessionId, 'Low confidence or complex query');
+/**
+ * Store the answer, handle escalation and record analytics for a chat turn (steps 6-10)
+ * Returns the frontend-focused response
+ */
+async function completeChatTurn(turn, ragResponse, processingTime) {
+  const { request, session, language } = turn;
+  const category = await categorizeQuestion(request.message, language);
+  const questionId = `q-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+  // Step 6: Check for escalation against the escalation policy
+  const evaluation = evaluateEscalationPolicy(turn.policy, {
+    message: request.message,
+    language,
+    category,
+    confidence: ragResponse.confidence,
+    groundedness: ragResponse.groundedness,
+    lowConfidenceCount: session.lowConfidenceCount || 0
+  });
+  const escalationSuggested = evaluation.escalate;
+
+  // Step 6a: Handle escalation
+  let finalResponse = ragResponse.response;
+  if (escalationSuggested) {
+    console.log(`Escalating (${evaluation.urgency}): ${evaluation.reasonCodes.join(', ')}`);
+    await createEscalation(session.sessionId, describeReasons(evaluation.reasons), {
+      urgency: evaluation.urgency,
+      question: request.message,
+      reasonCodes: evaluation.reasonCodes
+    });
 
-      // Replace generic escalation message with more helpful one
-      if (ragResponse.response.includes('Sorry, I am unable to assist you with this request') ||
-          ragResponse.response.includes('Lo siento, no puedo ayudarte con esta solicitud')) {
-        finalResponse = language === 'es'
-          ? 'Permíteme conectarte con alguien que pueda ayudarte con eso.'
-          : 'Let me connect you with someone who can help you with that.';
-      }
+    // Replace generic escalation message with more helpful one
+    if (ragResponse.response.includes('Sorry, I am unable to assist you with this request') ||
+        ragResponse.response.includes('Lo siento, no puedo ayudarte con esta solicitud')) {
+      finalResponse = language === 'es'
+        ? 'Permíteme conectarte con alguien que pueda ayudarte con eso.'
+        : 'Let me connect you with someone who can help you with that.';
     }
+  }
 
-    // Step 8: Update session activity
-    try {
-      await updateSessionActivity(session.sessionId);
-    } catch (error) {
-      console.error('Failed to update session activity:', error);
+  // Step 7: Store the response as shown (with the category and question record feedback is reported by)
+  const botMessage = await storeBotMessage(
+    session.sessionId,
+    finalResponse,
+    language,
+    ragResponse.confidence,
+    ragResponse.sources,
+    processingTime,
+    {
+      citations: ragResponse.citations,
+      groundednessScore: ragResponse.groundedness?.score,
+      category,
+      questionId,
+      escalated: escalationSuggested
     }
+  );
+
+  // Step 8: Update session activity
+  try {
+    await updateSessionActivity(session.sessionId, { language, lowConfidence: evaluation.lowConfidence });
+  } catch (error) {
+    console.error('Failed to update session activity:', error);
+  }
 
-    // Step 9: Record analytics
-    await recordAnalytics('chat', 'message_processed', {
-      sessionId: session.sessionId,
+  // Step 9: Record analytics
+  await recordAnalytics('chat', 'message_processed', {
+    sessionId: session.sessionId,
+    language,
+    languageSource: turn.languageSource, // How the language was chosen (see resolveTurnLanguage)
+    confidence: ragResponse.confidence,
+    groundednessScore: ragResponse.groundedness?.score,
+    escalated: escalationSuggested,
+    escalationReasons: evaluation.reasonCodes,
+    answerSource: ragResponse.answerSource, // 'curated', 'cache' or 'rag'
+    curatedAnswerId: ragResponse.curatedAnswerId,
+    processingTime
+  });
+
+  // Step 10: Process question for analytics
+  try {
+    await processQuestion(
+      request.message,
+      finalResponse,
+      ragResponse.confidence,
       language,
-      confidence: ragResponse.confidence,
-      escalated: escalationSuggested,
-      processingTime
-    });
+      session.sessionId,
+      escalationSuggested,
+      {
+        questionId,
+        category,
+        escalationReasons: evaluation.reasonCodes,
+        groundednessScore: ragResponse.groundedness?.score,
+        translatedQuery: ragResponse.translatedQuery,
+        answerSource: ragResponse.answerSource,
+        curatedAnswerId: ragResponse.curatedAnswerId
+      }
+    );
+  } catch (error) {
+    console.error('Failed to process question for analytics:', error);
+  }
 
-    // Step 10: Process question for analytics
-    try {
-      await processQuestion(
-        request.message,
-        finalResponse,
-        ragResponse.confidence,
-        language,
-        session.sessionId,
-        escalationSuggested
-      );
-    } catch (error) {
-      console.error('Failed to process question for analytics:', error);
-    }
+  // Return frontend-focused response
+  return {
+    message: finalResponse,
+    messageId: botMessage.messageId, // Used to rate the answer (POST /chat/feedback)
+    sources: ragResponse.sources || [],
+    citations: ragResponse.citations || [],
+    sessionId: session.sessionId,
+    language, // Language the answer is in (see resolveTurnLanguage)
+    escalated: escalationSuggested
+  };
+}
 
-    // Return frontend-focused response
-    const frontendResponse = {
-      message: finalResponse,
-      sources: ragResponse.sources || [],
-      sessionId: session.sessionId,
-      escalated: escalationSuggested
-    };
+/**
+ * Check a chat turn's message for a medical emergency or crisis (see safety-classifier.js)
+ */
+async function classifyTurnSafety(turn) {
+  return classifyMessageSafety(turn.request.message, {
+    llm,
+    modelId: SAFETY_CLASSIFICATION_MODEL,
+    useModel: SAFETY_MODEL_CHECK
+  });
+}
 
-    return createResponse(200, frontendResponse, event);
+/**
+ * Store the fixed emergency response, escalate as urgent and record the safety event for a crisis turn
+ * Crisis messages are left out of question analytics (processQuestion).
+ */
+async function completeSafetyTurn(turn, safety, processingTime) {
+  const { request, session, language } = turn;
+  const response = getSafetyResponse(safety.category, language);
 
+  const botMessage = await storeBotMessage(session.sessionId, response, language, 1, [], processingTime, {
+    safetyCategory: safety.category,
+    escalated: true
+  });
+
+  await createEscalation(session.sessionId, `Safety: ${safety.category}`, {
+    urgency: 'urgent',
+    question: request.message,
+    reasonCodes: ['safety']
+  });
+
+  try {
+    await updateSessionActivity(session.sessionId, { language });
   } catch (error) {
-    console.error('Chat message processing error:', error);
-    
-    if (error.message && error.message.includes('required')) {
-      return createResponse(400, {
-        error: 'Bad Request',
-        message: error.message
-      }, event);
+    console.error('Failed to update session activity:', error);
+  }
+
+  // Audit record of the detection; the message itself stays in the messages table
+  await recordAnalytics('safety', 'crisis_detected', {
+    sessionId: session.sessionId,
+    language,
+    category: safety.category,
+    severity: safety.severity,
+    method: safety.method, // 'rules' or 'model'
+    rule: safety.rule,
+    processingTime
+  });
+
+  return {
+    message: response,
+    messageId: botMessage.messageId,
+    sources: [],
+    citations: [],
+    sessionId: session.sessionId,
+    language,
+    escalated: true,
+    safety: {
+      category: safety.category,
+      severity: safety.severity
     }
-    
-    return createResponse(500, {
-      error: 'Failed to process chat message',
-      message: error.message || 'Unknown error'
-    }, event);
+  };
+}
+
+/**
+ * Map a chat processing error to a status code and response body
+ */
+function getChatErrorDetails(error) {
+  if (error.message && error.message.includes('required')) {
+    return {
+      statusCode: 400,
+      error: 'Bad Request',
+      message: error.message
+    };
   }
+
+  return {
+    statusCode: 500,
+    error: 'Failed to process chat message',
+    message: error.message || 'Unknown error'
+  };
 }
 
 /**
@@ -342,7 +636,7 @@ async function handleChatHistory(event) {
 
     return createResponse(200, {
       sessionId,
-      messages: history,
+      messages: history.map(toHistoryMessage),
       timestamp: new Date().toISOString()
     }, event);
 
@@ -355,6 +649,38 @@ async function handleChatHistory(event) {
   }
 }
 
+/**
+ * Map a stored message to the shape the chat UI renders
+ * Assistant messages keep what the chat needs to show them again: citations, the escalation
+ * prompt, the emergency banner and the messageId to rate them with.
+ */
+function toHistoryMessage(message) {
+  // Sessions from before resolveTurnLanguage can have messages in unsupported languages
+  const language = SUPPORTED_LANGUAGES.includes(message.language) ? message.language : undefined;
+
+  if (message.sender === 'user') {
+    return {
+      id: message.messageId,
+      type: 'user',
+      content: message.content,
+      timestamp: message.timestamp,
+      language
+    };
+  }
+
+  const safetyDefinition = message.safetyCategory ? SAFETY_CATEGORIES[message.safetyCategory] : null;
+  return {
+    id: message.messageId,
+    type: 'assistant',
+    content: message.content,
+    timestamp: message.timestamp,
+    language,
+    citations: message.citations || [],
+    escalated: message.escalated === true,
+    ...(safetyDefinition ? { safety: { category: message.safetyCategory, severity: safetyDefinition.severity } } : {})
+  };
+}
+
 /**
  * Handle chat sessions request
  */
@@ -378,6 +704,168 @@ async function handleChatSessions(event) {
   }
 }
 
+/**
+ * Handle answer feedback
+ * Stores the rating against the bot message (rating the same message again replaces it). Negative
+ * ratings flag the answered question so it is listed in the unanswered question triage.
+ */
+async function handleFeedback(event) {
+  try {
+    if (!event.body) {
+      return createResponse(400, {
+        error: 'Request body is required',
+        message: 'Please provide the feedback'
+      }, event);
+    }
+
+    let request;
+    try {
+      request = JSON.parse(event.body);
+    } catch (parseError) {
+      return createResponse(400, {
+        error: 'Invalid JSON',
+        message: 'Request body must be valid JSON'
+      }, event);
+    }
+
+    const validation = validateFeedbackRequest(request);
+    if (!validation.valid) {
+      return createResponse(400, {
+        error: 'Validation error',
+        message: validation.message
+      }, event);
+    }
+
+    const answer = await findSessionMessage(request.sessionId, 'messageId = :messageId AND sender = :bot', {
+      ':messageId': request.messageId,
+      ':bot': 'bot'
+    });
+    if (!answer) {
+      return createResponse(404, {
+        error: 'Message not found',
+        message: 'The session has no answer with this messageId'
+      }, event);
+    }
+
+    // The question is the last user message before the answer
+    const question = await findSessionMessage(request.sessionId, 'sender = :user', { ':user': 'user' }, answer.timestamp);
+    const feedback = {
+      sessionId: request.sessionId,
+      messageId: request.messageId,
+      rating: request.rating,
+      reasons: [...new Set(request.reasons || [])],
+      comment: request.comment?.trim() || undefined,
+      question: question?.content,
+      questionId: answer.questionId,
+      language: answer.language || 'en',
+      category: answer.category, // Not set on safety responses
+      // Source pages the answer was based on
+      sources: (answer.sources || [])
+        .filter(source => source.url)
+        .map(source => ({ url: source.url, title: source.title || source.url })),
+      timestamp: new Date().toISOString(),
+      ttl: Math.floor(Date.now() / 1000) + (365 * 24 * 60 * 60) // 1 year TTL
+    };
+
+    await dynamodb.send(new PutItemCommand({
+      TableName: FEEDBACK_TABLE,
+      Item: marshall(feedback, { removeUndefinedValues: true })
+    }));
+
+    if (feedback.questionId) {
+      await updateQuestionFeedback(feedback.questionId, feedback);
+    }
+
+    console.log(`Recorded ${feedback.rating} feedback for ${feedback.messageId} (${feedback.reasons.join(', ') || 'no reasons'})`);
+    return createResponse(200, {
+      sessionId: feedback.sessionId,
+      messageId: feedback.messageId,
+      rating: feedback.rating,
+      reasons: feedback.reasons,
+      timestamp: feedback.timestamp
+    }, event);
+
+  } catch (error) {
+    console.error('Feedback error:', error);
+    return createResponse(500, {
+      error: 'Internal server error',
+      message: 'Failed to record feedback'
+    }, event);
+  }
+}
+
+/**
+ * Find the newest message of a session matching a filter, optionally only messages before a timestamp
+ * Pages through the whole session, so messages older than the chat history window are found too.
+ */
+async function findSessionMessage(sessionId, filterExpression, values, before) {
+  let lastEvaluatedKey;
+  do {
+    const result = await dynamodb.send(new QueryCommand({
+      TableName: MESSAGES_TABLE,
+      KeyConditionExpression: before ? 'conversationId = :sessionId AND #timestamp < :before' : 'conversationId = :sessionId',
+      FilterExpression: filterExpression,
+      ...(before && { ExpressionAttributeNames: { '#timestamp': 'timestamp' } }),
+      ExpressionAttributeValues: marshall({ ':sessionId': sessionId, ...values, ...(before && { ':before': before }) }),
+      ScanIndexForward: false,
+      ExclusiveStartKey: lastEvaluatedKey
+    }));
+    if (result.Items?.length) {
+      return unmarshall(result.Items[0]);
+    }
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return null;
+}
+
+/**
+ * Validate a feedback request
+ */
+function validateFeedbackRequest(request) {
+  for (const field of ['sessionId', 'messageId']) {
+    if (typeof request[field] !== 'string' || !request[field] || request[field].length > 200) {
+      return { valid: false, message: `${field} is required` };
+    }
+  }
+  if (!FEEDBACK_RATINGS.includes(request.rating)) {
+    return { valid: false, message: `rating must be one of: ${FEEDBACK_RATINGS.join(', ')}` };
+  }
+  if (request.reasons !== undefined &&
+      (!Array.isArray(request.reasons) || request.reasons.some(reason => !FEEDBACK_REASONS.includes(reason)))) {
+    return { valid: false, message: `reasons must be a list of: ${FEEDBACK_REASONS.join(', ')}` };
+  }
+  if (request.comment !== undefined && request.comment !== null &&
+      (typeof request.comment !== 'string' || request.comment.length > MAX_FEEDBACK_COMMENT_LENGTH)) {
+    return { valid: false, message: `comment must be a string of at most ${MAX_FEEDBACK_COMMENT_LENGTH} characters` };
+  }
+  return { valid: true };
+}
+
+/**
+ * Flag the question record of a negatively rated answer for triage, or clear the flag when the
+ * rating is changed to positive
+ */
+async function updateQuestionFeedback(questionId, { rating, reasons }) {
+  try {
+    await dynamodb.send(new UpdateItemCommand({
+      TableName: QUESTIONS_TABLE,
+      Key: marshall({ questionId }),
+      ConditionExpression: 'attribute_exists(questionId)', // Expired question records are not recreated
+      ...(rating === 'down'
+        ? {
+          UpdateExpression: 'SET negativeFeedback = :negative, feedbackReasons = :reasons',
+          ExpressionAttributeValues: marshall({ ':negative': true, ':reasons': reasons })
+        }
+        : { UpdateExpression: 'REMOVE negativeFeedback, feedbackReasons' })
+    }));
+  } catch (error) {
+    if (error.name !== 'ConditionalCheckFailedException') {
+      console.error('Failed to update question feedback:', error);
+    }
+  }
+}
+
 /**
  * Validate chat request
  */
@@ -389,6 +877,10 @@ function validateChatRequest(request) {
   if (request.message.length > 5000) {
     return { valid: false, message: 'Message content cannot exceed 5000 characters' };
   }
+
+  if (request.language !== undefined && !SUPPORTED_LANGUAGES.includes(request.language)) {
+    return { valid: false, message: `language must be one of: ${SUPPORTED_LANGUAGES.join(', ')}` };
+  }
   
   return { valid: true };
 }
@@ -416,24 +908,56 @@ function detectLanguageFallback(text) {
   return hasSpanishIndicators ? 'es' : 'en';
 }
 
+/**
+ * Resolve the language a chat turn is answered in, by precedence:
+ * 1. The message's own language, when detection is confident (lets users switch mid-conversation)
+ * 2. The language selected in the chat UI (request.language)
+ * 3. The session's language
+ * 4. The best guess from detection
+ * Returns { language, source } with source 'detected', 'selected', 'session' or 'guessed'
+ */
+async function resolveTurnLanguage(request, existingSession) {
+  const detected = await detectLanguage(request.message);
+
+  if (detected.confident) {
+    return { language: detected.language, source: 'detected' };
+  }
+  if (request.language) {
+    return { language: request.language, source: 'selected' };
+  }
+  if (SUPPORTED_LANGUAGES.includes(existingSession?.language)) {
+    return { language: existingSession.language, source: 'session' };
+  }
+  return { language: detected.language, source: 'guessed' };
+}
+
 /**
  * Detect language using Comprehend with heuristic fallback
+ * Returns { language, confident }; only a supported language Comprehend scored at least
+ * LANGUAGE_DETECTION_MIN_SCORE on a message of LANGUAGE_DETECTION_MIN_WORDS words is confident.
+ * Short messages ("A1C?") are not sent to Comprehend.
  */
 async function detectLanguage(text) {
+  const fallback = { language: detectLanguageFallback(text), confident: false };
+  if (text.trim().split(/\s+/).length < LANGUAGE_DETECTION_MIN_WORDS) {
+    return fallback;
+  }
+
   try {
     const result = await comprehend.send(new DetectDominantLanguageCommand({
       Text: text
     }));
 
-    if (result.Languages && result.Languages.length > 0) {
-      return result.Languages[0].LanguageCode || detectLanguageFallback(text);
+    const best = (result.Languages || []).reduce((top, candidate) => (!top || candidate.Score > top.Score ? candidate : top), null);
+    if (!best || !SUPPORTED_LANGUAGES.includes(best.LanguageCode)) {
+      // No supported language detected, use heuristic fallback
+      return fallback;
     }
 
-    // No languages detected, use heuristic fallback
-    return detectLanguageFallback(text);
+    return { language: best.LanguageCode, confident: best.Score >= LANGUAGE_DETECTION_MIN_SCORE };
   } catch (error) {
     console.error('Language detection failed, using heuristic fallback:', error);
-    return detectLanguageFallback(text);
+    return fallback;
   }
 }
 
@@ -450,6 +974,7 @@ async function getOrCreateSession(sessionId, language = 'en', userInfo, existing
       escalated: existingSession.escalated,
       messageCount: existingSession.messageCount,
       lastActivity: existingSession.lastActivity,
+      lowConfidenceCount: existingSession.lowConfidenceCount,
       userInfo: existingSession.userInfo,
       ttl: existingSession.ttl
     };
@@ -475,6 +1000,7 @@ async function getOrCreateSession(sessionId, language = 'en', userInfo, existing
           escalated: session.escalated,
           messageCount: session.messageCount,
           lastActivity: session.lastActivity,
+          lowConfidenceCount: session.lowConfidenceCount,
           userInfo: session.userInfo,
           ttl: session.ttl
         };
@@ -540,56 +1066,525 @@ async function storeUserMessage(sessionId, content, language, timestamp) {
 /**
  * Generate response using RAG processor
  */
-async function generateResponse(message, language) {
+async function generateResponse(message, language, history = [], policy = DEFAULT_ESCALATION_POLICY) {
   try {
     // Call RAG processor Lambda function
-    const ragPayload = {
-      httpMethod: 'POST',
-      path: '/query',
-      body: JSON.stringify({
-        query: message,
-        language: language,
-        maxResults: 5,
-        confidenceThreshold: 0.75
-      })
-    };
-    
     const result = await lambda.send(new InvokeCommand({
       FunctionName: RAG_FUNCTION_NAME,
-      Payload: JSON.stringify(ragPayload)
+      Payload: JSON.stringify(buildRagPayload(message, language, history, policy, '/query'))
     }));
     
     const response = JSON.parse(new TextDecoder().decode(result.Payload));
     
     if (response.statusCode === 200) {
-      const ragResponse = JSON.parse(response.body);
-      return {
-        response: ragResponse.response || 'I apologize, but I could not generate a response to your question.',
-        confidence: ragResponse.confidence || 0.5,
-        sources: ragResponse.sources || []
-      };
+      return toRagResult(JSON.parse(response.body));
     } else {
       throw new Error(`RAG processor returned status ${response.statusCode}`);
     }
     
   } catch (error) {
     console.error('RAG generation failed:', error);
-    
-    // Fallback response
+    return getRagFallbackResponse(language);
+  }
+}
+
+/**
+ * Generate response using the streaming RAG processor
+ * Passes each text fragment to onDelta as it arrives, and text replacing what was streamed to onReset,
+ * and resolves with the complete result
+ */
+async function generateResponseStream(message, language, history, policy, onDelta, onReset) {
+  try {
+    const result = await lambda.send(new InvokeWithResponseStreamCommand({
+      FunctionName: RAG_STREAM_FUNCTION_NAME,
+      Payload: JSON.stringify(buildRagPayload(message, language, history, policy, '/query/stream'))
+    }));
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let ragResponse = null;
+
+    // RAG stream emits one JSON event per line; chunks can split lines
+    const handleLine = (line) => {
+      const streamEvent = JSON.parse(line);
+      if (streamEvent.type === 'delta') {
+        onDelta(streamEvent.text);
+      } else if (streamEvent.type === 'reset') {
+        onReset(streamEvent.text);
+      } else if (streamEvent.type === 'complete') {
+        ragResponse = streamEvent.response;
+      } else if (streamEvent.type === 'error') {
+        throw new Error(`RAG processor returned status ${streamEvent.statusCode}: ${streamEvent.message}`);
+      }
+    };
+
+    for await (const streamEvent of result.EventStream) {
+      if (streamEvent.PayloadChunk?.Payload) {
+        buffer += decoder.decode(streamEvent.PayloadChunk.Payload, { stream: true });
+
+        let newlineIndex;
+        while ((newlineIndex = buffer.indexOf('\n')) >= 0) {
+          const line = buffer.slice(0, newlineIndex).trim();
+          buffer = buffer.slice(newlineIndex + 1);
+          if (line) handleLine(line);
+        }
+      } else if (streamEvent.InvokeComplete?.ErrorCode) {
+        throw new Error(`RAG stream failed: ${streamEvent.InvokeComplete.ErrorCode} ${streamEvent.InvokeComplete.ErrorDetails || ''}`);
+      }
+    }
+
+    if (buffer.trim()) handleLine(buffer.trim());
+
+    if (!ragResponse) {
+      throw new Error('RAG stream ended without a complete response');
+    }
+
+    return toRagResult(ragResponse);
+
+  } catch (error) {
+    console.error('RAG streaming generation failed:', error);
+    return getRagFallbackResponse(language);
+  }
+}
+
+/**
+ * Answer a chat turn from a matching curated answer, then the answer cache, then generate (RAG)
+ * The result has the RAG result shape plus answerSource: 'curated', 'cache' or 'rag'
+ */
+async function generateAnswer(turn, generate, onDelta) {
+  const { request, language } = turn;
+  const embedQuestion = memoizeQuestionEmbedding(request.message);
+
+  const curated = await findCuratedAnswer(request.message, language, embedQuestion);
+  if (curated) {
+    if (onDelta) onDelta(curated.response);
+    return curated;
+  }
+
+  return generateWithAnswerCache(turn, generate, onDelta, embedQuestion);
+}
+
+/**
+ * Answer from the cache when a fresh, similar question was answered before; otherwise call generate
+ * and cache its answer. Only standalone questions (no conversation history) use the cache, since
+ * follow-ups depend on context. Cache errors never fail the turn.
+ */
+async function generateWithAnswerCache(turn, generate, onDelta, embedQuestion) {
+  const { request, language, history } = turn;
+  if (!ANSWER_CACHE_TABLE || history.length > 0) {
+    return { ...(await generate()), answerSource: 'rag' };
+  }
+
+  let lookup = null;
+  try {
+    lookup = await lookupCachedAnswer(request.message, language, embedQuestion);
+    await recordAnalytics('chat', 'answer_cache', {
+      language,
+      hit: lookup.hit,
+      matchType: lookup.matchType,
+      similarity: lookup.similarity
+    });
+  } catch (error) {
+    console.error('Answer cache lookup failed:', error);
+  }
+
+  if (lookup?.hit) {
+    console.log(`Answer cache hit (${lookup.matchType}, similarity ${lookup.similarity.toFixed(3)})`);
+    if (onDelta) onDelta(lookup.ragResponse.response);
+    return { ...lookup.ragResponse, answerSource: 'cache' };
+  }
+
+  const ragResponse = await generate();
+  await storeCachedAnswer(request.message, language, ragResponse, embedQuestion, turn.policy);
+  return { ...ragResponse, answerSource: 'rag' };
+}
+
+/**
+ * Look up a cached answer: exact match on the normalized question first, then the most similar
+ * cached question by embedding. Returns { hit, ragResponse, matchType, similarity }.
+ */
+async function lookupCachedAnswer(message, language, embedQuestion) {
+  const normalized = normalizeQuestion(message);
+  const [exact, invalidation] = await Promise.all([
+    getCachedAnswer(language, hashQuestion(normalized)),
+    getCachedAnswer(ANSWER_CACHE_INVALIDATION_KEY.language, ANSWER_CACHE_INVALIDATION_KEY.questionHash)
+  ]);
+
+  const invalidatedAt = invalidation?.invalidatedAt || '';
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const isFresh = (entry) => entry && entry.createdAt > invalidatedAt && entry.ttl > nowSeconds;
+
+  if (isFresh(exact)) {
+    return { hit: true, ragResponse: exact.ragResponse, matchType: 'exact', similarity: 1 };
+  }
+
+  const [embedding, candidates] = await Promise.all([embedQuestion(), loadAnswerCacheCandidates(language)]);
+  let best = null;
+
+  for (const candidate of candidates) {
+    if (!isFresh(candidate)) continue;
+
+    const similarity = cosineSimilarity(embedding, candidate.embedding);
+    if (!best || similarity > best.similarity) {
+      best = { questionHash: candidate.questionHash, similarity };
+    }
+  }
+
+  if (best && best.similarity >= ANSWER_CACHE_SIMILARITY) {
+    const entry = await getCachedAnswer(language, best.questionHash);
+    if (isFresh(entry)) {
+      return { hit: true, ragResponse: entry.ragResponse, matchType: 'semantic', similarity: best.similarity };
+    }
+  }
+
+  return { hit: false, matchType: null, similarity: best ? best.similarity : null };
+}
+
+/**
+ * Load the unexpired cached question embeddings for a language, paging through every entry
+ * Reloaded every ANSWER_CACHE_CANDIDATES_REFRESH_MS; answers cached by this container are added as they are stored.
+ * Past ANSWER_CACHE_MAX_CANDIDATES only the most recent entries are kept, and a warning is logged.
+ */
+async function loadAnswerCacheCandidates(language) {
+  const cached = answerCacheCandidates.get(language);
+  if (cached && Date.now() - cached.loadedAt < ANSWER_CACHE_CANDIDATES_REFRESH_MS) {
+    return cached.candidates;
+  }
+
+  const candidates = [];
+  let lastEvaluatedKey;
+
+  do {
+    const result = await dynamodb.send(new QueryCommand({
+      TableName: ANSWER_CACHE_TABLE,
+      KeyConditionExpression: '#language = :language',
+      ExpressionAttributeNames: { '#language': 'language', '#ttl': 'ttl' },
+      ExpressionAttributeValues: marshall({ ':language': language, ':now': Math.floor(Date.now() / 1000) }),
+      FilterExpression: '#ttl > :now', // TTL deletion can lag by days
+      ProjectionExpression: 'questionHash, embedding, createdAt, #ttl',
+      ExclusiveStartKey: lastEvaluatedKey
+    }));
+
+    for (const item of (result.Items || []).map(i => unmarshall(i))) {
+      if (!item.embedding) continue;
+      candidates.push({ ...item, embedding: decodeEmbedding(item.embedding) });
+    }
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  if (candidates.length > ANSWER_CACHE_MAX_CANDIDATES) {
+    console.warn(`Answer cache holds ${candidates.length} ${language} entries; matching only the ${ANSWER_CACHE_MAX_CANDIDATES} most recent (ANSWER_CACHE_MAX_CANDIDATES)`);
+    candidates.sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+    candidates.length = ANSWER_CACHE_MAX_CANDIDATES;
+  }
+
+  answerCacheCandidates.set(language, { loadedAt: Date.now(), candidates });
+  return candidates;
+}
+
+/**
+ * Cache an answer unless it is low confidence, a fallback, or would be escalated
+ */
+async function storeCachedAnswer(message, language, ragResponse, embedQuestion, policy) {
+  const evaluation = evaluateEscalationPolicy(policy, {
+    message,
+    language,
+    confidence: ragResponse.confidence,
+    groundedness: ragResponse.groundedness
+  });
+  if (!ragResponse.sources?.length || evaluation.escalate) {
+    return;
+  }
+
+  try {
+    const normalized = normalizeQuestion(message);
+    const questionHash = hashQuestion(normalized);
+    const vector = await embedQuestion();
+    const createdAt = new Date().toISOString();
+    const ttl = Math.floor(Date.now() / 1000) + ANSWER_CACHE_TTL_HOURS * 60 * 60;
+
+    await dynamodb.send(new PutItemCommand({
+      TableName: ANSWER_CACHE_TABLE,
+      Item: marshall({
+        language,
+        questionHash,
+        question: message,
+        embedding: Buffer.from(new Float32Array(vector).buffer),
+        ragResponse: {
+          response: ragResponse.response,
+          confidence: ragResponse.confidence,
+          sources: ragResponse.sources,
+          citations: ragResponse.citations,
+          groundedness: ragResponse.groundedness,
+          translatedQuery: ragResponse.translatedQuery
+        },
+        createdAt,
+        ttl
+      }, { removeUndefinedValues: true })
+    }));
+
+    const cached = answerCacheCandidates.get(language);
+    if (cached) {
+      cached.candidates = cached.candidates.filter(candidate => candidate.questionHash !== questionHash);
+      cached.candidates.push({ questionHash, embedding: Float32Array.from(vector), createdAt, ttl });
+    }
+  } catch (error) {
+    console.error('Failed to cache answer:', error);
+  }
+}
+
+async function getCachedAnswer(language, questionHash) {
+  const result = await dynamodb.send(new GetItemCommand({
+    TableName: ANSWER_CACHE_TABLE,
+    Key: marshall({ language, questionHash })
+  }));
+  return result.Item ? unmarshall(result.Item) : null;
+}
+
+/**
+ * Find an active curated answer for the message in the given language
+ * Tries an exact match on a question variant, then fuzzy (the same words up to typos), then semantic (embedding).
+ * Returns a RAG-shaped result, or null when nothing matches or curated answers are unavailable.
+ */
+async function findCuratedAnswer(message, language, embedQuestion) {
+  if (!CURATED_ANSWERS_TABLE) return null;
+
+  try {
+    const now = new Date().toISOString();
+    const candidates = (await loadCuratedAnswers()).filter(answer =>
+      answer.enabled !== false &&
+      (!answer.effectiveFrom || answer.effectiveFrom <= now) &&
+      (!answer.expiresAt || answer.expiresAt > now) &&
+      answer.answers?.[language] &&
+      answer.questions?.[language]?.length > 0
+    );
+    if (candidates.length === 0) return null;
+
+    const normalized = normalizeQuestion(message);
+    let match = null;
+
+    // Exact and fuzzy matches on the normalized question variants
+    for (const answer of candidates) {
+      for (const variant of answer.questions[language]) {
+        const similarity = typoSimilarity(normalized, normalizeQuestion(variant));
+        if (similarity >= CURATED_FUZZY_THRESHOLD && (!match || similarity > match.similarity)) {
+          match = { answer, matchType: similarity === 1 ? 'exact' : 'fuzzy', similarity };
+        }
+      }
+    }
+
+    // Semantic match on the variant embeddings stored by the curated-answers Lambda
+    if (!match) {
+      const embedding = await embedQuestion();
+      for (const answer of candidates) {
+        for (const variantEmbedding of answer.embeddings?.[language] || []) {
+          const similarity = cosineSimilarity(embedding, decodeEmbedding(variantEmbedding));
+          if (similarity >= CURATED_SEMANTIC_THRESHOLD && (!match || similarity > match.similarity)) {
+            match = { answer, matchType: 'semantic', similarity };
+          }
+        }
+      }
+    }
+
+    if (!match) return null;
+
+    console.log(`Curated answer ${match.answer.answerId} matched (${match.matchType}, similarity ${match.similarity.toFixed(3)})`);
+    const sources = (match.answer.sources || []).map(source => ({
+      url: source.url,
+      title: source.title || source.url,
+      excerpt: ''
+    }));
+
     return {
-      response: language === 'es' 
-        ? 'Lo siento, no puedo ayudarte con esta solicitud en este momento.'
-        : 'Sorry, I am unable to assist you with this request at this time.',
-      confidence: 0.3,
-      sources: []
+      response: match.answer.answers[language],
+      confidence: 1,
+      sources,
+      citations: sources.map((source, idx) => ({ id: idx + 1, ...source })),
+      groundedness: null,
+      translatedQuery: null,
+      answerSource: 'curated',
+      curatedAnswerId: match.answer.answerId
     };
+
+  } catch (error) {
+    console.error('Curated answer matching failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Load curated answers, refreshing at most once per CURATED_ANSWERS_REFRESH_MS
+ * Keeps serving the previous list if a refresh fails.
+ */
+async function loadCuratedAnswers() {
+  if (Date.now() - curatedAnswersCache.loadedAt < CURATED_ANSWERS_REFRESH_MS) {
+    return curatedAnswersCache.answers;
+  }
+
+  try {
+    const answers = [];
+    let lastEvaluatedKey;
+    do {
+      const result = await dynamodb.send(new ScanCommand({
+        TableName: CURATED_ANSWERS_TABLE,
+        ExclusiveStartKey: lastEvaluatedKey
+      }));
+      answers.push(...(result.Items || []).map(item => unmarshall(item)));
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+    curatedAnswersCache = { loadedAt: Date.now(), answers };
+  } catch (error) {
+    console.error('Failed to load curated answers:', error);
+  }
+
+  return curatedAnswersCache.answers;
+}
+
+/**
+ * Embed the normalized message at most once per turn, and only if a step needs it
+ */
+function memoizeQuestionEmbedding(message) {
+  let embedding = null;
+  return () => {
+    if (!embedding) {
+      embedding = llm.embed(normalizeQuestion(message));
+    }
+    return embedding;
+  };
+}
+
+/**
+ * Similarity of two normalized questions that differ only by typos (1 = identical, 0 = not the same question)
+ * Both must have the same words in the same order. A word may be off by one edit only if it has at least
+ * CURATED_TYPO_MIN_LENGTH letters and no digits, so "stop"/"start", "skip"/"take" or an added "not" never match.
+ */
+function typoSimilarity(a, b) {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const wordsA = a.split(' ');
+  const wordsB = b.split(' ');
+  if (wordsA.length !== wordsB.length) return 0;
+
+  let edits = 0;
+  for (let i = 0; i < wordsA.length; i++) {
+    if (wordsA[i] === wordsB[i]) continue;
+    const isTypo = Math.min(wordsA[i].length, wordsB[i].length) >= CURATED_TYPO_MIN_LENGTH &&
+      !/\d/.test(wordsA[i] + wordsB[i]) &&
+      editDistance(wordsA[i], wordsB[i]) === 1;
+    if (!isTypo) return 0;
+    edits++;
+  }
+
+  return 1 - edits / Math.max(a.length, b.length);
+}
+
+/**
+ * Levenshtein distance between two words
+ */
+function editDistance(s, t) {
+  let previous = Array.from({ length: t.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= s.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= t.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (s[i - 1] === t[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[t.length];
+}
+
+function normalizeQuestion(text) {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function hashQuestion(normalized) {
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+function decodeEmbedding(bytes) {
+  // Copy so the Float32Array view is aligned
+  const copy = Uint8Array.from(bytes);
+  return new Float32Array(copy.buffer);
+}
+
+function cosineSimilarity(a, b) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
   }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+/**
+ * Build the invocation payload for the RAG processor, with the thresholds from the escalation policy
+ */
+function buildRagPayload(message, language, history, policy, path) {
+  return {
+    httpMethod: 'POST',
+    path,
+    body: JSON.stringify({
+      query: message,
+      language: language,
+      history: history,
+      maxResults: 5,
+      confidenceThreshold: getConfidenceThreshold(policy, language),
+      minRelevanceScore: policy.sources.minRelevanceScore,
+      groundednessMinScore: policy.groundedness.minScore
+    })
+  };
+}
+
+/**
+ * Pick the fields chat-processor uses from a RAG processor response
+ */
+function toRagResult(ragResponse) {
+  return {
+    response: ragResponse.response || 'I apologize, but I could not generate a response to your question.',
+    confidence: ragResponse.confidence || 0.5,
+    sources: ragResponse.sources || [],
+    citations: ragResponse.citations || [],
+    groundedness: ragResponse.groundedness || null,
+    translatedQuery: ragResponse.metadata?.translatedQuery || null
+  };
+}
+
+/**
+ * Fallback response when the RAG processor is unavailable
+ */
+function getRagFallbackResponse(language) {
+  return {
+    response: language === 'es' 
+      ? 'Lo siento, no puedo ayudarte con esta solicitud en este momento.'
+      : 'Sorry, I am unable to assist you with this request at this time.',
+    confidence: 0.3,
+    sources: [],
+    citations: [],
+    groundedness: null,
+    translatedQuery: null
+  };
 }
 
 /**
  * Store bot response
  */
-async function storeBotMessage(sessionId, content, language, confidence, sources, processingTime) {
+async function storeBotMessage(sessionId, content, language, confidence, sources, processingTime, details = {}) {
   const botMessage = {
     messageId: `msg-${Date.now()}-bot`,
     sessionId,
@@ -599,6 +1594,12 @@ async function storeBotMessage(sessionId, content, language, confidence, sources
     language,
     confidence,
     sources,
+    citations: details.citations || [],
+    groundednessScore: details.groundednessScore ?? undefined,
+    safetyCategory: details.safetyCategory,
+    category: details.category,
+    questionId: details.questionId, // Question record in the questions table
+    escalated: details.escalated,
     processingTime
   };
   
@@ -616,76 +1617,90 @@ async function storeBotMessage(sessionId, content, language, confidence, sources
 }
 
 /**
- * Check if escalation should be suggested
+ * Load the escalation policy, refreshing at most once per ESCALATION_POLICY_REFRESH_MS
+ * Without a table, a saved policy or with an invalid one, the default policy applies.
  */
-function shouldEscalate(confidence, message) {
-  // Escalate if confidence is below threshold (based on Bedrock KB relevance scores)
-  // 0.75 = good semantic match between query and retrieved content
-  if (confidence < 0.75) {
-    return true;
+async function loadEscalationPolicy() {
+  if (!ESCALATION_POLICY_TABLE || Date.now() - escalationPolicyCache.loadedAt < ESCALATION_POLICY_REFRESH_MS) {
+    return escalationPolicyCache.policy;
   }
 
-  // Escalate if user explicitly asks for human help
-  // Use word boundary patterns to avoid false positives (e.g., "humanely", "personal")
-  const escalationPatterns = [
-    // ENGLISH: General human contact
-    /\btalk to (a |an )?person\b/i,
-    /\bspeak to (a |an )?human\b/i,
-    /\bhuman help\b/i,
-    /\brepresentative\b/i,
-
-    // ENGLISH: Doctor/physician requests
-    /\b(talk to|speak to|speak with|see|contact|need|find) (a |an )?(doctor|physician)\b/i,
-    /\bmedical (advice|help|professional|guidance)\b/i,
-    /\b(connect|refer) me (to|with) (a |an )?(doctor|physician)\b/i,
-
-    // ENGLISH: Emergency/urgent (CRITICAL)
-    /\b(medical )?emergency\b/i,
-    /\burgent (medical )?(help|care|attention|assistance)\b/i,
-    /\bimmediate (medical )?(help|attention|care)\b/i,
-
-    // ENGLISH: Healthcare providers
-    /\b(talk to|speak to|see|need) (a |an )?(nurse|specialist|clinician)\b/i,
-    /\b(healthcare|health care) provider\b/i,
-    /\bmedical (consultation|appointment)\b/i,
-
-    // SPANISH: General human contact
-    /\bhablar con (una )?persona\b/i,
-    /\bhablar con (un )?humano\b/i,
-    /\bayuda humana\b/i,
-    /\brepresentante\b/i,
-
-    // SPANISH: Doctor/physician requests
-    /\b(hablar con|ver|contactar|necesito|encontrar) (un |una )?(médico|doctor|doctora)\b/i,
-    /\b(consejo|ayuda|orientación) médic[oa]\b/i,
-    /\b(conectar|conect|referir)([ae])?rme (con|a) (un |una )?(médico|doctor)\b/i,
-
-    // SPANISH: Emergency/urgent (CRITICAL)
-    /\bemergencia( médica)?\b/i,
-    /\bayuda urgente( médica)?\b/i,
-    /\batención (médica )?inmediata\b/i,
-
-    // SPANISH: Healthcare providers
-    /\b(hablar con|ver|necesito) (un |una )?(enfermera|enfermero|especialista)\b/i,
-    /\bproveedor de (salud|atención médica)\b/i,
-    /\bconsulta médica\b/i,
-  ];
+  try {
+    const result = await dynamodb.send(new GetItemCommand({
+      TableName: ESCALATION_POLICY_TABLE,
+      Key: marshall({ policyId: 'active' })
+    }));
+
+    let policy = DEFAULT_ESCALATION_POLICY;
+    if (result.Item) {
+      const stored = unmarshall(result.Item);
+      const validation = validateEscalationPolicy(stored.policy);
+      if (validation.valid) {
+        policy = stored.policy;
+      } else {
+        console.error(`Invalid escalation policy version ${stored.version}, using the default policy:`, validation.message);
+      }
+    }
+    escalationPolicyCache = { loadedAt: Date.now(), policy };
+  } catch (error) {
+    console.error('Failed to load escalation policy:', error);
+  }
 
-  return escalationPatterns.some(pattern => pattern.test(message));
+  return escalationPolicyCache.policy;
 }
 
 /**
  * Create escalation record
+ * A conversation has a single escalation case: when the session already has one (from an earlier
+ * turn or the contact form), the repeat escalation is recorded on it instead. Staff are notified of
+ * new cases, and of repeats only when they are urgent.
  */
-async function createEscalation(sessionId, reason) {
+async function createEscalation(sessionId, reason, { urgency = 'normal', question, reasonCodes = [] } = {}) {
+  const now = new Date().toISOString();
+  const existing = await getSessionEscalation(sessionId);
+
+  if (existing) {
+    try {
+      // An urgent repeat upgrades the case; a normal one never downgrades it
+      const urgencyUpdate = urgency === 'urgent' ? ', urgency = :urgency' : '';
+      await dynamodb.send(new UpdateItemCommand({
+        TableName: ESCALATION_TABLE,
+        Key: marshall({ escalationId: existing.escalationId }),
+        UpdateExpression: `SET reason = if_not_exists(reason, :reason), reasonCodes = if_not_exists(reasonCodes, :reasonCodes), chatEscalatedAt = if_not_exists(chatEscalatedAt, :now), lastChatEscalatedAt = :now${urgencyUpdate} ADD chatEscalationCount :one`,
+        ConditionExpression: 'attribute_exists(escalationId)', // Just merged into a contact form case
+        ExpressionAttributeValues: marshall({
+          ':reason': reason,
+          ':reasonCodes': reasonCodes,
+          ':now': now,
+          ':one': 1,
+          ...(urgencyUpdate ? { ':urgency': urgency } : {})
+        })
+      }));
+    } catch (error) {
+      if (error.name !== 'ConditionalCheckFailedException') throw error;
+      console.log(`Escalation ${existing.escalationId} was merged before the repeat escalation was recorded`);
+      return existing;
+    }
+
+    if (urgency === 'urgent') {
+      await publishEscalationEvent('escalation.repeated', { ...existing, reason: existing.reason || reason, urgency }, { urgency, question });
+    }
+    return existing;
+  }
+
   const escalationId = `esc-${crypto.randomUUID()}`;
   
   const escalationRecord = {
     escalationId,
     sessionId,
     reason,
+    reasonCodes, // Escalation policy rules that matched (see escalation-policy.js)
     status: 'pending',
-    timestamp: new Date().toISOString(),
+    timestamp: now,
+    chatEscalatedAt: now,
+    lastChatEscalatedAt: now,
+    chatEscalationCount: 1,
+    urgency,
     source: 'chat_escalation',
     ttl: Math.floor(Date.now() / 1000) + (90 * 24 * 60 * 60) // 90 days TTL
   };
@@ -694,26 +1709,44 @@ async function createEscalation(sessionId, reason) {
     TableName: ESCALATION_TABLE,
     Item: marshall(escalationRecord, { removeUndefinedValues: true })
   }));
+
+  await publishEscalationEvent('escalation.created', escalationRecord, { urgency, question });
   
   return escalationRecord;
 }
 
-
+/**
+ * Get the escalation case of a session, if any (SessionIndex GSI, oldest first)
+ */
+async function getSessionEscalation(sessionId) {
+  const result = await dynamodb.send(new QueryCommand({
+    TableName: ESCALATION_TABLE,
+    IndexName: 'SessionIndex',
+    KeyConditionExpression: 'sessionId = :sessionId',
+    ExpressionAttributeValues: marshall({ ':sessionId': sessionId }),
+    Limit: 1
+  }));
+  return result.Items?.length ? unmarshall(result.Items[0]) : null;
+}
 
 /**
  * Update session activity
+ * language is the language of the latest turn, which later turns fall back to.
+ * lowConfidence counts the answer towards the session's lowConfidenceCount (repeated low confidence rule).
  */
-async function updateSessionActivity(sessionId) {
+async function updateSessionActivity(sessionId, { language, lowConfidence = false } = {}) {
   await dynamodb.send(new UpdateItemCommand({
     TableName: SESSIONS_TABLE,
     Key: marshall({
       PK: `SESSION#${sessionId}`,
       SK: 'METADATA'
     }),
-    UpdateExpression: 'SET lastActivity = :timestamp, messageCount = messageCount + :inc',
+    UpdateExpression: `SET lastActivity = :timestamp, messageCount = messageCount + :inc${language ? ', #language = :language' : ''}${lowConfidence ? ' ADD lowConfidenceCount :inc' : ''}`,
+    ...(language ? { ExpressionAttributeNames: { '#language': 'language' } } : {}),
     ExpressionAttributeValues: marshall({
       ':timestamp': new Date().toISOString(),
-      ':inc': 1
+      ':inc': 1,
+      ...(language ? { ':language': language } : {})
     })
   }));
 }
@@ -745,19 +1778,24 @@ async function recordAnalytics(category, action, data) {
 /**
  * Process question for analytics with AI-powered categorization
  */
-async function processQuestion(question, response, confidence, language, sessionId, escalated) {
+async function processQuestion(question, response, confidence, language, sessionId, escalated, details = {}) {
   try {
-    // Get AI-powered category
-    const category = await categorizeQuestion(question, language);
+    // Get AI-powered category (unless the caller already has it)
+    const category = details.category || await categorizeQuestion(question, language);
     
     const questionRecord = {
-      questionId: `q-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-      question,
+      questionId: details.questionId || `q-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      question, // As asked, in the user's language
+      translatedQuery: details.translatedQuery || undefined, // English query used for retrieval of Spanish questions
       response,
       confidence,
+      groundednessScore: details.groundednessScore ?? undefined, // Share of answer sentences supported by the sources
+      answerSource: details.answerSource, // 'curated', 'cache' or 'rag'
+      curatedAnswerId: details.curatedAnswerId || undefined,
       language,
       sessionId,
       escalated, // This will be true for low confidence or explicit escalation requests
+      escalationReasons: details.escalationReasons?.length ? details.escalationReasons : undefined,
       category, // Now uses AI-powered categorization
       timestamp: new Date().toISOString(),
       date: new Date().toISOString().split('T')[0],
@@ -826,28 +1864,16 @@ Question: "${question}"
 
 Respond with ONLY the category name.`;
 
-    // Use Bedrock to categorize
-    const bedrockCommand = new InvokeModelCommand({
-      modelId: 'anthropic.claude-3-haiku-20240307-v1:0', // Fast, cost-effective model for classification
-      body: JSON.stringify({
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: 50,
-        temperature: 0, // Deterministic classification
-        messages: [{
-          role: 'user',
-          content: prompt
-        }]
-      })
+    // Use the LLM provider to categorize (fast, cost-effective model for classification)
+    const category = await llm.classify({
+      prompt,
+      text: question,
+      labels: categories,
+      modelId: CLASSIFICATION_MODEL
     });
-
-    const bedrockClient = new BedrockRuntimeClient({ region: process.env.AWS_REGION || 'us-west-2' });
-    const response = await bedrockClient.send(bedrockCommand);
-    const result = JSON.parse(new TextDecoder().decode(response.body));
-    
-    const category = result.content[0].text.trim().toLowerCase();
     
-    // Validate category is in our list
-    if (categories.includes(category)) {
+    // Provider returns null when the answer isn't one of our categories
+    if (category) {
       return category;
     } else {
       // Fallback to keyword-based classification
@@ -968,31 +1994,58 @@ function classifyByKeywords(question, language = 'en') {
 }
 
 /**
- * Get chat history for a session
+ * Get the latest messages of a session (at most HISTORY_MAX_MESSAGES), oldest first
  */
 async function getChatHistory(sessionId) {
   try {
-    const result = await dynamodb.send(new ScanCommand({
+    const result = await dynamodb.send(new QueryCommand({
       TableName: MESSAGES_TABLE,
-      FilterExpression: 'conversationId = :sessionId',
+      KeyConditionExpression: 'conversationId = :sessionId',
       ExpressionAttributeValues: marshall({
         ':sessionId': sessionId
       }),
-      Limit: 100
+      ScanIndexForward: false,
+      Limit: HISTORY_MAX_MESSAGES
     }));
     
-    const messages = result.Items?.map(item => unmarshall(item)) || [];
-    
-    // Sort by timestamp
-    messages.sort((a, b) => new Date(a.timestamp) - new Date(b.timestamp));
-    
-    return messages;
+    // Sort key is the ISO timestamp; query newest first so long conversations keep their latest turns
+    return (result.Items || []).map(item => unmarshall(item)).reverse();
   } catch (error) {
     console.error('Failed to get chat history:', error);
     return [];
   }
 }
 
+/**
+ * Get the most recent turns of a conversation as { role, content } for the RAG processor
+ * The RAG processor applies its own token budget on top of this window
+ */
+async function getConversationContext(sessionId) {
+  try {
+    const result = await dynamodb.send(new QueryCommand({
+      TableName: MESSAGES_TABLE,
+      KeyConditionExpression: 'conversationId = :sessionId',
+      ExpressionAttributeValues: marshall({
+        ':sessionId': sessionId
+      }),
+      ScanIndexForward: false,
+      Limit: HISTORY_WINDOW_MESSAGES
+    }));
+
+    return (result.Items || [])
+      .map(item => unmarshall(item))
+      .reverse()
+      .filter(message => message.content)
+      .map(message => ({
+        role: message.sender === 'user' ? 'user' : 'assistant',
+        content: message.content
+      }));
+  } catch (error) {
+    console.error('Failed to load conversation context:', error);
+    return [];
+  }
+}
+
 /**
  * Get chat sessions
  */
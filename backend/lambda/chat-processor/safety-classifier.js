@@ -0,0 +1,278 @@
+/**
+ * Safety Classifier
+ * Detects messages describing a medical emergency or crisis so the chat can answer with fixed
+ * emergency guidance instead of a generated answer
+ *
+ * classifyMessageSafety(message, { llm, modelId, useModel }) -> Promise<{ category, severity, method, rule } | null>
+ *
+ * Each category has:
+ * - patterns: high-precision rules (English and Spanish); a match is a crisis on its own
+ * - signals: screening keywords; a match asks the classification model to confirm (when useModel is set)
+ * The model is only consulted for messages that hit a signal, so ordinary questions never pay for the call.
+ * A failed model call is logged and treated as no crisis - the rules still apply.
+ *
+ * getSafetyResponse(category, language) returns the fixed response for a category (en or es).
+ *
+ * Rules and responses are clinical content: have changes reviewed before deploying them.
+ */
+
+// Glucose readings below 54 mg/dL. The number must carry the unit or follow a reading verb ("is", "dropped to"),
+// and a number followed by a time or quantity word ("at 2 hours", "8 am", "de 2 frutas") is never a reading.
+// A unitless single digit may be mmol/L ("my blood sugar is 7"), so it is only a signal.
+const GLUCOSE_WORDS_EN = '(blood sugar|blood glucose|glucose|sugar|bg)';
+const GLUCOSE_WORDS_ES = '(azúcar|glucosa|glucemia)';
+const NOT_AFTER_A1C = '(?<!\\b(?:hb)?a1c\\b[^.?!]{0,30})';
+const READING_GAP = '(?:(?!\\b(?:hb)?a1c\\b)[^.?!]){0,30}'; // Same sentence, not about A1C
+const NUMBER_START = '(?<!\\d|\\d[.,])';
+const VERY_LOW_MGDL = '([0-9]|[1-4][0-9]|5[0-3])';
+const TWO_DIGIT_LOW_MGDL = '([1-4][0-9]|5[0-3])';
+const SINGLE_DIGIT = '([0-9](?:[.,]\\d)?)';
+const READING_VERBS_EN = '(is|was|reads?|reading|read|dropped to|down to|fell to|only)';
+const READING_VERBS_ES = '(está en|está a|estaba en|marca|marcó|bajó a|baja a|es de)';
+const WITH_UNIT = '\\s*mg\\s*/?\\s*dl\\b';
+const NOT_A_READING = '(?!\\d|[.,]\\d|\\s*(%|percent|por ciento|mmol|hours?|hrs?|minutes?|mins?|seconds?|am\\b|pm\\b|a\\.m|p\\.m|' +
+  'o\'?clock|grams?|g\\b|oz\\b|ounces?|carbs?|units?|days?|weeks?|months?|years?|times?|servings?|pieces?|fruits?|' +
+  'horas?|minutos?|gramos?|unidades|días|semanas|meses|años|veces|frutas?|piezas?|porciones|raciones|cucharadas?|tazas?))';
+
+/**
+ * Build a very-low-reading rule: a glucose word, a lead-in right before the number (may be empty), and the number
+ */
+function lowReading(glucoseWords, leadIn, value, ending = NOT_A_READING) {
+  return new RegExp(`${NOT_AFTER_A1C}\\b${glucoseWords}\\b${READING_GAP}\\b${leadIn}\\s*${NUMBER_START}${value}${ending}`, 'i');
+}
+
+const SAFETY_CATEGORIES = {
+  'self-harm': {
+    severity: 'crisis',
+    patterns: [
+      // ENGLISH
+      /\b(kill|hurt|harm|cut) myself\b/i,
+      /\bsuicid(e|al)\b/i,
+      /\b(end|take) my (own )?life\b/i,
+      /\bend it all\b/i,
+      /(?<!(don'?t|do not|doesn'?t) )\b(want|wanna) to die\b/i,
+      /\bdon'?t want to (live|be alive|wake up)\b/i,
+      /\bbetter off dead\b/i,
+      /\b(overdose|od) on (my )?insulin\b/i,
+      /\b(take|inject|use) (all|too much|a lot) of my insulin (on purpose|to die)\b/i,
+
+      // SPANISH
+      /\b(matarme|suicidarme|suicidio|suicida)\b/i,
+      /\bquitarme la vida\b/i,
+      /\bhacerme daño\b/i,
+      /\bno quiero (vivir|seguir viviendo|despertar)\b/i,
+      /(?<!no )\bquiero morir(me)?\b/i,
+      /\bsobredosis de insulina\b/i,
+    ],
+    signals: [
+      /\b(hopeless|worthless|give up on (life|everything)|can'?t go on|no reason to live|no point in living)\b/i,
+      /\b(sin esperanza|no puedo más|no vale la pena vivir|no tengo razones para vivir)\b/i,
+    ]
+  },
+  'severe-hypoglycemia': {
+    severity: 'emergency',
+    patterns: [
+      // ENGLISH: very low readings (below 54 mg/dL or 3.0 mmol/L)
+      lowReading(GLUCOSE_WORDS_EN, '', VERY_LOW_MGDL, WITH_UNIT),
+      lowReading(GLUCOSE_WORDS_EN, READING_VERBS_EN, TWO_DIGIT_LOW_MGDL),
+      /\b(blood sugar|blood glucose|glucose|sugar|bg)\b[^.?!]{0,30}\b([0-2](\.\d)?)\s*mmol/i,
+      /\bsevere(ly)? (low|hypo\w*)\b/i,
+      /\b(low|hypo\w*)\b[^.?!]{0,40}\b(passed out|passing out|fainted|is unconscious|is unresponsive|(is )?having a seizure|can'?t swallow)\b/i,
+      /\b(can'?t|cannot|unable to) (wake|keep) (him|her|them|my \w+) (up|awake)\b/i,
+
+      // SPANISH
+      lowReading(GLUCOSE_WORDS_ES, '', VERY_LOW_MGDL, WITH_UNIT),
+      lowReading(GLUCOSE_WORDS_ES, READING_VERBS_ES, TWO_DIGIT_LOW_MGDL),
+      /\b(hipoglucemia|bajón de azúcar) (grave|severa|fuerte)\b/i,
+      /\b(azúcar baja|hipoglucemia)\b[^.?!]{0,40}\b(se desmayó|está desmayad[oa]|está inconsciente|está convulsionando|no puede tragar)(?!\w)/i,
+      /\bno (puedo|podemos) despertarl[oa]\b/i,
+    ],
+    signals: [
+      /\b(low blood sugar|hypo|hypoglycemia|shaky|shaking|sweating|confused|dizzy)\b/i,
+      /\b(azúcar baja|hipoglucemia|temblores?|sudando|confundid[oa]|mareado|mareada)\b/i,
+      // Possible readings without a unit or reading verb ("my sugar at 45"), or a unitless single digit - the model decides
+      lowReading(GLUCOSE_WORDS_EN, '(at|of|around|about|like)', VERY_LOW_MGDL),
+      lowReading(GLUCOSE_WORDS_EN, READING_VERBS_EN, SINGLE_DIGIT),
+      lowReading(GLUCOSE_WORDS_ES, '(de|en|a|como)', VERY_LOW_MGDL),
+      lowReading(GLUCOSE_WORDS_ES, READING_VERBS_ES, SINGLE_DIGIT),
+    ]
+  },
+  'dka': {
+    severity: 'emergency',
+    patterns: [
+      // ENGLISH
+      /\bmy ([\w']+ )?ketones (are|is|were) (high|large|moderate|very high)\b/i,
+      /\b(i|he|she|they|we) (have|has|got) (high|large|moderate) ketones\b/i,
+      /\b(i|he|she|they|my [\w']+) (think (i|he|she|they) )?(might |may |probably )?(have|has|am having|is having|are having|am in|is in|are in|am going into|is going into)( an?)? (dka|ketoacidosis|diabetic ketoacidosis)\b/i,
+      /\b(i'?m|i am|he'?s|she'?s|they'?re|keep|been|can'?t stop) (vomiting|throwing up)\b[^.?!]{0,60}\b(ketones?|blood sugar|glucose)\b/i,
+      /\b(ketones?|blood sugar|glucose)\b[^.?!]{0,60}\b(and|with) (i'?m |i am |he'?s |she'?s |they'?re )?(vomiting|throwing up)\b/i,
+
+      // SPANISH
+      /\b(tengo|tiene|tenemos) (las )?cetonas (altas|elevadas|moderadas)\b/i,
+      /\bmis cetonas (están|son) (altas|elevadas)\b/i,
+      /\b(creo que )?(tengo|tiene|está en|estoy en|está entrando en) (una )?cetoacidosis\b/i,
+      /\b(estoy|está|sigo|sigue) vomitando\b[^.?!]{0,60}\b(cetonas|azúcar|glucosa)\b/i,
+      /\b(cetonas|azúcar|glucosa)\b[^.?!]{0,60}\by (estoy |está )?vomitando\b/i,
+    ],
+    signals: [
+      /\b(ketones?|dka|ketoacidosis|fruity breath|vomiting|throwing up|very high blood sugar)\b/i,
+      /\b(cetonas|cetoacidosis|aliento afrutado|vómitos|vomitando|azúcar muy alta)\b/i,
+    ]
+  },
+  'medical-emergency': {
+    severity: 'emergency',
+    patterns: [
+      // ENGLISH
+      /\b(i have|we have|i'?m having|this is) a medical emergency\b/i,
+      /\b(not|isn'?t|stopped) breathing\b/i,
+      /\b(is|went|gone|found \w+) (unconscious|unresponsive)\b/i,
+      /\b(i am having|i'?m having|is having) (a )?seizure\b/i,
+      /\b(i am having|i'?m having|is having) (a )?(stroke|heart attack)\b/i,
+      /\b(i have|i'?m having|having|he has|she has|has) chest pain\b/i,
+
+      // SPANISH
+      /\b(tengo|tenemos|estoy teniendo) una emergencia médica\b/i,
+      /\bno (respira|está respirando)\b/i,
+      /\b(está|quedó) inconsciente\b/i,
+      /\b(está convulsionando|está teniendo una convulsión)(?!\w)/i,
+      /\b(está teniendo|estoy teniendo) un (derrame cerebral|ataque al corazón|infarto)\b/i,
+      /\b(tengo|tiene) dolor (en el|de) pecho\b/i,
+    ],
+    signals: []
+  }
+};
+
+const SAFETY_LABELS = [...Object.keys(SAFETY_CATEGORIES), 'none'];
+
+const SAFETY_RESPONSES = {
+  'self-harm': {
+    en: [
+      'I\'m really sorry you\'re going through this. You don\'t have to face it alone.',
+      '',
+      '- Call or text 988 (Suicide & Crisis Lifeline) to talk with someone right now, any time of day.',
+      '- If you are in immediate danger or have already hurt yourself, call 911.',
+      '',
+      'I\'ve also let our team know you may need support.'
+    ].join('\n'),
+    es: [
+      'Siento mucho que esté pasando por esto. No tiene que enfrentarlo solo/a.',
+      '',
+      '- Llame o envíe un mensaje de texto al 988 (Línea de Prevención del Suicidio y Crisis) y oprima 2 para hablar en español con alguien ahora mismo, a cualquier hora.',
+      '- Si está en peligro inmediato o ya se hizo daño, llame al 911.',
+      '',
+      'También le avisé a nuestro equipo que puede necesitar apoyo.'
+    ].join('\n')
+  },
+  'severe-hypoglycemia': {
+    en: [
+      'This sounds like it could be severe low blood sugar, which needs help right away.',
+      '',
+      '- If the person is unconscious, having a seizure or can\'t swallow safely, call 911. Do not give food or drink; use glucagon if it is available.',
+      '- If they are awake and can swallow, give 15 grams of fast-acting carbohydrate (such as 4 ounces of juice or glucose tablets) and recheck in 15 minutes.',
+      '- Call 911 if they don\'t improve.'
+    ].join('\n'),
+    es: [
+      'Esto podría ser un nivel de azúcar en la sangre muy bajo, que necesita atención de inmediato.',
+      '',
+      '- Si la persona está inconsciente, tiene una convulsión o no puede tragar con seguridad, llame al 911. No le dé comida ni bebida; use glucagón si lo tiene.',
+      '- Si está despierta y puede tragar, dele 15 gramos de carbohidratos de acción rápida (como 4 onzas de jugo o tabletas de glucosa) y vuelva a medir en 15 minutos.',
+      '- Llame al 911 si no mejora.'
+    ].join('\n')
+  },
+  'dka': {
+    en: [
+      'These can be signs of diabetic ketoacidosis (DKA), which is a medical emergency.',
+      '',
+      '- Call 911 or go to the nearest emergency room now, especially with vomiting, trouble breathing, confusion or fruity-smelling breath.',
+      '- Don\'t wait to see if it gets better.'
+    ].join('\n'),
+    es: [
+      'Estos pueden ser signos de cetoacidosis diabética (CAD), que es una emergencia médica.',
+      '',
+      '- Llame al 911 o acuda a la sala de emergencias más cercana ahora, sobre todo si hay vómitos, dificultad para respirar, confusión o aliento con olor afrutado.',
+      '- No espere a ver si mejora.'
+    ].join('\n')
+  },
+  'medical-emergency': {
+    en: [
+      'This sounds like a medical emergency.',
+      '',
+      '- Call 911 now or go to the nearest emergency room.',
+      '- Stay with the person until help arrives.'
+    ].join('\n'),
+    es: [
+      'Esto parece una emergencia médica.',
+      '',
+      '- Llame al 911 ahora o acuda a la sala de emergencias más cercana.',
+      '- Quédese con la persona hasta que llegue la ayuda.'
+    ].join('\n')
+  }
+};
+
+/**
+ * Classify a message, returning the crisis it describes or null
+ */
+async function classifyMessageSafety(message, { llm, modelId, useModel = true } = {}) {
+  const text = String(message || '');
+
+  for (const [category, definition] of Object.entries(SAFETY_CATEGORIES)) {
+    const index = definition.patterns.findIndex(pattern => pattern.test(text));
+    if (index !== -1) {
+      return { category, severity: definition.severity, method: 'rules', rule: `${category}#${index}` };
+    }
+  }
+
+  const screened = Object.keys(SAFETY_CATEGORIES)
+    .filter(category => SAFETY_CATEGORIES[category].signals.some(signal => signal.test(text)));
+  if (screened.length === 0 || !useModel || !llm) {
+    return null;
+  }
+
+  try {
+    const label = await llm.classify({
+      prompt: buildSafetyPrompt(text),
+      text,
+      labels: SAFETY_LABELS,
+      modelId
+    });
+    if (label && label !== 'none') {
+      return { category: label, severity: SAFETY_CATEGORIES[label].severity, method: 'model', rule: null };
+    }
+  } catch (error) {
+    console.error('Safety model check failed, using the rules only:', error.message);
+  }
+  return null;
+}
+
+/**
+ * Prompt for the model check of a screened message
+ */
+function buildSafetyPrompt(text) {
+  return `You are a safety screener for a diabetes information chatbot. Decide if the message below describes a crisis happening now to the writer or someone with them.
+
+Labels:
+- self-harm: thoughts of suicide, self-harm or deliberately misusing insulin or medication
+- severe-hypoglycemia: very low blood sugar with confusion, fainting, seizure, unresponsiveness or inability to swallow
+- dka: signs of diabetic ketoacidosis, such as high ketones, vomiting with high blood sugar, or fruity breath with trouble breathing
+- medical-emergency: any other emergency needing 911
+- none: general questions, past events, or information requests
+
+Message: "${text.replace(/"/g, '\'')}"
+
+Respond with ONLY the label.`;
+}
+
+/**
+ * Fixed response for a safety category (falls back to English)
+ */
+function getSafetyResponse(category, language) {
+  const response = SAFETY_RESPONSES[category] || SAFETY_RESPONSES['medical-emergency'];
+  return response[language === 'es' ? 'es' : 'en'];
+}
+
+module.exports = {
+  SAFETY_CATEGORIES,
+  SAFETY_LABELS,
+  classifyMessageSafety,
+  getSafetyResponse
+};
@@ -9,12 +9,14 @@
  * - Content quality assessment
  * - S3 storage as .md files
  * - DynamoDB tracking updates
+ * - Knowledge Base ingestion status checks (answer cache invalidation on completion)
  */
 
 const { S3Client, PutObjectCommand, ListObjectsV2Command } = require('@aws-sdk/client-s3');
 const { DynamoDBClient, PutItemCommand, QueryCommand, ScanCommand, UpdateItemCommand } = require('@aws-sdk/client-dynamodb');
 const { marshall, unmarshall } = require('@aws-sdk/util-dynamodb');
-const { BedrockAgentClient, StartIngestionJobCommand } = require('@aws-sdk/client-bedrock-agent');
+const { BedrockAgentClient, StartIngestionJobCommand, GetIngestionJobCommand } = require('@aws-sdk/client-bedrock-agent');
+const { SQSClient, SendMessageCommand } = require('@aws-sdk/client-sqs');
 const cheerio = require('cheerio');
 const axios = require('axios');
 const crypto = require('crypto');
@@ -23,6 +25,7 @@ const crypto = require('crypto');
 const s3Client = new S3Client({ region: process.env.AWS_REGION || 'us-west-2' });
 const dynamoClient = new DynamoDBClient({ region: process.env.AWS_REGION || 'us-west-2' });
 const bedrockAgentClient = new BedrockAgentClient({ region: process.env.AWS_REGION || 'us-west-2' });
+const sqsClient = new SQSClient({ region: process.env.AWS_REGION || 'us-west-2' });
 
 // Environment variables - No fallbacks for resource names (must be set by CDK)
 const CONTENT_BUCKET = process.env.CONTENT_BUCKET;
@@ -32,6 +35,12 @@ const DATA_SOURCE_ID = process.env.DATA_SOURCE_ID;
 const TARGET_DOMAIN = process.env.TARGET_DOMAIN || 'diabetes.org';
 const RATE_LIMIT_DELAY = parseInt(process.env.RATE_LIMIT_DELAY || '1000');
 const MIN_QUALITY_THRESHOLD = parseInt(process.env.MIN_QUALITY_THRESHOLD || '50');
+const SCRAPING_QUEUE_URL = process.env.SCRAPING_QUEUE_URL;
+const ANSWER_CACHE_TABLE = process.env.ANSWER_CACHE_TABLE;
+
+// Ingestion status is checked every 5 minutes, for up to 2 hours
+const INGESTION_CHECK_DELAY_SECONDS = 300;
+const MAX_INGESTION_CHECKS = 24;
 
 /**
  * Main Lambda handler - processes SQS messages containing URL batches
@@ -144,6 +153,12 @@ async function handleSqsMessages(event) {
         continue; // Skip batch processing
       }
 
+      if (message.type === 'CHECK_INGESTION_STATUS') {
+        console.log(`CHECK_INGESTION_STATUS received for job ${message.ingestionJobId} (check ${message.attempt})`);
+        results.push(await checkIngestionJobStatus(message));
+        continue; // Skip batch processing
+      }
+
       // Normal batch processing
       const batch = message;
       console.log(`Processing batch ${batch.batchId} with ${batch.urls.length} URLs`);
@@ -302,6 +317,9 @@ async function processUrl(url) {
         qualityScore: qualityScore.toString()
       }
     }));
+
+    // Store Bedrock metadata sidecar so retrieved chunks carry the canonical URL and title
+    await writeMetadataSidecar(s3Key, url, title);
     
     // Update content tracking table
     await updateContentTracking(url, contentHash, {
@@ -335,6 +353,26 @@ async function processUrl(url) {
   }
 }
 
+/**
+ * Write the Bedrock Knowledge Base metadata sidecar for a content object
+ * Bedrock picks up <key>.metadata.json during ingestion and returns its attributes
+ * with every retrieved chunk (unlike S3 object metadata, which is also truncated)
+ */
+async function writeMetadataSidecar(s3Key, url, title) {
+  await s3Client.send(new PutObjectCommand({
+    Bucket: CONTENT_BUCKET,
+    Key: `${s3Key}.metadata.json`,
+    Body: JSON.stringify({
+      metadataAttributes: {
+        url: url,
+        title: title,
+        lastCrawled: new Date().toISOString()
+      }
+    }),
+    ContentType: 'application/json'
+  }));
+}
+
 /**
  * Process HTML to Markdown using Cheerio
  */
@@ -544,7 +582,7 @@ async function updateContentTracking(url, contentHash, metadata) {
       contentLength: metadata.contentLength,
       title: metadata.title,
       status: metadata.s3Key ? 'success' : 'quality_rejected',
-      s3Key: metadata.s3Key || null,
+      s3Key: metadata.s3Key || undefined, // Omitted (not null) so rejected records stay out of S3KeyIndex
       qualityScore: metadata.qualityScore,
       rejectionReason: metadata.rejectionReason || null,
       ttl: Math.floor(Date.now() / 1000) + (90 * 24 * 60 * 60) // 90 days TTL
@@ -693,6 +731,15 @@ async function triggerKnowledgeBaseIngestion(sentinelMessage) {
       timestamp: new Date().toISOString()
     });
 
+    // Step 5: Check back for completion (invalidates cached answers)
+    await scheduleIngestionStatusCheck({
+      ingestionJobId,
+      discoveryId: sentinelMessage.discoveryId,
+      s3FileCount,
+      contentStats,
+      attempt: 1
+    });
+
     return {
       success: true,
       ingestionJobId,
@@ -733,7 +780,8 @@ async function verifyS3Content() {
       }
 
       const result = await s3Client.send(new ListObjectsV2Command(listParams));
-      fileCount += result.KeyCount || 0;
+      // Don't count Bedrock metadata sidecars as content files
+      fileCount += (result.Contents || []).filter(object => !object.Key.endsWith('.metadata.json')).length;
       continuationToken = result.NextContinuationToken;
     } while (continuationToken);
 
@@ -798,8 +846,72 @@ async function getContentProcessingStats() {
   }
 }
 
+/**
+ * Queue a delayed CHECK_INGESTION_STATUS message for an ingestion job
+ */
+async function scheduleIngestionStatusCheck(check) {
+  if (!SCRAPING_QUEUE_URL) {
+    console.warn('SCRAPING_QUEUE_URL not set - ingestion completion will not be tracked');
+    return;
+  }
+
+  try {
+    await sqsClient.send(new SendMessageCommand({
+      QueueUrl: SCRAPING_QUEUE_URL,
+      MessageBody: JSON.stringify({ type: 'CHECK_INGESTION_STATUS', ...check }),
+      MessageAttributes: {
+        messageType: {
+          DataType: 'String',
+          StringValue: 'CHECK_INGESTION_STATUS'
+        }
+      },
+      DelaySeconds: INGESTION_CHECK_DELAY_SECONDS
+    }));
+
+    console.log(`Scheduled ingestion status check ${check.attempt} for job ${check.ingestionJobId}`);
+  } catch (error) {
+    console.error('Error scheduling ingestion status check:', error);
+    // Don't throw - ingestion itself is unaffected
+  }
+}
+
+/**
+ * Check an ingestion job and record its final status, or check again later while it is running
+ */
+async function checkIngestionJobStatus(check) {
+  const response = await bedrockAgentClient.send(new GetIngestionJobCommand({
+    knowledgeBaseId: KNOWLEDGE_BASE_ID,
+    dataSourceId: DATA_SOURCE_ID,
+    ingestionJobId: check.ingestionJobId
+  }));
+
+  const ingestionStatus = response.ingestionJob.status;
+  console.log(`Ingestion job ${check.ingestionJobId} status: ${ingestionStatus}`);
+
+  if (['COMPLETE', 'FAILED', 'STOPPED'].includes(ingestionStatus)) {
+    await recordIngestionJobMetadata({
+      ingestionJobId: check.ingestionJobId,
+      ingestionStatus,
+      discoveryId: check.discoveryId,
+      s3FileCount: check.s3FileCount,
+      contentStats: check.contentStats,
+      timestamp: new Date().toISOString()
+    });
+    return { success: true, ingestionJobId: check.ingestionJobId, ingestionStatus };
+  }
+
+  if (check.attempt >= MAX_INGESTION_CHECKS) {
+    console.warn(`Ingestion job ${check.ingestionJobId} still ${ingestionStatus} after ${check.attempt} checks - giving up`);
+    return { success: false, ingestionJobId: check.ingestionJobId, ingestionStatus, reason: 'status_check_timeout' };
+  }
+
+  await scheduleIngestionStatusCheck({ ...check, attempt: check.attempt + 1 });
+  return { success: true, ingestionJobId: check.ingestionJobId, ingestionStatus };
+}
+
 /**
  * Record ingestion job metadata in DynamoDB
+ * A COMPLETE status also invalidates the chat answer cache, since answers may now differ
  */
 async function recordIngestionJobMetadata(metadata) {
   try {
@@ -822,6 +934,34 @@ async function recordIngestionJobMetadata(metadata) {
     console.error('Error recording ingestion job metadata:', error);
     // Don't throw - this shouldn't fail the whole operation
   }
+
+  if (metadata.ingestionStatus === 'COMPLETE') {
+    await invalidateAnswerCache(metadata);
+  }
+}
+
+/**
+ * Mark every cached chat answer created before now as stale
+ * chat-processor ignores cache entries older than this marker
+ */
+async function invalidateAnswerCache(metadata) {
+  if (!ANSWER_CACHE_TABLE) return;
+
+  try {
+    await dynamoClient.send(new PutItemCommand({
+      TableName: ANSWER_CACHE_TABLE,
+      Item: marshall({
+        language: 'META',
+        questionHash: 'INVALIDATION',
+        invalidatedAt: metadata.timestamp,
+        ingestionJobId: metadata.ingestionJobId
+      })
+    }));
+
+    console.log(`Invalidated answer cache after ingestion job ${metadata.ingestionJobId}`);
+  } catch (error) {
+    console.error('Error invalidating answer cache:', error);
+  }
 }
 
 /**
@@ -0,0 +1,341 @@
+/**
+ * Curated Answers Lambda
+ * Consolidated single-file implementation
+ *
+ * Clinical staff author vetted answers that chat-processor serves instead of RAG when an
+ * incoming message matches one of the answer's question variants.
+ *
+ * Handles:
+ * - GET /admin/curated-answers - List curated answers
+ * - POST /admin/curated-answers - Create a curated answer
+ * - GET /admin/curated-answers/{answerId} - Get a curated answer
+ * - PUT /admin/curated-answers/{answerId} - Update a curated answer
+ * - DELETE /admin/curated-answers/{answerId} - Delete a curated answer
+ */
+
+const { DynamoDBClient, PutItemCommand, GetItemCommand, ScanCommand, DeleteItemCommand } = require('@aws-sdk/client-dynamodb');
+const { marshall, unmarshall } = require('@aws-sdk/util-dynamodb');
+const crypto = require('crypto');
+const { createLlmProvider } = require('../shared/llm-provider');
+
+// Initialize AWS clients
+const dynamodb = new DynamoDBClient({ region: process.env.AWS_REGION || 'us-west-2' });
+
+// LLM provider (LLM_PROVIDER=bedrock|local) - embeds question variants for semantic matching
+const llm = createLlmProvider();
+
+// Environment variables - No fallbacks for table names (must be set by CDK)
+const CURATED_ANSWERS_TABLE = process.env.CURATED_ANSWERS_TABLE;
+const FRONTEND_URL = process.env.FRONTEND_URL || '*'; // Frontend URL for CORS (defaults to wildcard in dev)
+
+const LANGUAGES = ['en', 'es'];
+const MAX_QUESTION_VARIANTS = 20;
+const MAX_QUESTION_LENGTH = 500;
+const MAX_ANSWER_LENGTH = 5000;
+
+/**
+ * Main Lambda handler
+ */
+exports.handler = async (event) => {
+  console.log('Curated answers handler invoked:', JSON.stringify(event, null, 2));
+
+  try {
+    const path = event.path;
+    const method = event.httpMethod;
+    const answerId = event.pathParameters?.answerId
+      || path.match(/\/admin\/curated-answers\/([^/]+)$/)?.[1];
+
+    // Route requests
+    if (method === 'OPTIONS') {
+      return createResponse(200, '');
+    } else if (path.endsWith('/admin/curated-answers')) {
+      if (method === 'GET') return await listCuratedAnswers();
+      if (method === 'POST') return await saveCuratedAnswer(event, null);
+    } else if (answerId) {
+      if (method === 'GET') return await getCuratedAnswer(answerId);
+      if (method === 'PUT') return await saveCuratedAnswer(event, decodeURIComponent(answerId));
+      if (method === 'DELETE') return await deleteCuratedAnswer(decodeURIComponent(answerId));
+    }
+
+    return createResponse(404, {
+      error: 'Endpoint not found',
+      availableEndpoints: [
+        'GET /admin/curated-answers',
+        'POST /admin/curated-answers',
+        'GET /admin/curated-answers/{answerId}',
+        'PUT /admin/curated-answers/{answerId}',
+        'DELETE /admin/curated-answers/{answerId}'
+      ]
+    });
+
+  } catch (error) {
+    console.error('Curated answers handler error:', error);
+    return createResponse(500, {
+      error: 'Internal server error',
+      message: error.message || 'Unknown error occurred'
+    });
+  }
+};
+
+/**
+ * List all curated answers, most recently updated first
+ */
+async function listCuratedAnswers() {
+  const items = [];
+  let lastEvaluatedKey;
+
+  do {
+    const result = await dynamodb.send(new ScanCommand({
+      TableName: CURATED_ANSWERS_TABLE,
+      ExclusiveStartKey: lastEvaluatedKey
+    }));
+    items.push(...(result.Items || []).map(item => toApiAnswer(unmarshall(item))));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  items.sort((a, b) => (b.updatedAt || '').localeCompare(a.updatedAt || ''));
+
+  return createResponse(200, { answers: items, total: items.length });
+}
+
+/**
+ * Get a single curated answer
+ */
+async function getCuratedAnswer(answerId) {
+  const result = await dynamodb.send(new GetItemCommand({
+    TableName: CURATED_ANSWERS_TABLE,
+    Key: marshall({ answerId })
+  }));
+
+  if (!result.Item) {
+    return createResponse(404, {
+      error: 'Not found',
+      message: `Curated answer ${answerId} does not exist`
+    });
+  }
+
+  return createResponse(200, toApiAnswer(unmarshall(result.Item)));
+}
+
+/**
+ * Create (answerId null) or replace a curated answer
+ * Question variants are embedded on save so chat-processor only embeds the incoming message.
+ */
+async function saveCuratedAnswer(event, answerId) {
+  if (!event.body) {
+    return createResponse(400, {
+      error: 'Request body is required',
+      message: 'Please provide the curated answer'
+    });
+  }
+
+  let request;
+  try {
+    request = JSON.parse(event.body);
+  } catch (parseError) {
+    return createResponse(400, {
+      error: 'Invalid JSON',
+      message: 'Request body must be valid JSON'
+    });
+  }
+
+  const validation = validateCuratedAnswer(request);
+  if (!validation.valid) {
+    return createResponse(400, {
+      error: 'Validation error',
+      message: validation.message
+    });
+  }
+
+  let existing = null;
+  if (answerId) {
+    const result = await dynamodb.send(new GetItemCommand({
+      TableName: CURATED_ANSWERS_TABLE,
+      Key: marshall({ answerId })
+    }));
+    if (!result.Item) {
+      return createResponse(404, {
+        error: 'Not found',
+        message: `Curated answer ${answerId} does not exist`
+      });
+    }
+    existing = unmarshall(result.Item);
+  }
+
+  const now = new Date().toISOString();
+  const editor = event.requestContext?.authorizer?.claims?.email || 'unknown';
+
+  const questions = {};
+  const answers = {};
+  const embeddings = {};
+  for (const language of LANGUAGES) {
+    const variants = (request.questions?.[language] || [])
+      .map(variant => sanitizeText(variant))
+      .filter(Boolean);
+    const answer = sanitizeText(request.answers?.[language] || '', { keepNewlines: true });
+
+    if (variants.length > 0 && answer) {
+      questions[language] = variants;
+      answers[language] = answer;
+      embeddings[language] = await Promise.all(
+        variants.map(async (variant) => Buffer.from(new Float32Array(await llm.embed(normalizeQuestion(variant))).buffer))
+      );
+    }
+  }
+
+  const record = {
+    answerId: answerId || `ca-${crypto.randomUUID()}`,
+    title: sanitizeText(request.title || '') || questions.en?.[0] || questions.es?.[0],
+    questions,
+    answers,
+    embeddings,
+    sources: (request.sources || []).map(source => ({
+      title: sanitizeText(source.title || ''),
+      url: sanitizeText(source.url || '')
+    })).filter(source => source.url),
+    enabled: request.enabled !== false,
+    effectiveFrom: request.effectiveFrom ? new Date(request.effectiveFrom).toISOString() : undefined,
+    expiresAt: request.expiresAt ? new Date(request.expiresAt).toISOString() : undefined,
+    createdAt: existing?.createdAt || now,
+    createdBy: existing?.createdBy || editor,
+    updatedAt: now,
+    updatedBy: editor
+  };
+
+  await dynamodb.send(new PutItemCommand({
+    TableName: CURATED_ANSWERS_TABLE,
+    Item: marshall(record, { removeUndefinedValues: true })
+  }));
+
+  console.log(`${answerId ? 'Updated' : 'Created'} curated answer ${record.answerId}`);
+  return createResponse(answerId ? 200 : 201, toApiAnswer(record));
+}
+
+/**
+ * Delete a curated answer
+ */
+async function deleteCuratedAnswer(answerId) {
+  await dynamodb.send(new DeleteItemCommand({
+    TableName: CURATED_ANSWERS_TABLE,
+    Key: marshall({ answerId })
+  }));
+
+  console.log(`Deleted curated answer ${answerId}`);
+  return createResponse(200, { answerId, deleted: true });
+}
+
+/**
+ * Validate a curated answer request
+ * At least one language needs both question variants and an answer.
+ */
+function validateCuratedAnswer(request) {
+  if (!request.questions || typeof request.questions !== 'object' || !request.answers || typeof request.answers !== 'object') {
+    return { valid: false, message: 'questions and answers are required' };
+  }
+
+  let complete = 0;
+  for (const language of LANGUAGES) {
+    const variants = request.questions[language];
+    const answer = request.answers[language];
+
+    if (variants !== undefined && !Array.isArray(variants)) {
+      return { valid: false, message: `questions.${language} must be an array of strings` };
+    }
+    if ((variants || []).length > MAX_QUESTION_VARIANTS) {
+      return { valid: false, message: `questions.${language} can have at most ${MAX_QUESTION_VARIANTS} variants` };
+    }
+    if ((variants || []).some(v => typeof v !== 'string' || v.length > MAX_QUESTION_LENGTH)) {
+      return { valid: false, message: `Each question must be a string of ${MAX_QUESTION_LENGTH} characters or less` };
+    }
+    if (answer !== undefined && (typeof answer !== 'string' || answer.length > MAX_ANSWER_LENGTH)) {
+      return { valid: false, message: `answers.${language} must be a string of ${MAX_ANSWER_LENGTH} characters or less` };
+    }
+
+    const hasVariants = (variants || []).some(v => v.trim().length > 0);
+    const hasAnswer = typeof answer === 'string' && answer.trim().length > 0;
+    if (hasVariants !== hasAnswer) {
+      return { valid: false, message: `Provide both questions and an answer for ${language}, or neither` };
+    }
+    if (hasVariants) complete++;
+  }
+
+  if (complete === 0) {
+    return { valid: false, message: 'Provide questions and an answer in at least one language' };
+  }
+
+  for (const field of ['effectiveFrom', 'expiresAt']) {
+    if (request[field] && isNaN(Date.parse(request[field]))) {
+      return { valid: false, message: `${field} must be an ISO 8601 date` };
+    }
+  }
+  if (request.effectiveFrom && request.expiresAt && Date.parse(request.expiresAt) <= Date.parse(request.effectiveFrom)) {
+    return { valid: false, message: 'expiresAt must be after effectiveFrom' };
+  }
+
+  if (request.sources !== undefined && !Array.isArray(request.sources)) {
+    return { valid: false, message: 'sources must be an array of { title, url }' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Strip embeddings (internal) and add whether the answer is currently being served
+ */
+function toApiAnswer(record) {
+  const { embeddings, ...answer } = record;
+  const now = new Date().toISOString();
+
+  return {
+    ...answer,
+    active: answer.enabled !== false
+      && (!answer.effectiveFrom || answer.effectiveFrom <= now)
+      && (!answer.expiresAt || answer.expiresAt > now)
+  };
+}
+
+/**
+ * Normalize a question the same way chat-processor does before matching
+ */
+function normalizeQuestion(text) {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Sanitize author input - strip HTML and control characters
+ */
+function sanitizeText(input, { keepNewlines = false } = {}) {
+  if (!input || typeof input !== 'string') return '';
+
+  const text = input
+    .replace(/<[^>]*>?/gm, '')
+    .replace(/[<>]/g, '')
+    .replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F\x7F]/g, '');
+
+  return keepNewlines
+    ? text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim()
+    : text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Create standardized API response
+ */
+function createResponse(statusCode, body) {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': FRONTEND_URL,
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+      'Access-Control-Allow-Credentials': 'true'
+    },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  };
+}
@@ -5,19 +5,52 @@
  * Handles:
  * - POST /escalation/request - Submit escalation request
  * - GET /admin/escalation-requests - Get escalation requests for admin
+ * - GET /admin/escalation-requests/assignees - List staff escalations can be assigned to
+ * - PATCH /admin/escalation-requests/{escalationId} - Update status, assignee or add a note
+ * - GET /admin/escalation-requests/{escalationId}/transcript - Chat transcript of the escalated conversation
+ * - GET|POST /escalation/unsubscribe - Stop email updates about a request (link in user messages)
  * - GET /escalation/health - Health check
  */
 
-const { DynamoDBClient, PutItemCommand, ScanCommand, QueryCommand } = require('@aws-sdk/client-dynamodb');
+const { DynamoDBClient, PutItemCommand, GetItemCommand, UpdateItemCommand, TransactWriteItemsCommand, ScanCommand, QueryCommand } = require('@aws-sdk/client-dynamodb');
+const { CognitoIdentityProviderClient, ListUsersCommand, AdminGetUserCommand } = require('@aws-sdk/client-cognito-identity-provider');
 const { marshall, unmarshall } = require('@aws-sdk/util-dynamodb');
 const crypto = require('crypto');
+const { publishEscalationEvent } = require('../shared/escalation-events');
+const { sendUserMessage, USER_MESSAGE_LANGUAGES } = require('./user-messages');
 
 // Initialize AWS clients
 const dynamodb = new DynamoDBClient({ region: process.env.AWS_REGION || 'us-west-2' });
+const cognito = new CognitoIdentityProviderClient({ region: process.env.AWS_REGION || 'us-west-2' });
 
 // Environment variables - No fallbacks for table names (must be set by CDK)
 const ESCALATION_TABLE = process.env.ESCALATION_REQUESTS_TABLE;
+const MESSAGES_TABLE = process.env.MESSAGES_TABLE; // Chat transcripts
+const USER_POOL_ID = process.env.USER_POOL_ID; // Staff (admin) user pool, for assignment
 const FRONTEND_URL = process.env.FRONTEND_URL || '*'; // Frontend URL for CORS (defaults to wildcard in dev)
+const UNSUBSCRIBE_URL = process.env.UNSUBSCRIBE_URL || ''; // Public /escalation/unsubscribe URL linked from user messages
+
+// Case management: the statuses an escalation can move to from each status
+const ESCALATION_STATUS_TRANSITIONS = {
+  pending: ['contacted', 'resolved', 'closed'],
+  contacted: ['resolved', 'closed'],
+  resolved: ['contacted', 'closed'], // Reopen if the person follows up
+  closed: ['contacted'] // Reopen
+};
+const ESCALATION_STATUSES = Object.keys(ESCALATION_STATUS_TRANSITIONS);
+const MAX_ESCALATION_HISTORY = 50;
+const MAX_ESCALATION_NOTES = 50;
+const MAX_NOTE_LENGTH = 2000;
+const ESCALATION_UPDATE_ATTEMPTS = 3; // Re-read and retry when another write lands between the read and the update
+const MERGE_ATTEMPTS = 3; // Same, for merging a chat escalation into a contact form request
+
+// Pages shown by /escalation/unsubscribe
+const UNSUBSCRIBE_PAGES = {
+  en: 'You will no longer receive email updates about this request.',
+  es: 'Ya no recibirá novedades por correo electrónico sobre esta solicitud.',
+  invalid: 'This unsubscribe link is not valid. / Este enlace para cancelar la suscripción no es válido.',
+  error: 'Something went wrong. Please try again later. / Algo salió mal. Inténtelo de nuevo más tarde.'
+};
 
 // Rate limiting configuration
 const RATE_LIMIT_WINDOW_MINUTES = 60; // Time window for rate limiting
@@ -34,10 +67,21 @@ exports.handler = async (event) => {
     const method = event.httpMethod;
 
     // Route requests
+    const escalationId = event.pathParameters?.escalationId
+      || path.match(/^\/admin\/escalation-requests\/([^/]+)(\/transcript)?$/)?.[1];
+
     if (method === 'POST' && (path === '/escalation/request' || path === '/escalation')) {
       return await handleEscalationRequest(event);
     } else if (method === 'GET' && (path === '/escalation/requests' || path === '/admin/escalation-requests')) {
       return await getEscalationRequests(event);
+    } else if (method === 'GET' && path === '/admin/escalation-requests/assignees') {
+      return await getAssignees();
+    } else if (method === 'GET' && escalationId && path.endsWith('/transcript')) {
+      return await getEscalationTranscript(decodeURIComponent(escalationId));
+    } else if (method === 'PATCH' && escalationId && escalationId !== 'assignees' && !path.endsWith('/transcript')) {
+      return await updateEscalationRequest(decodeURIComponent(escalationId), event);
+    } else if ((method === 'GET' || method === 'POST') && path === '/escalation/unsubscribe') {
+      return await handleUnsubscribe(event);
     } else if (method === 'GET' && (path === '/escalation/health' || path === '/escalation')) {
       return await getHealthCheck();
     } else if (method === 'OPTIONS') {
@@ -48,6 +92,10 @@ exports.handler = async (event) => {
         availableEndpoints: [
           'POST /escalation/request',
           'GET /admin/escalation-requests',
+          'GET /admin/escalation-requests/assignees',
+          'PATCH /admin/escalation-requests/{escalationId}',
+          'GET /admin/escalation-requests/{escalationId}/transcript',
+          'GET|POST /escalation/unsubscribe',
           'GET /escalation/health'
         ]
       });
@@ -105,34 +153,101 @@ async function handleEscalationRequest(event) {
     // Create escalation record
     const now = new Date();
     const escalationId = `esc-${crypto.randomUUID()}`;
+    const sessionId = request.sessionId || undefined;
 
-    const escalationRecord = {
-      escalationId,
-      name: sanitizeInput(request.name),
-      email: sanitizeInput(request.email).toLowerCase(),
-      phoneNumber: request.phoneNumber ? sanitizeInput(request.phoneNumber) : undefined,
-      zipCode: request.zipCode ? sanitizeInput(request.zipCode) : undefined,
-      dateTime: now.toLocaleString('en-US', {
-        month: 'short',
-        day: 'numeric',
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true
-      }), // Match original formatting
-      timestamp: now.toISOString(),
-      status: 'pending',
-      source: request.escalationType === 'submit' ? 'form_submit' : 'talk_to_person',
-      ttl: Math.floor(Date.now() / 1000) + (90 * 24 * 60 * 60) // 90 days TTL
-    };
-
-    // Store in DynamoDB
-    await dynamodb.send(new PutItemCommand({
-      TableName: ESCALATION_TABLE,
-      Item: marshall(escalationRecord, { removeUndefinedValues: true })
-    }));
+    const unsubscribeToken = crypto.randomBytes(16).toString('hex');
+    let escalationRecord;
+
+    // The chat may already have escalated this conversation; its record is merged into this case.
+    // The delete is conditioned on the chat escalation being unchanged since it was read, so a repeat or
+    // urgent chat escalation (or a staff edit) in between is merged on the next attempt instead of lost.
+    for (let attempt = 1; ; attempt++) {
+      const chatEscalation = sessionId ? await getChatEscalation(sessionId) : null;
+
+      escalationRecord = {
+        escalationId,
+        sessionId,
+        reason: chatEscalation?.reason,
+        reasonCodes: chatEscalation?.reasonCodes,
+        chatEscalatedAt: chatEscalation?.chatEscalatedAt || chatEscalation?.timestamp,
+        lastChatEscalatedAt: chatEscalation?.lastChatEscalatedAt,
+        chatEscalationCount: chatEscalation?.chatEscalationCount,
+        urgency: chatEscalation?.urgency || 'normal',
+        // Case work staff already did on the chat escalation
+        assignee: chatEscalation?.assignee,
+        assigneeEmail: chatEscalation?.assigneeEmail,
+        notes: chatEscalation?.notes,
+        history: chatEscalation?.history,
+        name: sanitizeInput(request.name),
+        email: sanitizeInput(request.email).toLowerCase(),
+        phoneNumber: request.phoneNumber ? sanitizeInput(request.phoneNumber) : undefined,
+        zipCode: request.zipCode ? sanitizeInput(request.zipCode) : undefined,
+        language: request.language || 'en', // Language of the messages sent to the requester
+        unsubscribeToken,
+        dateTime: now.toLocaleString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: '2-digit',
+          hour12: true
+        }), // Match original formatting
+        timestamp: now.toISOString(),
+        status: 'pending',
+        source: request.escalationType === 'submit' ? 'form_submit' : 'talk_to_person',
+        ttl: Math.floor(Date.now() / 1000) + (90 * 24 * 60 * 60) // 90 days TTL
+      };
+
+      // Store in DynamoDB, replacing the chat escalation in the same transaction so the case is never lost or duplicated
+      const put = {
+        TableName: ESCALATION_TABLE,
+        Item: marshall(escalationRecord, { removeUndefinedValues: true })
+      };
+      if (!chatEscalation) {
+        await dynamodb.send(new PutItemCommand(put));
+        break;
+      }
+
+      // Chat-processor adds to chatEscalationCount on every repeat; staff edits set updatedAt
+      const unchanged = [
+        chatEscalation.chatEscalationCount !== undefined ? 'chatEscalationCount = :readCount' : 'attribute_not_exists(chatEscalationCount)',
+        chatEscalation.updatedAt ? 'updatedAt = :readUpdatedAt' : 'attribute_not_exists(updatedAt)'
+      ].join(' AND ');
+      const readValues = marshall({
+        ':readCount': chatEscalation.chatEscalationCount,
+        ':readUpdatedAt': chatEscalation.updatedAt
+      }, { removeUndefinedValues: true });
+      try {
+        await dynamodb.send(new TransactWriteItemsCommand({
+          TransactItems: [
+            { Put: put },
+            {
+              Delete: {
+                TableName: ESCALATION_TABLE,
+                Key: marshall({ escalationId: chatEscalation.escalationId }),
+                ConditionExpression: unchanged,
+                ExpressionAttributeValues: Object.keys(readValues).length ? readValues : undefined
+              }
+            }
+          ]
+        }));
+      } catch (error) {
+        const conflict = error.name === 'TransactionCanceledException' &&
+          error.CancellationReasons?.some(reason => reason.Code === 'ConditionalCheckFailed');
+        if (conflict && attempt < MERGE_ATTEMPTS) continue; // Changed in between: re-read and merge again
+        throw error;
+      }
+      console.log(`Merged chat escalation ${chatEscalation.escalationId} into ${escalationId}`);
+      break;
+    }
 
     console.log(`Escalation request created: ${escalationId} for ${request.email ? request.email[0] + '***@' + request.email.split('@')[1] : '[no-email]'}`);
 
+    // Notify staff (urgent when the merged chat escalation was an emergency)
+    await publishEscalationEvent('escalation.created', escalationRecord, { urgency: escalationRecord.urgency });
+
+    // Confirm to the requester, with the escalationId as their reference number
+    await sendUserMessage('confirmation', escalationRecord, { unsubscribeUrl: getUnsubscribeUrl(escalationRecord) });
+
     return createResponse(200, {
       success: true,
       message: 'Thank you! Someone from the American Diabetes Association will reach out to you shortly.',
@@ -151,6 +266,7 @@ async function handleEscalationRequest(event) {
 
 /**
  * Get escalation requests for admin dashboard
+ * Optionally filtered by case status; statusCounts cover every status for the current search.
  */
 async function getEscalationRequests(event) {
   try {
@@ -159,8 +275,9 @@ async function getEscalationRequests(event) {
     const page = event.queryStringParameters?.page ?
       parseInt(event.queryStringParameters.page) : 1;
     const search = event.queryStringParameters?.search?.trim() || '';
+    const status = event.queryStringParameters?.status || '';
 
-    console.log(`Getting escalation requests: page=${page}, limit=${limit}, search="${search}"`);
+    console.log(`Getting escalation requests: page=${page}, limit=${limit}, search="${search}", status="${status}"`);
 
     // Validate parameters
     if (isNaN(limit) || limit < 1 || limit > 100) {
@@ -177,6 +294,13 @@ async function getEscalationRequests(event) {
       });
     }
 
+    if (status && !ESCALATION_STATUSES.includes(status)) {
+      return createResponse(400, {
+        error: 'Invalid status parameter',
+        message: `Status must be one of: ${ESCALATION_STATUSES.join(', ')}`
+      });
+    }
+
     // Use GSI to query only form_submit escalations, sorted by timestamp
     // This is much more efficient than scanning the entire table
     const queryResult = await dynamodb.send(new QueryCommand({
@@ -208,25 +332,28 @@ async function getEscalationRequests(event) {
       console.log(`After search filter: ${allItems.length} results matching "${search}"`);
     }
 
+    const statusCounts = Object.fromEntries(ESCALATION_STATUSES.map(value => [value, 0]));
+    for (const item of allItems) {
+      statusCounts[item.status || 'pending'] = (statusCounts[item.status || 'pending'] || 0) + 1;
+    }
+    if (status) {
+      allItems = allItems.filter(item => (item.status || 'pending') === status);
+    }
+
     // Paginate in-memory (could be improved with DynamoDB pagination tokens)
     const startIndex = (page - 1) * limit;
     const endIndex = startIndex + limit;
     const paginatedItems = allItems.slice(startIndex, endIndex);
 
     // Format response
-    const requests = paginatedItems.map(item => ({
-      name: item.name || 'N/A',
-      email: item.email || 'N/A',
-      phone: item.phoneNumber || 'N/A',
-      zipCode: item.zipCode || 'N/A',
-      dateTime: item.dateTime || 'N/A'
-    }));
+    const requests = paginatedItems.map(formatEscalationRequest);
 
     console.log(`Returning ${requests.length} requests for page ${page}, total: ${allItems.length}`);
 
     return createResponse(200, {
       requests,
-      total: allItems.length
+      total: allItems.length,
+      statusCounts
     });
 
   } catch (error) {
@@ -238,6 +365,395 @@ async function getEscalationRequests(event) {
   }
 }
 
+/**
+ * Update the status or assignee of an escalation request, or add a note
+ * Status changes must follow ESCALATION_STATUS_TRANSITIONS. Every change is appended to the history.
+ */
+async function updateEscalationRequest(escalationId, event) {
+  try {
+    if (!event.body) {
+      return createResponse(400, {
+        error: 'Request body is required',
+        message: 'Please provide the status, assignee or note to update'
+      });
+    }
+
+    let request;
+    try {
+      request = JSON.parse(event.body);
+    } catch (parseError) {
+      return createResponse(400, {
+        error: 'Invalid JSON',
+        message: 'Request body must be valid JSON'
+      });
+    }
+
+    const validation = validateEscalationUpdate(request);
+    if (!validation.valid) {
+      return createResponse(400, {
+        error: 'Validation error',
+        message: validation.message
+      });
+    }
+
+    let assignee = null;
+    if (request.assignee) {
+      assignee = await getStaffUser(request.assignee);
+      if (!assignee) {
+        return createResponse(400, {
+          error: 'Validation error',
+          message: `${request.assignee} is not a staff user`
+        });
+      }
+    }
+
+    const editor = event.requestContext?.authorizer?.claims?.email || 'unknown';
+    const note = request.note ? sanitizeNote(request.note) : '';
+
+    // Only the edited fields are written, conditioned on the case being unchanged since it was read, so an
+    // unsubscribe, a repeat chat escalation or another staff edit in between is never overwritten
+    for (let attempt = 1; ; attempt++) {
+      const result = await dynamodb.send(new GetItemCommand({
+        TableName: ESCALATION_TABLE,
+        Key: marshall({ escalationId })
+      }));
+      if (!result.Item) {
+        return createResponse(404, {
+          error: 'Escalation request not found',
+          message: `No escalation request with id ${escalationId}`
+        });
+      }
+      const existing = unmarshall(result.Item);
+      const currentStatus = existing.status || 'pending';
+
+      if (request.status !== undefined && request.status !== currentStatus
+        && !ESCALATION_STATUS_TRANSITIONS[currentStatus]?.includes(request.status)) {
+        return createResponse(409, {
+          error: 'Invalid status transition',
+          message: `An escalation that is ${currentStatus} can move to: ${(ESCALATION_STATUS_TRANSITIONS[currentStatus] || []).join(', ')}`
+        });
+      }
+
+      const status = request.status ?? currentStatus;
+      const assigneeUsername = request.assignee !== undefined ? assignee?.username : existing.assignee;
+
+      const changes = [];
+      if (status !== currentStatus) changes.push('status');
+      if (assigneeUsername !== existing.assignee) changes.push('assignee');
+      if (note) changes.push('note');
+
+      if (changes.length === 0) {
+        return createResponse(200, formatEscalationRequest(existing));
+      }
+
+      const now = new Date().toISOString();
+      const set = ['#status = :status', 'history = :history', 'updatedAt = :now', 'updatedBy = :editor'];
+      const remove = [];
+      const values = {
+        ':status': status,
+        ':history': [
+          ...(existing.history || []),
+          { at: now, by: editor, status, changes }
+        ].slice(-MAX_ESCALATION_HISTORY),
+        ':now': now,
+        ':editor': editor
+      };
+
+      if (changes.includes('assignee')) {
+        if (assignee) {
+          set.push('assignee = :assignee', 'assigneeEmail = :assigneeEmail');
+          values[':assignee'] = assignee.username;
+          values[':assigneeEmail'] = assignee.email;
+        } else {
+          remove.push('assignee', 'assigneeEmail');
+        }
+      }
+      if (note) {
+        set.push('notes = :notes');
+        values[':notes'] = [
+          ...(existing.notes || []),
+          { at: now, by: editor, text: note }
+        ].slice(-MAX_ESCALATION_NOTES);
+      }
+
+      // attribute_exists: expired (TTL) while being updated
+      let condition = 'attribute_exists(escalationId) AND ';
+      if (existing.updatedAt) {
+        condition += 'updatedAt = :readUpdatedAt';
+        values[':readUpdatedAt'] = existing.updatedAt;
+      } else {
+        condition += 'attribute_not_exists(updatedAt)';
+      }
+
+      let record;
+      try {
+        const updated = await dynamodb.send(new UpdateItemCommand({
+          TableName: ESCALATION_TABLE,
+          Key: marshall({ escalationId }),
+          UpdateExpression: `SET ${set.join(', ')}${remove.length ? ` REMOVE ${remove.join(', ')}` : ''}`,
+          ConditionExpression: condition,
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: marshall(values, { removeUndefinedValues: true }),
+          ReturnValues: 'ALL_NEW'
+        }));
+        record = unmarshall(updated.Attributes);
+      } catch (error) {
+        if (error.name !== 'ConditionalCheckFailedException') throw error;
+        if (attempt < ESCALATION_UPDATE_ATTEMPTS) continue; // Edited in between: re-read and apply again
+        return createResponse(409, {
+          error: 'Escalation request changed',
+          message: 'The escalation request was changed by someone else. Reload it and try again.'
+        });
+      }
+
+      console.log(`Updated escalation request ${escalationId}: ${changes.join(', ')}`);
+
+      // Let the requester know their request moved on (unless they unsubscribed)
+      if (changes.includes('status')) {
+        await sendUserMessage(record.status, record, { unsubscribeUrl: getUnsubscribeUrl(record) });
+      }
+      return createResponse(200, formatEscalationRequest(record));
+    }
+
+  } catch (error) {
+    console.error('Error updating escalation request:', error);
+    return createResponse(500, {
+      error: 'Failed to update escalation request',
+      message: error.message || 'Unknown error'
+    });
+  }
+}
+
+/**
+ * List the staff users (Cognito user pool) escalations can be assigned to
+ */
+async function getAssignees() {
+  try {
+    const assignees = [];
+    let paginationToken;
+
+    do {
+      const result = await cognito.send(new ListUsersCommand({
+        UserPoolId: USER_POOL_ID,
+        PaginationToken: paginationToken
+      }));
+
+      for (const user of result.Users || []) {
+        if (user.Enabled === false) continue;
+        assignees.push(toStaffUser(user.Username, user.Attributes));
+      }
+      paginationToken = result.PaginationToken;
+    } while (paginationToken);
+
+    assignees.sort((a, b) => (a.name || a.email || '').localeCompare(b.name || b.email || ''));
+
+    return createResponse(200, { assignees });
+
+  } catch (error) {
+    console.error('Error listing assignees:', error);
+    return createResponse(500, {
+      error: 'Failed to list assignees',
+      message: error.message || 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Look up an enabled staff user by Cognito username (or email, the sign-in alias)
+ *
+ * @returns {Promise<{username: string, email: string|null, name: string|null}|null>} Null if there is no such user
+ */
+async function getStaffUser(username) {
+  try {
+    const user = await cognito.send(new AdminGetUserCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: username
+    }));
+    return user.Enabled === false ? null : toStaffUser(user.Username, user.UserAttributes);
+  } catch (error) {
+    if (error.name === 'UserNotFoundException') return null;
+    throw error;
+  }
+}
+
+/**
+ * Helper: Staff user fields from a Cognito user's attributes
+ */
+function toStaffUser(username, attributes = []) {
+  const attribute = name => attributes.find(attr => attr.Name === name)?.Value || null;
+  return {
+    username,
+    email: attribute('email'),
+    name: attribute('name')
+  };
+}
+
+/**
+ * Get the chat transcript of the conversation an escalation request came from
+ */
+async function getEscalationTranscript(escalationId) {
+  try {
+    const result = await dynamodb.send(new GetItemCommand({
+      TableName: ESCALATION_TABLE,
+      Key: marshall({ escalationId })
+    }));
+    if (!result.Item) {
+      return createResponse(404, {
+        error: 'Escalation request not found',
+        message: `No escalation request with id ${escalationId}`
+      });
+    }
+
+    const { sessionId } = unmarshall(result.Item);
+    const messages = [];
+
+    if (sessionId) {
+      let lastEvaluatedKey;
+      do {
+        const page = await dynamodb.send(new QueryCommand({
+          TableName: MESSAGES_TABLE,
+          KeyConditionExpression: 'conversationId = :sessionId',
+          ExpressionAttributeValues: marshall({ ':sessionId': sessionId }),
+          ExclusiveStartKey: lastEvaluatedKey
+        }));
+
+        // Sort key is the ISO timestamp, so messages come back oldest first
+        for (const item of page.Items || []) {
+          const message = unmarshall(item);
+          messages.push({
+            sender: message.sender,
+            content: message.content,
+            timestamp: message.timestamp,
+            language: message.language,
+            confidence: message.confidence,
+            sources: message.sources
+          });
+        }
+        lastEvaluatedKey = page.LastEvaluatedKey;
+      } while (lastEvaluatedKey);
+    }
+
+    return createResponse(200, {
+      escalationId,
+      sessionId: sessionId || null,
+      messages
+    });
+
+  } catch (error) {
+    console.error('Error fetching escalation transcript:', error);
+    return createResponse(500, {
+      error: 'Failed to fetch escalation transcript',
+      message: error.message || 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Stop email updates about a request
+ * Opened from the link in user messages (GET) or by mail clients' one-click unsubscribe (POST, RFC 8058).
+ */
+async function handleUnsubscribe(event) {
+  try {
+    const escalationId = event.queryStringParameters?.ref || '';
+    const token = event.queryStringParameters?.token || '';
+
+    const result = escalationId && token ? await dynamodb.send(new GetItemCommand({
+      TableName: ESCALATION_TABLE,
+      Key: marshall({ escalationId })
+    })) : {};
+    const record = result.Item ? unmarshall(result.Item) : null;
+
+    if (!record?.unsubscribeToken || !tokensMatch(record.unsubscribeToken, token)) {
+      return createHtmlResponse(400, UNSUBSCRIBE_PAGES.invalid);
+    }
+
+    if (!record.emailOptOut) {
+      await dynamodb.send(new UpdateItemCommand({
+        TableName: ESCALATION_TABLE,
+        Key: marshall({ escalationId }),
+        UpdateExpression: 'SET emailOptOut = :true, emailOptOutAt = :now',
+        ConditionExpression: 'attribute_exists(escalationId)',
+        ExpressionAttributeValues: marshall({ ':true': true, ':now': new Date().toISOString() })
+      }));
+      console.log(`Requester unsubscribed from updates about ${escalationId}`);
+    }
+
+    return createHtmlResponse(200, UNSUBSCRIBE_PAGES[record.language === 'es' ? 'es' : 'en']);
+
+  } catch (error) {
+    console.error('Error handling unsubscribe:', error);
+    return createHtmlResponse(500, UNSUBSCRIBE_PAGES.error);
+  }
+}
+
+/**
+ * Unsubscribe link for a request (none without UNSUBSCRIBE_URL or for requests created before unsubscribe tokens)
+ */
+function getUnsubscribeUrl(record) {
+  if (!UNSUBSCRIBE_URL || !record.unsubscribeToken) {
+    return undefined;
+  }
+  return `${UNSUBSCRIBE_URL}?ref=${encodeURIComponent(record.escalationId)}&token=${record.unsubscribeToken}`;
+}
+
+/**
+ * Compare unsubscribe tokens in constant time
+ */
+function tokensMatch(expected, actual) {
+  const expectedBuffer = Buffer.from(String(expected));
+  const actualBuffer = Buffer.from(String(actual));
+  return expectedBuffer.length === actualBuffer.length && crypto.timingSafeEqual(expectedBuffer, actualBuffer);
+}
+
+/**
+ * Get the chat-initiated escalation of a session (created by chat-processor), if any
+ * Uses the SessionIndex GSI
+ */
+async function getChatEscalation(sessionId) {
+  const result = await dynamodb.send(new QueryCommand({
+    TableName: ESCALATION_TABLE,
+    IndexName: 'SessionIndex',
+    KeyConditionExpression: 'sessionId = :sessionId',
+    FilterExpression: '#source = :chatEscalation',
+    ExpressionAttributeNames: { '#source': 'source' },
+    ExpressionAttributeValues: marshall({
+      ':sessionId': sessionId,
+      ':chatEscalation': 'chat_escalation'
+    })
+  }));
+  return result.Items?.length ? unmarshall(result.Items[0]) : null;
+}
+
+/**
+ * Format an escalation record for the admin dashboard
+ */
+function formatEscalationRequest(item) {
+  return {
+    escalationId: item.escalationId,
+    name: item.name || 'N/A',
+    email: item.email || 'N/A',
+    phone: item.phoneNumber || 'N/A',
+    zipCode: item.zipCode || 'N/A',
+    dateTime: item.dateTime || 'N/A',
+    timestamp: item.timestamp,
+    source: item.source,
+    sessionId: item.sessionId || null,
+    reason: item.reason || null, // Why the chat escalated the conversation
+    reasonCodes: item.reasonCodes || [], // Escalation policy rules that matched
+    chatEscalatedAt: item.chatEscalatedAt || null,
+    urgency: item.urgency || 'normal', // 'urgent' when the chat detected an emergency
+    language: item.language || 'en',
+    emailOptOut: Boolean(item.emailOptOut), // Requester unsubscribed from status emails
+    status: item.status || 'pending',
+    assignee: item.assignee || null,
+    assigneeEmail: item.assigneeEmail || null,
+    notes: item.notes || [],
+    history: item.history || [],
+    updatedAt: item.updatedAt || null,
+    updatedBy: item.updatedBy || null
+  };
+}
+
 /**
  * Health check
  */
@@ -305,6 +821,16 @@ function validateEscalationRequest(request) {
     }
   }
 
+  // Chat session the form was submitted from (optional)
+  if (request.sessionId !== undefined && request.sessionId !== null
+    && (typeof request.sessionId !== 'string' || !/^[\w-]{1,100}$/.test(request.sessionId))) {
+    return { valid: false, message: 'Invalid session ID' };
+  }
+
+  if (request.language !== undefined && !USER_MESSAGE_LANGUAGES.includes(request.language)) {
+    return { valid: false, message: `Language must be one of: ${USER_MESSAGE_LANGUAGES.join(', ')}` };
+  }
+
   // Validate optional zip code format if provided (like original)
   if (request.zipCode && request.zipCode.trim().length > 0) {
     if (request.zipCode.trim().length > 10) {
@@ -320,6 +846,31 @@ function validateEscalationRequest(request) {
   return { valid: true };
 }
 
+/**
+ * Validate an escalation update request
+ */
+function validateEscalationUpdate(request) {
+  if (request.status === undefined && request.assignee === undefined && !request.note) {
+    return { valid: false, message: 'Provide a status, assignee or note' };
+  }
+
+  if (request.status !== undefined && !ESCALATION_STATUSES.includes(request.status)) {
+    return { valid: false, message: `status must be one of: ${ESCALATION_STATUSES.join(', ')}` };
+  }
+
+  if (request.assignee !== undefined && request.assignee !== null
+    && (typeof request.assignee !== 'string' || request.assignee.length > 200)) {
+    return { valid: false, message: 'assignee must be a string of 200 characters or less' };
+  }
+
+  if (request.note !== undefined && request.note !== null
+    && (typeof request.note !== 'string' || request.note.length > MAX_NOTE_LENGTH)) {
+    return { valid: false, message: `note must be a string of ${MAX_NOTE_LENGTH} characters or less` };
+  }
+
+  return { valid: true };
+}
+
 /**
  * Check rate limiting for escalation submissions
  * Prevents spam by limiting submissions per email address
@@ -397,6 +948,10 @@ function redactPII(obj) {
         else if (lowerKey === 'name') {
           result[key] = typeof value === 'string' && value.length > 0 ? value[0] + '***' : '[REDACTED-NAME]';
         }
+        // Redact unsubscribe tokens
+        else if (lowerKey === 'token') {
+          result[key] = '[REDACTED-TOKEN]';
+        }
         // Redact body content which might contain PII
         else if (lowerKey === 'body' && typeof value === 'string') {
           try {
@@ -444,6 +999,31 @@ function sanitizeInput(input) {
     .trim();
 }
 
+/**
+ * Sanitize a staff note
+ * Like sanitizeInput, but keeps line breaks
+ */
+function sanitizeNote(note) {
+  return note
+    .replace(/<[^>]*>?/gm, '')
+    .replace(/[<>]/g, '')
+    .replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F\x7F]/g, '')
+    .trim();
+}
+
+/**
+ * Create a plain HTML page response (unsubscribe links are opened in a browser)
+ */
+function createHtmlResponse(statusCode, message) {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8'
+    },
+    body: `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>ADA Clara</title></head><body style="font-family: sans-serif; max-width: 480px; margin: 48px auto; padding: 0 16px; color: #020617;"><p>${message}</p></body></html>`
+  };
+}
+
 /**
  * Create standardized API response with CORS headers
  */
@@ -454,7 +1034,7 @@ function createResponse(statusCode, body) {
       'Content-Type': 'application/json',
       'Access-Control-Allow-Origin': FRONTEND_URL,
       'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-      'Access-Control-Allow-Methods': 'POST, GET, OPTIONS',
+      'Access-Control-Allow-Methods': 'POST, GET, PATCH, OPTIONS',
       'Access-Control-Allow-Credentials': 'true'
     },
     body: typeof body === 'string' ? body : JSON.stringify(body)
@@ -0,0 +1,251 @@
+/**
+ * User Messages
+ * Transactional emails to people who request contact through the escalation form
+ *
+ * Message kinds:
+ * - confirmation - sent when the request is submitted, with its reference number (the escalationId)
+ * - contacted, resolved, closed - sent when staff move the request to that status
+ *
+ * Templates live in TEMPLATES per kind and language ('en', 'es'). USER_MESSAGE_TEMPLATES (JSON, same
+ * shape) overrides individual subjects and bodies without a code change, e.g.
+ * { "confirmation": { "es": { "subject": "..." } } }. Placeholders: {{name}}, {{reference}}, {{status}}.
+ * The footer with {{unsubscribeUrl}} is appended when the message has an unsubscribe link.
+ *
+ * USER_MESSAGE_TRANSPORT selects how messages are sent: 'ses' (default, from USER_MESSAGE_FROM) or
+ * 'local', which records messages in localOutbox (and LOCAL_MESSAGES_FILE as NDJSON, when set)
+ * instead of sending them. Every transport implements send({ to, subject, body, headers }) -> Promise<void>.
+ */
+
+const fs = require('fs');
+const { SESv2Client, SendEmailCommand } = require('@aws-sdk/client-sesv2');
+
+const USER_MESSAGE_LANGUAGES = ['en', 'es'];
+const USER_MESSAGE_KINDS = ['confirmation', 'contacted', 'resolved', 'closed'];
+
+const TEMPLATES = {
+  confirmation: {
+    en: {
+      subject: 'We received your request (reference {{reference}})',
+      body: [
+        'Hello {{name}},',
+        '',
+        'Thank you for contacting the American Diabetes Association. We received your request and someone from our team will reach out to you shortly.',
+        '',
+        'Your reference number is {{reference}}. Please mention it if you contact us about this request.',
+        '',
+        'If you have a medical emergency, call 911 or go to the nearest emergency room.'
+      ].join('\n')
+    },
+    es: {
+      subject: 'Recibimos su solicitud (referencia {{reference}})',
+      body: [
+        'Hola {{name}}:',
+        '',
+        'Gracias por comunicarse con la Asociación Americana de la Diabetes. Recibimos su solicitud y alguien de nuestro equipo se comunicará con usted en breve.',
+        '',
+        'Su número de referencia es {{reference}}. Menciónelo si se comunica con nosotros sobre esta solicitud.',
+        '',
+        'Si tiene una emergencia médica, llame al 911 o acuda a la sala de emergencias más cercana.'
+      ].join('\n')
+    }
+  },
+  contacted: {
+    en: {
+      subject: 'Update on your request {{reference}}',
+      body: [
+        'Hello {{name}},',
+        '',
+        'A member of our team is working on your request {{reference}} and will contact you, if they have not already, using the details you provided.'
+      ].join('\n')
+    },
+    es: {
+      subject: 'Novedades sobre su solicitud {{reference}}',
+      body: [
+        'Hola {{name}}:',
+        '',
+        'Un miembro de nuestro equipo está atendiendo su solicitud {{reference}} y se comunicará con usted, si aún no lo ha hecho, con los datos que nos proporcionó.'
+      ].join('\n')
+    }
+  },
+  resolved: {
+    en: {
+      subject: 'Your request {{reference}} has been resolved',
+      body: [
+        'Hello {{name}},',
+        '',
+        'Our team has marked your request {{reference}} as resolved. If you still need help, you can send a new request from ADA Clara at any time.'
+      ].join('\n')
+    },
+    es: {
+      subject: 'Su solicitud {{reference}} ha sido resuelta',
+      body: [
+        'Hola {{name}}:',
+        '',
+        'Nuestro equipo marcó su solicitud {{reference}} como resuelta. Si todavía necesita ayuda, puede enviar una nueva solicitud desde ADA Clara en cualquier momento.'
+      ].join('\n')
+    }
+  },
+  closed: {
+    en: {
+      subject: 'Your request {{reference}} has been closed',
+      body: [
+        'Hello {{name}},',
+        '',
+        'Your request {{reference}} has been closed. If you still need help, you can send a new request from ADA Clara at any time.'
+      ].join('\n')
+    },
+    es: {
+      subject: 'Su solicitud {{reference}} ha sido cerrada',
+      body: [
+        'Hola {{name}}:',
+        '',
+        'Su solicitud {{reference}} ha sido cerrada. Si todavía necesita ayuda, puede enviar una nueva solicitud desde ADA Clara en cualquier momento.'
+      ].join('\n')
+    }
+  }
+};
+
+const FOOTERS = {
+  en: [
+    '',
+    'American Diabetes Association',
+    '',
+    'To stop receiving updates about this request, visit {{unsubscribeUrl}}'
+  ].join('\n'),
+  es: [
+    '',
+    'Asociación Americana de la Diabetes',
+    '',
+    'Para dejar de recibir novedades sobre esta solicitud, visite {{unsubscribeUrl}}'
+  ].join('\n')
+};
+
+// Messages recorded by the local transport, newest last
+const localOutbox = [];
+
+let templateOverrides = null;
+let ses = null;
+
+/**
+ * Templates from USER_MESSAGE_TEMPLATES, parsed once (invalid JSON falls back to the defaults)
+ */
+function getTemplateOverrides() {
+  if (templateOverrides === null) {
+    try {
+      templateOverrides = JSON.parse(process.env.USER_MESSAGE_TEMPLATES || '{}');
+    } catch (error) {
+      console.error('Invalid USER_MESSAGE_TEMPLATES, using the default templates:', error.message);
+      templateOverrides = {};
+    }
+  }
+  return templateOverrides;
+}
+
+/**
+ * Render a message in the given language (falls back to English)
+ */
+function renderUserMessage(kind, language, values) {
+  const lang = USER_MESSAGE_LANGUAGES.includes(language) ? language : 'en';
+  const template = { ...TEMPLATES[kind][lang], ...(getTemplateOverrides()[kind]?.[lang] || {}) };
+  const body = values.unsubscribeUrl ? `${template.body}\n${FOOTERS[lang]}` : template.body;
+
+  return {
+    subject: renderTemplate(template.subject, values),
+    body: renderTemplate(body, values)
+  };
+}
+
+/**
+ * Replace {{placeholder}} occurrences in a template
+ */
+function renderTemplate(template, values) {
+  return String(template).replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => (values[key] === undefined ? '' : String(values[key])));
+}
+
+/**
+ * Create the transport selected by USER_MESSAGE_TRANSPORT
+ */
+function createMessageTransport() {
+  const transport = (process.env.USER_MESSAGE_TRANSPORT || 'ses').toLowerCase();
+
+  if (transport === 'local') {
+    return {
+      async send(message) {
+        const record = { sentAt: new Date().toISOString(), ...message };
+        localOutbox.push(record);
+        if (process.env.LOCAL_MESSAGES_FILE) {
+          fs.appendFileSync(process.env.LOCAL_MESSAGES_FILE, `${JSON.stringify(record)}\n`);
+        }
+        console.log(`[local message] ${message.subject}`);
+      }
+    };
+  }
+
+  if (transport === 'ses') {
+    return {
+      async send({ to, subject, body, headers }) {
+        if (!process.env.USER_MESSAGE_FROM) {
+          throw new Error('USER_MESSAGE_FROM is not set');
+        }
+        ses = ses || new SESv2Client({ region: process.env.AWS_REGION || 'us-west-2' });
+        await ses.send(new SendEmailCommand({
+          FromEmailAddress: process.env.USER_MESSAGE_FROM,
+          Destination: { ToAddresses: [to] },
+          Content: {
+            Simple: {
+              Subject: { Data: subject, Charset: 'UTF-8' },
+              Body: { Text: { Data: body, Charset: 'UTF-8' } },
+              Headers: Object.entries(headers || {}).map(([Name, Value]) => ({ Name, Value }))
+            }
+          }
+        }));
+      }
+    };
+  }
+
+  throw new Error(`Unsupported USER_MESSAGE_TRANSPORT: ${transport}`);
+}
+
+/**
+ * Send a message about an escalation request to its requester (never throws)
+ * Returns true when the message was sent.
+ */
+async function sendUserMessage(kind, escalation, { unsubscribeUrl } = {}) {
+  if (!USER_MESSAGE_KINDS.includes(kind) || !escalation.email) {
+    return false;
+  }
+  if (kind !== 'confirmation' && escalation.emailOptOut) {
+    console.log(`Skipping ${kind} message for ${escalation.escalationId}: requester unsubscribed`);
+    return false;
+  }
+
+  const message = renderUserMessage(kind, escalation.language, {
+    name: escalation.name,
+    reference: escalation.escalationId,
+    status: escalation.status,
+    unsubscribeUrl
+  });
+
+  try {
+    await createMessageTransport().send({
+      to: escalation.email,
+      ...message,
+      // One-click unsubscribe (RFC 8058) for mail clients that support it
+      headers: unsubscribeUrl ? { 'List-Unsubscribe': `<${unsubscribeUrl}>`, 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' } : {}
+    });
+    console.log(`Sent ${kind} message for ${escalation.escalationId}`);
+    return true;
+  } catch (error) {
+    console.error(`Failed to send ${kind} message for ${escalation.escalationId}:`, error.message);
+    return false;
+  }
+}
+
+module.exports = {
+  USER_MESSAGE_LANGUAGES,
+  USER_MESSAGE_KINDS,
+  localOutbox,
+  renderUserMessage,
+  createMessageTransport,
+  sendUserMessage
+};
@@ -0,0 +1,256 @@
+/**
+ * Escalation Notifier Lambda
+ * Consolidated single-file implementation
+ *
+ * Fans escalation events out to the staff notification channels. Events are published
+ * asynchronously by chat-processor and escalation-handler (see escalation-events.js):
+ * { type, urgency, occurredAt, escalation: { escalationId, source, reason, name, ... }, question }
+ *
+ * NOTIFICATION_CHANNELS is a JSON array of channels:
+ * - name: label used in logs
+ * - type: 'ses' | 'sns' | 'webhook' | 'local' (see notification-channels.js for type-specific settings)
+ * - urgency: urgencies routed to the channel (default ['normal', 'urgent']); an on-call channel
+ *   with ['urgent'] only receives emergencies
+ * - events: event types routed to the channel (default: all)
+ * - subject / body: templates with {{placeholders}} (defaults per channel type in DEFAULT_TEMPLATES)
+ * - includeContact: include the user's name, email, phone and ZIP code (default true, false for webhooks)
+ *
+ * Each channel is retried up to NOTIFICATION_MAX_ATTEMPTS times with exponential backoff. A channel
+ * that still fails is logged without failing the invocation, so an invocation retry never re-sends
+ * to the channels that did deliver.
+ */
+
+const { validateChannel, createTransport } = require('./notification-channels');
+
+// Environment variables
+const NOTIFICATION_CHANNELS = process.env.NOTIFICATION_CHANNELS || '[]';
+const MAX_ATTEMPTS = parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '3', 10);
+const RETRY_BASE_DELAY_MS = parseInt(process.env.NOTIFICATION_RETRY_BASE_DELAY_MS || '500', 10);
+const FRONTEND_URL = process.env.FRONTEND_URL || '';
+
+const EVENT_LABELS = {
+  'escalation.created': 'New escalation',
+  'escalation.repeated': 'Repeat escalation'
+};
+
+const SOURCE_LABELS = {
+  chat_escalation: 'Chat escalation',
+  talk_to_person: 'Talk to a person',
+  form_submit: 'Escalation form'
+};
+
+const CONTACT_FIELDS = ['name', 'email', 'phone', 'zipCode'];
+
+const EMAIL_BODY = [
+  '{{eventLabel}} ({{urgencyLabel}})',
+  '',
+  'Reference: {{escalationId}}',
+  'Source: {{sourceLabel}}',
+  'Reason: {{reason}}',
+  'Question: {{question}}',
+  '',
+  'Name: {{name}}',
+  'Email: {{email}}',
+  'Phone: {{phone}}',
+  'ZIP code: {{zipCode}}',
+  '',
+  'Received: {{receivedAt}}',
+  'Dashboard: {{dashboardUrl}}'
+].join('\n');
+
+const DEFAULT_TEMPLATES = {
+  ses: { subject: '[{{urgencyLabel}}] ADA Clara: {{eventLabel}} ({{sourceLabel}})', body: EMAIL_BODY },
+  sns: { subject: '[{{urgencyLabel}}] ADA Clara: {{eventLabel}} ({{sourceLabel}})', body: EMAIL_BODY },
+  webhook: {
+    subject: '[{{urgencyLabel}}] {{eventLabel}}',
+    body: '[{{urgencyLabel}}] {{eventLabel}} {{escalationId}} ({{sourceLabel}}): {{reason}} - {{dashboardUrl}}'
+  },
+  local: { subject: '[{{urgencyLabel}}] ADA Clara: {{eventLabel}} ({{sourceLabel}})', body: EMAIL_BODY }
+};
+
+// Channels parsed from NOTIFICATION_CHANNELS, reused across warm invocations
+let channelsCache = null;
+
+/**
+ * Main Lambda handler
+ */
+exports.handler = async (event) => {
+  const validation = validateEscalationEvent(event);
+  if (!validation.valid) {
+    console.error('Invalid escalation event:', validation.message);
+    return { delivered: [], failed: [], skipped: [], error: validation.message };
+  }
+
+  const { escalationId } = event.escalation;
+  const channels = getChannels();
+  const routed = channels.filter(channel => isRouted(channel, event));
+  const skipped = channels.filter(channel => !routed.includes(channel)).map(channel => channel.name);
+
+  console.log(`Notifying ${routed.length} of ${channels.length} channels of ${event.type} (${event.urgency}) for ${escalationId}`);
+
+  const results = await Promise.all(routed.map(async (channel) => {
+    try {
+      await deliverWithRetries(channel, buildMessage(channel, event));
+      return { channel: channel.name, delivered: true };
+    } catch (error) {
+      console.error(`Notification to ${channel.name} failed for ${escalationId}:`, error.message);
+      return { channel: channel.name, delivered: false };
+    }
+  }));
+
+  const summary = {
+    delivered: results.filter(result => result.delivered).map(result => result.channel),
+    failed: results.filter(result => !result.delivered).map(result => result.channel),
+    skipped
+  };
+  console.log(`Notifications for ${escalationId}:`, JSON.stringify(summary));
+  return summary;
+};
+
+/**
+ * Validate an escalation event
+ */
+function validateEscalationEvent(event) {
+  if (!event || typeof event !== 'object') {
+    return { valid: false, message: 'Event must be an object' };
+  }
+  if (!EVENT_LABELS[event.type]) {
+    return { valid: false, message: `Event type must be one of: ${Object.keys(EVENT_LABELS).join(', ')}` };
+  }
+  if (!event.escalation?.escalationId) {
+    return { valid: false, message: 'Event escalation.escalationId is required' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Parse and validate NOTIFICATION_CHANNELS (invalid channels are logged and left out)
+ */
+function getChannels() {
+  if (channelsCache) {
+    return channelsCache;
+  }
+
+  let configured = [];
+  try {
+    configured = JSON.parse(NOTIFICATION_CHANNELS);
+    if (!Array.isArray(configured)) {
+      throw new Error('NOTIFICATION_CHANNELS must be a JSON array');
+    }
+  } catch (error) {
+    console.error('Invalid NOTIFICATION_CHANNELS, no notifications will be sent:', error.message);
+    configured = [];
+  }
+
+  channelsCache = configured
+    .map((channel, index) => ({ ...channel, name: channel?.name || `${channel?.type || 'channel'}-${index + 1}` }))
+    .filter((channel) => {
+      const validation = validateChannel(channel);
+      if (!validation.valid) {
+        console.error(`Ignoring notification channel ${channel.name}: ${validation.message}`);
+      }
+      return validation.valid;
+    });
+
+  return channelsCache;
+}
+
+/**
+ * Check if an event is routed to a channel (by urgency and event type)
+ */
+function isRouted(channel, event) {
+  const urgencies = channel.urgency || ['normal', 'urgent'];
+  const events = channel.events || Object.keys(EVENT_LABELS);
+  return urgencies.includes(event.urgency) && events.includes(event.type);
+}
+
+/**
+ * Render the channel's subject and body for an event
+ */
+function buildMessage(channel, event) {
+  const templates = DEFAULT_TEMPLATES[channel.type];
+  const values = getTemplateValues(event, channel.includeContact ?? channel.type !== 'webhook');
+
+  return {
+    subject: renderTemplate(channel.subject || templates.subject, values),
+    body: renderTemplate(channel.body || templates.body, values),
+    urgency: event.urgency,
+    type: event.type,
+    escalationId: event.escalation.escalationId
+  };
+}
+
+/**
+ * Placeholder values for an event (missing values render as N/A)
+ */
+function getTemplateValues(event, includeContact) {
+  const escalation = event.escalation;
+  const values = {
+    escalationId: escalation.escalationId,
+    eventType: event.type,
+    eventLabel: EVENT_LABELS[event.type],
+    urgency: event.urgency,
+    urgencyLabel: event.urgency === 'urgent' ? 'URGENT' : 'Normal',
+    source: escalation.source,
+    sourceLabel: SOURCE_LABELS[escalation.source] || escalation.source,
+    reason: escalation.reason,
+    question: event.question,
+    name: escalation.name,
+    email: escalation.email,
+    phone: escalation.phoneNumber,
+    zipCode: escalation.zipCode,
+    sessionId: escalation.sessionId,
+    chatEscalationCount: escalation.chatEscalationCount,
+    receivedAt: escalation.timestamp || event.occurredAt,
+    dashboardUrl: FRONTEND_URL ? `${FRONTEND_URL}/admin` : ''
+  };
+
+  if (!includeContact) {
+    for (const field of CONTACT_FIELDS) {
+      values[field] = values[field] ? '[hidden]' : undefined;
+    }
+  }
+  return values;
+}
+
+/**
+ * Replace {{placeholder}} occurrences in a template
+ */
+function renderTemplate(template, values) {
+  return String(template).replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => {
+    const value = values[key];
+    return value === undefined || value === null || value === '' ? 'N/A' : String(value);
+  });
+}
+
+/**
+ * Deliver a message through a channel, retrying transient failures with exponential backoff
+ */
+async function deliverWithRetries(channel, message) {
+  const transport = createTransport(channel);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await transport.send(message);
+      return;
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS || !isRetryable(error)) {
+        throw error;
+      }
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+      console.warn(`Notification to ${channel.name} failed (attempt ${attempt}/${MAX_ATTEMPTS}), retrying in ${delay}ms:`, error.message);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Client errors other than throttling will not succeed on retry
+ */
+function isRetryable(error) {
+  if (error.retryable === false) {
+    return false;
+  }
+  const status = error.statusCode || error.$metadata?.httpStatusCode;
+  return !(status >= 400 && status < 500 && status !== 429);
+}
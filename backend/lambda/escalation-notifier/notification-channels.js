@@ -0,0 +1,173 @@
+/**
+ * Notification Channels
+ * Transports used by the escalation notifier to deliver staff notifications
+ *
+ * Every transport implements:
+ * - send({ subject, body, urgency, type, escalationId }) -> Promise<void>
+ * A delivery error with retryable = false (or a 4xx status other than 429) is not retried.
+ *
+ * Channel types: 'ses' (email), 'sns' (topic), 'webhook' (HTTP POST) and 'local'.
+ * The local transport records messages in an in-memory outbox (and LOCAL_NOTIFICATIONS_FILE as
+ * NDJSON, when set) instead of sending them. NOTIFICATION_TRANSPORT=local swaps it in for every
+ * channel, keeping each channel's routing and templates, so the fan-out can be exercised without AWS.
+ */
+
+const fs = require('fs');
+const crypto = require('crypto');
+const { SESv2Client, SendEmailCommand } = require('@aws-sdk/client-sesv2');
+const { SNSClient, PublishCommand } = require('@aws-sdk/client-sns');
+
+const CHANNEL_TYPES = ['ses', 'sns', 'webhook', 'local'];
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '5000', 10);
+const SNS_MAX_SUBJECT_LENGTH = 100;
+
+// Messages recorded by the local transport, newest last
+const localOutbox = [];
+
+let ses = null;
+let sns = null;
+
+/**
+ * Check a channel's type-specific settings
+ */
+function validateChannel(channel) {
+  if (!channel || typeof channel !== 'object') {
+    return { valid: false, message: 'Channel must be an object' };
+  }
+  if (!CHANNEL_TYPES.includes(channel.type)) {
+    return { valid: false, message: `Channel type must be one of: ${CHANNEL_TYPES.join(', ')}` };
+  }
+  if (channel.type === 'ses' && (!channel.from || !channel.to || toList(channel.to).length === 0)) {
+    return { valid: false, message: 'SES channels require from and to' };
+  }
+  if (channel.type === 'sns' && !channel.topicArn) {
+    return { valid: false, message: 'SNS channels require topicArn' };
+  }
+  if (channel.type === 'webhook' && !/^https?:\/\//.test(channel.url || '')) {
+    return { valid: false, message: 'Webhook channels require an http(s) url' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Create the transport for a channel (NOTIFICATION_TRANSPORT=local overrides the channel type)
+ */
+function createTransport(channel) {
+  const type = (process.env.NOTIFICATION_TRANSPORT || '').toLowerCase() === 'local' ? 'local' : channel.type;
+
+  switch (type) {
+    case 'ses':
+      return createSesTransport(channel);
+    case 'sns':
+      return createSnsTransport(channel);
+    case 'webhook':
+      return createWebhookTransport(channel);
+    case 'local':
+      return createLocalTransport(channel);
+    default:
+      throw new Error(`Unsupported notification channel type: ${channel.type}`);
+  }
+}
+
+/**
+ * Email through Amazon SES
+ */
+function createSesTransport(channel) {
+  ses = ses || new SESv2Client({ region: process.env.AWS_REGION || 'us-west-2' });
+
+  return {
+    async send({ subject, body }) {
+      await ses.send(new SendEmailCommand({
+        FromEmailAddress: channel.from,
+        Destination: { ToAddresses: toList(channel.to) },
+        Content: {
+          Simple: {
+            Subject: { Data: subject, Charset: 'UTF-8' },
+            Body: { Text: { Data: body, Charset: 'UTF-8' } }
+          }
+        }
+      }));
+    }
+  };
+}
+
+/**
+ * Amazon SNS topic; the urgency and event type attributes let subscriptions filter (e.g. an on-call pager on urgent only)
+ */
+function createSnsTransport(channel) {
+  sns = sns || new SNSClient({ region: process.env.AWS_REGION || 'us-west-2' });
+
+  return {
+    async send({ subject, body, urgency, type }) {
+      await sns.send(new PublishCommand({
+        TopicArn: channel.topicArn,
+        // SNS subjects are limited to 100 printable ASCII characters on one line
+        Subject: subject.replace(/[^\x20-\x7E]/g, '').slice(0, SNS_MAX_SUBJECT_LENGTH) || 'Escalation',
+        Message: body,
+        MessageAttributes: {
+          urgency: { DataType: 'String', StringValue: urgency },
+          eventType: { DataType: 'String', StringValue: type }
+        }
+      }));
+    }
+  };
+}
+
+/**
+ * Generic webhook: POSTs { text, subject, urgency, type, escalationId } as JSON
+ * With a secret, the body is signed in X-Clara-Signature (sha256=<hex HMAC-SHA256 of the body>).
+ */
+function createWebhookTransport(channel) {
+  return {
+    async send({ subject, body, urgency, type, escalationId }) {
+      const payload = JSON.stringify({ text: body, subject, urgency, type, escalationId });
+      const headers = { 'Content-Type': 'application/json', ...(channel.headers || {}) };
+      if (channel.secret) {
+        headers['X-Clara-Signature'] = `sha256=${crypto.createHmac('sha256', channel.secret).update(payload).digest('hex')}`;
+      }
+
+      const response = await fetch(channel.url, {
+        method: 'POST',
+        headers,
+        body: payload,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        const error = new Error(`Webhook responded with ${response.status}`);
+        error.statusCode = response.status;
+        throw error;
+      }
+    }
+  };
+}
+
+/**
+ * Local stand-in: records the message instead of sending it
+ */
+function createLocalTransport(channel) {
+  return {
+    async send(message) {
+      const record = { channel: channel.name, channelType: channel.type, sentAt: new Date().toISOString(), ...message };
+      localOutbox.push(record);
+      if (process.env.LOCAL_NOTIFICATIONS_FILE) {
+        fs.appendFileSync(process.env.LOCAL_NOTIFICATIONS_FILE, `${JSON.stringify(record)}\n`);
+      }
+      console.log(`[local notification] ${channel.name}: ${message.subject}`);
+    }
+  };
+}
+
+/**
+ * Normalize a single address or list of addresses
+ */
+function toList(value) {
+  return (Array.isArray(value) ? value : [value]).filter(Boolean);
+}
+
+module.exports = {
+  CHANNEL_TYPES,
+  localOutbox,
+  validateChannel,
+  createTransport
+};
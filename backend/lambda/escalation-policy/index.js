@@ -0,0 +1,292 @@
+/**
+ * Escalation Policy Lambda
+ * Consolidated single-file implementation
+ *
+ * Admin API for the escalation policy chat-processor evaluates on every answer (see escalation-policy.js).
+ * The active policy is a single item (policyId 'active') in the escalation policy table; until one
+ * is saved, DEFAULT_ESCALATION_POLICY applies.
+ *
+ * Handles:
+ * - GET /admin/escalation-policy - Get the active policy and the defaults
+ * - PUT /admin/escalation-policy - Replace the active policy
+ * - POST /admin/escalation-policy/evaluate - Dry run a policy against a sample answer
+ */
+
+const { DynamoDBClient, GetItemCommand, PutItemCommand } = require('@aws-sdk/client-dynamodb');
+const { marshall, unmarshall } = require('@aws-sdk/util-dynamodb');
+const { DEFAULT_ESCALATION_POLICY, REASON_LABELS, validateEscalationPolicy, evaluateEscalationPolicy } = require('../shared/escalation-policy');
+
+// Initialize AWS clients
+const dynamodb = new DynamoDBClient({ region: process.env.AWS_REGION || 'us-west-2' });
+
+// Environment variables - No fallbacks for table names (must be set by CDK)
+const ESCALATION_POLICY_TABLE = process.env.ESCALATION_POLICY_TABLE;
+const FRONTEND_URL = process.env.FRONTEND_URL || '*'; // Frontend URL for CORS (defaults to wildcard in dev)
+
+const ACTIVE_POLICY_KEY = { policyId: 'active' };
+const MAX_SAMPLE_MESSAGE_LENGTH = 2000;
+
+/**
+ * Main Lambda handler
+ */
+exports.handler = async (event) => {
+  console.log('Escalation policy handler invoked:', JSON.stringify(event, null, 2));
+
+  try {
+    const path = event.path;
+    const method = event.httpMethod;
+
+    // Route requests
+    if (method === 'OPTIONS') {
+      return createResponse(200, '');
+    } else if (path.endsWith('/admin/escalation-policy')) {
+      if (method === 'GET') return await getEscalationPolicy();
+      if (method === 'PUT') return await saveEscalationPolicy(event);
+    } else if (path.endsWith('/admin/escalation-policy/evaluate') && method === 'POST') {
+      return await evaluateSample(event);
+    }
+
+    return createResponse(404, {
+      error: 'Endpoint not found',
+      availableEndpoints: [
+        'GET /admin/escalation-policy',
+        'PUT /admin/escalation-policy',
+        'POST /admin/escalation-policy/evaluate'
+      ]
+    });
+
+  } catch (error) {
+    console.error('Escalation policy handler error:', error);
+    return createResponse(500, {
+      error: 'Internal server error',
+      message: error.message || 'Unknown error occurred'
+    });
+  }
+};
+
+/**
+ * Get the active policy (version 0 while the defaults apply)
+ */
+async function getEscalationPolicy() {
+  const stored = await getStoredPolicy();
+
+  return createResponse(200, {
+    policy: stored?.policy || DEFAULT_ESCALATION_POLICY,
+    version: stored?.version || 0,
+    updatedAt: stored?.updatedAt || null,
+    updatedBy: stored?.updatedBy || null,
+    isDefault: !stored,
+    defaults: DEFAULT_ESCALATION_POLICY,
+    reasonLabels: REASON_LABELS
+  });
+}
+
+/**
+ * Replace the active policy
+ * The request carries the version the edit started from; a policy saved by someone else in the
+ * meantime is not overwritten (409).
+ */
+async function saveEscalationPolicy(event) {
+  const parsed = parseBody(event, 'Please provide the escalation policy');
+  if (parsed.response) {
+    return parsed.response;
+  }
+  const request = parsed.body;
+
+  if (!Number.isInteger(request.version) || request.version < 0) {
+    return createResponse(400, {
+      error: 'Validation error',
+      message: 'version must be the version of the policy being edited (0 for the defaults)'
+    });
+  }
+
+  const validation = validateEscalationPolicy(request.policy);
+  if (!validation.valid) {
+    return createResponse(400, {
+      error: 'Validation error',
+      message: validation.message
+    });
+  }
+
+  const record = {
+    ...ACTIVE_POLICY_KEY,
+    policy: normalizePolicy(request.policy),
+    version: request.version + 1,
+    updatedAt: new Date().toISOString(),
+    updatedBy: event.requestContext?.authorizer?.claims?.email || 'unknown'
+  };
+
+  try {
+    await dynamodb.send(new PutItemCommand({
+      TableName: ESCALATION_POLICY_TABLE,
+      Item: marshall(record, { removeUndefinedValues: true }),
+      ConditionExpression: request.version === 0 ? 'attribute_not_exists(policyId)' : 'version = :version',
+      ...(request.version === 0 ? {} : { ExpressionAttributeValues: marshall({ ':version': request.version }) })
+    }));
+  } catch (error) {
+    if (error.name !== 'ConditionalCheckFailedException') throw error;
+    return createResponse(409, {
+      error: 'Policy changed',
+      message: 'The escalation policy was changed by someone else. Reload it and apply your changes again.'
+    });
+  }
+
+  console.log(`Saved escalation policy version ${record.version} (${record.updatedBy})`);
+  return createResponse(200, {
+    policy: record.policy,
+    version: record.version,
+    updatedAt: record.updatedAt,
+    updatedBy: record.updatedBy,
+    isDefault: false
+  });
+}
+
+/**
+ * Evaluate a sample answer against a policy (the active one unless the request has a policy)
+ * so admins can check a change before saving it
+ */
+async function evaluateSample(event) {
+  const parsed = parseBody(event, 'Please provide a sample message');
+  if (parsed.response) {
+    return parsed.response;
+  }
+  const request = parsed.body;
+
+  const validation = validateSample(request);
+  if (!validation.valid) {
+    return createResponse(400, {
+      error: 'Validation error',
+      message: validation.message
+    });
+  }
+
+  let policy = request.policy;
+  if (policy) {
+    const policyValidation = validateEscalationPolicy(policy);
+    if (!policyValidation.valid) {
+      return createResponse(400, {
+        error: 'Validation error',
+        message: policyValidation.message
+      });
+    }
+  } else {
+    policy = (await getStoredPolicy())?.policy || DEFAULT_ESCALATION_POLICY;
+  }
+
+  const evaluation = evaluateEscalationPolicy(policy, {
+    message: request.message,
+    language: request.language || 'en',
+    category: request.category || undefined,
+    confidence: request.confidence,
+    groundedness: typeof request.groundednessScore === 'number' ? { score: request.groundednessScore } : null,
+    lowConfidenceCount: request.lowConfidenceCount || 0
+  });
+
+  return createResponse(200, evaluation);
+}
+
+/**
+ * Validate a dry run request
+ */
+function validateSample(request) {
+  if (typeof request.message !== 'string' || request.message.length > MAX_SAMPLE_MESSAGE_LENGTH) {
+    return { valid: false, message: `message must be a string of at most ${MAX_SAMPLE_MESSAGE_LENGTH} characters` };
+  }
+  if (request.language !== undefined && !['en', 'es'].includes(request.language)) {
+    return { valid: false, message: 'language must be "en" or "es"' };
+  }
+  for (const field of ['confidence', 'groundednessScore']) {
+    const value = request[field];
+    if (value !== undefined && value !== null && (typeof value !== 'number' || value < 0 || value > 1)) {
+      return { valid: false, message: `${field} must be a number between 0 and 1` };
+    }
+  }
+  if (request.lowConfidenceCount !== undefined && (!Number.isInteger(request.lowConfidenceCount) || request.lowConfidenceCount < 0)) {
+    return { valid: false, message: 'lowConfidenceCount must be a non-negative integer' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Keep only the policy fields chat-processor reads, with trimmed patterns
+ */
+function normalizePolicy(policy) {
+  return {
+    confidence: {
+      minimum: policy.confidence.minimum,
+      byLanguage: policy.confidence.byLanguage || {},
+      byCategory: policy.confidence.byCategory || {}
+    },
+    sources: { minRelevanceScore: policy.sources.minRelevanceScore },
+    groundedness: {
+      enabled: policy.groundedness.enabled,
+      minScore: policy.groundedness.minScore
+    },
+    repeatedLowConfidence: {
+      enabled: policy.repeatedLowConfidence.enabled,
+      confidenceBelow: policy.repeatedLowConfidence.confidenceBelow,
+      count: policy.repeatedLowConfidence.count
+    },
+    patternSets: policy.patternSets.map(set => ({
+      code: set.code,
+      label: (set.label || '').trim() || set.code,
+      urgency: set.urgency,
+      enabled: set.enabled,
+      patterns: set.patterns.map(pattern => pattern.trim())
+    }))
+  };
+}
+
+/**
+ * Read the saved policy record, or null when none has been saved
+ */
+async function getStoredPolicy() {
+  const result = await dynamodb.send(new GetItemCommand({
+    TableName: ESCALATION_POLICY_TABLE,
+    Key: marshall(ACTIVE_POLICY_KEY)
+  }));
+  return result.Item ? unmarshall(result.Item) : null;
+}
+
+/**
+ * Parse a JSON request body
+ * Returns { body } or { response } with a 400 response
+ */
+function parseBody(event, missingMessage) {
+  if (!event.body) {
+    return {
+      response: createResponse(400, {
+        error: 'Request body is required',
+        message: missingMessage
+      })
+    };
+  }
+
+  try {
+    return { body: JSON.parse(event.body) };
+  } catch (parseError) {
+    return {
+      response: createResponse(400, {
+        error: 'Invalid JSON',
+        message: 'Request body must be valid JSON'
+      })
+    };
+  }
+}
+
+/**
+ * Create standardized API response with CORS headers
+ */
+function createResponse(statusCode, body) {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': FRONTEND_URL,
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Methods': 'GET, PUT, POST, OPTIONS',
+      'Access-Control-Allow-Credentials': 'true'
+    },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  };
+}
@@ -0,0 +1,522 @@
+/**
+ * Question Clustering Lambda
+ * Consolidated single-file implementation
+ *
+ * Groups questions in the questions table by semantic similarity, per language, so the FAQ and
+ * unanswered analytics count "what is a1c" and "What's A1C?" together.
+ *
+ * Runs on a schedule (EventBridge). Each run:
+ * - Loads existing clusters (centroid embedding, phrasings) from the clusters table
+ * - Embeds questions that have no clusterId yet and assigns each to the most similar cluster in its
+ *   language, or starts a new cluster when none is similar enough
+ * - Saves the updated clusters and writes the clusterId back onto each question
+ * - Adds the questions to the per-cluster rollups admin-analytics serves the FAQ and unanswered lists from,
+ *   and applies answer ratings that changed since a clustered question was counted
+ * Questions are processed in batches of CLUSTER_BATCH_SIZE, each saved before the next starts.
+ *
+ * { action: 'backfill' } rebuilds the cluster rollups from the clustered questions (run once after deploy).
+ *
+ * Cluster rollup items in the analytics table:
+ * - PK CLUSTER_ROLLUP#DAY, SK YYYY-MM-DD#<clusterId> - questions asked that day (UTC)
+ * - PK CLUSTER_ROLLUP#TOTAL, SK <clusterId>
+ * Each holds the cluster's language, lastAskedAt, lastUnansweredAt and the counters questions,
+ * unanswered (escalated or rated negatively), unansweredConfidence (sum), negativeFeedback, each also
+ * per category (e.g. unanswered_cat_diet-nutrition).
+ *
+ * Cluster ids are stable across runs. A new cluster takes the id of its first question's normalized text.
+ */
+
+const { DynamoDBClient, ScanCommand, PutItemCommand, UpdateItemCommand } = require('@aws-sdk/client-dynamodb');
+const { marshall, unmarshall } = require('@aws-sdk/util-dynamodb');
+const crypto = require('crypto');
+const { createLlmProvider } = require('../shared/llm-provider');
+
+// Initialize AWS clients
+const dynamodb = new DynamoDBClient({ region: process.env.AWS_REGION || 'us-west-2' });
+
+// LLM provider (LLM_PROVIDER=bedrock|local) - embeds questions
+const llm = createLlmProvider();
+
+// Environment variables - No fallbacks for table names (must be set by CDK)
+const QUESTIONS_TABLE = process.env.QUESTIONS_TABLE;
+const QUESTION_CLUSTERS_TABLE = process.env.QUESTION_CLUSTERS_TABLE;
+const ANALYTICS_TABLE = process.env.ANALYTICS_TABLE;
+const CLUSTER_SIMILARITY = parseFloat(process.env.CLUSTER_SIMILARITY || '0.85'); // Minimum cosine similarity to join a cluster
+const MAX_QUESTIONS_PER_RUN = parseInt(process.env.MAX_QUESTIONS_PER_RUN || '2000'); // Remaining questions wait for the next run
+
+const MAX_CLUSTER_VARIANTS = 10; // Most frequent phrasings kept per cluster
+const CLUSTER_BATCH_SIZE = 50; // Clusters, questions and rollups are saved after every batch
+
+/**
+ * Main Lambda handler
+ */
+exports.handler = async (event) => {
+  console.log('Question clustering started:', JSON.stringify(event));
+  const startTime = Date.now();
+
+  if (event.action === 'backfill') {
+    return await backfillClusterRollups();
+  }
+
+  try {
+    const clusters = await loadClusters();
+    const questions = await loadQuestionsToProcess();
+    console.log(`Loaded ${clusters.size} clusters and ${questions.length} questions to process`);
+
+    const embeddings = new Map(); // Normalized question -> embedding, for repeated questions within a run
+    const totals = { assigned: 0, created: 0, ratingChanges: 0, updatedClusters: 0, updatedRollups: 0 };
+
+    for (let i = 0; i < questions.length; i += CLUSTER_BATCH_SIZE) {
+      await clusterBatch(questions.slice(i, i + CLUSTER_BATCH_SIZE), clusters, embeddings, totals);
+    }
+
+    const summary = {
+      processed: questions.length,
+      assignedToExisting: totals.assigned,
+      newClusters: totals.created,
+      ratingChanges: totals.ratingChanges,
+      updatedClusters: totals.updatedClusters,
+      updatedRollups: totals.updatedRollups,
+      totalClusters: clusters.size,
+      processingTime: Date.now() - startTime
+    };
+    console.log('Question clustering completed:', JSON.stringify(summary));
+
+    return { statusCode: 200, body: JSON.stringify(summary) };
+
+  } catch (error) {
+    console.error('Question clustering failed:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Question clustering failed',
+        message: error.message || 'Unknown error'
+      })
+    };
+  }
+};
+
+/**
+ * Cluster a batch of questions, then save it: the changed clusters first, then each question's clusterId
+ * (or counted rating), then the rollups of the questions that were marked. A run that stops midway keeps
+ * every earlier batch; questions of the failed batch are still unmarked and are retried by the next run.
+ */
+async function clusterBatch(batch, clusters, embeddings, totals) {
+  const changedClusters = new Set();
+  const pending = []; // { question, cluster, update, contribution }
+
+  for (const question of batch) {
+    try {
+      if (question.clusterId) {
+        // Already counted - only its rating changed
+        pending.push(ratingChange(clusters.get(question.clusterId), question));
+        continue;
+      }
+
+      const normalized = normalizeQuestion(question.question);
+      if (!normalized) continue;
+
+      if (!embeddings.has(normalized)) {
+        embeddings.set(normalized, await llm.embed(normalized));
+      }
+      const embedding = embeddings.get(normalized);
+      const language = question.language || 'en';
+
+      let cluster = findNearestCluster(clusters, language, embedding);
+      if (cluster) {
+        addToCentroid(cluster, embedding);
+        totals.assigned++;
+      } else {
+        cluster = createCluster(clusters, language, normalized, embedding);
+        totals.created++;
+      }
+
+      addVariant(cluster, question.question.trim());
+      changedClusters.add(cluster.clusterId);
+
+      const countedNegative = question.negativeFeedback === true;
+      pending.push({
+        question,
+        cluster,
+        update: {
+          UpdateExpression: countedNegative
+            ? 'SET clusterId = :clusterId, countedNegativeFeedback = :counted'
+            : 'SET clusterId = :clusterId',
+          ExpressionAttributeValues: marshall({
+            ':clusterId': cluster.clusterId,
+            ...(countedNegative && { ':counted': true })
+          })
+        },
+        contribution: collectQuestionCounters(question, countedNegative)
+      });
+
+    } catch (error) {
+      // Leave the question unclustered; the next run retries it
+      console.error(`Failed to cluster question ${question.questionId}:`, error);
+    }
+  }
+
+  // Saved before any question points at them
+  for (const clusterId of changedClusters) {
+    await saveCluster(clusters.get(clusterId));
+  }
+
+  const rollups = new Map();
+  for (const { question, cluster, update, contribution } of pending) {
+    try {
+      await dynamodb.send(new UpdateItemCommand({
+        TableName: QUESTIONS_TABLE,
+        Key: marshall({ questionId: question.questionId }),
+        ...update
+      }));
+    } catch (error) {
+      // Not counted either; the next run retries it
+      console.error(`Failed to update question ${question.questionId}:`, error);
+      continue;
+    }
+    addToClusterRollups(rollups, cluster, question, contribution);
+    if (question.clusterId) totals.ratingChanges++;
+  }
+
+  // Questions are already marked as counted, so a failure here undercounts rather than double counts
+  for (const rollup of rollups.values()) {
+    await incrementClusterRollup(rollup);
+  }
+
+  totals.updatedClusters += changedClusters.size;
+  totals.updatedRollups += rollups.size;
+}
+
+/**
+ * Load all clusters keyed by clusterId, with centroids decoded to number arrays
+ */
+async function loadClusters() {
+  const clusters = new Map();
+  let lastEvaluatedKey;
+
+  do {
+    const result = await dynamodb.send(new ScanCommand({
+      TableName: QUESTION_CLUSTERS_TABLE,
+      ExclusiveStartKey: lastEvaluatedKey
+    }));
+
+    for (const item of (result.Items || []).map(item => unmarshall(item))) {
+      clusters.set(item.clusterId, {
+        ...item,
+        centroid: decodeEmbedding(item.centroid),
+        variants: item.variants || []
+      });
+    }
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return clusters;
+}
+
+/**
+ * Load questions without a clusterId, oldest first, up to MAX_QUESTIONS_PER_RUN, plus clustered questions
+ * whose negative rating was given or withdrawn since they were counted
+ */
+async function loadQuestionsToProcess() {
+  const questions = [];
+  let lastEvaluatedKey;
+
+  do {
+    const result = await dynamodb.send(new ScanCommand({
+      TableName: QUESTIONS_TABLE,
+      FilterExpression: 'attribute_not_exists(clusterId)' +
+        ' OR (negativeFeedback = :true AND attribute_not_exists(countedNegativeFeedback))' +
+        ' OR (attribute_exists(countedNegativeFeedback) AND attribute_not_exists(negativeFeedback))',
+      ProjectionExpression: 'questionId, question, #language, #timestamp, category, confidence, escalated, ' +
+        'negativeFeedback, countedNegativeFeedback, clusterId',
+      ExpressionAttributeNames: { '#language': 'language', '#timestamp': 'timestamp' },
+      ExpressionAttributeValues: marshall({ ':true': true }),
+      ExclusiveStartKey: lastEvaluatedKey
+    }));
+
+    questions.push(...(result.Items || [])
+      .map(item => unmarshall(item))
+      .filter(item => item.question && typeof item.question === 'string'));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey && questions.length < MAX_QUESTIONS_PER_RUN);
+
+  // Oldest first, so a cluster's first phrasing is the first one asked
+  return questions
+    .sort((a, b) => (a.timestamp || '').localeCompare(b.timestamp || ''))
+    .slice(0, MAX_QUESTIONS_PER_RUN);
+}
+
+/**
+ * Most similar cluster in the language, or null if none reaches CLUSTER_SIMILARITY
+ */
+function findNearestCluster(clusters, language, embedding) {
+  let best = null;
+  let bestSimilarity = CLUSTER_SIMILARITY;
+
+  for (const cluster of clusters.values()) {
+    if (cluster.language !== language) continue;
+
+    const similarity = cosineSimilarity(embedding, cluster.centroid);
+    if (similarity >= bestSimilarity) {
+      best = cluster;
+      bestSimilarity = similarity;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Start a cluster from a question, with the hash of its normalized text as the id
+ */
+function createCluster(clusters, language, normalized, embedding) {
+  let clusterId = hashQuestion(normalized);
+  if (clusters.has(clusterId)) {
+    // Same text already clustered in another language
+    clusterId = hashQuestion(`${language}:${normalized}`);
+  }
+
+  const cluster = {
+    clusterId,
+    language,
+    centroid: Array.from(embedding),
+    size: 0,
+    variants: [],
+    createdAt: new Date().toISOString()
+  };
+  clusters.set(clusterId, cluster);
+  return cluster;
+}
+
+/**
+ * Move the centroid towards a new member (running mean)
+ */
+function addToCentroid(cluster, embedding) {
+  const size = cluster.size || 1;
+  cluster.centroid = cluster.centroid.map((value, i) => (value * size + embedding[i]) / (size + 1));
+}
+
+/**
+ * Count a phrasing and keep the most frequent MAX_CLUSTER_VARIANTS
+ * The most frequent phrasing becomes the cluster's representative question.
+ */
+function addVariant(cluster, phrasing) {
+  cluster.size = (cluster.size || 0) + 1;
+
+  const key = normalizeQuestion(phrasing);
+  const existing = cluster.variants.find(variant => normalizeQuestion(variant.text) === key);
+  if (existing) {
+    existing.count++;
+  } else {
+    cluster.variants.push({ text: phrasing, count: 1 });
+  }
+
+  cluster.variants.sort((a, b) => b.count - a.count);
+  cluster.variants = cluster.variants.slice(0, MAX_CLUSTER_VARIANTS);
+  cluster.representative = cluster.variants[0].text;
+}
+
+/**
+ * Save a cluster with its centroid stored as a Float32 binary attribute
+ */
+async function saveCluster(cluster) {
+  await dynamodb.send(new PutItemCommand({
+    TableName: QUESTION_CLUSTERS_TABLE,
+    Item: marshall({
+      ...cluster,
+      centroid: Buffer.from(new Float32Array(cluster.centroid).buffer),
+      updatedAt: new Date().toISOString()
+    }, { removeUndefinedValues: true })
+  }));
+}
+
+/**
+ * Question update and rollup counters that count a clustered question's negative rating, or take it back
+ * when the rating was withdrawn
+ */
+function ratingChange(cluster, question) {
+  const negative = question.negativeFeedback === true;
+  const sign = negative ? 1 : -1;
+
+  const counters = { negativeFeedback: sign };
+  if (question.escalated !== true) {
+    // Escalated questions are unanswered either way
+    counters.unanswered = sign;
+    counters.unansweredConfidence = sign * (question.confidence || 0);
+  }
+  return {
+    question,
+    cluster: cluster || { clusterId: question.clusterId, language: question.language || 'en' },
+    update: {
+      UpdateExpression: negative ? 'SET countedNegativeFeedback = :counted' : 'REMOVE countedNegativeFeedback',
+      ...(negative && { ExpressionAttributeValues: marshall({ ':counted': true }) })
+    },
+    contribution: { counters }
+  };
+}
+
+/**
+ * Counters one question adds to its cluster's rollups, counting its negative rating if countedNegative
+ */
+function collectQuestionCounters(question, countedNegative) {
+  const unanswered = question.escalated === true || countedNegative;
+  const counters = { questions: 1 };
+  if (unanswered) {
+    counters.unanswered = 1;
+    counters.unansweredConfidence = question.confidence || 0;
+  }
+  if (countedNegative) {
+    counters.negativeFeedback = 1;
+  }
+
+  return {
+    counters,
+    lastAskedAt: question.timestamp,
+    lastUnansweredAt: unanswered ? question.timestamp : undefined
+  };
+}
+
+/**
+ * Add a question's counters, overall and for its category, to the cluster's daily and all-time rollups
+ */
+function addToClusterRollups(rollups, cluster, question, { counters, lastAskedAt, lastUnansweredAt }) {
+  const time = new Date(question.timestamp || Date.now());
+  if (isNaN(time.getTime())) return;
+
+  const category = question.category && typeof question.category === 'string' ? question.category : 'general';
+  const keys = [
+    { PK: 'CLUSTER_ROLLUP#DAY', SK: `${time.toISOString().substring(0, 10)}#${cluster.clusterId}` },
+    { PK: 'CLUSTER_ROLLUP#TOTAL', SK: cluster.clusterId }
+  ];
+
+  for (const key of keys) {
+    const id = `${key.PK}|${key.SK}`;
+    if (!rollups.has(id)) {
+      rollups.set(id, { ...key, clusterId: cluster.clusterId, language: cluster.language || 'en', counters: {} });
+    }
+    const rollup = rollups.get(id);
+    for (const [name, value] of Object.entries(counters)) {
+      for (const counter of [name, `${name}_cat_${category}`]) {
+        rollup.counters[counter] = (rollup.counters[counter] || 0) + value;
+      }
+    }
+    if (lastAskedAt && !(rollup.lastAskedAt > lastAskedAt)) rollup.lastAskedAt = lastAskedAt;
+    if (lastUnansweredAt && !(rollup.lastUnansweredAt > lastUnansweredAt)) rollup.lastUnansweredAt = lastUnansweredAt;
+  }
+}
+
+/**
+ * Atomically add a cluster rollup's counters to its item
+ */
+async function incrementClusterRollup(rollup) {
+  const names = { '#clusterId': 'clusterId', '#language': 'language', '#updatedAt': 'updatedAt' };
+  const values = { ':clusterId': rollup.clusterId, ':language': rollup.language, ':updatedAt': new Date().toISOString() };
+  const sets = ['#clusterId = :clusterId', '#language = :language', '#updatedAt = :updatedAt'];
+  const additions = [];
+
+  for (const field of ['lastAskedAt', 'lastUnansweredAt']) {
+    if (rollup[field]) {
+      names[`#${field}`] = field;
+      values[`:${field}`] = rollup[field];
+      sets.push(`#${field} = :${field}`);
+    }
+  }
+
+  Object.entries(rollup.counters).forEach(([name, value], i) => {
+    names[`#c${i}`] = name;
+    values[`:c${i}`] = value;
+    additions.push(`#c${i} :c${i}`);
+  });
+
+  await dynamodb.send(new UpdateItemCommand({
+    TableName: ANALYTICS_TABLE,
+    Key: marshall({ PK: rollup.PK, SK: rollup.SK }),
+    UpdateExpression: `SET ${sets.join(', ')} ADD ${additions.join(', ')}`,
+    ExpressionAttributeNames: names,
+    ExpressionAttributeValues: marshall(values)
+  }));
+}
+
+/**
+ * Rebuild the cluster rollups from the clustered questions
+ * Overwrites existing rollup items. Negative ratings are counted as last applied
+ * (countedNegativeFeedback), so ratings changed since are picked up by the next run.
+ */
+async function backfillClusterRollups() {
+  const clusters = await loadClusters();
+  const rollups = new Map();
+  let count = 0;
+  let lastEvaluatedKey;
+
+  do {
+    const result = await dynamodb.send(new ScanCommand({
+      TableName: QUESTIONS_TABLE,
+      FilterExpression: 'attribute_exists(clusterId)',
+      ExclusiveStartKey: lastEvaluatedKey
+    }));
+    for (const question of (result.Items || []).map(item => unmarshall(item))) {
+      const cluster = clusters.get(question.clusterId) || { clusterId: question.clusterId, language: question.language || 'en' };
+      const collected = collectQuestionCounters(question, question.countedNegativeFeedback === true);
+      addToClusterRollups(rollups, cluster, question, collected);
+      count++;
+    }
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  for (const rollup of rollups.values()) {
+    await dynamodb.send(new PutItemCommand({
+      TableName: ANALYTICS_TABLE,
+      Item: marshall({
+        PK: rollup.PK,
+        SK: rollup.SK,
+        clusterId: rollup.clusterId,
+        language: rollup.language,
+        lastAskedAt: rollup.lastAskedAt,
+        lastUnansweredAt: rollup.lastUnansweredAt,
+        ...rollup.counters,
+        updatedAt: new Date().toISOString()
+      }, { removeUndefinedValues: true })
+    }));
+  }
+
+  console.log(`Cluster rollup backfill counted ${count} questions into ${rollups.size} rollup items`);
+  return { statusCode: 200, body: JSON.stringify({ questions: count, rollups: rollups.size }) };
+}
+
+/**
+ * Normalize a question the same way chat-processor does
+ */
+function normalizeQuestion(text) {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function hashQuestion(normalized) {
+  return crypto.createHash('sha256').update(normalized).digest('hex').substring(0, 16);
+}
+
+function decodeEmbedding(value) {
+  if (!value) return [];
+  const bytes = Buffer.from(value);
+  return Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, bytes.length / 4));
+}
+
+function cosineSimilarity(a, b) {
+  if (!a || !b || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
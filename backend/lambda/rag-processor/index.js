@@ -5,19 +5,49 @@
  * Handles:
  * - POST /query - Process RAG queries using Bedrock Knowledge Base
  * - GET /query/health - Health check
+ * - Streaming invocations (streamHandler) - Emits answer deltas as JSON lines
  */
 
-const { BedrockAgentRuntimeClient, RetrieveCommand } = require('@aws-sdk/client-bedrock-agent-runtime');
-const { BedrockRuntimeClient, InvokeModelCommand } = require('@aws-sdk/client-bedrock-runtime');
+const { DynamoDBClient, QueryCommand } = require('@aws-sdk/client-dynamodb');
+const { marshall, unmarshall } = require('@aws-sdk/util-dynamodb');
+const { createLlmProvider } = require('../shared/llm-provider');
+const { createRetriever } = require('./retriever');
 
 // Initialize AWS clients
-const bedrockAgent = new BedrockAgentRuntimeClient({ region: process.env.AWS_REGION || 'us-west-2' });
-const bedrockRuntime = new BedrockRuntimeClient({ region: process.env.AWS_REGION || 'us-west-2' });
+const dynamodb = new DynamoDBClient({ region: process.env.AWS_REGION || 'us-west-2' });
+
+// LLM provider (LLM_PROVIDER=bedrock|local)
+const llm = createLlmProvider();
+
+// Retriever (RETRIEVER=bedrock-kb|local)
+const retriever = createRetriever({ llm });
 
 // Environment variables - No fallbacks for resource names (must be set by CDK)
 const KNOWLEDGE_BASE_ID = process.env.KNOWLEDGE_BASE_ID;
+const CONTENT_TRACKING_TABLE = process.env.CONTENT_TRACKING_TABLE;
 const GENERATION_MODEL = process.env.GENERATION_MODEL || 'anthropic.claude-3-7-sonnet-20250219-v1:0';
 const CONFIDENCE_THRESHOLD = parseFloat(process.env.CONFIDENCE_THRESHOLD || '0.75');
+const QUERY_REWRITE_MODEL = process.env.QUERY_REWRITE_MODEL || 'anthropic.claude-3-haiku-20240307-v1:0';
+
+// Conversation history limits - bound prompt size for long sessions
+const HISTORY_MAX_MESSAGES = parseInt(process.env.HISTORY_MAX_MESSAGES || '10', 10);
+const HISTORY_TOKEN_BUDGET = parseInt(process.env.HISTORY_TOKEN_BUDGET || '1500', 10);
+
+// Cross-lingual retrieval - the corpus is mostly English, so Spanish queries are translated for retrieval
+// 'translated' retrieves with the English translation, 'both' merges results for both queries, 'off' disables
+const CROSS_LINGUAL_RETRIEVAL = (process.env.CROSS_LINGUAL_RETRIEVAL || 'translated').toLowerCase();
+const TRANSLATION_MODEL = process.env.TRANSLATION_MODEL || 'anthropic.claude-3-haiku-20240307-v1:0';
+
+// Groundedness verification - unsupported sentences are stripped; answers below the minimum score are escalated
+const VERIFIER_MODEL = process.env.VERIFIER_MODEL || 'anthropic.claude-3-haiku-20240307-v1:0';
+const GROUNDEDNESS_MIN_SCORE = parseFloat(process.env.GROUNDEDNESS_MIN_SCORE || '0.5');
+
+// Sources below this relevance score are not used to generate the answer. Relevance scores, like the
+// confidence threshold, are on the Knowledge Base relevance scale (0-1) in hybrid mode too - see retriever.js
+const MIN_RELEVANCE_SCORE = parseFloat(process.env.MIN_RELEVANCE_SCORE || '0.5');
+
+// Resolved source details by S3 URI, reused across warm invocations
+const sourceDetailsCache = new Map();
 
 /**
  * Main Lambda handler
@@ -55,6 +85,49 @@ exports.handler = async (event) => {
   }
 };
 
+/**
+ * Streaming Lambda handler
+ * Invoked by chat-processor via InvokeWithResponseStream. Writes one JSON object per line:
+ * - { type: 'delta', text } for each generated text fragment
+ * - { type: 'reset', text } when the text streamed so far is replaced by text (an answer that failed verification)
+ * - { type: 'complete', response } with the same payload POST /query returns
+ * - { type: 'error', statusCode, error, message } if the query fails
+ *
+ * awslambda.streamifyResponse is only provided by the Lambda Node.js runtime.
+ */
+if (typeof globalThis.awslambda?.streamifyResponse === 'function') {
+  exports.streamHandler = awslambda.streamifyResponse(async (event, responseStream) => {
+    console.log('RAG stream processor invoked:', JSON.stringify(event, null, 2));
+
+    const writeEvent = (payload) => responseStream.write(JSON.stringify(payload) + '\n');
+
+    try {
+      const parsed = parseQueryRequest(event);
+      if (parsed.response) {
+        writeEvent({
+          type: 'error',
+          statusCode: parsed.response.statusCode,
+          ...JSON.parse(parsed.response.body)
+        });
+        return;
+      }
+
+      const ragResponse = await runRagQuery(
+        parsed.params,
+        (text) => writeEvent({ type: 'delta', text }),
+        (text) => writeEvent({ type: 'reset', text })
+      );
+      writeEvent({ type: 'complete', response: ragResponse });
+
+    } catch (error) {
+      console.error('Error processing streaming RAG query:', error);
+      writeEvent({ type: 'error', ...getErrorDetails(error) });
+    } finally {
+      responseStream.end();
+    }
+  });
+}
+
 /**
  * Process RAG query using Bedrock Knowledge Base
  */
@@ -62,246 +135,593 @@ async function processQuery(event) {
   try {
     console.log('Processing RAG query...');
 
-    // Parse request body
-    let body;
-    try {
-      body = event.body ? JSON.parse(event.body) : {};
-    } catch (parseError) {
-      return createResponse(400, {
+    const parsed = parseQueryRequest(event);
+    if (parsed.response) {
+      return parsed.response;
+    }
+
+    const ragResponse = await runRagQuery(parsed.params);
+
+    return createResponse(200, ragResponse);
+
+  } catch (error) {
+    console.error('Error processing RAG query:', error);
+    const { statusCode, ...details } = getErrorDetails(error);
+    return createResponse(statusCode, details);
+  }
+}
+
+/**
+ * Parse and validate a RAG query request
+ * Returns { params } on success or { response } with a 400 response on failure
+ */
+function parseQueryRequest(event) {
+  // Parse request body
+  let body;
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch (parseError) {
+    return {
+      response: createResponse(400, {
         error: 'Invalid JSON',
         message: 'Request body must be valid JSON'
-      });
-    }
+      })
+    };
+  }
 
-    // Validate required fields
-    if (!body.query || typeof body.query !== 'string' || body.query.trim().length === 0) {
-      return createResponse(400, {
+  // Validate required fields
+  if (!body.query || typeof body.query !== 'string' || body.query.trim().length === 0) {
+    return {
+      response: createResponse(400, {
         error: 'Query is required',
         message: 'Query must be a non-empty string'
-      });
-    }
+      })
+    };
+  }
 
-    // Extract parameters with defaults
-    const query = body.query.trim();
-    const language = body.language || 'en';
-    const sessionId = body.sessionId || `session-${Date.now()}`;
-    const maxResults = body.maxResults || 5;
-    const confidenceThreshold = body.confidenceThreshold || CONFIDENCE_THRESHOLD;
+  // Extract parameters with defaults
+  const query = body.query.trim();
+  const language = body.language || 'en';
+  const sessionId = body.sessionId || `session-${Date.now()}`;
+  const maxResults = body.maxResults || 5;
+  const confidenceThreshold = body.confidenceThreshold || CONFIDENCE_THRESHOLD;
+  // chat-processor sends these from its escalation policy
+  const minRelevanceScore = body.minRelevanceScore ?? MIN_RELEVANCE_SCORE;
+  const groundednessMinScore = body.groundednessMinScore ?? GROUNDEDNESS_MIN_SCORE;
 
-    // Validate parameters
-    if (language && !['en', 'es'].includes(language)) {
-      return createResponse(400, {
+  // Validate parameters
+  if (language && !['en', 'es'].includes(language)) {
+    return {
+      response: createResponse(400, {
         error: 'Invalid language',
         message: 'Language must be "en" or "es"'
-      });
-    }
+      })
+    };
+  }
 
-    if (maxResults < 1 || maxResults > 20) {
-      return createResponse(400, {
+  if (maxResults < 1 || maxResults > 20) {
+    return {
+      response: createResponse(400, {
         error: 'Invalid maxResults',
         message: 'maxResults must be between 1 and 20'
-      });
-    }
+      })
+    };
+  }
 
-    if (confidenceThreshold < 0 || confidenceThreshold > 1) {
-      return createResponse(400, {
+  if (confidenceThreshold < 0 || confidenceThreshold > 1) {
+    return {
+      response: createResponse(400, {
         error: 'Invalid confidenceThreshold',
         message: 'confidenceThreshold must be between 0 and 1'
-      });
+      })
+    };
+  }
+
+  for (const [name, value] of Object.entries({ minRelevanceScore, groundednessMinScore })) {
+    if (typeof value !== 'number' || value < 0 || value > 1) {
+      return {
+        response: createResponse(400, {
+          error: `Invalid ${name}`,
+          message: `${name} must be a number between 0 and 1`
+        })
+      };
     }
+  }
 
-    console.log(`Processing query: "${query}" (${language})`);
+  // Optional prior turns from chat-processor, oldest first
+  const history = body.history || [];
+  if (!Array.isArray(history)) {
+    return {
+      response: createResponse(400, {
+        error: 'Invalid history',
+        message: 'history must be an array of { role, content } turns'
+      })
+    };
+  }
 
-    const startTime = Date.now();
+  return {
+    params: {
+      query,
+      language,
+      sessionId,
+      maxResults,
+      confidenceThreshold,
+      minRelevanceScore,
+      groundednessMinScore,
+      history: selectHistoryWindow(history)
+    }
+  };
+}
 
-    // STEP 1: Retrieve relevant documents with scores from Knowledge Base
-    console.log('Step 1: Retrieving documents from Knowledge Base...');
-    const retrieveCommand = new RetrieveCommand({
-      knowledgeBaseId: KNOWLEDGE_BASE_ID,
-      retrievalQuery: {
-        text: query
-      },
-      retrievalConfiguration: {
-        vectorSearchConfiguration: {
-          numberOfResults: maxResults
-          // Note: HYBRID search not supported for S3 Vectors, using default SEMANTIC search
-        }
-      }
-    });
+/**
+ * Keep the most recent valid turns that fit in the history window and token budget
+ */
+function selectHistoryWindow(history) {
+  const turns = history
+    .filter(turn => ['user', 'assistant'].includes(turn?.role) && typeof turn.content === 'string' && turn.content.trim())
+    .slice(-HISTORY_MAX_MESSAGES);
 
-    const retrieveResponse = await bedrockAgent.send(retrieveCommand);
-    console.log(`Retrieved ${retrieveResponse.retrievalResults?.length || 0} documents`);
-
-    // STEP 2: Extract sources with relevance scores
-    const sources = [];
-    const retrievalResults = retrieveResponse.retrievalResults || [];
-
-    for (const result of retrievalResults) {
-      if (result.content?.text && result.location?.s3Location?.uri) {
-        // Bedrock Retrieve API returns score at root level of each result
-        const relevanceScore = result.score || 0;
-
-        sources.push({
-          url: result.location.s3Location.uri,
-          title: extractTitleFromUri(result.location.s3Location.uri),
-          excerpt: result.content.text.length > 200
-            ? result.content.text.substring(0, 200) + '...'
-            : result.content.text,
-          relevanceScore: relevanceScore,
-          fullContent: result.content.text // Keep full content for context
-        });
-      }
+  // Walk back from the newest turn until the budget is spent
+  const selected = [];
+  let tokensUsed = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(turns[i].content);
+    if (tokensUsed + tokens > HISTORY_TOKEN_BUDGET) break;
+    tokensUsed += tokens;
+    selected.unshift({ role: turns[i].role, content: turns[i].content.trim() });
+  }
+
+  return selected;
+}
+
+/**
+ * Rough token estimate (~4 characters per token) used for prompt budgeting
+ */
+function estimateTokens(text) {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Rewrite a follow-up question into a standalone retrieval query using the conversation so far
+ * Falls back to the original query if the rewrite fails
+ */
+async function rewriteQuery(query, history, language) {
+  try {
+    const transcript = history
+      .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+      .join('\n');
+
+    const prompt = `Rewrite the user's latest question as a standalone question for searching a diabetes knowledge base. Resolve pronouns and references using the conversation. Keep it in ${language === 'es' ? 'Spanish' : 'English'}. If the question is already standalone, return it unchanged. Respond with only the question.
+
+Conversation:
+${transcript}
+
+Latest question: ${query}`;
+
+    const rewritten = (await llm.generate({
+      task: 'rewrite',
+      modelId: QUERY_REWRITE_MODEL,
+      maxTokens: 200,
+      temperature: 0,
+      messages: [{
+        role: 'user',
+        content: prompt
+      }],
+      context: { query, history }
+    })).trim();
+
+    return rewritten || query;
+
+  } catch (error) {
+    console.error('Query rewrite failed, using original query:', error);
+    return query;
+  }
+}
+
+/**
+ * Translate a Spanish query into English for retrieval against the English corpus
+ * Returns null if the translation fails, so retrieval falls back to the original query
+ */
+async function translateQuery(query) {
+  try {
+    const prompt = `Translate this Spanish question about diabetes into English for searching an English knowledge base. Keep medical terms, drug names and numbers exact. Respond with only the translated question.
+
+Question: ${query}`;
+
+    const translated = (await llm.generate({
+      task: 'translate',
+      modelId: TRANSLATION_MODEL,
+      maxTokens: 200,
+      temperature: 0,
+      messages: [{
+        role: 'user',
+        content: prompt
+      }],
+      context: { query, sourceLanguage: 'es', targetLanguage: 'en' }
+    })).trim();
+
+    return translated || null;
+
+  } catch (error) {
+    console.error('Query translation failed, retrieving with original query:', error);
+    return null;
+  }
+}
+
+/**
+ * Retrieve with the translated query, or with both queries when CROSS_LINGUAL_RETRIEVAL is 'both'
+ * Chunks found by both queries keep their higher score.
+ */
+async function retrieveDocuments(query, translatedQuery, maxResults) {
+  if (!translatedQuery) {
+    return retriever.retrieve(query, { maxResults });
+  }
+  if (CROSS_LINGUAL_RETRIEVAL !== 'both') {
+    return retriever.retrieve(translatedQuery, { maxResults });
+  }
+
+  const resultSets = await Promise.all([
+    retriever.retrieve(translatedQuery, { maxResults }),
+    retriever.retrieve(query, { maxResults })
+  ]);
+
+  const merged = new Map();
+  for (const result of resultSets.flat()) {
+    const key = `${result.location?.s3Location?.uri}\n${result.content?.text}`;
+    const existing = merged.get(key);
+    if (!existing || (result.score || 0) > (existing.score || 0)) {
+      merged.set(key, result);
     }
+  }
 
-    // STEP 3: Calculate confidence using Bedrock's relevance scores
-    let totalRelevanceScore = 0;
-    let validSourceCount = 0;
-    let topScore = 0;
+  return [...merged.values()]
+    .sort((a, b) => (b.score || 0) - (a.score || 0))
+    .slice(0, maxResults);
+}
 
-    for (const source of sources) {
-      if (source.relevanceScore > 0) {
-        totalRelevanceScore += source.relevanceScore;
-        validSourceCount++;
-        topScore = Math.max(topScore, source.relevanceScore);
-      }
+/**
+ * Build the Claude messages array: prior turns followed by the grounded prompt
+ * Claude requires the conversation to start with a user turn and alternate roles
+ */
+function buildConversationMessages(history, prompt) {
+  const messages = [];
+
+  for (const turn of [...history, { role: 'user', content: prompt }]) {
+    if (messages.length === 0 && turn.role !== 'user') continue;
+
+    const previous = messages[messages.length - 1];
+    if (previous && previous.role === turn.role) {
+      previous.content += `\n\n${turn.content}`;
+    } else {
+      messages.push({ role: turn.role, content: turn.content });
     }
+  }
 
-    // Use top score as confidence (best source determines quality)
-    // Fall back to average if no valid scores
-    const avgConfidence = validSourceCount > 0
-      ? totalRelevanceScore / validSourceCount
-      : 0;
-    const confidence = topScore > 0 ? topScore : avgConfidence;
-
-    // Sort sources by relevance (best first)
-    sources.sort((a, b) => b.relevanceScore - a.relevanceScore);
-
-    // Log detailed confidence analysis
-    console.log(`=== CONFIDENCE ANALYSIS ===`);
-    console.log(`Top Score: ${topScore.toFixed(3)}, Avg Score: ${avgConfidence.toFixed(3)}, Sources: ${validSourceCount}`);
-    console.log(`Final Confidence: ${confidence.toFixed(3)} (threshold: ${confidenceThreshold})`);
-    if (validSourceCount > 0) {
-      sources.slice(0, 3).forEach((s, i) => {
-        console.log(`  Source ${i + 1}: ${s.relevanceScore.toFixed(3)} - ${s.title}`);
-      });
+  return messages;
+}
+
+/**
+ * Run retrieval and generation for a validated query
+ * When onDelta is provided the answer is streamed and each text fragment is passed to it;
+ * onReset is called with the full text when it replaces what was already streamed
+ */
+async function runRagQuery(params, onDelta, onReset) {
+  const { query, language, sessionId, maxResults, confidenceThreshold, minRelevanceScore, groundednessMinScore, history = [] } = params;
+
+  console.log(`Processing query: "${query}" (${language}) with ${history.length} history messages`);
+
+  const startTime = Date.now();
+
+  // STEP 0: Rewrite follow-up questions into a standalone retrieval query
+  const retrievalQuery = history.length > 0
+    ? await rewriteQuery(query, history, language)
+    : query;
+  if (retrievalQuery !== query) {
+    console.log(`Rewrote query for retrieval: "${retrievalQuery}"`);
+  }
+
+  // STEP 0a: Translate Spanish queries for retrieval against the English corpus
+  const translatedQuery = language === 'es' && CROSS_LINGUAL_RETRIEVAL !== 'off'
+    ? await translateQuery(retrievalQuery)
+    : null;
+  if (translatedQuery) {
+    console.log(`Translated query for retrieval: "${translatedQuery}"`);
+  }
+
+  // STEP 1: Retrieve relevant documents with scores
+  console.log(`Step 1: Retrieving documents (${retriever.name})...`);
+  const retrieved = await retrieveDocuments(retrievalQuery, translatedQuery, maxResults);
+  console.log(`Retrieved ${retrieved.length} documents`);
+
+  // STEP 2: Extract sources with relevance scores
+  const sources = [];
+  const retrievalResults = retrieved
+    .filter(result => result.content?.text && result.location?.s3Location?.uri);
+
+  // Map each chunk's S3 object back to its public page
+  const sourceDetails = await Promise.all(retrievalResults.map(resolveSourceDetails));
+
+  for (const [index, result] of retrievalResults.entries()) {
+    // Retrievers return score at root level of each result (Bedrock Retrieve API shape)
+    const relevanceScore = result.score || 0;
+
+    const { url, title, lastCrawled } = sourceDetails[index];
+
+    sources.push({
+      url: url,
+      title: title,
+      lastCrawled: lastCrawled,
+      s3Uri: result.location.s3Location.uri,
+      excerpt: result.content.text.length > 200
+        ? result.content.text.substring(0, 200) + '...'
+        : result.content.text,
+      relevanceScore: relevanceScore,
+      fullContent: result.content.text, // Keep full content for context
+      retrievalPath: result.retrievalPath || 'semantic',
+      retrievalScores: result.scores || { semantic: relevanceScore }
+    });
+  }
+
+  // STEP 3: Calculate confidence using Bedrock's relevance scores
+  let totalRelevanceScore = 0;
+  let validSourceCount = 0;
+  let topScore = 0;
+
+  for (const source of sources) {
+    if (source.relevanceScore > 0) {
+      totalRelevanceScore += source.relevanceScore;
+      validSourceCount++;
+      topScore = Math.max(topScore, source.relevanceScore);
     }
+  }
 
-    // STEP 4: Filter sources by minimum relevance score (0.5 threshold for quality)
-    const MIN_RELEVANCE_SCORE = 0.5;
-    const filteredSources = sources.filter(s => s.relevanceScore >= MIN_RELEVANCE_SCORE);
-    console.log(`Filtered to ${filteredSources.length} sources above ${MIN_RELEVANCE_SCORE} relevance`);
-
-    // STEP 5: Generate response using Claude with filtered context
-    let answer;
-    if (filteredSources.length === 0) {
-      // No high-quality sources found
-      console.log('No sources meet minimum relevance threshold - returning fallback response');
-      answer = language === 'es'
-        ? 'Lo siento, no encontré información confiable para responder a tu pregunta. Por favor, reformula tu pregunta o contacta a un profesional de la salud.'
-        : 'I apologize, but I could not find reliable information to answer your question. Please rephrase your question or consult with a healthcare professional.';
-    } else {
-      console.log('Step 2: Generating response with Claude...');
+  // Use top score as confidence (best source determines quality)
+  // Fall back to average if no valid scores
+  const avgConfidence = validSourceCount > 0
+    ? totalRelevanceScore / validSourceCount
+    : 0;
+  const confidence = topScore > 0 ? topScore : avgConfidence;
+
+  // Sort sources by relevance (best first)
+  sources.sort((a, b) => b.relevanceScore - a.relevanceScore);
+
+  // Log detailed confidence analysis
+  console.log(`=== CONFIDENCE ANALYSIS ===`);
+  console.log(`Top Score: ${topScore.toFixed(3)}, Avg Score: ${avgConfidence.toFixed(3)}, Sources: ${validSourceCount}`);
+  console.log(`Final Confidence: ${confidence.toFixed(3)} (threshold: ${confidenceThreshold})`);
+  if (validSourceCount > 0) {
+    sources.slice(0, 3).forEach((s, i) => {
+      console.log(`  Source ${i + 1}: ${s.relevanceScore.toFixed(3)} - ${s.title}`);
+    });
+  }
 
-      // Build context from filtered sources
-      const context = filteredSources.map((source, idx) =>
-        `Source ${idx + 1} (Relevance: ${source.relevanceScore.toFixed(2)}):\n${source.fullContent}`
-      ).join('\n\n---\n\n');
+  // STEP 4: Filter sources by minimum relevance score
+  const filteredSources = sources.filter(s => s.relevanceScore >= minRelevanceScore);
+  console.log(`Filtered to ${filteredSources.length} sources above ${minRelevanceScore} relevance`);
 
-      const prompt = language === 'es'
-        ? `Eres un asistente médico especializado en diabetes. Responde la siguiente pregunta usando SOLO la información proporcionada. Si la información no es suficiente, indícalo claramente.
+  // STEP 5: Generate response using Claude with filtered context
+  let answer;
+  let citations = [];
+  let groundedness = unverifiedGroundedness();
+  if (filteredSources.length === 0) {
+    // No high-quality sources found
+    console.log('No sources meet minimum relevance threshold - returning fallback response');
+    answer = language === 'es'
+      ? 'Lo siento, no encontré información confiable para responder a tu pregunta. Por favor, reformula tu pregunta o contacta a un profesional de la salud.'
+      : 'I apologize, but I could not find reliable information to answer your question. Please rephrase your question or consult with a healthcare professional.';
+
+    if (onDelta) {
+      onDelta(answer);
+    }
+  } else {
+    console.log('Step 2: Generating response with Claude...');
+
+    // Build context from filtered sources, numbered so the model can cite them as [n]
+    const context = filteredSources.map((source, idx) =>
+      `[${idx + 1}] ${source.title} (Relevance: ${source.relevanceScore.toFixed(2)}):\n${source.fullContent}`
+    ).join('\n\n---\n\n');
+
+    const prompt = language === 'es'
+      ? `Eres un asistente médico especializado en diabetes. Responde la siguiente pregunta usando SOLO la información proporcionada. Si la información no es suficiente, indícalo claramente. Las fuentes pueden estar en inglés; responde siempre en español.
 
 Contexto de fuentes verificadas:
 ${context}
 
 Pregunta: ${query}
 
-Proporciona una respuesta precisa, clara y basada únicamente en las fuentes proporcionadas. Cita las fuentes cuando sea apropiado.`
-        : `You are a medical assistant specialized in diabetes. Answer the following question using ONLY the provided information. If the information is insufficient, clearly state that.
+Proporciona una respuesta precisa, clara y basada únicamente en las fuentes proporcionadas. Después de cada oración que use información de una fuente, cítala con su número entre corchetes, por ejemplo [1] o [1][2]. Cita solo las fuentes numeradas arriba.`
+      : `You are a medical assistant specialized in diabetes. Answer the following question using ONLY the provided information. If the information is insufficient, clearly state that.
 
 Context from verified sources:
 ${context}
 
 Question: ${query}
 
-Provide an accurate, clear response based solely on the provided sources. Cite sources when appropriate.`;
-
-      const invokeCommand = new InvokeModelCommand({
-        modelId: GENERATION_MODEL,
-        contentType: 'application/json',
-        accept: 'application/json',
-        body: JSON.stringify({
-          anthropic_version: 'bedrock-2023-05-31',
-          max_tokens: 1024,
-          temperature: 0.3, // Low temperature for factual responses
-          messages: [{
-            role: 'user',
-            content: prompt
-          }]
-        })
-      });
+Provide an accurate, clear response based solely on the provided sources. After each sentence that uses information from a source, cite it with its number in square brackets, for example [1] or [1][2]. Only cite the numbered sources above.`;
+
+    // STEP 6: Check every claim against the sources and strip unsupported sentences before any text is shown
+    ({ text: answer, groundedness } = await generateVerifiedAnswer(
+      buildConversationMessages(history, prompt),
+      filteredSources,
+      language,
+      groundednessMinScore,
+      onDelta,
+      onReset
+    ));
+
+    // STEP 7: Keep only citation markers that point at a retrieved source
+    ({ text: answer, citations } = validateCitations(answer, filteredSources));
+
+    console.log(`Generated response: ${answer.substring(0, 100)}...`);
+  }
 
-      const generateResponse = await bedrockRuntime.send(invokeCommand);
-      const responseBody = JSON.parse(new TextDecoder().decode(generateResponse.body));
-      answer = responseBody.content[0].text || 'I apologize, but I could not generate a response to your question.';
+  const processingTime = Date.now() - startTime;
 
-      console.log(`Generated response: ${answer.substring(0, 100)}...`);
+  // Which retrieval path (semantic, keyword or both) contributed each source, in sources order
+  const sourceRetrievalPaths = sources.map(source => ({
+    s3Uri: source.s3Uri,
+    retrievalPath: source.retrievalPath,
+    scores: source.retrievalScores
+  }));
+
+  // Remove internal fields from sources before returning (fullContent was only needed for generation)
+  sources.forEach(source => {
+    delete source.fullContent;
+    delete source.retrievalPath;
+    delete source.retrievalScores;
+  });
+
+  const ragResponse = {
+    response: answer,
+    confidence: confidence,
+    sources: sources,
+    citations: citations,
+    groundedness: groundedness,
+    language: language,
+    sessionId: sessionId,
+    processingTime: processingTime,
+    meetsAccuracyRequirement: confidence >= confidenceThreshold && validSourceCount >= 1,
+    metadata: {
+      knowledgeBaseId: KNOWLEDGE_BASE_ID,
+      retriever: retriever.name,
+      generationModel: GENERATION_MODEL,
+      numberOfSources: validSourceCount,
+      totalSourcesRetrieved: sources.length,
+      topRelevanceScore: topScore,
+      avgRelevanceScore: avgConfidence,
+      confidenceThreshold: confidenceThreshold,
+      queryLength: query.length,
+      originalQuery: query,
+      translatedQuery: translatedQuery,
+      retrievalQuery: retrievalQuery,
+      sourceRetrievalPaths: sourceRetrievalPaths,
+      historyMessagesUsed: history.length,
+      groundednessScore: groundedness.score
     }
+  };
+
+  console.log(`RAG query processed successfully. Confidence: ${confidence.toFixed(2)}, Sources: ${sources.length}`);
+
+  return ragResponse;
+}
+
+/**
+ * Generate an answer and verify it against the sources before any of it reaches the user
+ * When streaming, each finished paragraph is verified while the rest is generated, and only text
+ * with supported sentences is passed to onDelta, in order. If the final answer does not continue the
+ * streamed text (nothing was supported), it is passed to onReset to replace it. Returns { text, groundedness }.
+ */
+async function generateVerifiedAnswer(messages, sources, language, minScore, onDelta, onReset) {
+  const checks = [];
+  let streamed = '';
+  let pending = '';
+  let verification = Promise.resolve();
 
-    const processingTime = Date.now() - startTime;
-
-    // Remove fullContent from sources before returning (was only needed for generation)
-    sources.forEach(source => delete source.fullContent);
-
-    const ragResponse = {
-      response: answer,
-      confidence: confidence,
-      sources: sources,
-      language: language,
-      sessionId: sessionId,
-      processingTime: processingTime,
-      meetsAccuracyRequirement: confidence >= confidenceThreshold && validSourceCount >= 1,
-      metadata: {
-        knowledgeBaseId: KNOWLEDGE_BASE_ID,
-        generationModel: GENERATION_MODEL,
-        numberOfSources: validSourceCount,
-        totalSourcesRetrieved: sources.length,
-        topRelevanceScore: topScore,
-        avgRelevanceScore: avgConfidence,
-        confidenceThreshold: confidenceThreshold,
-        queryLength: query.length
+  // Paragraphs are checked concurrently but recorded and passed on in order
+  const verifyParagraph = (paragraph) => {
+    const check = checkClaims(paragraph, sources, language);
+    verification = verification.then(async () => {
+      const result = await check;
+      checks.push(result);
+      // Headings and other unchecked text wait for the supported sentences that follow them;
+      // sentences whose verification failed are passed on unverified, as in non-streaming mode
+      if (result.supported > 0 || (!result.verified && result.checkable > 0)) {
+        const text = joinParagraphs(checks);
+        onDelta(text.slice(streamed.length));
+        streamed = text;
       }
-    };
+    });
+  };
 
-    console.log(`RAG query processed successfully. Confidence: ${confidence.toFixed(2)}, Sources: ${sources.length}`);
+  const answer = await generateAnswer(messages, sources, onDelta && ((text) => {
+    pending += text;
+    let index;
+    while ((index = pending.indexOf('\n\n')) !== -1) {
+      const paragraph = pending.slice(0, index).replace(/^\n+/, '');
+      pending = pending.slice(index + 2);
+      if (paragraph.trim()) {
+        verifyParagraph(paragraph);
+      }
+    }
+  }));
 
-    return createResponse(200, ragResponse);
+  if (!answer) {
+    const text = 'I apologize, but I could not generate a response to your question.';
+    if (onDelta) {
+      onDelta(text);
+    }
+    return { text, groundedness: unverifiedGroundedness() };
+  }
 
-  } catch (error) {
-    console.error('Error processing RAG query:', error);
-    
-    // Handle specific Bedrock errors
-    if (error.name === 'ValidationException') {
-      return createResponse(400, {
-        error: 'Invalid request',
-        message: error.message || 'Request validation failed'
-      });
-    } else if (error.name === 'ResourceNotFoundException') {
-      return createResponse(404, {
-        error: 'Knowledge base not found',
-        message: 'The specified knowledge base could not be found'
-      });
-    } else if (error.name === 'AccessDeniedException') {
-      return createResponse(403, {
-        error: 'Access denied',
-        message: 'Insufficient permissions to access the knowledge base'
-      });
+  if (onDelta) {
+    if (pending.trim()) {
+      verifyParagraph(pending.replace(/^\n+/, ''));
     }
+    await verification;
+  } else {
+    checks.push(await checkClaims(answer, sources, language));
+  }
 
-    return createResponse(500, {
-      error: 'RAG query processing failed',
-      message: error.message || 'Unknown error occurred'
-    });
+  const result = summarizeGroundedness(checks, language, minScore);
+  if (onDelta) {
+    // Streamed text is a prefix of the result unless nothing was supported and the fallback replaces it
+    if (result.text.startsWith(streamed)) {
+      onDelta(result.text.slice(streamed.length));
+    } else {
+      onReset(result.text);
+    }
   }
+  return result;
+}
+
+/**
+ * Generate an answer with the LLM provider, streaming text fragments to onDelta when provided
+ */
+async function generateAnswer(messages, sources, onDelta) {
+  const request = {
+    task: 'answer',
+    modelId: GENERATION_MODEL,
+    maxTokens: 1024,
+    temperature: 0.3, // Low temperature for factual responses
+    messages,
+    context: { sources }
+  };
+
+  return onDelta
+    ? await llm.stream(request, onDelta)
+    : await llm.generate(request);
+}
+
+/**
+ * Map a query error to a status code and response body
+ */
+function getErrorDetails(error) {
+  // Handle specific Bedrock errors
+  if (error.name === 'ValidationException') {
+    return {
+      statusCode: 400,
+      error: 'Invalid request',
+      message: error.message || 'Request validation failed'
+    };
+  } else if (error.name === 'ResourceNotFoundException') {
+    return {
+      statusCode: 404,
+      error: 'Knowledge base not found',
+      message: 'The specified knowledge base could not be found'
+    };
+  } else if (error.name === 'AccessDeniedException') {
+    return {
+      statusCode: 403,
+      error: 'Access denied',
+      message: 'Insufficient permissions to access the knowledge base'
+    };
+  }
+
+  return {
+    statusCode: 500,
+    error: 'RAG query processing failed',
+    message: error.message || 'Unknown error occurred'
+  };
 }
 
 /**
@@ -311,20 +731,8 @@ async function healthCheck() {
   try {
     console.log('Performing RAG health check...');
 
-    // Test Knowledge Base access with a simple retrieve query
-    const testCommand = new RetrieveCommand({
-      knowledgeBaseId: KNOWLEDGE_BASE_ID,
-      retrievalQuery: {
-        text: 'What is diabetes?'
-      },
-      retrievalConfiguration: {
-        vectorSearchConfiguration: {
-          numberOfResults: 1
-        }
-      }
-    });
-
-    await bedrockAgent.send(testCommand);
+    // Test retriever access (a simple retrieve query for the Knowledge Base)
+    await retriever.healthCheck();
 
     return createResponse(200, {
       status: 'healthy',
@@ -332,6 +740,8 @@ async function healthCheck() {
       timestamp: new Date().toISOString(),
       knowledgeBaseId: KNOWLEDGE_BASE_ID,
       generationModel: GENERATION_MODEL,
+      llmProvider: llm.name,
+      retriever: retriever.name,
       confidenceThreshold: CONFIDENCE_THRESHOLD
     });
 
@@ -347,6 +757,301 @@ async function healthCheck() {
   }
 }
 
+/**
+ * Check each sentence of an answer (or a paragraph of one) against the sources
+ * Returns { text, checkable, supported, unsupportedSentences, verified } where text has the unsupported
+ * sentences removed. If verification itself fails the text is returned unchanged with verified: false.
+ */
+async function checkClaims(answer, sources, language) {
+  const claims = splitIntoClaims(answer);
+  const checkable = claims.filter(claim => claim.checkable);
+  const unverified = { text: answer, checkable: checkable.length, supported: 0, unsupportedSentences: [], verified: false };
+
+  if (checkable.length === 0) {
+    return unverified;
+  }
+
+  try {
+    const context = sources.map((source, idx) => `[${idx + 1}] ${source.fullContent}`).join('\n\n---\n\n');
+    const statements = checkable.map((claim, idx) => `${idx + 1}. ${claim.text}`).join('\n');
+
+    const prompt = `You are checking a ${language === 'es' ? 'Spanish answer (the sources may be in English)' : 'English answer'} about diabetes for unsupported claims. For each numbered statement, decide whether it is supported by the sources. A statement is supported if the sources state or directly imply it. General framing, such as advising the reader to consult a healthcare professional, counts as supported.
+
+Sources:
+${context}
+
+Statements:
+${statements}
+
+Respond with only JSON in this format: {"results": [{"id": 1, "supported": true}]}`;
+
+    const verdict = await llm.generate({
+      task: 'verify',
+      modelId: VERIFIER_MODEL,
+      maxTokens: 1024,
+      temperature: 0,
+      messages: [{
+        role: 'user',
+        content: prompt
+      }],
+      context: { statementCount: checkable.length }
+    });
+
+    const jsonMatch = verdict.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('Verifier did not return JSON');
+    }
+
+    const supportedIds = new Set(
+      (JSON.parse(jsonMatch[0]).results || [])
+        .filter(result => result.supported === true)
+        .map(result => result.id)
+    );
+
+    // Statements the verifier didn't return a verdict for count as unsupported
+    checkable.forEach((claim, idx) => {
+      claim.supported = supportedIds.has(idx + 1);
+    });
+
+    const unsupported = checkable.filter(claim => !claim.supported);
+    return {
+      text: unsupported.length > 0 ? joinClaims(claims.filter(claim => claim.supported !== false)) : answer,
+      checkable: checkable.length,
+      supported: checkable.length - unsupported.length,
+      unsupportedSentences: unsupported.map(claim => claim.text),
+      verified: true
+    };
+
+  } catch (error) {
+    console.error('Groundedness verification failed, keeping unverified text:', error);
+    return unverified;
+  }
+}
+
+/**
+ * Combine the checks of an answer into its text and groundedness
+ * If too little of the answer is supported the answer is flagged so chat-processor escalates it;
+ * if none of it is, the unsupported text is replaced with a fixed fallback.
+ */
+function summarizeGroundedness(checks, language, minScore = GROUNDEDNESS_MIN_SCORE) {
+  const verified = checks.filter(check => check.verified);
+  const checked = verified.reduce((sum, check) => sum + check.checkable, 0);
+  const text = joinParagraphs(checks);
+
+  if (checked === 0) {
+    return { text, groundedness: unverifiedGroundedness() };
+  }
+
+  const supported = verified.reduce((sum, check) => sum + check.supported, 0);
+  const unsupportedSentences = verified.flatMap(check => check.unsupportedSentences);
+  const score = supported / checked;
+
+  console.log(`Groundedness: ${score.toFixed(2)} (${unsupportedSentences.length}/${checked} sentences unsupported)`);
+
+  return {
+    text: supported > 0 ? text : getUnsupportedAnswerFallback(language),
+    groundedness: {
+      score,
+      verified: true,
+      unsupportedSentences,
+      removedSentences: unsupportedSentences.length,
+      requiresEscalation: score < minScore || supported === 0
+    }
+  };
+}
+
+/**
+ * Groundedness of an answer that could not be verified
+ */
+function unverifiedGroundedness() {
+  return { score: null, verified: false, unsupportedSentences: [], removedSentences: 0, requiresEscalation: false };
+}
+
+/**
+ * Answer shown when none of the generated sentences are supported by the sources
+ */
+function getUnsupportedAnswerFallback(language) {
+  return language === 'es'
+    ? 'No pude encontrar esta información en nuestras fuentes. Te pondremos en contacto con alguien que pueda ayudarte.'
+    : "I couldn't find this in our sources. We'll connect you with someone who can help.";
+}
+
+/**
+ * Join checked paragraphs, leaving out the ones with nothing left
+ */
+function joinParagraphs(checks) {
+  return checks
+    .map(check => check.text)
+    .filter(text => text.trim())
+    .join('\n\n');
+}
+
+/**
+ * Split an answer into sentences, keeping line breaks so the text can be rebuilt
+ * Headings, list labels and other short fragments are kept but not checked
+ */
+function splitIntoClaims(answer) {
+  const claims = [];
+
+  answer.split('\n').forEach((line, lineIndex) => {
+    const sentences = line.trim()
+      ? line.split(/(?<=[.!?](?:\s*\[\d+(?:\s*,\s*\d+)*\])*)\s+/)
+      : [line];
+
+    sentences.forEach(sentence => {
+      const words = sentence.replace(/\[\d+(?:\s*,\s*\d+)*\]/g, '').trim().split(/\s+/).filter(Boolean);
+      claims.push({
+        text: sentence,
+        lineIndex,
+        checkable: words.length >= 3 && !/^#/.test(sentence.trim()) && !/:$/.test(sentence.trim())
+      });
+    });
+  });
+
+  return claims;
+}
+
+/**
+ * Rebuild answer text from claims, dropping lines whose sentences were all removed
+ */
+function joinClaims(claims) {
+  const lines = new Map();
+  for (const claim of claims) {
+    if (!lines.has(claim.lineIndex)) {
+      lines.set(claim.lineIndex, []);
+    }
+    lines.get(claim.lineIndex).push(claim.text);
+  }
+
+  return [...lines.values()]
+    .map(parts => parts.join(' '))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n');
+}
+
+/**
+ * Validate [n] citation markers against the sources given to the model
+ * Drops markers that don't map to a source and renumbers the rest in order of first use
+ */
+function validateCitations(answer, citedSources) {
+  const displayIds = new Map(); // source number -> footnote number
+  const citations = [];
+
+  const text = answer.replace(/(\s*)\[(\d+(?:\s*,\s*\d+)*)\]/g, (match, leadingSpace, group) => {
+    const markers = group.split(',')
+      .map(value => parseInt(value.trim(), 10))
+      .filter(index => index >= 1 && index <= citedSources.length)
+      .map(index => {
+        if (!displayIds.has(index)) {
+          const source = citedSources[index - 1];
+          displayIds.set(index, citations.length + 1);
+          citations.push({
+            id: citations.length + 1,
+            url: source.url,
+            title: source.title,
+            lastCrawled: source.lastCrawled,
+            excerpt: source.excerpt
+          });
+        }
+        return `[${displayIds.get(index)}]`;
+      });
+
+    return markers.length > 0 ? leadingSpace + [...new Set(markers)].join('') : '';
+  });
+
+  console.log(`Validated citations: ${citations.length} sources cited`);
+
+  return { text, citations };
+}
+
+/**
+ * Resolve the canonical page URL, title and last-crawled date for a retrieved chunk
+ * Tries, in order:
+ * 1. Bedrock metadata from the .metadata.json sidecar written by content-processor
+ * 2. ContentTrackingTable lookup by S3 key (content stored before sidecars existed)
+ * 3. The "# Title" / "**Source**: url" header content-processor puts at the top of each page
+ */
+async function resolveSourceDetails(result) {
+  const s3Uri = result.location.s3Location.uri;
+  const metadata = result.metadata || {};
+
+  if (isPageUrl(metadata.url)) {
+    return {
+      url: metadata.url,
+      title: metadata.title || extractTitleFromUri(s3Uri),
+      lastCrawled: metadata.lastCrawled || null
+    };
+  }
+
+  if (!sourceDetailsCache.has(s3Uri)) {
+    sourceDetailsCache.set(s3Uri, lookupContentTracking(s3Uri));
+  }
+  const tracked = await sourceDetailsCache.get(s3Uri);
+  if (tracked) {
+    return tracked;
+  }
+
+  const text = result.content.text;
+  const sourceMatch = text.match(/\*\*Source\*\*:\s*(https?:\/\/\S+)/);
+  const titleMatch = text.match(/^#\s+(.+)$/m);
+
+  return {
+    url: sourceMatch ? sourceMatch[1] : null,
+    title: titleMatch ? titleMatch[1].trim() : extractTitleFromUri(s3Uri),
+    lastCrawled: null
+  };
+}
+
+/**
+ * Find the latest successful crawl of an S3 object in ContentTrackingTable
+ * Returns null if the table isn't configured or has no record for the key
+ */
+async function lookupContentTracking(s3Uri) {
+  if (!CONTENT_TRACKING_TABLE) {
+    return null;
+  }
+
+  try {
+    // s3://bucket/web_content/page.md -> web_content/page.md
+    const s3Key = s3Uri.replace(/^s3:\/\/[^/]+\//, '');
+
+    const result = await dynamodb.send(new QueryCommand({
+      TableName: CONTENT_TRACKING_TABLE,
+      IndexName: 'S3KeyIndex',
+      KeyConditionExpression: 's3Key = :s3Key',
+      ExpressionAttributeValues: marshall({
+        ':s3Key': s3Key
+      }),
+      ScanIndexForward: false,
+      Limit: 1
+    }));
+
+    const record = result.Items?.[0] ? unmarshall(result.Items[0]) : null;
+    if (!record || !isPageUrl(record.url)) {
+      return null;
+    }
+
+    return {
+      url: record.url,
+      title: record.title || extractTitleFromUri(s3Uri),
+      lastCrawled: record.crawlTimestamp || null
+    };
+
+  } catch (error) {
+    console.error(`Content tracking lookup failed for ${s3Uri}:`, error);
+    // Don't cache failures - the next invocation should retry
+    sourceDetailsCache.delete(s3Uri);
+    return null;
+  }
+}
+
+/**
+ * Check that a value is a public http(s) page URL
+ */
+function isPageUrl(value) {
+  return typeof value === 'string' && /^https?:\/\//.test(value);
+}
+
 /**
  * Extract title from S3 URI
  */
@@ -355,7 +1060,7 @@ function extractTitleFromUri(uri) {
     // Extract filename from S3 URI and make it readable
     const filename = uri.split('/').pop() || 'Unknown Source';
     return filename
-      .replace(/\.txt$/, '')
+      .replace(/\.(txt|md)$/, '')
       .replace(/https?-/, '')
       .replace(/-/g, ' ')
       .replace(/\b\w/g, l => l.toUpperCase());
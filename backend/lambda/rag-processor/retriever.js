@@ -0,0 +1,648 @@
+/**
+ * Retrievers
+ *
+ * Every retriever implements:
+ * - retrieve(query, { maxResults }) -> Promise<result[]>
+ * - healthCheck() -> Promise<void> (throws when the backend is unavailable)
+ *
+ * Results use the Bedrock Retrieve API shape so the rest of the pipeline doesn't care
+ * which backend produced them:
+ *   { content: { text }, location: { s3Location: { uri } }, score, metadata }
+ *
+ * RETRIEVER selects the semantic implementation:
+ * - 'bedrock-kb' (default) - Bedrock Knowledge Base (KNOWLEDGE_BASE_ID)
+ * - 'local' - in-memory vector index over the web_content/ markdown written by content-processor,
+ *   loaded from LOCAL_CONTENT_DIR if set, otherwise from CONTENT_BUCKET
+ *
+ * RETRIEVAL_MODE controls how it is used:
+ * - 'hybrid' (default) - semantic results fused with a BM25 keyword index over the same markdown,
+ *   then reranked (RERANKER: 'bedrock' (default) or 'embedding'). The reranker sets the order; score stays
+ *   on the semantic retriever's scale. Each result carries retrievalPath ('semantic', 'keyword' or
+ *   'semantic+keyword') and its per-path scores.
+ * - 'semantic' - the semantic retriever alone
+ *
+ * To add a backend (e.g. OpenSearch, pgvector), implement the two methods and add it to createRetriever.
+ */
+
+const fs = require('fs/promises');
+const path = require('path');
+const { BedrockAgentRuntimeClient, RetrieveCommand, RerankCommand } = require('@aws-sdk/client-bedrock-agent-runtime');
+const { S3Client, ListObjectsV2Command, GetObjectCommand } = require('@aws-sdk/client-s3');
+
+const CONTENT_PREFIX = 'web_content/';
+
+// Match the Knowledge Base data source chunking (300 tokens, 20% overlap) at ~4 characters per token
+const LOCAL_CHUNK_SIZE = 1200;
+const LOCAL_CHUNK_OVERLAP = 240;
+
+// Hybrid retrieval - candidates fetched per path, Reciprocal Rank Fusion constant, share of terms two chunks
+// of the same page must have in common to be merged, BM25 parameters
+const HYBRID_CANDIDATE_MULTIPLIER = 2;
+const RRF_K = 60;
+const CHUNK_OVERLAP_MIN_RATIO = 0.5;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const DEFAULT_RERANK_MODEL = 'amazon.rerank-v1:0';
+
+// Loaded web_content documents, keyed by content source. Bucket content is re-listed after the refresh
+// interval and only objects whose ETag changed are downloaded again.
+const documentCache = new Map();
+const DOCUMENT_REFRESH_INTERVAL_MS = parseInt(process.env.CONTENT_REFRESH_INTERVAL_SECONDS || '900', 10) * 1000;
+const S3_READ_CONCURRENCY = 16;
+
+// Common English and Spanish words carry no signal for keyword matching
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if', 'in',
+  'is', 'it', 'my', 'of', 'on', 'or', 'should', 'the', 'to', 'what', 'when', 'which', 'who', 'why', 'with', 'you', 'your',
+  'de', 'del', 'el', 'en', 'es', 'la', 'las', 'los', 'mi', 'para', 'por', 'que', 'se', 'su', 'un', 'una', 'y'
+]);
+
+/**
+ * Create the retriever selected by RETRIEVER
+ * The local retriever embeds chunks with the given LLM provider
+ */
+function createRetriever({ llm, config = {} } = {}) {
+  const retrieverName = (config.retriever || process.env.RETRIEVER || 'bedrock-kb').toLowerCase();
+  const mode = (config.mode || process.env.RETRIEVAL_MODE || 'hybrid').toLowerCase();
+  const contentSource = {
+    contentDir: config.contentDir || process.env.LOCAL_CONTENT_DIR,
+    bucket: config.bucket || process.env.CONTENT_BUCKET
+  };
+
+  let semantic;
+  if (retrieverName === 'local') {
+    semantic = createLocalRetriever({ llm, ...contentSource });
+  } else if (retrieverName === 'bedrock-kb') {
+    semantic = createBedrockKbRetriever({
+      knowledgeBaseId: config.knowledgeBaseId || process.env.KNOWLEDGE_BASE_ID
+    });
+  } else {
+    throw new Error(`Unknown RETRIEVER "${retrieverName}" - expected "bedrock-kb" or "local"`);
+  }
+
+  if (mode === 'semantic') {
+    return semantic;
+  }
+  if (mode !== 'hybrid') {
+    throw new Error(`Unknown RETRIEVAL_MODE "${mode}" - expected "hybrid" or "semantic"`);
+  }
+
+  return createHybridRetriever({
+    semantic,
+    keyword: createKeywordRetriever(contentSource),
+    reranker: createReranker({
+      llm,
+      reranker: config.reranker || process.env.RERANKER,
+      modelId: config.rerankModel || process.env.RERANK_MODEL
+    })
+  });
+}
+
+/**
+ * Bedrock Knowledge Base retriever
+ */
+function createBedrockKbRetriever({ knowledgeBaseId }) {
+  const client = new BedrockAgentRuntimeClient({ region: process.env.AWS_REGION || 'us-west-2' });
+
+  async function retrieve(query, { maxResults = 5 } = {}) {
+    const response = await client.send(new RetrieveCommand({
+      knowledgeBaseId,
+      retrievalQuery: {
+        text: query
+      },
+      retrievalConfiguration: {
+        vectorSearchConfiguration: {
+          numberOfResults: maxResults
+          // Note: HYBRID search not supported for S3 Vectors, using default SEMANTIC search
+        }
+      }
+    }));
+
+    return response.retrievalResults || [];
+  }
+
+  async function healthCheck() {
+    await retrieve('What is diabetes?', { maxResults: 1 });
+  }
+
+  return { name: 'bedrock-kb', retrieve, healthCheck };
+}
+
+/**
+ * Local in-memory retriever
+ * Chunks and embeds every page once per container, then ranks chunks by cosine similarity.
+ * Intended for development, benchmarking and offline tests rather than production traffic.
+ */
+function createLocalRetriever({ llm, contentDir, bucket }) {
+  if (!llm) {
+    throw new Error('Local retriever requires an LLM provider for embeddings');
+  }
+  if (!contentDir && !bucket) {
+    throw new Error('Local retriever requires LOCAL_CONTENT_DIR or CONTENT_BUCKET');
+  }
+
+  const getIndex = createIndexCache({ contentDir, bucket }, async (documents) => {
+    const index = [];
+    for (const document of documents) {
+      for (const text of chunkText(document.text)) {
+        index.push({
+          text,
+          uri: document.uri,
+          metadata: document.metadata,
+          embedding: await llm.embed(text)
+        });
+      }
+    }
+
+    console.log(`Local retriever indexed ${index.length} chunks from ${documents.length} documents`);
+    return index;
+  });
+
+  async function retrieve(query, { maxResults = 5 } = {}) {
+    const [index, queryEmbedding] = await Promise.all([getIndex(), llm.embed(query)]);
+
+    return index
+      .map(chunk => ({ chunk, score: Math.max(0, cosineSimilarity(queryEmbedding, chunk.embedding)) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxResults)
+      .map(({ chunk, score }) => ({
+        content: { text: chunk.text },
+        location: { type: 'S3', s3Location: { uri: chunk.uri } },
+        score,
+        metadata: chunk.metadata
+      }));
+  }
+
+  async function healthCheck() {
+    const index = await getIndex();
+    if (index.length === 0) {
+      throw new Error('Local retriever index is empty');
+    }
+  }
+
+  return { name: 'local', retrieve, healthCheck };
+}
+
+/**
+ * Keyword retriever - BM25 over the same chunks the semantic index uses
+ * Catches exact terms (e.g. "A1C", drug names) that embeddings rank poorly.
+ * Scores are relative to the best match for the query (0-1).
+ */
+function createKeywordRetriever({ contentDir, bucket }) {
+  if (!contentDir && !bucket) {
+    throw new Error('Keyword retriever requires LOCAL_CONTENT_DIR or CONTENT_BUCKET');
+  }
+
+  const getIndex = createIndexCache({ contentDir, bucket }, async (documents) => {
+    const chunks = [];
+    const documentFrequency = new Map();
+    for (const document of documents) {
+      for (const text of chunkText(document.text)) {
+        const termFrequency = new Map();
+        const terms = tokenize(text);
+        for (const term of terms) {
+          termFrequency.set(term, (termFrequency.get(term) || 0) + 1);
+        }
+        for (const term of termFrequency.keys()) {
+          documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+        }
+        chunks.push({ text, uri: document.uri, metadata: document.metadata, termFrequency, length: terms.length });
+      }
+    }
+
+    const averageLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0) / (chunks.length || 1);
+    console.log(`Keyword index built with ${chunks.length} chunks from ${documents.length} documents`);
+    return { chunks, documentFrequency, averageLength };
+  });
+
+  async function retrieve(query, { maxResults = 5 } = {}) {
+    const { chunks, documentFrequency, averageLength } = await getIndex();
+    const queryTerms = [...new Set(tokenize(query))];
+
+    const scored = [];
+    for (const chunk of chunks) {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = chunk.termFrequency.get(term);
+        if (!tf) continue;
+
+        const df = documentFrequency.get(term);
+        const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * chunk.length / averageLength));
+      }
+      if (score > 0) scored.push({ chunk, score });
+    }
+
+    scored.sort((a, b) => b.score - a.score);
+    const topScore = scored[0]?.score || 1;
+
+    return scored.slice(0, maxResults).map(({ chunk, score }) => ({
+      content: { text: chunk.text },
+      location: { type: 'S3', s3Location: { uri: chunk.uri } },
+      score: score / topScore,
+      metadata: chunk.metadata
+    }));
+  }
+
+  async function healthCheck() {
+    const { chunks } = await getIndex();
+    if (chunks.length === 0) {
+      throw new Error('Keyword index is empty');
+    }
+  }
+
+  return { name: 'keyword', retrieve, healthCheck };
+}
+
+/**
+ * Hybrid retriever
+ * Fuses semantic and keyword rankings with Reciprocal Rank Fusion, then reranks the fused candidates.
+ * The reranker only decides the order: each result's score stays on the semantic retriever's scale
+ * (the Knowledge Base relevance score), which the confidence threshold and minimum relevance score are
+ * calibrated against. See scoreOnSemanticScale for candidates only the keyword index found.
+ * If the keyword index or reranker fails, degrades to the fused (or semantic) order.
+ */
+function createHybridRetriever({ semantic, keyword, reranker }) {
+  async function retrieve(query, { maxResults = 5 } = {}) {
+    const candidateCount = maxResults * HYBRID_CANDIDATE_MULTIPLIER;
+
+    const [semanticResults, keywordResults] = await Promise.all([
+      semantic.retrieve(query, { maxResults: candidateCount }),
+      keyword.retrieve(query, { maxResults: candidateCount }).catch(error => {
+        console.error('Keyword retrieval failed, using semantic results only:', error);
+        return [];
+      })
+    ]);
+
+    const candidates = fuseRankings({ semantic: semanticResults, keyword: keywordResults })
+      .slice(0, candidateCount);
+    if (candidates.length === 0) return [];
+
+    let ranked;
+    try {
+      const rerankScores = await reranker.rerank(query, candidates.map(candidate => candidate.content.text));
+      ranked = candidates
+        .map((candidate, idx) => ({ ...candidate, scores: { ...candidate.scores, rerank: rerankScores[idx] } }))
+        .sort((a, b) => b.scores.rerank - a.scores.rerank);
+    } catch (error) {
+      console.error('Reranking failed, using fused order:', error);
+      ranked = candidates;
+    }
+
+    return scoreOnSemanticScale(ranked).slice(0, maxResults);
+  }
+
+  async function healthCheck() {
+    await Promise.all([semantic.healthCheck(), keyword.healthCheck()]);
+  }
+
+  return { name: `${semantic.name}+keyword`, retrieve, healthCheck };
+}
+
+/**
+ * Set each ranked candidate's score on the semantic scale
+ * Candidates without a semantic score (keyword-only hits) take the best semantic score ranked below them,
+ * or the lowest semantic score when nothing below has one, so a keyword hit ranked above a semantic hit
+ * is never filtered out before it. With no semantic scores at all there is nothing calibrated to go on and
+ * keyword-only candidates score 0.
+ */
+function scoreOnSemanticScale(ranked) {
+  const semanticScores = ranked.map(candidate => candidate.scores.semantic).filter(score => typeof score === 'number');
+  let bestBelow = semanticScores.length > 0 ? Math.min(...semanticScores) : 0;
+
+  const scored = new Array(ranked.length);
+  for (let idx = ranked.length - 1; idx >= 0; idx--) {
+    const candidate = ranked[idx];
+    const semanticScore = candidate.scores.semantic;
+    if (typeof semanticScore === 'number') {
+      bestBelow = Math.max(bestBelow, semanticScore);
+    }
+    scored[idx] = { ...candidate, score: typeof semanticScore === 'number' ? semanticScore : bestBelow };
+  }
+  return scored;
+}
+
+/**
+ * Reciprocal Rank Fusion over ranked result lists keyed by path name
+ * The Knowledge Base and the keyword index chunk pages differently, so results from different paths
+ * are merged when they come from the same source object and their chunks overlap.
+ */
+function fuseRankings(rankingsByPath) {
+  const fused = [];
+
+  for (const [pathName, results] of Object.entries(rankingsByPath)) {
+    results.forEach((result, rank) => {
+      const uri = result.location?.s3Location?.uri;
+      const terms = new Set(tokenize(result.content?.text || ''));
+      let entry = fused.find(candidate => candidate.uri === uri &&
+        !candidate.paths.includes(pathName) &&
+        chunksOverlap(candidate.terms, terms));
+
+      if (!entry) {
+        entry = { ...result, uri, terms, paths: [], scores: {}, fusedScore: 0 };
+        fused.push(entry);
+      }
+
+      entry.paths.push(pathName);
+      entry.scores[pathName] = result.score;
+      entry.fusedScore += 1 / (RRF_K + rank + 1);
+    });
+  }
+
+  return fused
+    .sort((a, b) => b.fusedScore - a.fusedScore)
+    .map(({ uri, terms, paths, fusedScore, ...result }) => ({
+      ...result,
+      retrievalPath: paths.join('+'),
+      scores: { ...result.scores, fused: fusedScore }
+    }));
+}
+
+/**
+ * Two chunks of the same page overlap when most of the smaller chunk's terms appear in the other
+ */
+function chunksOverlap(termsA, termsB) {
+  const [smaller, larger] = termsA.size <= termsB.size ? [termsA, termsB] : [termsB, termsA];
+  if (smaller.size === 0) return false;
+
+  let shared = 0;
+  for (const term of smaller) {
+    if (larger.has(term)) shared++;
+  }
+  return shared / smaller.size >= CHUNK_OVERLAP_MIN_RATIO;
+}
+
+/**
+ * Create the reranker selected by RERANKER
+ * - 'bedrock' (default) - Bedrock Rerank API (RERANK_MODEL)
+ * - 'embedding' - cosine similarity of LLM provider embeddings, works offline with LLM_PROVIDER=local
+ * rerank(query, texts) -> Promise<number[]> (0-1 relevance per text, in input order)
+ */
+function createReranker({ llm, reranker, modelId }) {
+  const rerankerName = (reranker || 'bedrock').toLowerCase();
+
+  if (rerankerName === 'embedding') {
+    return {
+      name: 'embedding',
+      async rerank(query, texts) {
+        const [queryEmbedding, ...textEmbeddings] = await Promise.all([query, ...texts].map(text => llm.embed(text)));
+        return textEmbeddings.map(embedding => Math.max(0, cosineSimilarity(queryEmbedding, embedding)));
+      }
+    };
+  }
+  if (rerankerName !== 'bedrock') {
+    throw new Error(`Unknown RERANKER "${rerankerName}" - expected "bedrock" or "embedding"`);
+  }
+
+  const region = process.env.AWS_REGION || 'us-west-2';
+  const client = new BedrockAgentRuntimeClient({ region });
+  const modelArn = `arn:aws:bedrock:${region}::foundation-model/${modelId || DEFAULT_RERANK_MODEL}`;
+
+  return {
+    name: 'bedrock',
+    async rerank(query, texts) {
+      const response = await client.send(new RerankCommand({
+        queries: [{ type: 'TEXT', textQuery: { text: query } }],
+        sources: texts.map(text => ({
+          type: 'INLINE',
+          inlineDocumentSource: { type: 'TEXT', textDocument: { text } }
+        })),
+        rerankingConfiguration: {
+          type: 'BEDROCK_RERANKING_MODEL',
+          bedrockRerankingConfiguration: {
+            numberOfResults: texts.length,
+            modelConfiguration: { modelArn }
+          }
+        }
+      }));
+
+      const scores = new Array(texts.length).fill(0);
+      for (const result of response.results || []) {
+        scores[result.index] = result.relevanceScore;
+      }
+      return scores;
+    }
+  };
+}
+
+/**
+ * Cache an index built from the loaded documents, rebuilding it only when the documents change
+ */
+function createIndexCache(contentSource, build) {
+  let cached = null;
+
+  return async () => {
+    const documents = await loadDocuments(contentSource);
+    if (!cached || cached.documents !== documents) {
+      const entry = {
+        documents,
+        index: build(documents).catch(error => {
+          if (cached === entry) cached = null; // Retry on the next request
+          throw error;
+        })
+      };
+      cached = entry;
+    }
+    return cached.index;
+  };
+}
+
+/**
+ * Load web_content markdown from LOCAL_CONTENT_DIR, or from CONTENT_BUCKET when no directory is set
+ * Cached per container so the semantic and keyword indexes share one load. Bucket content is refreshed
+ * after DOCUMENT_REFRESH_INTERVAL_MS; the same array is returned while nothing changed.
+ */
+function loadDocuments({ contentDir, bucket }) {
+  const cacheKey = contentDir ? `dir:${contentDir}` : `s3:${bucket}`;
+  const cached = documentCache.get(cacheKey);
+  if (cached && (contentDir || Date.now() < cached.refreshAt)) {
+    return cached.documents;
+  }
+
+  const previous = cached?.documents.catch(() => null) || Promise.resolve(null);
+  const entry = {
+    refreshAt: Date.now() + DOCUMENT_REFRESH_INTERVAL_MS,
+    documents: previous.then(async (previousDocuments) => {
+      try {
+        return contentDir
+          ? await loadDocumentsFromDirectory(contentDir)
+          : await loadDocumentsFromS3(bucket, previousDocuments);
+      } catch (error) {
+        if (previousDocuments) {
+          console.error('Content refresh failed, keeping the loaded documents:', error);
+          return previousDocuments;
+        }
+        if (documentCache.get(cacheKey) === entry) documentCache.delete(cacheKey); // Retry on the next request
+        throw error;
+      }
+    })
+  };
+  documentCache.set(cacheKey, entry);
+  return entry.documents;
+}
+
+/**
+ * Load web_content markdown (and metadata sidecars) from a local directory
+ * Accepts either a copy of the bucket (containing web_content/) or the web_content directory itself
+ */
+async function loadDocumentsFromDirectory(contentDir) {
+  const nestedDir = path.join(contentDir, CONTENT_PREFIX);
+  const baseDir = await fs.stat(nestedDir).then(stat => stat.isDirectory()).catch(() => false)
+    ? nestedDir
+    : contentDir;
+
+  const fileNames = (await fs.readdir(baseDir)).filter(name => name.endsWith('.md')).sort();
+
+  return Promise.all(fileNames.map(async (name) => {
+    const filePath = path.join(baseDir, name);
+    const metadataText = await fs.readFile(`${filePath}.metadata.json`, 'utf8').catch(() => null);
+
+    return {
+      uri: `file://${filePath}`,
+      text: await fs.readFile(filePath, 'utf8'),
+      metadata: parseMetadataSidecar(metadataText)
+    };
+  }));
+}
+
+/**
+ * Load web_content markdown (and metadata sidecars) from the content bucket
+ * Objects are read in parallel. Documents whose markdown and sidecar ETags are unchanged since the
+ * previous load are reused, and the previous array itself is returned when nothing changed.
+ */
+async function loadDocumentsFromS3(bucket, previousDocuments = null) {
+  const s3 = new S3Client({ region: process.env.AWS_REGION || 'us-west-2' });
+  const etags = new Map();
+  let continuationToken;
+
+  do {
+    const result = await s3.send(new ListObjectsV2Command({
+      Bucket: bucket,
+      Prefix: CONTENT_PREFIX,
+      ContinuationToken: continuationToken
+    }));
+    for (const object of result.Contents || []) {
+      etags.set(object.Key, object.ETag);
+    }
+    continuationToken = result.NextContinuationToken;
+  } while (continuationToken);
+
+  const readObject = async (key) => {
+    const result = await s3.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+    return result.Body.transformToString();
+  };
+
+  const previousByUri = new Map((previousDocuments || []).map(document => [document.uri, document]));
+  const keys = [...etags.keys()].filter(key => key.endsWith('.md')).sort();
+
+  const documents = await mapWithConcurrency(keys, S3_READ_CONCURRENCY, async (key) => {
+    const uri = `s3://${bucket}/${key}`;
+    const metadataKey = `${key}.metadata.json`;
+    const version = `${etags.get(key)}|${etags.get(metadataKey) || ''}`;
+
+    const previous = previousByUri.get(uri);
+    if (previous?.version === version) {
+      return previous;
+    }
+
+    const [text, metadataText] = await Promise.all([
+      readObject(key),
+      etags.has(metadataKey) ? readObject(metadataKey) : null
+    ]);
+    return { uri, version, text, metadata: parseMetadataSidecar(metadataText) };
+  });
+
+  const unchanged = previousDocuments &&
+    documents.length === previousDocuments.length &&
+    documents.every((document, idx) => document === previousDocuments[idx]);
+  if (unchanged) {
+    return previousDocuments;
+  }
+
+  console.log(`Loaded ${documents.length} documents from s3://${bucket}/${CONTENT_PREFIX}`);
+  return documents;
+}
+
+/**
+ * Map items with at most `limit` calls in flight, preserving order
+ */
+async function mapWithConcurrency(items, limit, fn) {
+  const results = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const idx = next++;
+      results[idx] = await fn(items[idx]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Read metadataAttributes from a Bedrock metadata sidecar, as Bedrock returns them on retrieval
+ */
+function parseMetadataSidecar(text) {
+  if (!text) return {};
+  try {
+    return JSON.parse(text).metadataAttributes || {};
+  } catch (error) {
+    return {};
+  }
+}
+
+/**
+ * Split text into overlapping fixed-size chunks, preferring to break on whitespace
+ */
+function chunkText(text) {
+  const chunks = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + LOCAL_CHUNK_SIZE, text.length);
+    if (end < text.length) {
+      const lastSpace = text.lastIndexOf(' ', end);
+      if (lastSpace > start + LOCAL_CHUNK_SIZE / 2) {
+        end = lastSpace;
+      }
+    }
+
+    const chunk = text.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+
+    if (end >= text.length) break;
+    start = end - LOCAL_CHUNK_OVERLAP;
+  }
+
+  return chunks;
+}
+
+function tokenize(text) {
+  return (text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').match(/[a-z0-9]+/g) || [])
+    .filter(term => !STOPWORDS.has(term));
+}
+
+function cosineSimilarity(a, b) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+module.exports = {
+  createRetriever,
+  createBedrockKbRetriever,
+  createLocalRetriever,
+  createKeywordRetriever,
+  createHybridRetriever,
+  createReranker,
+  fuseRankings,
+  chunkText
+};
@@ -0,0 +1,81 @@
+/**
+ * Escalation Events
+ * Shared by chat-processor and escalation-handler
+ *
+ * publishEscalationEvent(type, escalation, { urgency, question }) hands an escalation to the
+ * escalation-notifier Lambda (ESCALATION_NOTIFIER_FUNCTION), which fans it out to the configured
+ * staff channels (email, SNS, webhooks).
+ *
+ * Event types:
+ * - escalation.created - a new escalation case (chat escalation or contact form submission)
+ * - escalation.repeated - an urgent repeat escalation on a conversation that already has a case
+ *
+ * The notifier is invoked asynchronously so the user's request never waits on delivery, and a
+ * publishing failure is logged rather than failing the request. Without ESCALATION_NOTIFIER_FUNCTION
+ * (e.g. local development) events are only logged.
+ */
+
+const { LambdaClient, InvokeCommand } = require('@aws-sdk/client-lambda');
+
+const lambda = new LambdaClient({ region: process.env.AWS_REGION || 'us-west-2' });
+
+const ESCALATION_URGENCIES = ['normal', 'urgent'];
+const MAX_QUESTION_LENGTH = 500;
+
+// Escalation record fields forwarded to the notifier (internal fields such as notes and history stay behind)
+const EVENT_FIELDS = [
+  'escalationId', 'sessionId', 'source', 'status', 'reason', 'urgency',
+  'name', 'email', 'phoneNumber', 'zipCode', 'timestamp', 'chatEscalationCount'
+];
+
+/**
+ * Build the event sent to the notifier
+ */
+function buildEscalationEvent(type, escalation, { urgency = 'normal', question } = {}) {
+  const fields = {};
+  for (const field of EVENT_FIELDS) {
+    if (escalation[field] !== undefined && escalation[field] !== null) {
+      fields[field] = escalation[field];
+    }
+  }
+
+  return {
+    type,
+    urgency: ESCALATION_URGENCIES.includes(urgency) ? urgency : 'normal',
+    occurredAt: new Date().toISOString(),
+    escalation: fields,
+    question: question ? String(question).slice(0, MAX_QUESTION_LENGTH) : undefined
+  };
+}
+
+/**
+ * Publish an escalation event to the notifier (never throws)
+ */
+async function publishEscalationEvent(type, escalation, options = {}) {
+  const event = buildEscalationEvent(type, escalation, options);
+  const functionName = process.env.ESCALATION_NOTIFIER_FUNCTION;
+
+  if (!functionName) {
+    console.log(`Escalation event ${type} (${event.urgency}) for ${escalation.escalationId} not published: ESCALATION_NOTIFIER_FUNCTION is not set`);
+    return false;
+  }
+
+  try {
+    await lambda.send(new InvokeCommand({
+      FunctionName: functionName,
+      InvocationType: 'Event',
+      Payload: JSON.stringify(event)
+    }));
+    console.log(`Published escalation event ${type} (${event.urgency}) for ${escalation.escalationId}`);
+    return true;
+  } catch (error) {
+    console.error(`Failed to publish escalation event ${type} for ${escalation.escalationId}:`, error);
+    return false;
+  }
+}
+
+module.exports = {
+  ESCALATION_URGENCIES,
+  buildEscalationEvent,
+  publishEscalationEvent
+};
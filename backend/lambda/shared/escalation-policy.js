@@ -0,0 +1,290 @@
+/**
+ * Escalation Policy
+ * Decides whether a chat answer is escalated to staff, from a policy defined as data
+ *
+ * Used by chat-processor (evaluation) and escalation-policy (admin editing and dry runs).
+ *
+ * A policy has:
+ * - confidence: answers below the threshold are escalated (low_confidence). The threshold for the
+ *   question's category wins over the one for its language, which wins over minimum.
+ * - sources.minRelevanceScore: sources below this relevance are not used to answer (applied by rag-processor)
+ * - groundedness: answers whose verified groundedness score is below minScore are escalated (low_groundedness)
+ * - repeatedLowConfidence: an answer below confidenceBelow counts as low confidence for the session;
+ *   the count-th one in a session is escalated (repeated_low_confidence)
+ * - patternSets: messages matching any pattern of a set are escalated with the set's code and urgency
+ *   (patterns are case-insensitive regular expressions)
+ *
+ * evaluateEscalationPolicy(policy, context) -> { escalate, urgency, reasonCodes, reasons, confidenceThreshold, lowConfidence }
+ */
+
+const POLICY_LANGUAGES = ['en', 'es'];
+const POLICY_URGENCIES = ['normal', 'urgent'];
+const MAX_PATTERN_SETS = 20;
+const MAX_PATTERNS_PER_SET = 100;
+const MAX_PATTERN_LENGTH = 300;
+
+// Reason codes of the built-in rules; pattern sets add their own codes
+const REASON_LABELS = {
+  low_confidence: 'Low confidence answer',
+  low_groundedness: 'Answer not supported by the sources',
+  repeated_low_confidence: 'Repeated low confidence answers'
+};
+
+const DEFAULT_ESCALATION_POLICY = {
+  confidence: {
+    minimum: 0.75, // Good semantic match between query and retrieved content (Bedrock KB relevance scores)
+    byLanguage: {},
+    byCategory: {}
+  },
+  sources: {
+    minRelevanceScore: 0.5
+  },
+  groundedness: {
+    enabled: true,
+    minScore: 0.5
+  },
+  repeatedLowConfidence: {
+    enabled: false,
+    confidenceBelow: 0.85,
+    count: 3
+  },
+  // Word boundaries avoid false positives (e.g., "humanely", "personal")
+  patternSets: [
+    {
+      code: 'emergency',
+      label: 'Emergency or urgent request',
+      urgency: 'urgent',
+      enabled: true,
+      patterns: [
+        // ENGLISH
+        '\\b(medical )?emergency\\b',
+        '\\burgent (medical )?(help|care|attention|assistance)\\b',
+        '\\bimmediate (medical )?(help|attention|care)\\b',
+        // SPANISH
+        '\\bemergencia( médica)?\\b',
+        '\\bayuda urgente( médica)?\\b',
+        '\\batención (médica )?inmediata\\b'
+      ]
+    },
+    {
+      code: 'human_requested',
+      label: 'Asked to talk to a person',
+      urgency: 'normal',
+      enabled: true,
+      patterns: [
+        // ENGLISH
+        '\\btalk to (a |an )?person\\b',
+        '\\bspeak to (a |an )?human\\b',
+        '\\bhuman help\\b',
+        '\\brepresentative\\b',
+        // SPANISH
+        '\\bhablar con (una )?persona\\b',
+        '\\bhablar con (un )?humano\\b',
+        '\\bayuda humana\\b',
+        '\\brepresentante\\b'
+      ]
+    },
+    {
+      code: 'clinician_requested',
+      label: 'Asked for a doctor or healthcare provider',
+      urgency: 'normal',
+      enabled: true,
+      patterns: [
+        // ENGLISH: Doctor/physician requests
+        '\\b(talk to|speak to|speak with|see|contact|need|find) (a |an )?(doctor|physician)\\b',
+        '\\bmedical (advice|help|professional|guidance)\\b',
+        '\\b(connect|refer) me (to|with) (a |an )?(doctor|physician)\\b',
+        // ENGLISH: Healthcare providers
+        '\\b(talk to|speak to|see|need) (a |an )?(nurse|specialist|clinician)\\b',
+        '\\b(healthcare|health care) provider\\b',
+        '\\bmedical (consultation|appointment)\\b',
+        // SPANISH: Doctor/physician requests
+        '\\b(hablar con|ver|contactar|necesito|encontrar) (un |una )?(médico|doctor|doctora)\\b',
+        '\\b(consejo|ayuda|orientación) médic[oa]\\b',
+        '\\b(conectar|conect|referir)([ae])?rme (con|a) (un |una )?(médico|doctor)\\b',
+        // SPANISH: Healthcare providers
+        '\\b(hablar con|ver|necesito) (un |una )?(enfermera|enfermero|especialista)\\b',
+        '\\bproveedor de (salud|atención médica)\\b',
+        '\\bconsulta médica\\b'
+      ]
+    }
+  ]
+};
+
+// Compiled patterns per policy object, so a cached policy is only compiled once
+const compiledPatternSets = new WeakMap();
+
+/**
+ * Validate a policy before it is saved
+ */
+function validateEscalationPolicy(policy) {
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+    return { valid: false, message: 'Policy must be an object' };
+  }
+
+  const { confidence, sources, groundedness, repeatedLowConfidence, patternSets } = policy;
+
+  if (!confidence || !isScore(confidence.minimum)) {
+    return { valid: false, message: 'confidence.minimum must be a number between 0 and 1' };
+  }
+  for (const [language, threshold] of Object.entries(confidence.byLanguage || {})) {
+    if (!POLICY_LANGUAGES.includes(language)) {
+      return { valid: false, message: `confidence.byLanguage languages must be one of: ${POLICY_LANGUAGES.join(', ')}` };
+    }
+    if (!isScore(threshold)) {
+      return { valid: false, message: `confidence.byLanguage.${language} must be a number between 0 and 1` };
+    }
+  }
+  for (const [category, threshold] of Object.entries(confidence.byCategory || {})) {
+    if (!/^[a-z0-9-]{1,60}$/.test(category)) {
+      return { valid: false, message: `Invalid category in confidence.byCategory: ${category}` };
+    }
+    if (!isScore(threshold)) {
+      return { valid: false, message: `confidence.byCategory.${category} must be a number between 0 and 1` };
+    }
+  }
+
+  if (!sources || !isScore(sources.minRelevanceScore)) {
+    return { valid: false, message: 'sources.minRelevanceScore must be a number between 0 and 1' };
+  }
+  if (!groundedness || typeof groundedness.enabled !== 'boolean' || !isScore(groundedness.minScore)) {
+    return { valid: false, message: 'groundedness requires enabled (boolean) and minScore (0-1)' };
+  }
+  if (!repeatedLowConfidence || typeof repeatedLowConfidence.enabled !== 'boolean' ||
+      !isScore(repeatedLowConfidence.confidenceBelow) ||
+      !Number.isInteger(repeatedLowConfidence.count) || repeatedLowConfidence.count < 1 || repeatedLowConfidence.count > 50) {
+    return { valid: false, message: 'repeatedLowConfidence requires enabled (boolean), confidenceBelow (0-1) and count (1-50)' };
+  }
+
+  if (!Array.isArray(patternSets) || patternSets.length > MAX_PATTERN_SETS) {
+    return { valid: false, message: `patternSets must be an array of at most ${MAX_PATTERN_SETS} sets` };
+  }
+  const codes = new Set();
+  for (const set of patternSets) {
+    if (!set || typeof set.code !== 'string' || !/^[a-z][a-z0-9_]{1,39}$/.test(set.code)) {
+      return { valid: false, message: 'Pattern set codes must be 2-40 lowercase letters, digits or underscores' };
+    }
+    if (REASON_LABELS[set.code] || codes.has(set.code)) {
+      return { valid: false, message: `Pattern set code ${set.code} is already used` };
+    }
+    codes.add(set.code);
+    if (set.label !== undefined && (typeof set.label !== 'string' || set.label.length > 100)) {
+      return { valid: false, message: `Pattern set ${set.code}: label must be a string of at most 100 characters` };
+    }
+    if (!POLICY_URGENCIES.includes(set.urgency)) {
+      return { valid: false, message: `Pattern set ${set.code}: urgency must be one of: ${POLICY_URGENCIES.join(', ')}` };
+    }
+    if (typeof set.enabled !== 'boolean') {
+      return { valid: false, message: `Pattern set ${set.code}: enabled must be a boolean` };
+    }
+    if (!Array.isArray(set.patterns) || set.patterns.length > MAX_PATTERNS_PER_SET) {
+      return { valid: false, message: `Pattern set ${set.code}: patterns must be an array of at most ${MAX_PATTERNS_PER_SET} patterns` };
+    }
+    for (const pattern of set.patterns) {
+      if (typeof pattern !== 'string' || !pattern.trim() || pattern.length > MAX_PATTERN_LENGTH) {
+        return { valid: false, message: `Pattern set ${set.code}: patterns must be non-empty strings of at most ${MAX_PATTERN_LENGTH} characters` };
+      }
+      try {
+        new RegExp(pattern, 'i');
+      } catch (error) {
+        return { valid: false, message: `Pattern set ${set.code}: invalid pattern ${pattern} (${error.message})` };
+      }
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Evaluate the policy for an answered chat turn
+ * context: { message, language, category, confidence, groundedness, lowConfidenceCount }
+ * lowConfidenceCount is the number of earlier low confidence answers in the session.
+ */
+function evaluateEscalationPolicy(policy, { message = '', language, category, confidence, groundedness = null, lowConfidenceCount = 0 } = {}) {
+  const reasons = [];
+
+  for (const set of getCompiledPatternSets(policy)) {
+    if (set.patterns.some(pattern => pattern.test(message))) {
+      reasons.push({ code: set.code, label: set.label || set.code, urgency: set.urgency });
+    }
+  }
+
+  const confidenceThreshold = getConfidenceThreshold(policy, language, category);
+  const hasConfidence = typeof confidence === 'number';
+  if (hasConfidence && confidence < confidenceThreshold) {
+    reasons.push(builtInReason('low_confidence'));
+  }
+
+  const groundednessScore = groundedness?.score;
+  if (policy.groundedness.enabled && typeof groundednessScore === 'number' && groundednessScore < policy.groundedness.minScore) {
+    reasons.push(builtInReason('low_groundedness'));
+  }
+
+  const repeated = policy.repeatedLowConfidence;
+  const lowConfidence = hasConfidence && confidence < repeated.confidenceBelow;
+  if (repeated.enabled && lowConfidence && lowConfidenceCount + 1 >= repeated.count) {
+    reasons.push(builtInReason('repeated_low_confidence'));
+  }
+
+  return {
+    escalate: reasons.length > 0,
+    urgency: reasons.some(reason => reason.urgency === 'urgent') ? 'urgent' : 'normal',
+    reasonCodes: reasons.map(reason => reason.code),
+    reasons,
+    confidenceThreshold,
+    lowConfidence
+  };
+}
+
+/**
+ * Confidence threshold for a question: category, then language, then the policy minimum
+ */
+function getConfidenceThreshold(policy, language, category) {
+  const { minimum, byLanguage = {}, byCategory = {} } = policy.confidence;
+  return byCategory[category] ?? byLanguage[language] ?? minimum;
+}
+
+/**
+ * Human-readable summary of matched reasons, stored as the escalation reason
+ */
+function describeReasons(reasons) {
+  return reasons.map(reason => reason.label).join('; ');
+}
+
+/**
+ * Enabled pattern sets with their patterns compiled
+ */
+function getCompiledPatternSets(policy) {
+  let compiled = compiledPatternSets.get(policy);
+  if (!compiled) {
+    compiled = policy.patternSets
+      .filter(set => set.enabled)
+      .map(set => ({ ...set, patterns: set.patterns.map(pattern => new RegExp(pattern, 'i')) }));
+    compiledPatternSets.set(policy, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Reason for a built-in rule
+ */
+function builtInReason(code) {
+  return { code, label: REASON_LABELS[code], urgency: 'normal' };
+}
+
+/**
+ * Check for a number between 0 and 1
+ */
+function isScore(value) {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+module.exports = {
+  DEFAULT_ESCALATION_POLICY,
+  REASON_LABELS,
+  POLICY_URGENCIES,
+  validateEscalationPolicy,
+  evaluateEscalationPolicy,
+  getConfidenceThreshold,
+  describeReasons
+};
@@ -0,0 +1,216 @@
+/**
+ * LLM Provider
+ * Shared by rag-processor, chat-processor, curated-answers and question-clustering
+ *
+ * Every provider implements:
+ * - generate({ task, messages, maxTokens, temperature, modelId, context }) -> Promise<string>
+ * - stream(request, onDelta) -> Promise<string> (same request as generate; onDelta receives text fragments)
+ * - classify({ prompt, text, labels, modelId }) -> Promise<string | null> (one of labels, or null)
+ * - embed(text, { modelId }) -> Promise<number[]>
+ *
+ * `task` names the call site ('answer', 'rewrite', 'verify', ...) and `context` carries the
+ * structured inputs behind the prompt. Bedrock ignores both; the local provider uses them to
+ * produce deterministic output without calling a model.
+ *
+ * LLM_PROVIDER selects the implementation: 'bedrock' (default) or 'local'.
+ */
+
+const { BedrockRuntimeClient, InvokeModelCommand, InvokeModelWithResponseStreamCommand } = require('@aws-sdk/client-bedrock-runtime');
+
+const DEFAULT_GENERATION_MODEL = 'anthropic.claude-3-7-sonnet-20250219-v1:0';
+const DEFAULT_CLASSIFICATION_MODEL = 'anthropic.claude-3-haiku-20240307-v1:0';
+const DEFAULT_EMBEDDING_MODEL = 'amazon.titan-embed-text-v2:0';
+const LOCAL_EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Create the provider selected by LLM_PROVIDER
+ */
+function createLlmProvider(config = {}) {
+  const providerName = (config.provider || process.env.LLM_PROVIDER || 'bedrock').toLowerCase();
+
+  if (providerName === 'local') {
+    return createLocalProvider();
+  }
+  if (providerName !== 'bedrock') {
+    throw new Error(`Unknown LLM_PROVIDER "${providerName}" - expected "bedrock" or "local"`);
+  }
+
+  return createBedrockProvider(config);
+}
+
+/**
+ * Bedrock provider - Anthropic messages API for text, Titan for embeddings
+ */
+function createBedrockProvider(config = {}) {
+  const client = new BedrockRuntimeClient({ region: config.region || process.env.AWS_REGION || 'us-west-2' });
+
+  const buildBody = (request) => JSON.stringify({
+    anthropic_version: 'bedrock-2023-05-31',
+    max_tokens: request.maxTokens || 1024,
+    temperature: request.temperature ?? 0.3,
+    messages: request.messages
+  });
+
+  async function generate(request) {
+    const response = await client.send(new InvokeModelCommand({
+      modelId: request.modelId || DEFAULT_GENERATION_MODEL,
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: buildBody(request)
+    }));
+
+    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+    return responseBody.content?.[0]?.text || '';
+  }
+
+  async function stream(request, onDelta) {
+    const response = await client.send(new InvokeModelWithResponseStreamCommand({
+      modelId: request.modelId || DEFAULT_GENERATION_MODEL,
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: buildBody(request)
+    }));
+
+    const decoder = new TextDecoder();
+    let text = '';
+
+    for await (const streamEvent of response.body) {
+      if (!streamEvent.chunk?.bytes) continue;
+
+      const chunk = JSON.parse(decoder.decode(streamEvent.chunk.bytes));
+      if (chunk.type === 'content_block_delta' && chunk.delta?.type === 'text_delta') {
+        text += chunk.delta.text;
+        onDelta(chunk.delta.text);
+      }
+    }
+
+    return text;
+  }
+
+  async function classify({ prompt, labels, modelId }) {
+    const text = await generate({
+      task: 'classify',
+      modelId: modelId || DEFAULT_CLASSIFICATION_MODEL,
+      maxTokens: 50,
+      temperature: 0, // Deterministic classification
+      messages: [{ role: 'user', content: prompt }]
+    });
+
+    const label = text.trim().toLowerCase();
+    return labels.includes(label) ? label : null;
+  }
+
+  async function embed(text, options = {}) {
+    const response = await client.send(new InvokeModelCommand({
+      modelId: options.modelId || DEFAULT_EMBEDDING_MODEL,
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: JSON.stringify({ inputText: text })
+    }));
+
+    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+    return responseBody.embedding;
+  }
+
+  return { name: 'bedrock', generate, stream, classify, embed };
+}
+
+/**
+ * Local provider - deterministic, no network access
+ * Output depends only on the request, so the pipeline can run offline and in tests.
+ */
+function createLocalProvider() {
+  async function generate(request) {
+    const context = request.context || {};
+
+    switch (request.task) {
+      case 'answer': {
+        // Quote the opening sentence of the top sources, cited as [n]
+        const sources = context.sources || [];
+        if (sources.length === 0) {
+          return 'I could not find information about that in the available sources.';
+        }
+        return sources.slice(0, 2)
+          .map((source, idx) => `${firstSentence(source.content || source.fullContent || '')} [${idx + 1}]`)
+          .join(' ');
+      }
+      case 'rewrite':
+      case 'translate':
+        // No model offline - the query is returned as-is
+        return context.query || lastUserMessage(request.messages);
+      case 'verify':
+        // Every statement is supported
+        return JSON.stringify({
+          results: Array.from({ length: context.statementCount || 0 }, (_, idx) => ({ id: idx + 1, supported: true }))
+        });
+      default:
+        return lastUserMessage(request.messages);
+    }
+  }
+
+  async function stream(request, onDelta) {
+    const text = await generate(request);
+    // Emit word by word so streaming consumers see several deltas
+    for (const fragment of text.match(/\S+\s*/g) || []) {
+      onDelta(fragment);
+    }
+    return text;
+  }
+
+  async function classify({ text, labels }) {
+    // Pick the label sharing the most words with the text; null when nothing overlaps
+    const words = new Set(tokenize(text || ''));
+    let best = null;
+    let bestScore = 0;
+
+    for (const label of labels) {
+      const score = label.split('-').filter(part => words.has(part)).length;
+      if (score > bestScore) {
+        best = label;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  async function embed(text) {
+    // Hashed bag-of-words, L2-normalised so cosine similarity reflects word overlap
+    const vector = new Array(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+    for (const token of tokenize(text)) {
+      vector[hashToken(token) % LOCAL_EMBEDDING_DIMENSIONS] += 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  return { name: 'local', generate, stream, classify, embed };
+}
+
+function lastUserMessage(messages = []) {
+  const message = [...messages].reverse().find(m => m.role === 'user');
+  return message ? message.content : '';
+}
+
+function firstSentence(text) {
+  const clean = text.replace(/^#.*$/gm, '').replace(/\*\*Source\*\*:.*$/gm, '').replace(/\s+/g, ' ').trim();
+  const match = clean.match(/^.*?[.!?](\s|$)/);
+  return (match ? match[0] : clean.substring(0, 200)).trim();
+}
+
+function tokenize(text) {
+  return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').match(/[a-z0-9]+/g) || [];
+}
+
+function hashToken(token) {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+module.exports = { createLlmProvider, createBedrockProvider, createLocalProvider };
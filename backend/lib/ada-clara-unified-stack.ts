@@ -8,14 +8,25 @@ import * as iam from 'aws-cdk-lib/aws-iam';
 import * as logs from 'aws-cdk-lib/aws-logs';
 import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as sqs from 'aws-cdk-lib/aws-sqs';
+import * as sns from 'aws-cdk-lib/aws-sns';
 import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
-import { SqsEventSource } from 'aws-cdk-lib/aws-lambda-event-sources';
+import { SqsEventSource, DynamoEventSource } from 'aws-cdk-lib/aws-lambda-event-sources';
 import { Bucket, Index } from 'cdk-s3-vectors';
 import { CfnKnowledgeBase, CfnDataSource } from 'aws-cdk-lib/aws-bedrock';
 import * as amplify from 'aws-cdk-lib/aws-amplify';
 import * as events from 'aws-cdk-lib/aws-events';
 import * as targets from 'aws-cdk-lib/aws-events-targets';
 
+/**
+ * Package a function's directory together with lambda/shared, so `require('../shared/...')`
+ * resolves the same way deployed as it does in the repo. Handlers are `<name>/index.<export>`.
+ */
+function lambdaCodeWithShared(name: string): lambda.Code {
+  return lambda.Code.fromAsset('lambda', {
+    exclude: ['*', `!${name}`, `!${name}/**`, '!shared', '!shared/**'],
+  });
+}
+
 /**
  * Unified Stack for ADA Clara
  * 
@@ -31,6 +42,12 @@ export class AdaClaraUnifiedStack extends Stack {
 
   public readonly escalationRequestsTable: dynamodb.Table;
   public readonly contentTrackingTable: dynamodb.Table;
+  public readonly answerCacheTable: dynamodb.Table;
+  public readonly curatedAnswersTable: dynamodb.Table;
+  public readonly unansweredTriageTable: dynamodb.Table;
+  public readonly questionClustersTable: dynamodb.Table;
+  public readonly escalationPolicyTable: dynamodb.Table;
+  public readonly feedbackTable: dynamodb.Table;
 
   // Cognito
   public readonly userPool: cognito.UserPool;
@@ -42,13 +59,24 @@ export class AdaClaraUnifiedStack extends Stack {
   public readonly chatProcessor: lambda.Function;
   public readonly escalationHandler: lambda.Function;
   public readonly adminAnalytics: lambda.Function;
+  public readonly adminExport: lambda.Function;
   public readonly ragProcessor: lambda.Function;
+  public readonly ragStreamProcessor: lambda.Function;
+  public readonly chatStreamProcessor: lambda.Function;
   public readonly domainDiscoveryFunction: lambda.Function;
   public readonly contentProcessorFunction: lambda.Function;
+  public readonly curatedAnswersFunction: lambda.Function;
+  public readonly questionClusteringFunction: lambda.Function;
+  public readonly analyticsAggregatorFunction: lambda.Function;
+  public readonly escalationNotifierFunction: lambda.Function;
+  public readonly escalationPolicyFunction: lambda.Function;
 
   // SQS Queue for Web Scraper
   public readonly scrapingQueue: sqs.Queue;
 
+  // SNS Topic for staff escalation alerts
+  public readonly escalationAlertsTopic: sns.Topic;
+
   // S3 Vectors
   public readonly contentBucket: s3.Bucket;
   public readonly vectorsBucket: Bucket;
@@ -60,6 +88,7 @@ export class AdaClaraUnifiedStack extends Stack {
 
   // EventBridge
   public readonly webScraperScheduleRule: events.Rule;
+  public readonly questionClusteringScheduleRule: events.Rule;
 
   // API Gateway
   public readonly api: apigateway.RestApi;
@@ -102,6 +131,7 @@ export class AdaClaraUnifiedStack extends Stack {
       sortKey: { name: 'SK', type: dynamodb.AttributeType.STRING },
       billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
       timeToLiveAttribute: 'ttl',
+      stream: dynamodb.StreamViewType.NEW_IMAGE, // Consumed by analytics-aggregator
       removalPolicy: RemovalPolicy.DESTROY,
     });
 
@@ -111,6 +141,7 @@ export class AdaClaraUnifiedStack extends Stack {
       sortKey: { name: 'SK', type: dynamodb.AttributeType.STRING },
       billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
       timeToLiveAttribute: 'ttl',
+      stream: dynamodb.StreamViewType.NEW_IMAGE, // Consumed by analytics-aggregator
       removalPolicy: RemovalPolicy.DESTROY,
     });
 
@@ -128,6 +159,7 @@ export class AdaClaraUnifiedStack extends Stack {
       partitionKey: { name: 'questionId', type: dynamodb.AttributeType.STRING },
       billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
       timeToLiveAttribute: 'ttl',
+      stream: dynamodb.StreamViewType.NEW_IMAGE, // Consumed by analytics-aggregator
       removalPolicy: RemovalPolicy.DESTROY,
     });
 
@@ -150,6 +182,7 @@ export class AdaClaraUnifiedStack extends Stack {
       partitionKey: { name: 'escalationId', type: dynamodb.AttributeType.STRING },
       billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
       timeToLiveAttribute: 'ttl',
+      stream: dynamodb.StreamViewType.NEW_IMAGE, // Consumed by analytics-aggregator
       removalPolicy: RemovalPolicy.DESTROY,
     });
 
@@ -160,6 +193,13 @@ export class AdaClaraUnifiedStack extends Stack {
       sortKey: { name: 'timestamp', type: dynamodb.AttributeType.STRING },
     });
 
+    // Add GSI to find the escalation case of a chat session (chat escalations and contact form submissions)
+    this.escalationRequestsTable.addGlobalSecondaryIndex({
+      indexName: 'SessionIndex',
+      partitionKey: { name: 'sessionId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'timestamp', type: dynamodb.AttributeType.STRING },
+    });
+
     this.contentTrackingTable = new dynamodb.Table(this, 'ContentTrackingTable', {
       tableName: `ada-clara-content-tracking${stackSuffix}`,
       partitionKey: { name: 'url', type: dynamodb.AttributeType.STRING },
@@ -169,6 +209,65 @@ export class AdaClaraUnifiedStack extends Stack {
       removalPolicy: RemovalPolicy.DESTROY,
     });
 
+    // Add S3KeyIndex GSI so the RAG processor can map retrieved S3 objects back to their source URL
+    this.contentTrackingTable.addGlobalSecondaryIndex({
+      indexName: 'S3KeyIndex',
+      partitionKey: { name: 's3Key', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'crawlTimestamp', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Semantic answer cache - chat answers keyed by language and normalized question hash
+    this.answerCacheTable = new dynamodb.Table(this, 'AnswerCacheTable', {
+      tableName: `ada-clara-answer-cache${stackSuffix}`,
+      partitionKey: { name: 'language', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'questionHash', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'ttl',
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    // Curated answers - vetted answers served by the chat processor instead of RAG
+    this.curatedAnswersTable = new dynamodb.Table(this, 'CuratedAnswersTable', {
+      tableName: `ada-clara-curated-answers${stackSuffix}`,
+      partitionKey: { name: 'answerId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    // Unanswered question triage - status, assignee and notes per unanswered question cluster
+    this.unansweredTriageTable = new dynamodb.Table(this, 'UnansweredTriageTable', {
+      tableName: `ada-clara-unanswered-triage${stackSuffix}`,
+      partitionKey: { name: 'clusterId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    // Question clusters - semantic groups of questions with centroid and representative phrasings
+    this.questionClustersTable = new dynamodb.Table(this, 'QuestionClustersTable', {
+      tableName: `ada-clara-question-clusters${stackSuffix}`,
+      partitionKey: { name: 'clusterId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    // Escalation policy - thresholds and patterns the chat processor escalates by (single 'active' item)
+    this.escalationPolicyTable = new dynamodb.Table(this, 'EscalationPolicyTable', {
+      tableName: `ada-clara-escalation-policy${stackSuffix}`,
+      partitionKey: { name: 'policyId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    // Answer feedback - thumbs up/down ratings of chat answers, one per bot message
+    this.feedbackTable = new dynamodb.Table(this, 'FeedbackTable', {
+      tableName: `ada-clara-answer-feedback${stackSuffix}`,
+      partitionKey: { name: 'sessionId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'messageId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'ttl',
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
     // ========== COGNITO AUTH ==========
     this.userPool = new cognito.UserPool(this, 'UserPool', {
       userPoolName: `ada-clara-users${stackSuffix}`,
@@ -519,6 +618,8 @@ export class AdaClaraUnifiedStack extends Stack {
         CONTENT_TRACKING_TABLE: this.contentTrackingTable.tableName, // Use stack's content tracking table
         KNOWLEDGE_BASE_ID: this.knowledgeBase.attrKnowledgeBaseId, // For automatic KB ingestion
         DATA_SOURCE_ID: this.dataSource.attrDataSourceId, // For automatic KB ingestion
+        SCRAPING_QUEUE_URL: this.scrapingQueue.queueUrl, // For ingestion status checks
+        ANSWER_CACHE_TABLE: this.answerCacheTable.tableName, // Invalidated when ingestion completes
         TARGET_DOMAIN: 'diabetes.org',
         RATE_LIMIT_DELAY: '1000',
         MIN_QUALITY_THRESHOLD: '50' // Minimum quality score (0-100)
@@ -528,6 +629,7 @@ export class AdaClaraUnifiedStack extends Stack {
     // Grant SQS permissions
     this.scrapingQueue.grantSendMessages(this.domainDiscoveryFunction);
     this.scrapingQueue.grantConsumeMessages(this.contentProcessorFunction);
+    this.scrapingQueue.grantSendMessages(this.contentProcessorFunction);
 
     // Grant S3 permissions to content processor
     this.contentBucket.grantReadWrite(this.contentProcessorFunction);
@@ -535,6 +637,7 @@ export class AdaClaraUnifiedStack extends Stack {
     // Grant DynamoDB permissions for content tracking
     this.contentTrackingTable.grantReadWriteData(this.domainDiscoveryFunction);
     this.contentTrackingTable.grantReadWriteData(this.contentProcessorFunction);
+    this.answerCacheTable.grantWriteData(this.contentProcessorFunction);
 
     // Grant Bedrock ingestion permissions to Content Processor for automatic KB sync
     this.contentProcessorFunction.addToRolePolicy(new iam.PolicyStatement({
@@ -633,24 +736,59 @@ export class AdaClaraUnifiedStack extends Stack {
       removalPolicy: RemovalPolicy.DESTROY,
     });
 
+    const ragProcessorEnvironment = {
+      VECTORS_BUCKET: this.vectorsBucket.vectorBucketName,
+      VECTOR_INDEX: this.vectorIndex.indexName,
+      CONTENT_BUCKET: this.contentBucket.bucketName,
+      CONTENT_TRACKING_TABLE: this.contentTrackingTable.tableName,
+      KNOWLEDGE_BASE_ID: this.knowledgeBase.attrKnowledgeBaseId,
+      RETRIEVER: 'bedrock-kb',
+      RETRIEVAL_MODE: 'hybrid',
+      RERANKER: 'bedrock',
+      RERANK_MODEL: 'amazon.rerank-v1:0',
+      EMBEDDING_MODEL: 'amazon.titan-embed-text-v2:0',
+      LLM_PROVIDER: 'bedrock',
+      GENERATION_MODEL: 'anthropic.claude-3-7-sonnet-20250219-v1:0',
+      CONFIDENCE_THRESHOLD: '0.75',
+      QUERY_REWRITE_MODEL: 'anthropic.claude-3-haiku-20240307-v1:0',
+      HISTORY_MAX_MESSAGES: '10',
+      HISTORY_TOKEN_BUDGET: '1500',
+      CROSS_LINGUAL_RETRIEVAL: 'translated',
+      TRANSLATION_MODEL: 'anthropic.claude-3-haiku-20240307-v1:0',
+      VERIFIER_MODEL: 'anthropic.claude-3-haiku-20240307-v1:0',
+      GROUNDEDNESS_MIN_SCORE: '0.5', // Defaults for direct /query calls; chat-processor sends its escalation policy's thresholds
+      MIN_RELEVANCE_SCORE: '0.5',
+    };
+
     this.ragProcessor = new lambda.Function(this, 'RAGProcessor', {
       functionName: `ada-clara-rag-processor${stackSuffix}`,
       runtime: lambda.Runtime.NODEJS_24_X,
-      handler: 'index.handler',
-      code: lambda.Code.fromAsset('lambda/rag-processor'),
+      handler: 'rag-processor/index.handler',
+      code: lambdaCodeWithShared('rag-processor'),
       timeout: Duration.minutes(5),
       memorySize: 1024,
       logGroup: ragProcessorLogGroup,
       role: lambdaExecutionRole,
-      environment: {
-        VECTORS_BUCKET: this.vectorsBucket.vectorBucketName,
-        VECTOR_INDEX: this.vectorIndex.indexName,
-        CONTENT_BUCKET: this.contentBucket.bucketName,
-        KNOWLEDGE_BASE_ID: this.knowledgeBase.attrKnowledgeBaseId,
-        EMBEDDING_MODEL: 'amazon.titan-embed-text-v2:0',
-        GENERATION_MODEL: 'anthropic.claude-3-7-sonnet-20250219-v1:0',
-        CONFIDENCE_THRESHOLD: '0.75',
-      },
+      environment: ragProcessorEnvironment,
+    });
+
+    // RAG Stream Processor Lambda - same code, streaming handler invoked by the chat stream processor
+    const ragStreamProcessorLogGroup = new logs.LogGroup(this, 'RAGStreamProcessorLogGroup', {
+      logGroupName: `/aws/lambda/ada-clara-rag-stream-processor${stackSuffix}`,
+      retention: logs.RetentionDays.ONE_WEEK,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    this.ragStreamProcessor = new lambda.Function(this, 'RAGStreamProcessor', {
+      functionName: `ada-clara-rag-stream-processor${stackSuffix}`,
+      runtime: lambda.Runtime.NODEJS_24_X,
+      handler: 'rag-processor/index.streamHandler',
+      code: lambdaCodeWithShared('rag-processor'),
+      timeout: Duration.minutes(5),
+      memorySize: 1024,
+      logGroup: ragStreamProcessorLogGroup,
+      role: lambdaExecutionRole,
+      environment: ragProcessorEnvironment,
     });
 
     // Grant Bedrock permissions
@@ -666,11 +804,65 @@ export class AdaClaraUnifiedStack extends Stack {
       resources: [
         `arn:aws:bedrock:${region}::foundation-model/amazon.titan-embed-text-v2:0`,
         `arn:aws:bedrock:${region}::foundation-model/anthropic.claude-3-7-sonnet-20250219-v1:0`,
+        `arn:aws:bedrock:${region}::foundation-model/anthropic.claude-3-haiku-20240307-v1:0`,
+        `arn:aws:bedrock:${region}::foundation-model/amazon.rerank-v1:0`,
         `arn:aws:bedrock:${region}:${accountId}:knowledge-base/${this.knowledgeBase.attrKnowledgeBaseId}`,
       ],
     }));
 
+    // Rerank API for hybrid retrieval (does not support resource-level permissions)
+    this.ragProcessor.addToRolePolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: ['bedrock:Rerank'],
+      resources: ['*'],
+    }));
+
     this.contentBucket.grantRead(this.ragProcessor);
+    this.contentBucket.grantRead(this.ragStreamProcessor);
+    this.contentTrackingTable.grantReadData(this.ragProcessor);
+    this.contentTrackingTable.grantReadData(this.ragStreamProcessor);
+
+    // ========== ESCALATION NOTIFICATIONS ==========
+    // Staff alerts topic - the default notification channel. Subscribe staff email, SMS or an on-call
+    // pager; a subscription filter policy on the urgency attribute receives emergencies only.
+    this.escalationAlertsTopic = new sns.Topic(this, 'EscalationAlertsTopic', {
+      topicName: `ada-clara-escalation-alerts${stackSuffix}`,
+      displayName: 'ADA Clara escalation alerts',
+    });
+
+    // Channels from the notificationChannels context (JSON array, see lambda/escalation-notifier/index.js);
+    // SNS channels without a topicArn publish to the alerts topic
+    const notificationChannelsContext = this.node.tryGetContext('notificationChannels');
+    const notificationChannels: Array<Record<string, unknown>> = notificationChannelsContext
+      ? (typeof notificationChannelsContext === 'string' ? JSON.parse(notificationChannelsContext) : notificationChannelsContext)
+      : [{ name: 'staff-alerts', type: 'sns' }];
+
+    // Create log group for escalation notifier
+    const escalationNotifierLogGroup = new logs.LogGroup(this, 'EscalationNotifierLogGroup', {
+      logGroupName: `/aws/lambda/ada-clara-escalation-notifier${stackSuffix}`,
+      retention: logs.RetentionDays.ONE_WEEK,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    // Escalation Notifier Lambda - invoked asynchronously by the chat processors and escalation handler
+    this.escalationNotifierFunction = new lambda.Function(this, 'EscalationNotifier', {
+      functionName: `ada-clara-escalation-notifier${stackSuffix}`,
+      runtime: lambda.Runtime.NODEJS_24_X,
+      handler: 'index.handler',
+      code: lambda.Code.fromAsset('lambda/escalation-notifier'),
+      timeout: Duration.seconds(60),
+      memorySize: 256,
+      logGroup: escalationNotifierLogGroup,
+      role: lambdaExecutionRole,
+      retryAttempts: 0, // Channels are retried individually; re-running the event would re-notify delivered channels
+      environment: {
+        NOTIFICATION_CHANNELS: this.toJsonString(notificationChannels.map((channel) =>
+          channel.type === 'sns' && !channel.topicArn ? { ...channel, topicArn: this.escalationAlertsTopic.topicArn } : channel
+        )),
+        NOTIFICATION_MAX_ATTEMPTS: '3',
+        FRONTEND_URL: frontendUrl !== '*' ? frontendUrl : '', // Dashboard links in notifications
+      },
+    });
 
     // Create log group for chat processor
     const chatProcessorLogGroup = new logs.LogGroup(this, 'ChatProcessorLogGroup', {
@@ -679,29 +871,70 @@ export class AdaClaraUnifiedStack extends Stack {
       removalPolicy: RemovalPolicy.DESTROY,
     });
 
+    const chatProcessorEnvironment = {
+      SESSIONS_TABLE: this.chatSessionsTable.tableName,
+      MESSAGES_TABLE: this.messagesTable.tableName,
+      ANALYTICS_TABLE: this.analyticsTable.tableName,
+      ESCALATION_REQUESTS_TABLE: this.escalationRequestsTable.tableName,
+      CHAT_SESSIONS_TABLE: this.chatSessionsTable.tableName,
+      QUESTIONS_TABLE: this.questionsTable.tableName,
+      FRONTEND_URL: frontendUrl !== '*' ? frontendUrl : '', // Pass frontend URL to Lambda for CORS
+      HISTORY_WINDOW_MESSAGES: '10', // Prior messages sent to the RAG processor as conversation context
+      LLM_PROVIDER: 'bedrock',
+      CLASSIFICATION_MODEL: 'anthropic.claude-3-haiku-20240307-v1:0',
+      ANSWER_CACHE_TABLE: this.answerCacheTable.tableName,
+      ANSWER_CACHE_SIMILARITY: '0.95',
+      ANSWER_CACHE_TTL_HOURS: '168',
+      CURATED_ANSWERS_TABLE: this.curatedAnswersTable.tableName,
+      CURATED_FUZZY_THRESHOLD: '0.95',
+      CURATED_SEMANTIC_THRESHOLD: '0.9',
+      ESCALATION_NOTIFIER_FUNCTION: this.escalationNotifierFunction.functionName,
+      ESCALATION_POLICY_TABLE: this.escalationPolicyTable.tableName,
+      FEEDBACK_TABLE: this.feedbackTable.tableName,
+      // RAG_ENDPOINT and RAG_FUNCTION_NAME will be set using addEnvironment after all API Gateway methods are created
+      // Note: CONVERSATIONS_TABLE removed - not used by chat processor
+    };
+
     // Chat Processor Lambda
     this.chatProcessor = new lambda.Function(this, 'ChatProcessor', {
       functionName: `ada-clara-chat-processor${stackSuffix}`,
       runtime: lambda.Runtime.NODEJS_24_X,
-      handler: 'index.handler',
-      code: lambda.Code.fromAsset('lambda/chat-processor'),
+      handler: 'chat-processor/index.handler',
+      code: lambdaCodeWithShared('chat-processor'),
       timeout: Duration.seconds(30),
       memorySize: 512,
       logGroup: chatProcessorLogGroup,
       role: lambdaExecutionRole,
-      environment: {
-        SESSIONS_TABLE: this.chatSessionsTable.tableName,
-        MESSAGES_TABLE: this.messagesTable.tableName,
-        ANALYTICS_TABLE: this.analyticsTable.tableName,
-        ESCALATION_REQUESTS_TABLE: this.escalationRequestsTable.tableName,
-        CHAT_SESSIONS_TABLE: this.chatSessionsTable.tableName,
-        QUESTIONS_TABLE: this.questionsTable.tableName,
-        FRONTEND_URL: frontendUrl !== '*' ? frontendUrl : '', // Pass frontend URL to Lambda for CORS
-        // RAG_ENDPOINT and RAG_FUNCTION_NAME will be set using addEnvironment after all API Gateway methods are created
-        // Note: CONVERSATIONS_TABLE removed - not used by chat processor
-      },
+      environment: chatProcessorEnvironment,
     });
 
+    // Chat Stream Processor Lambda - same code, streaming handler behind POST /chat/stream
+    const chatStreamProcessorLogGroup = new logs.LogGroup(this, 'ChatStreamProcessorLogGroup', {
+      logGroupName: `/aws/lambda/ada-clara-chat-stream-processor${stackSuffix}`,
+      retention: logs.RetentionDays.ONE_WEEK,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    this.chatStreamProcessor = new lambda.Function(this, 'ChatStreamProcessor', {
+      functionName: `ada-clara-chat-stream-processor${stackSuffix}`,
+      runtime: lambda.Runtime.NODEJS_24_X,
+      handler: 'chat-processor/index.streamHandler',
+      code: lambdaCodeWithShared('chat-processor'),
+      timeout: Duration.minutes(5),
+      memorySize: 512,
+      logGroup: chatStreamProcessorLogGroup,
+      role: lambdaExecutionRole,
+      environment: chatProcessorEnvironment,
+    });
+
+    // Emails to people who request contact (sender must be a verified SES identity; without one, no emails are sent).
+    // userMessageTemplates (JSON, see lambda/escalation-handler/user-messages.js) overrides the default templates.
+    const userMessageFrom = this.node.tryGetContext('userMessageFrom') || '';
+    const userMessageTemplatesContext = this.node.tryGetContext('userMessageTemplates');
+    const userMessageTemplates = typeof userMessageTemplatesContext === 'string'
+      ? userMessageTemplatesContext
+      : JSON.stringify(userMessageTemplatesContext || {});
+
     // Create log group for escalation handler
     const escalationHandlerLogGroup = new logs.LogGroup(this, 'EscalationHandlerLogGroup', {
       logGroupName: `/aws/lambda/ada-clara-escalation-handler${stackSuffix}`,
@@ -712,15 +945,22 @@ export class AdaClaraUnifiedStack extends Stack {
     this.escalationHandler = new lambda.Function(this, 'EscalationHandler', {
       functionName: `ada-clara-escalation-handler${stackSuffix}`,
       runtime: lambda.Runtime.NODEJS_24_X,
-      handler: 'index.handler',
-      code: lambda.Code.fromAsset('lambda/escalation-handler'),
+      handler: 'escalation-handler/index.handler',
+      code: lambdaCodeWithShared('escalation-handler'),
       timeout: Duration.seconds(30),
       memorySize: 512,
       logGroup: escalationHandlerLogGroup,
       role: lambdaExecutionRole,
       environment: {
         ESCALATION_REQUESTS_TABLE: this.escalationRequestsTable.tableName,
+        MESSAGES_TABLE: this.messagesTable.tableName, // Transcripts of escalated conversations
+        USER_POOL_ID: this.userPool.userPoolId, // Staff escalations can be assigned to
+        ESCALATION_NOTIFIER_FUNCTION: this.escalationNotifierFunction.functionName,
+        USER_MESSAGE_TRANSPORT: 'ses',
+        USER_MESSAGE_FROM: userMessageFrom,
+        USER_MESSAGE_TEMPLATES: userMessageTemplates,
         FRONTEND_URL: frontendUrl !== '*' ? frontendUrl : '', // Pass frontend URL for CORS
+        // UNSUBSCRIBE_URL will be set using addEnvironment after all API Gateway methods are created
       },
     });
 
@@ -731,6 +971,17 @@ export class AdaClaraUnifiedStack extends Stack {
       removalPolicy: RemovalPolicy.DESTROY,
     });
 
+    const adminAnalyticsEnvironment = {
+      ANALYTICS_TABLE: this.analyticsTable.tableName,
+      QUESTIONS_TABLE: this.questionsTable.tableName,
+      CHAT_SESSIONS_TABLE: this.chatSessionsTable.tableName,
+      ESCALATION_REQUESTS_TABLE: this.escalationRequestsTable.tableName,
+      UNANSWERED_TRIAGE_TABLE: this.unansweredTriageTable.tableName,
+      QUESTION_CLUSTERS_TABLE: this.questionClustersTable.tableName,
+      FEEDBACK_TABLE: this.feedbackTable.tableName,
+      // Note: CONVERSATIONS_TABLE removed - analytics uses CHAT_SESSIONS_TABLE instead
+    };
+
     this.adminAnalytics = new lambda.Function(this, 'AdminAnalytics', {
       functionName: `ada-clara-admin-analytics${stackSuffix}`,
       runtime: lambda.Runtime.NODEJS_24_X,
@@ -740,27 +991,209 @@ export class AdaClaraUnifiedStack extends Stack {
       memorySize: 512,
       logGroup: adminAnalyticsLogGroup,
       role: lambdaExecutionRole,
+      environment: adminAnalyticsEnvironment,
+    });
+
+    // Admin Export Lambda - same code, streaming handler behind GET /admin/export/{dataset}
+    const adminExportLogGroup = new logs.LogGroup(this, 'AdminExportLogGroup', {
+      logGroupName: `/aws/lambda/ada-clara-admin-export${stackSuffix}`,
+      retention: logs.RetentionDays.ONE_WEEK,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    this.adminExport = new lambda.Function(this, 'AdminExport', {
+      functionName: `ada-clara-admin-export${stackSuffix}`,
+      runtime: lambda.Runtime.NODEJS_24_X,
+      handler: 'index.exportHandler',
+      code: lambda.Code.fromAsset('lambda/admin-analytics'),
+      timeout: Duration.minutes(5),
+      memorySize: 512,
+      logGroup: adminExportLogGroup,
+      role: lambdaExecutionRole,
+      environment: adminAnalyticsEnvironment,
+    });
+
+    // Create log group for curated answers
+    const curatedAnswersLogGroup = new logs.LogGroup(this, 'CuratedAnswersLogGroup', {
+      logGroupName: `/aws/lambda/ada-clara-curated-answers${stackSuffix}`,
+      retention: logs.RetentionDays.ONE_WEEK,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    this.curatedAnswersFunction = new lambda.Function(this, 'CuratedAnswers', {
+      functionName: `ada-clara-curated-answers${stackSuffix}`,
+      runtime: lambda.Runtime.NODEJS_24_X,
+      handler: 'curated-answers/index.handler',
+      code: lambdaCodeWithShared('curated-answers'),
+      timeout: Duration.seconds(30),
+      memorySize: 512,
+      logGroup: curatedAnswersLogGroup,
+      role: lambdaExecutionRole,
+      environment: {
+        CURATED_ANSWERS_TABLE: this.curatedAnswersTable.tableName,
+        LLM_PROVIDER: 'bedrock', // Embeds question variants on save
+        FRONTEND_URL: frontendUrl !== '*' ? frontendUrl : '', // Pass frontend URL for CORS
+      },
+    });
+
+    // Create log group for escalation policy
+    const escalationPolicyLogGroup = new logs.LogGroup(this, 'EscalationPolicyLogGroup', {
+      logGroupName: `/aws/lambda/ada-clara-escalation-policy${stackSuffix}`,
+      retention: logs.RetentionDays.ONE_WEEK,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    this.escalationPolicyFunction = new lambda.Function(this, 'EscalationPolicy', {
+      functionName: `ada-clara-escalation-policy${stackSuffix}`,
+      runtime: lambda.Runtime.NODEJS_24_X,
+      handler: 'escalation-policy/index.handler',
+      code: lambdaCodeWithShared('escalation-policy'),
+      timeout: Duration.seconds(30),
+      memorySize: 256,
+      logGroup: escalationPolicyLogGroup,
+      role: lambdaExecutionRole,
+      environment: {
+        ESCALATION_POLICY_TABLE: this.escalationPolicyTable.tableName,
+        FRONTEND_URL: frontendUrl !== '*' ? frontendUrl : '', // Pass frontend URL for CORS
+      },
+    });
+
+    // Create log group for question clustering
+    const questionClusteringLogGroup = new logs.LogGroup(this, 'QuestionClusteringLogGroup', {
+      logGroupName: `/aws/lambda/ada-clara-question-clustering${stackSuffix}`,
+      retention: logs.RetentionDays.ONE_WEEK,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    this.questionClusteringFunction = new lambda.Function(this, 'QuestionClustering', {
+      functionName: `ada-clara-question-clustering${stackSuffix}`,
+      runtime: lambda.Runtime.NODEJS_24_X,
+      handler: 'question-clustering/index.handler',
+      code: lambdaCodeWithShared('question-clustering'),
+      timeout: Duration.minutes(15),
+      memorySize: 1024,
+      logGroup: questionClusteringLogGroup,
+      role: lambdaExecutionRole,
       environment: {
-        ANALYTICS_TABLE: this.analyticsTable.tableName,
         QUESTIONS_TABLE: this.questionsTable.tableName,
+        QUESTION_CLUSTERS_TABLE: this.questionClustersTable.tableName,
+        ANALYTICS_TABLE: this.analyticsTable.tableName, // Cluster rollups for the FAQ and unanswered analytics
+        LLM_PROVIDER: 'bedrock',
+        CLUSTER_SIMILARITY: '0.85',
+        MAX_QUESTIONS_PER_RUN: '2000',
+      },
+    });
+
+    // EventBridge Rule for hourly question clustering
+    this.questionClusteringScheduleRule = new events.Rule(this, 'QuestionClusteringScheduleRule', {
+      ruleName: `ada-clara-question-clustering-schedule${stackSuffix}`,
+      description: 'Hourly semantic clustering of new questions for FAQ and unanswered analytics',
+      schedule: events.Schedule.rate(Duration.hours(1)),
+      enabled: true,
+    });
+    this.questionClusteringScheduleRule.addTarget(new targets.LambdaFunction(this.questionClusteringFunction));
+
+    // Create log group for analytics aggregator
+    const analyticsAggregatorLogGroup = new logs.LogGroup(this, 'AnalyticsAggregatorLogGroup', {
+      logGroupName: `/aws/lambda/ada-clara-analytics-aggregator${stackSuffix}`,
+      retention: logs.RetentionDays.ONE_WEEK,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    // Analytics Aggregator Lambda - keeps hourly/daily/all-time counters in the analytics table
+    this.analyticsAggregatorFunction = new lambda.Function(this, 'AnalyticsAggregator', {
+      functionName: `ada-clara-analytics-aggregator${stackSuffix}`,
+      runtime: lambda.Runtime.NODEJS_24_X,
+      handler: 'index.handler',
+      code: lambda.Code.fromAsset('lambda/analytics-aggregator'),
+      timeout: Duration.minutes(15), // Backfill scans every source table
+      memorySize: 512,
+      logGroup: analyticsAggregatorLogGroup,
+      role: lambdaExecutionRole,
+      environment: {
+        ANALYTICS_TABLE: this.analyticsTable.tableName,
         CHAT_SESSIONS_TABLE: this.chatSessionsTable.tableName,
+        QUESTIONS_TABLE: this.questionsTable.tableName,
         ESCALATION_REQUESTS_TABLE: this.escalationRequestsTable.tableName,
-        // Note: CONVERSATIONS_TABLE removed - analytics uses CHAT_SESSIONS_TABLE instead
+        ROLLUP_HOUR_TTL_DAYS: '90',
       },
     });
 
+    // Stream INSERTs from the source tables into the aggregator
+    const insertFilter = lambda.FilterCriteria.filter({ eventName: lambda.FilterRule.isEqual('INSERT') });
+    for (const table of [this.chatSessionsTable, this.questionsTable, this.escalationRequestsTable]) {
+      this.analyticsAggregatorFunction.addEventSource(new DynamoEventSource(table, {
+        startingPosition: lambda.StartingPosition.LATEST,
+        batchSize: 100,
+        maxBatchingWindow: Duration.seconds(10),
+        retryAttempts: 3,
+        filters: [insertFilter],
+      }));
+    }
+    // Only answer cache and safety events from the analytics table - never the rollup items the aggregator writes
+    this.analyticsAggregatorFunction.addEventSource(new DynamoEventSource(this.analyticsTable, {
+      startingPosition: lambda.StartingPosition.LATEST,
+      batchSize: 100,
+      maxBatchingWindow: Duration.seconds(10),
+      retryAttempts: 3,
+      filters: ['answer_cache#', 'crisis_detected#'].map(prefix => lambda.FilterCriteria.filter({
+        eventName: lambda.FilterRule.isEqual('INSERT'),
+        dynamodb: { Keys: { SK: { S: lambda.FilterRule.beginsWith(prefix) } } },
+      })),
+    }));
+
     // Grant DynamoDB permissions
     this.chatSessionsTable.grantReadWriteData(this.chatProcessor);
     this.messagesTable.grantReadWriteData(this.chatProcessor);
     this.analyticsTable.grantReadWriteData(this.chatProcessor);
     this.escalationRequestsTable.grantReadWriteData(this.escalationHandler);
+    this.messagesTable.grantReadData(this.escalationHandler);
+    this.userPool.grant(this.escalationHandler, 'cognito-idp:ListUsers', 'cognito-idp:AdminGetUser');
+    this.escalationAlertsTopic.grantPublish(this.escalationNotifierFunction);
+    this.escalationHandler.addToRolePolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: ['ses:SendEmail'], // Confirmation and status emails to requesters
+      resources: [`arn:aws:ses:${region}:${accountId}:identity/*`],
+    }));
+    this.escalationNotifierFunction.addToRolePolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: ['ses:SendEmail'], // SES notification channels (sender identities must be verified)
+      resources: [`arn:aws:ses:${region}:${accountId}:identity/*`],
+    }));
     this.escalationRequestsTable.grantReadWriteData(this.chatProcessor);
     this.questionsTable.grantReadWriteData(this.chatProcessor);
+    this.chatSessionsTable.grantReadWriteData(this.chatStreamProcessor);
+    this.messagesTable.grantReadWriteData(this.chatStreamProcessor);
+    this.analyticsTable.grantReadWriteData(this.chatStreamProcessor);
+    this.escalationRequestsTable.grantReadWriteData(this.chatStreamProcessor);
+    this.questionsTable.grantReadWriteData(this.chatStreamProcessor);
+    this.answerCacheTable.grantReadWriteData(this.chatProcessor);
+    this.answerCacheTable.grantReadWriteData(this.chatStreamProcessor);
+    this.curatedAnswersTable.grantReadData(this.chatProcessor);
+    this.curatedAnswersTable.grantReadData(this.chatStreamProcessor);
+    this.curatedAnswersTable.grantReadWriteData(this.curatedAnswersFunction);
+    this.escalationPolicyTable.grantReadData(this.chatProcessor);
+    this.escalationPolicyTable.grantReadData(this.chatStreamProcessor);
+    this.escalationPolicyTable.grantReadWriteData(this.escalationPolicyFunction);
+    this.feedbackTable.grantReadWriteData(this.chatProcessor);
     this.analyticsTable.grantReadData(this.adminAnalytics);
     // Removed: conversationsTable.grantReadData(this.adminAnalytics) - not used, analytics uses chatSessionsTable
     this.questionsTable.grantReadData(this.adminAnalytics);
     this.chatSessionsTable.grantReadData(this.adminAnalytics);
     this.escalationRequestsTable.grantReadData(this.adminAnalytics);
+    this.unansweredTriageTable.grantReadWriteData(this.adminAnalytics);
+    this.questionClustersTable.grantReadData(this.adminAnalytics);
+    this.feedbackTable.grantReadData(this.adminAnalytics);
+    this.questionsTable.grantReadData(this.adminExport);
+    this.chatSessionsTable.grantReadData(this.adminExport);
+    this.escalationRequestsTable.grantReadData(this.adminExport);
+    this.questionsTable.grantReadWriteData(this.questionClusteringFunction);
+    this.questionClustersTable.grantReadWriteData(this.questionClusteringFunction);
+    this.analyticsTable.grantReadWriteData(this.questionClusteringFunction);
+    this.analyticsTable.grantReadWriteData(this.analyticsAggregatorFunction);
+    this.chatSessionsTable.grantReadData(this.analyticsAggregatorFunction);
+    this.questionsTable.grantReadData(this.analyticsAggregatorFunction);
+    this.escalationRequestsTable.grantReadData(this.analyticsAggregatorFunction);
 
     // ========== API GATEWAY ROUTES ==========
     // Health endpoint
@@ -770,11 +1203,22 @@ export class AdaClaraUnifiedStack extends Stack {
     const chatResource = this.api.root.addResource('chat');
     chatResource.addMethod('POST', new apigateway.LambdaIntegration(this.chatProcessor));
     chatResource.addMethod('GET', new apigateway.LambdaIntegration(this.chatProcessor));
+    chatResource.addResource('feedback').addMethod('POST', new apigateway.LambdaIntegration(this.chatProcessor));
+    chatResource.addResource('history').addMethod('GET', new apigateway.LambdaIntegration(this.chatProcessor));
+
+    // Streaming chat endpoint - API Gateway forwards the Lambda response stream to the client
+    chatResource.addResource('stream').addMethod('POST', new apigateway.LambdaIntegration(this.chatStreamProcessor, {
+      responseTransferMode: apigateway.ResponseTransferMode.STREAM,
+    }));
 
     // Escalation endpoints
     const escalationResource = this.api.root.addResource('escalation');
     const escalationRequestResource = escalationResource.addResource('request');
     escalationRequestResource.addMethod('POST', new apigateway.LambdaIntegration(this.escalationHandler));
+    // Unsubscribe link in user messages (GET) and one-click unsubscribe from mail clients (POST)
+    const escalationUnsubscribeResource = escalationResource.addResource('unsubscribe');
+    escalationUnsubscribeResource.addMethod('GET', new apigateway.LambdaIntegration(this.escalationHandler));
+    escalationUnsubscribeResource.addMethod('POST', new apigateway.LambdaIntegration(this.escalationHandler));
 
     // Admin endpoints (all require Cognito authentication)
     const adminResource = this.api.root.addResource('admin');
@@ -833,12 +1277,79 @@ export class AdaClaraUnifiedStack extends Stack {
     unansweredResource.addMethod('GET', new apigateway.LambdaIntegration(this.adminAnalytics), {
       authorizer: cognitoAuthorizer,
     });
+
+    const unansweredTriageResource = unansweredResource.addResource('triage');
+    unansweredTriageResource.addMethod('GET', new apigateway.LambdaIntegration(this.adminAnalytics), {
+      authorizer: cognitoAuthorizer,
+    });
+
+    const unansweredClusterResource = unansweredResource.addResource('{clusterId}');
+    unansweredClusterResource.addMethod('PATCH', new apigateway.LambdaIntegration(this.adminAnalytics), {
+      authorizer: cognitoAuthorizer,
+    });
+
+    const feedbackResource = adminResource.addResource('feedback');
+    feedbackResource.addMethod('GET', new apigateway.LambdaIntegration(this.adminAnalytics), {
+      authorizer: cognitoAuthorizer,
+    });
+    
+    // Streaming CSV/NDJSON exports of questions, escalations and sessions
+    const exportResource = adminResource.addResource('export').addResource('{dataset}');
+    exportResource.addMethod('GET', new apigateway.LambdaIntegration(this.adminExport, {
+      responseTransferMode: apigateway.ResponseTransferMode.STREAM,
+    }), {
+      authorizer: cognitoAuthorizer,
+    });
     
     const adminEscalationResource = adminResource.addResource('escalation-requests');
     adminEscalationResource.addMethod('GET', new apigateway.LambdaIntegration(this.escalationHandler), {
       authorizer: cognitoAuthorizer,
     });
 
+    // Escalation case management: staff to assign to, and status/assignee/note updates
+    adminEscalationResource.addResource('assignees').addMethod('GET', new apigateway.LambdaIntegration(this.escalationHandler), {
+      authorizer: cognitoAuthorizer,
+    });
+    const adminEscalationItemResource = adminEscalationResource.addResource('{escalationId}');
+    adminEscalationItemResource.addMethod('PATCH', new apigateway.LambdaIntegration(this.escalationHandler), {
+      authorizer: cognitoAuthorizer,
+    });
+    adminEscalationItemResource.addResource('transcript').addMethod('GET', new apigateway.LambdaIntegration(this.escalationHandler), {
+      authorizer: cognitoAuthorizer,
+    });
+
+    // Curated answers management (admin-only)
+    const curatedAnswersResource = adminResource.addResource('curated-answers');
+    curatedAnswersResource.addMethod('GET', new apigateway.LambdaIntegration(this.curatedAnswersFunction), {
+      authorizer: cognitoAuthorizer,
+    });
+    curatedAnswersResource.addMethod('POST', new apigateway.LambdaIntegration(this.curatedAnswersFunction), {
+      authorizer: cognitoAuthorizer,
+    });
+
+    const curatedAnswerResource = curatedAnswersResource.addResource('{answerId}');
+    curatedAnswerResource.addMethod('GET', new apigateway.LambdaIntegration(this.curatedAnswersFunction), {
+      authorizer: cognitoAuthorizer,
+    });
+    curatedAnswerResource.addMethod('PUT', new apigateway.LambdaIntegration(this.curatedAnswersFunction), {
+      authorizer: cognitoAuthorizer,
+    });
+    curatedAnswerResource.addMethod('DELETE', new apigateway.LambdaIntegration(this.curatedAnswersFunction), {
+      authorizer: cognitoAuthorizer,
+    });
+
+    // Escalation policy management (admin-only)
+    const escalationPolicyResource = adminResource.addResource('escalation-policy');
+    escalationPolicyResource.addMethod('GET', new apigateway.LambdaIntegration(this.escalationPolicyFunction), {
+      authorizer: cognitoAuthorizer,
+    });
+    escalationPolicyResource.addMethod('PUT', new apigateway.LambdaIntegration(this.escalationPolicyFunction), {
+      authorizer: cognitoAuthorizer,
+    });
+    escalationPolicyResource.addResource('evaluate').addMethod('POST', new apigateway.LambdaIntegration(this.escalationPolicyFunction), {
+      authorizer: cognitoAuthorizer,
+    });
+
     // RAG query endpoint
     const queryResource = this.api.root.addResource('query');
     queryResource.addMethod('POST', new apigateway.LambdaIntegration(this.ragProcessor));
@@ -882,6 +1393,17 @@ export class AdaClaraUnifiedStack extends Stack {
     ]);
     this.chatProcessor.addEnvironment('RAG_ENDPOINT', ragEndpoint);
     this.chatProcessor.addEnvironment('RAG_FUNCTION_NAME', this.ragProcessor.functionName);
+    this.chatStreamProcessor.addEnvironment('RAG_ENDPOINT', ragEndpoint);
+    this.chatStreamProcessor.addEnvironment('RAG_FUNCTION_NAME', this.ragProcessor.functionName);
+    this.chatStreamProcessor.addEnvironment('RAG_STREAM_FUNCTION_NAME', this.ragStreamProcessor.functionName);
+    // Unsubscribe links in user messages point at the API (built the same way to avoid the circular dependency)
+    this.escalationHandler.addEnvironment('UNSUBSCRIBE_URL', Fn.join('', [
+      'https://',
+      this.api.restApiId,
+      '.execute-api.',
+      this.region,
+      '.amazonaws.com/prod/escalation/unsubscribe'
+    ]));
 
     // ========== AMPLIFY APP ==========
     // Amplify app is created by deploy.sh script before CDK deployment
@@ -953,6 +1475,12 @@ export class AdaClaraUnifiedStack extends Stack {
       exportName: `AdaClara-ScrapingQueueUrl-${region}`,
     });
 
+    new CfnOutput(this, 'EscalationAlertsTopicArn', {
+      value: this.escalationAlertsTopic.topicArn,
+      description: 'SNS Topic ARN for staff escalation alerts (subscribe staff to be notified)',
+      exportName: `AdaClara-EscalationAlertsTopicArn-${region}`,
+    });
+
     new CfnOutput(this, 'VectorsBucketName', {
       value: this.vectorsBucket.vectorBucketName,
       description: 'S3 Vectors Bucket Name',
@@ -1,14 +1,25 @@
 'use client';
 
+import { useState } from 'react';
 import AdminHeader from './AdminHeader';
+import AnalyticsFilterBar from './AnalyticsFilterBar';
+import { lastDays } from './DateRangePicker';
 import MetricCards from './MetricCards';
 import ConversationsChart from './ConversationsChart';
 import LanguageSplitChart from './LanguageSplitChart';
 import EscalationRequestsTable from './EscalationRequestsTable';
 import FrequentlyAskedQuestions from './FrequentlyAskedQuestions';
 import TopUnansweredQuestions from './TopUnansweredQuestions';
+import UnansweredTriagePanel from './UnansweredTriagePanel';
+import AnswerFeedbackPanel from './AnswerFeedbackPanel';
+import CuratedAnswersPanel from './CuratedAnswersPanel';
+import EscalationPolicyPanel from './EscalationPolicyPanel';
+import type { AnalyticsFilters } from '../../../lib/api/admin.service';
 
 export default function AdminDashboard() {
+  // Shared by the metric cards, charts and question lists
+  const [filters, setFilters] = useState<AnalyticsFilters>(() => ({ ...lastDays(7), granularity: 'day' }));
+
   return (
     <div className="min-h-screen bg-[#f8fafc]">
       {/* Main Header */}
@@ -20,13 +31,17 @@ export default function AdminDashboard() {
       {/* Main Content Area */}
       <div className="bg-[#f8fafc] w-full" style={{ padding: '40px 80px', paddingBottom: '56px' }}>
         <div className="max-w-[1440px] mx-auto">
+          <div style={{ marginBottom: '24px' }}>
+            <AnalyticsFilterBar filters={filters} onChange={setFilters} />
+          </div>
+
           <div style={{ marginBottom: '40px' }}>
-            <MetricCards />
+            <MetricCards filters={filters} />
           </div>
 
           <div style={{ marginBottom: '40px', display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '32px' }}>
-            <ConversationsChart />
-            <LanguageSplitChart />
+            <ConversationsChart filters={filters} />
+            <LanguageSplitChart filters={filters} />
           </div>
 
           {/* Escalation Requests - Full Width */}
@@ -35,10 +50,28 @@ export default function AdminDashboard() {
           </div>
 
           {/* FAQ and Top Unanswered - Side by Side */}
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '32px' }}>
-            <FrequentlyAskedQuestions />
-            <TopUnansweredQuestions />
+          <div style={{ marginBottom: '40px', display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '32px' }}>
+            <FrequentlyAskedQuestions filters={filters} />
+            <TopUnansweredQuestions filters={filters} />
           </div>
+
+          {/* Answer Feedback - Full Width */}
+          <div style={{ marginBottom: '40px' }}>
+            <AnswerFeedbackPanel filters={filters} />
+          </div>
+
+          {/* Unanswered Questions Triage - Full Width */}
+          <div style={{ marginBottom: '40px' }}>
+            <UnansweredTriagePanel />
+          </div>
+
+          {/* Curated Answers - Full Width */}
+          <div style={{ marginBottom: '40px' }}>
+            <CuratedAnswersPanel />
+          </div>
+
+          {/* Escalation Policy - Full Width */}
+          <EscalationPolicyPanel />
         </div>
       </div>
     </div>
@@ -0,0 +1,99 @@
+'use client';
+
+import DateRangePicker from './DateRangePicker';
+import {
+  ANALYTICS_CATEGORIES,
+  type AnalyticsFilters,
+  type AnalyticsGranularity,
+} from '../../../lib/api/admin.service';
+
+interface AnalyticsFilterBarProps {
+  filters: AnalyticsFilters;
+  onChange: (filters: AnalyticsFilters) => void;
+}
+
+const GRANULARITY_LABELS: Record<AnalyticsGranularity, string> = {
+  hour: 'Hourly',
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+// Hourly points are available for ranges of up to 31 days
+const MAX_HOURLY_RANGE_DAYS = 31;
+
+const selectStyle = {
+  border: '1px solid #cbd5e1',
+  borderRadius: '10px',
+  padding: '6px 10px',
+  fontSize: '14px',
+  color: '#020617',
+  backgroundColor: 'white',
+  fontFamily: 'inherit',
+};
+
+function rangeDays(filters: AnalyticsFilters): number | null {
+  if (!filters.from || !filters.to) {
+    return null;
+  }
+  return (Date.parse(filters.to) - Date.parse(filters.from)) / (24 * 60 * 60 * 1000) + 1;
+}
+
+export default function AnalyticsFilterBar({ filters, onChange }: AnalyticsFilterBarProps) {
+  const days = rangeDays(filters);
+  const hourlyAvailable = days === null || days <= MAX_HOURLY_RANGE_DAYS;
+
+  const update = (changes: AnalyticsFilters) => {
+    const next = { ...filters, ...changes };
+    // Fall back to daily points when the range gets too long for hourly ones
+    const nextDays = rangeDays(next);
+    if (next.granularity === 'hour' && nextDays !== null && nextDays > MAX_HOURLY_RANGE_DAYS) {
+      next.granularity = 'day';
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="bg-white border border-[#cbd5e1] rounded-[15px] shadow-[0px_1px_3px_0px_rgba(0,0,0,0.1)]" style={{ padding: '16px 24px', display: 'flex', flexWrap: 'wrap', alignItems: 'center', justifyContent: 'space-between', gap: '16px' }}>
+      <DateRangePicker
+        value={{ from: filters.from, to: filters.to }}
+        onChange={(range) => update({ from: range.from, to: range.to })}
+      />
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '8px' }}>
+        <select
+          aria-label="Language"
+          value={filters.language || ''}
+          onChange={(e) => update({ language: (e.target.value || undefined) as AnalyticsFilters['language'] })}
+          style={selectStyle}
+        >
+          <option value="">All languages</option>
+          <option value="en">English</option>
+          <option value="es">Spanish</option>
+        </select>
+        <select
+          aria-label="Category"
+          value={filters.category || ''}
+          onChange={(e) => update({ category: e.target.value || undefined })}
+          style={selectStyle}
+        >
+          <option value="">All categories</option>
+          {Object.entries(ANALYTICS_CATEGORIES).map(([key, label]) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+        </select>
+        <select
+          aria-label="Granularity"
+          value={filters.granularity || 'day'}
+          onChange={(e) => update({ granularity: e.target.value as AnalyticsGranularity })}
+          style={selectStyle}
+        >
+          {(Object.keys(GRANULARITY_LABELS) as AnalyticsGranularity[]).map((granularity) => (
+            <option key={granularity} value={granularity} disabled={granularity === 'hour' && !hourlyAvailable}>
+              {GRANULARITY_LABELS[granularity]}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useAnswerFeedback } from '../hooks/useAdminData';
+import type { AnalyticsFilters, SatisfactionCounts } from '../../../lib/api/admin.service';
+
+const REASON_LABELS: Record<string, string> = {
+  incorrect: 'Incorrect',
+  not_helpful: 'Not helpful',
+  incomplete: 'Incomplete',
+  hard_to_understand: 'Hard to understand',
+  outdated: 'Out of date',
+  other: 'Other',
+};
+
+const LANGUAGE_LABELS: Record<string, string> = { en: 'English', es: 'Spanish' };
+
+const sectionTitleStyle = { color: '#64748b', fontSize: '12px', marginBottom: '4px' };
+
+function formatRate(counts: SatisfactionCounts) {
+  return counts.satisfactionRate === null ? '—' : `${counts.satisfactionRate}%`;
+}
+
+function SatisfactionRow({ label, counts, href }: { label: string; counts: SatisfactionCounts; href?: string }) {
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px', padding: '8px 0', borderBottom: '1px solid #e2e8f0' }}>
+      <div className="text-[#020617] text-sm font-normal" style={{ minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+        {href ? (
+          <a href={href} target="_blank" rel="noopener noreferrer" className="hover:underline" title={href}>{label}</a>
+        ) : label}
+      </div>
+      <div className="text-xs" style={{ flexShrink: 0, display: 'flex', gap: '12px' }}>
+        <span className="text-[#15803d]">{counts.positive} up</span>
+        <span className="text-[#a6192e]">{counts.negative} down</span>
+        <span className="text-[#020617] font-medium" style={{ width: '40px', textAlign: 'right' }}>{formatRate(counts)}</span>
+      </div>
+    </div>
+  );
+}
+
+export default function AnswerFeedbackPanel({ filters }: { filters?: AnalyticsFilters }) {
+  const { data, loading, error } = useAnswerFeedback(filters);
+
+  return (
+    <div className="bg-white border border-[#cbd5e1] rounded-[15px] shadow-[0px_1px_3px_0px_rgba(0,0,0,0.1)]" style={{ padding: '24px' }}>
+      <div className="bg-[#f8fafc] rounded-[10px] mb-6" style={{ padding: '12px 16px' }}>
+        <h2 className="text-[#a6192e] text-lg font-medium m-0">
+          Answer Feedback
+        </h2>
+        <p className="text-[#64748b] text-xs m-0" style={{ marginTop: '4px' }}>
+          {data
+            ? `${data.totals.ratings} ${data.totals.ratings === 1 ? 'rating' : 'ratings'} · ${formatRate(data.totals)} satisfied · Thumbs down answers are listed in the triage below`
+            : 'Thumbs up/down ratings from the chat'}
+        </p>
+      </div>
+
+      {loading && <div className="animate-pulse py-4">Loading...</div>}
+      {error && <div className="text-red-600 py-4">Error: {error}</div>}
+      {!loading && !error && data && (
+        data.totals.ratings === 0 ? (
+          <div className="text-[#64748b] text-sm py-4">No ratings yet</div>
+        ) : (
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '32px' }}>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '20px' }}>
+              <div>
+                <div style={sectionTitleStyle}>By category</div>
+                {data.byCategory.map((item) => (
+                  <SatisfactionRow key={item.category} label={item.displayName} counts={item} />
+                ))}
+              </div>
+              <div>
+                <div style={sectionTitleStyle}>By language</div>
+                {data.byLanguage.map((item) => (
+                  <SatisfactionRow key={item.language} label={LANGUAGE_LABELS[item.language] || item.language} counts={item} />
+                ))}
+              </div>
+              <div>
+                <div style={sectionTitleStyle}>By source page (most thumbs down first)</div>
+                {data.bySourcePage.length === 0 ? (
+                  <div className="text-[#64748b] text-sm py-2">No cited pages</div>
+                ) : (
+                  data.bySourcePage.map((item) => (
+                    <SatisfactionRow key={item.url} label={item.title} counts={item} href={item.url} />
+                  ))
+                )}
+              </div>
+            </div>
+
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '20px' }}>
+              <div>
+                <div style={sectionTitleStyle}>Thumbs down reasons</div>
+                {data.reasons.length === 0 ? (
+                  <div className="text-[#64748b] text-sm py-2">No reasons given</div>
+                ) : (
+                  <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+                    {data.reasons.map((item) => (
+                      <span key={item.reason} className="text-xs text-[#020617] bg-[#f8fafc] border border-[#e2e8f0] rounded-full" style={{ padding: '4px 10px' }}>
+                        {REASON_LABELS[item.reason] || item.reason} · {item.count}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div>
+                <div style={sectionTitleStyle}>Recent thumbs down</div>
+                {data.recentNegative.length === 0 ? (
+                  <div className="text-[#64748b] text-sm py-2">None</div>
+                ) : (
+                  data.recentNegative.map((item) => (
+                    <div key={`${item.sessionId}-${item.messageId}`} style={{ padding: '10px 0', borderBottom: '1px solid #e2e8f0' }}>
+                      <div className="text-[#020617] text-sm font-normal">{item.question || 'Unknown question'}</div>
+                      {item.comment && (
+                        <div className="text-[#020617] text-xs" style={{ marginTop: '4px', fontStyle: 'italic' }}>&ldquo;{item.comment}&rdquo;</div>
+                      )}
+                      <div className="text-[#64748b] text-xs" style={{ marginTop: '2px' }}>
+                        {new Date(item.timestamp).toLocaleDateString('en-US')}
+                        {` · ${item.language.toUpperCase()}`}
+                        {item.reasons.length > 0 && ` · ${item.reasons.map((reason) => REASON_LABELS[reason] || reason).join(', ')}`}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
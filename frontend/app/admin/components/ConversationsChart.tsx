@@ -1,14 +1,20 @@
 'use client';
 
 import { useConversationChart } from '../hooks/useAdminData';
+import type { AnalyticsFilters } from '../../../lib/api/admin.service';
+import ExportButton from './ExportButton';
 
-export default function ConversationsChart() {
-  const { data, loading, error } = useConversationChart();
+export default function ConversationsChart({ filters }: { filters?: AnalyticsFilters }) {
+  const { data, loading, error } = useConversationChart(filters);
+
+  // Conversations have no category, so a category filter charts questions instead
+  const metric = filters?.category ? 'questions' : 'conversations';
+  const title = filters?.category ? 'Questions Over Time' : 'Conversations Over Time';
   
   if (loading) {
     return (
       <div className="bg-white border border-[#cbd5e1] rounded-[15px] shadow-[0px_1px_3px_0px_rgba(0,0,0,0.1)]" style={{ padding: '24px', height: '100%' }}>
-        <h2 className="text-[#020617] text-lg font-medium m-0" style={{ marginBottom: '24px' }}>Conversations Over Time</h2>
+        <h2 className="text-[#020617] text-lg font-medium m-0" style={{ marginBottom: '24px' }}>{title}</h2>
         <div className="animate-pulse">Loading chart data...</div>
       </div>
     );
@@ -17,16 +23,19 @@ export default function ConversationsChart() {
   if (error || !data || !data.data || data.data.length === 0) {
     return (
       <div className="bg-white border border-[#cbd5e1] rounded-[15px] shadow-[0px_1px_3px_0px_rgba(0,0,0,0.1)]" style={{ padding: '24px', height: '100%' }}>
-        <h2 className="text-[#020617] text-lg font-medium m-0" style={{ marginBottom: '24px' }}>Conversations Over Time</h2>
+        <h2 className="text-[#020617] text-lg font-medium m-0" style={{ marginBottom: '24px' }}>{title}</h2>
         <div className="text-red-600">Error loading chart: {error || 'No data available'}</div>
       </div>
     );
   }
 
-  const chartData = data.data;
-  
+  const chartData = data.data.map((point) => ({ date: point.date, value: point[metric] ?? 0 }));
+
+  // Label every point when there are few, otherwise about 8 evenly spaced ones
+  const labelEvery = Math.ceil(chartData.length / 8);
+
   // Calculate max value dynamically
-  const maxConversations = Math.max(...chartData.map(d => d.conversations), 0);
+  const maxConversations = Math.max(...chartData.map(d => d.value), 0);
   const maxValue = Math.ceil(maxConversations * 1.1); // Add 10% padding
   const yAxisSteps = [maxValue, Math.floor(maxValue * 0.75), Math.floor(maxValue * 0.5), Math.floor(maxValue * 0.25), 0];
   const chartWidth = 600;
@@ -35,14 +44,17 @@ export default function ConversationsChart() {
   // Calculate points for the line
   const points = chartData.map((point, index) => {
     const x = (index / (chartData.length - 1 || 1)) * chartWidth;
-    const y = ((maxValue - point.conversations) / (maxValue || 1)) * chartHeight;
+    const y = ((maxValue - point.value) / (maxValue || 1)) * chartHeight;
     return { x, y };
   });
 
 
   return (
     <div className="bg-white border border-[#cbd5e1] rounded-[15px] shadow-[0px_1px_3px_0px_rgba(0,0,0,0.1)]" style={{ padding: '24px', height: '100%' }}>
-      <h2 className="text-[#020617] text-lg font-medium m-0" style={{ marginBottom: '24px' }}>Conversations Over Time</h2>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '24px' }}>
+        <h2 className="text-[#020617] text-lg font-medium m-0">{title}</h2>
+        <ExportButton dataset={metric === 'questions' ? 'questions' : 'sessions'} filters={filters} />
+      </div>
       
       <div style={{ position: 'relative', height: '300px' }}>
         {/* Y-axis labels */}
@@ -80,7 +92,7 @@ export default function ConversationsChart() {
                 key={index}
                 cx={p.x}
                 cy={p.y}
-                r="6"
+                r={chartData.length > 31 ? 3 : 6}
                 fill="#a6192e"
                 stroke="white"
                 strokeWidth="2"
@@ -90,7 +102,7 @@ export default function ConversationsChart() {
 
           {/* X-axis labels */}
           <div style={{ position: 'absolute', bottom: 0, left: 0, right: 0, display: 'flex', justifyContent: 'space-between' }}>
-            {chartData.map((point) => (
+            {chartData.filter((_, index) => index % labelEvery === 0).map((point) => (
               <span key={point.date} className="text-[#64748b] text-xs font-normal">{point.date}</span>
             ))}
           </div>
@@ -0,0 +1,288 @@
+'use client';
+
+import { useState } from 'react';
+import { useCuratedAnswers } from '../hooks/useAdminData';
+import ChatMessage from '../../components/ChatMessage';
+import {
+  saveCuratedAnswer,
+  deleteCuratedAnswer,
+  type CuratedAnswer,
+  type CuratedAnswerInput,
+} from '../../../lib/api/admin.service';
+
+type PreviewLanguage = 'en' | 'es';
+
+interface CuratedAnswerForm {
+  title: string;
+  questionsEn: string; // One question variant per line
+  questionsEs: string;
+  answerEn: string;
+  answerEs: string;
+  sources: string; // One "Title | URL" per line
+  effectiveFrom: string; // YYYY-MM-DD
+  expiresAt: string;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: CuratedAnswerForm = {
+  title: '',
+  questionsEn: '',
+  questionsEs: '',
+  answerEn: '',
+  answerEs: '',
+  sources: '',
+  effectiveFrom: '',
+  expiresAt: '',
+  enabled: true,
+};
+
+const inputStyle = {
+  width: '100%',
+  border: '1px solid #e2e8f0',
+  borderRadius: '10px',
+  padding: '10px 12px',
+  fontSize: '14px',
+  lineHeight: '20px',
+  color: '#020617',
+  outline: 'none',
+  backgroundColor: 'white',
+  fontFamily: 'inherit',
+  boxSizing: 'border-box' as const,
+};
+
+const labelStyle = { display: 'block', color: '#64748b', fontSize: '12px', marginBottom: '4px' };
+
+function toForm(answer: CuratedAnswer): CuratedAnswerForm {
+  return {
+    title: answer.title || '',
+    questionsEn: (answer.questions.en || []).join('\n'),
+    questionsEs: (answer.questions.es || []).join('\n'),
+    answerEn: answer.answers.en || '',
+    answerEs: answer.answers.es || '',
+    sources: (answer.sources || []).map((source) => `${source.title} | ${source.url}`).join('\n'),
+    effectiveFrom: answer.effectiveFrom ? answer.effectiveFrom.slice(0, 10) : '',
+    expiresAt: answer.expiresAt ? answer.expiresAt.slice(0, 10) : '',
+    enabled: answer.enabled !== false,
+  };
+}
+
+function toInput(form: CuratedAnswerForm): CuratedAnswerInput {
+  const lines = (text: string) => text.split('\n').map((line) => line.trim()).filter(Boolean);
+
+  return {
+    title: form.title.trim() || undefined,
+    questions: { en: lines(form.questionsEn), es: lines(form.questionsEs) },
+    answers: { en: form.answerEn.trim(), es: form.answerEs.trim() },
+    sources: lines(form.sources).map((line) => {
+      const [title, url] = line.includes('|') ? line.split('|').map((part) => part.trim()) : ['', line];
+      return { title: title || url, url };
+    }),
+    enabled: form.enabled,
+    effectiveFrom: form.effectiveFrom || undefined,
+    expiresAt: form.expiresAt || undefined,
+  };
+}
+
+export default function CuratedAnswersPanel() {
+  const { data, loading, error, refresh } = useCuratedAnswers();
+  const [form, setForm] = useState<CuratedAnswerForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [previewLanguage, setPreviewLanguage] = useState<PreviewLanguage>('en');
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const answers = data?.answers || [];
+  const previewInput = toInput(form);
+  const previewCitations = (previewInput.sources || []).map((source, index) => ({
+    id: index + 1,
+    url: source.url,
+    title: source.title,
+    excerpt: '',
+  }));
+
+  const updateField = <K extends keyof CuratedAnswerForm>(field: K, value: CuratedAnswerForm[K]) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setSaveError(null);
+  };
+
+  const handleEdit = (answer: CuratedAnswer) => {
+    setForm(toForm(answer));
+    setEditingId(answer.answerId);
+    setSaveError(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await saveCuratedAnswer(toInput(form), editingId || undefined);
+      resetForm();
+      await refresh();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save curated answer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (answer: CuratedAnswer) => {
+    if (!window.confirm(`Delete curated answer "${answer.title}"?`)) {
+      return;
+    }
+    try {
+      await deleteCuratedAnswer(answer.answerId);
+      if (editingId === answer.answerId) {
+        resetForm();
+      }
+      await refresh();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to delete curated answer');
+    }
+  };
+
+  return (
+    <div className="bg-white border border-[#cbd5e1] rounded-[15px] shadow-[0px_1px_3px_0px_rgba(0,0,0,0.1)]" style={{ padding: '24px' }}>
+      <div className="bg-[#f8fafc] rounded-[10px] mb-6" style={{ padding: '12px 16px' }}>
+        <h2 className="text-[#a6192e] text-lg font-medium m-0">
+          Curated Answers
+        </h2>
+        <p className="text-[#64748b] text-xs m-0" style={{ marginTop: '4px' }}>
+          Vetted answers served instead of generated ones when a question matches
+        </p>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '32px' }}>
+        {/* Existing answers */}
+        <div>
+          {loading && <div className="animate-pulse py-4">Loading...</div>}
+          {error && <div className="text-red-600 py-4">Error: {error}</div>}
+          {!loading && !error && (
+            answers.length === 0 ? (
+              <div className="text-[#64748b] text-sm py-4">No curated answers yet</div>
+            ) : (
+              answers.map((answer, index) => (
+                <div key={answer.answerId}>
+                  <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px', padding: '14px 0' }}>
+                    <div style={{ minWidth: 0 }}>
+                      <div className="text-[#020617] text-sm font-normal">{answer.title}</div>
+                      <div className="text-[#64748b] text-xs" style={{ marginTop: '2px' }}>
+                        {Object.keys(answer.answers).map((language) => language.toUpperCase()).join(' / ')}
+                        {' · '}
+                        <span style={{ color: answer.active ? '#15803d' : '#64748b' }}>
+                          {answer.active ? 'Active' : 'Inactive'}
+                        </span>
+                        {answer.expiresAt && ` · Expires ${new Date(answer.expiresAt).toLocaleDateString('en-US')}`}
+                      </div>
+                    </div>
+                    <div style={{ display: 'flex', gap: '8px', flexShrink: 0 }}>
+                      <button onClick={() => handleEdit(answer)} className="text-sm text-[#a6192e] hover:underline">
+                        Edit
+                      </button>
+                      <button onClick={() => handleDelete(answer)} className="text-sm text-[#64748b] hover:underline">
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                  {index < answers.length - 1 && (
+                    <div style={{ borderBottom: '1px solid #e2e8f0' }}></div>
+                  )}
+                </div>
+              ))
+            )
+          )}
+        </div>
+
+        {/* Editor and preview */}
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          <div>
+            <label style={labelStyle}>Title</label>
+            <input type="text" value={form.title} onChange={(e) => updateField('title', e.target.value)} style={inputStyle} />
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+            <div>
+              <label style={labelStyle}>English questions (one per line)</label>
+              <textarea rows={3} value={form.questionsEn} onChange={(e) => updateField('questionsEn', e.target.value)} style={inputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>Spanish questions (one per line)</label>
+              <textarea rows={3} value={form.questionsEs} onChange={(e) => updateField('questionsEs', e.target.value)} style={inputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>English answer</label>
+              <textarea rows={5} value={form.answerEn} onChange={(e) => updateField('answerEn', e.target.value)} style={inputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>Spanish answer</label>
+              <textarea rows={5} value={form.answerEs} onChange={(e) => updateField('answerEs', e.target.value)} style={inputStyle} />
+            </div>
+          </div>
+          <div>
+            <label style={labelStyle}>Sources (one &quot;Title | URL&quot; per line, cite as [1], [2]...)</label>
+            <textarea rows={2} value={form.sources} onChange={(e) => updateField('sources', e.target.value)} style={inputStyle} />
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr auto', gap: '12px', alignItems: 'end' }}>
+            <div>
+              <label style={labelStyle}>Effective from</label>
+              <input type="date" value={form.effectiveFrom} onChange={(e) => updateField('effectiveFrom', e.target.value)} style={inputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>Expires</label>
+              <input type="date" value={form.expiresAt} onChange={(e) => updateField('expiresAt', e.target.value)} style={inputStyle} />
+            </div>
+            <label className="text-sm text-[#020617]" style={{ display: 'flex', alignItems: 'center', gap: '6px', paddingBottom: '10px' }}>
+              <input type="checkbox" checked={form.enabled} onChange={(e) => updateField('enabled', e.target.checked)} />
+              Enabled
+            </label>
+          </div>
+
+          {/* Preview as the chat widget renders it */}
+          <div className="bg-[#f8fafc] rounded-[10px]" style={{ padding: '12px' }}>
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}>
+              <span className="text-[#64748b] text-xs">Preview</span>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                {(['en', 'es'] as PreviewLanguage[]).map((language) => (
+                  <button
+                    key={language}
+                    onClick={() => setPreviewLanguage(language)}
+                    className={`text-xs ${previewLanguage === language ? 'text-[#a6192e] font-medium' : 'text-[#64748b]'}`}
+                  >
+                    {language.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {previewInput.answers[previewLanguage] ? (
+              <ChatMessage type="assistant" content={previewInput.answers[previewLanguage] || ''} citations={previewCitations} />
+            ) : (
+              <div className="text-[#64748b] text-sm">No {previewLanguage === 'en' ? 'English' : 'Spanish'} answer</div>
+            )}
+          </div>
+
+          {saveError && <div className="text-red-600 text-sm">{saveError}</div>}
+          <div style={{ display: 'flex', gap: '10px', justifyContent: 'flex-end' }}>
+            {editingId && (
+              <button
+                onClick={resetForm}
+                className="px-6 py-3 text-base font-normal text-[#64748b] border border-[#cbd5e1] rounded-[10px] bg-white hover:bg-[#f8fafc] transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-6 py-3 text-base font-normal text-white bg-[#a6192e] rounded-[10px] hover:bg-[#8a1526] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : editingId ? 'Update Answer' : 'Add Answer'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
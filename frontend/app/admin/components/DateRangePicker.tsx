@@ -0,0 +1,89 @@
+'use client';
+
+export interface DateRange {
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+const PRESETS: Array<{ label: string; days?: number }> = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '12 months', days: 365 },
+  { label: 'All time' },
+];
+
+const dateInputStyle = {
+  border: '1px solid #cbd5e1',
+  borderRadius: '10px',
+  padding: '6px 10px',
+  fontSize: '14px',
+  color: '#020617',
+  backgroundColor: 'white',
+  fontFamily: 'inherit',
+};
+
+// Dates are UTC, matching the analytics rollups
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Range ending today that covers the given number of days
+ */
+export function lastDays(days: number): DateRange {
+  const today = new Date();
+  const from = new Date(today);
+  from.setUTCDate(from.getUTCDate() - (days - 1));
+  return { from: toDateString(from), to: toDateString(today) };
+}
+
+export default function DateRangePicker({ value, onChange }: DateRangePickerProps) {
+  const isPreset = (days?: number) => {
+    if (!days) {
+      return !value.from && !value.to;
+    }
+    const range = lastDays(days);
+    return value.from === range.from && value.to === range.to;
+  };
+
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '8px' }}>
+      {PRESETS.map((preset) => {
+        const selected = isPreset(preset.days);
+        return (
+          <button
+            key={preset.label}
+            onClick={() => onChange(preset.days ? lastDays(preset.days) : {})}
+            className={`text-sm rounded-[10px] border ${selected ? 'bg-[#a6192e] text-white border-[#a6192e]' : 'bg-white text-[#64748b] border-[#cbd5e1] hover:bg-[#f8fafc]'}`}
+            style={{ padding: '6px 12px' }}
+          >
+            {preset.label}
+          </button>
+        );
+      })}
+      <input
+        type="date"
+        aria-label="From date"
+        value={value.from || ''}
+        max={value.to || undefined}
+        onChange={(e) => onChange({ from: e.target.value || undefined, to: value.to || (e.target.value ? toDateString(new Date()) : undefined) })}
+        style={dateInputStyle}
+      />
+      <span className="text-[#64748b] text-sm">to</span>
+      <input
+        type="date"
+        aria-label="To date"
+        value={value.to || ''}
+        min={value.from || undefined}
+        onChange={(e) => onChange({ from: value.from, to: e.target.value || undefined })}
+        style={dateInputStyle}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,449 @@
+'use client';
+
+import { useState } from 'react';
+import { useEscalationPolicy } from '../hooks/useAdminData';
+import {
+  ANALYTICS_CATEGORIES,
+  saveEscalationPolicy,
+  evaluateEscalationPolicy,
+  type EscalationPolicy,
+  type EscalationPolicyEvaluation,
+  type EscalationUrgency,
+} from '../../../lib/api/admin.service';
+
+interface PatternSetForm {
+  code: string;
+  label: string;
+  urgency: EscalationUrgency;
+  enabled: boolean;
+  patterns: string; // One pattern per line
+}
+
+// Numbers are kept as text while editing; empty optional thresholds are left out of the policy
+interface PolicyForm {
+  minimum: string;
+  byLanguage: { en: string; es: string };
+  byCategory: Record<string, string>;
+  minRelevanceScore: string;
+  groundednessEnabled: boolean;
+  groundednessMinScore: string;
+  repeatedEnabled: boolean;
+  repeatedConfidenceBelow: string;
+  repeatedCount: string;
+  patternSets: PatternSetForm[];
+}
+
+interface SampleForm {
+  message: string;
+  language: 'en' | 'es';
+  category: string;
+  confidence: string;
+  groundednessScore: string;
+  lowConfidenceCount: string;
+}
+
+const EMPTY_SAMPLE: SampleForm = {
+  message: '',
+  language: 'en',
+  category: '',
+  confidence: '',
+  groundednessScore: '',
+  lowConfidenceCount: '0',
+};
+
+const inputStyle = {
+  width: '100%',
+  border: '1px solid #e2e8f0',
+  borderRadius: '10px',
+  padding: '10px 12px',
+  fontSize: '14px',
+  lineHeight: '20px',
+  color: '#020617',
+  outline: 'none',
+  backgroundColor: 'white',
+  fontFamily: 'inherit',
+  boxSizing: 'border-box' as const,
+};
+
+const labelStyle = { display: 'block', color: '#64748b', fontSize: '12px', marginBottom: '4px' };
+
+const sectionTitleClass = 'text-[#020617] text-sm font-medium';
+
+function toForm(policy: EscalationPolicy): PolicyForm {
+  const text = (value: number | undefined) => (value === undefined ? '' : String(value));
+
+  return {
+    minimum: text(policy.confidence.minimum),
+    byLanguage: { en: text(policy.confidence.byLanguage.en), es: text(policy.confidence.byLanguage.es) },
+    byCategory: Object.fromEntries(Object.entries(policy.confidence.byCategory).map(([category, value]) => [category, text(value)])),
+    minRelevanceScore: text(policy.sources.minRelevanceScore),
+    groundednessEnabled: policy.groundedness.enabled,
+    groundednessMinScore: text(policy.groundedness.minScore),
+    repeatedEnabled: policy.repeatedLowConfidence.enabled,
+    repeatedConfidenceBelow: text(policy.repeatedLowConfidence.confidenceBelow),
+    repeatedCount: text(policy.repeatedLowConfidence.count),
+    patternSets: policy.patternSets.map((set) => ({ ...set, patterns: set.patterns.join('\n') })),
+  };
+}
+
+function toPolicy(form: PolicyForm): EscalationPolicy {
+  // Text that is not a number is sent as null, which the API rejects with a validation message
+  const optional = (entries: Array<[string, string]>) => Object.fromEntries(
+    entries.filter(([, value]) => value.trim() !== '').map(([key, value]) => [key, Number(value)])
+  );
+
+  return {
+    confidence: {
+      minimum: Number(form.minimum),
+      byLanguage: optional(Object.entries(form.byLanguage)),
+      byCategory: optional(Object.entries(form.byCategory)),
+    },
+    sources: { minRelevanceScore: Number(form.minRelevanceScore) },
+    groundedness: { enabled: form.groundednessEnabled, minScore: Number(form.groundednessMinScore) },
+    repeatedLowConfidence: {
+      enabled: form.repeatedEnabled,
+      confidenceBelow: Number(form.repeatedConfidenceBelow),
+      count: Number(form.repeatedCount),
+    },
+    patternSets: form.patternSets.map((set) => ({
+      code: set.code.trim(),
+      label: set.label.trim(),
+      urgency: set.urgency,
+      enabled: set.enabled,
+      patterns: set.patterns.split('\n').map((line) => line.trim()).filter(Boolean),
+    })),
+  };
+}
+
+export default function EscalationPolicyPanel() {
+  const { data, loading, error, refresh } = useEscalationPolicy();
+  // null until the first edit; the loaded policy is shown until then
+  const [editForm, setEditForm] = useState<PolicyForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [sample, setSample] = useState<SampleForm>(EMPTY_SAMPLE);
+  const [evaluation, setEvaluation] = useState<EscalationPolicyEvaluation | null>(null);
+  const [evaluating, setEvaluating] = useState(false);
+  const [evaluateError, setEvaluateError] = useState<string | null>(null);
+
+  const form = editForm ?? (data ? toForm(data.policy) : null);
+  const reasonLabels = data?.reasonLabels || {};
+
+  const updateForm = (changes: Partial<PolicyForm>) => {
+    if (form) {
+      setEditForm({ ...form, ...changes });
+    }
+  };
+
+  const updatePatternSet = (index: number, changes: Partial<PatternSetForm>) => {
+    if (form) {
+      updateForm({ patternSets: form.patternSets.map((set, i) => (i === index ? { ...set, ...changes } : set)) });
+    }
+  };
+
+  const addPatternSet = () => {
+    if (form) {
+      updateForm({
+        patternSets: [...form.patternSets, { code: '', label: '', urgency: 'normal', enabled: true, patterns: '' }],
+      });
+    }
+  };
+
+  const removePatternSet = (index: number) => {
+    if (form) {
+      updateForm({ patternSets: form.patternSets.filter((_, i) => i !== index) });
+    }
+  };
+
+  const updateSample = <K extends keyof SampleForm>(field: K, value: SampleForm[K]) => {
+    setSample((current) => ({ ...current, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    if (!form || !data) {
+      return;
+    }
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await saveEscalationPolicy(toPolicy(form), data.version);
+      setEditForm(null);
+      await refresh();
+    } catch (err) {
+      // A 409 means someone else saved first; their policy is shown after Discard changes
+      setSaveError(err instanceof Error ? err.message : 'Failed to save escalation policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    setEditForm(null);
+    setSaveError(null);
+    await refresh();
+  };
+
+  const handleLoadDefaults = () => {
+    if (data?.defaults) {
+      setEditForm(toForm(data.defaults));
+    }
+  };
+
+  const handleEvaluate = async () => {
+    if (!form) {
+      return;
+    }
+    const score = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+    setEvaluating(true);
+    setEvaluateError(null);
+    try {
+      const result = await evaluateEscalationPolicy({
+        policy: toPolicy(form),
+        message: sample.message,
+        language: sample.language,
+        category: sample.category || undefined,
+        confidence: score(sample.confidence),
+        groundednessScore: score(sample.groundednessScore),
+        lowConfidenceCount: Number(sample.lowConfidenceCount) || 0,
+      });
+      setEvaluation(result);
+    } catch (err) {
+      setEvaluation(null);
+      setEvaluateError(err instanceof Error ? err.message : 'Failed to test the escalation policy');
+    } finally {
+      setEvaluating(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-[#cbd5e1] rounded-[15px] shadow-[0px_1px_3px_0px_rgba(0,0,0,0.1)]" style={{ padding: '24px' }}>
+      <div className="bg-[#f8fafc] rounded-[10px] mb-6" style={{ padding: '12px 16px' }}>
+        <h2 className="text-[#a6192e] text-lg font-medium m-0">
+          Escalation Policy
+        </h2>
+        <p className="text-[#64748b] text-xs m-0" style={{ marginTop: '4px' }}>
+          When chat answers are escalated to staff
+          {data && (data.isDefault
+            ? ' · Using the default policy'
+            : ` · Version ${data.version}${data.updatedBy ? ` by ${data.updatedBy}` : ''}${data.updatedAt ? ` on ${new Date(data.updatedAt).toLocaleDateString('en-US')}` : ''}`)}
+        </p>
+      </div>
+
+      {loading && <div className="animate-pulse py-4">Loading...</div>}
+      {error && <div className="text-red-600 py-4">Error: {error}</div>}
+      {!loading && !error && form && (
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '32px' }}>
+          {/* Policy editor */}
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            <div className={sectionTitleClass}>Confidence thresholds</div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '12px' }}>
+              <div>
+                <label style={labelStyle}>Minimum (0-1)</label>
+                <input type="number" min={0} max={1} step={0.05} value={form.minimum} onChange={(e) => updateForm({ minimum: e.target.value })} style={inputStyle} />
+              </div>
+              <div>
+                <label style={labelStyle}>English</label>
+                <input type="number" min={0} max={1} step={0.05} value={form.byLanguage.en} placeholder={form.minimum} onChange={(e) => updateForm({ byLanguage: { ...form.byLanguage, en: e.target.value } })} style={inputStyle} />
+              </div>
+              <div>
+                <label style={labelStyle}>Spanish</label>
+                <input type="number" min={0} max={1} step={0.05} value={form.byLanguage.es} placeholder={form.minimum} onChange={(e) => updateForm({ byLanguage: { ...form.byLanguage, es: e.target.value } })} style={inputStyle} />
+              </div>
+            </div>
+            <div>
+              <label style={labelStyle}>By question category (wins over the language threshold; leave empty to inherit)</label>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px 12px' }}>
+                {Object.entries(ANALYTICS_CATEGORIES).map(([category, label]) => (
+                  <div key={category} style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                    <span className="text-[#020617] text-xs" style={{ flex: 1 }}>{label}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={form.byCategory[category] || ''}
+                      onChange={(e) => updateForm({ byCategory: { ...form.byCategory, [category]: e.target.value } })}
+                      style={{ ...inputStyle, width: '90px', padding: '6px 8px' }}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className={sectionTitleClass}>Sources and groundedness</div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr auto', gap: '12px', alignItems: 'end' }}>
+              <div>
+                <label style={labelStyle}>Minimum source relevance</label>
+                <input type="number" min={0} max={1} step={0.05} value={form.minRelevanceScore} onChange={(e) => updateForm({ minRelevanceScore: e.target.value })} style={inputStyle} />
+              </div>
+              <div>
+                <label style={labelStyle}>Minimum groundedness score</label>
+                <input type="number" min={0} max={1} step={0.05} value={form.groundednessMinScore} onChange={(e) => updateForm({ groundednessMinScore: e.target.value })} style={inputStyle} />
+              </div>
+              <label className="text-sm text-[#020617]" style={{ display: 'flex', alignItems: 'center', gap: '6px', paddingBottom: '10px' }}>
+                <input type="checkbox" checked={form.groundednessEnabled} onChange={(e) => updateForm({ groundednessEnabled: e.target.checked })} />
+                Enabled
+              </label>
+            </div>
+
+            <div className={sectionTitleClass}>Repeated low confidence in a session</div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr auto', gap: '12px', alignItems: 'end' }}>
+              <div>
+                <label style={labelStyle}>Answers below confidence</label>
+                <input type="number" min={0} max={1} step={0.05} value={form.repeatedConfidenceBelow} onChange={(e) => updateForm({ repeatedConfidenceBelow: e.target.value })} style={inputStyle} />
+              </div>
+              <div>
+                <label style={labelStyle}>Escalate at answer number</label>
+                <input type="number" min={1} max={50} step={1} value={form.repeatedCount} onChange={(e) => updateForm({ repeatedCount: e.target.value })} style={inputStyle} />
+              </div>
+              <label className="text-sm text-[#020617]" style={{ display: 'flex', alignItems: 'center', gap: '6px', paddingBottom: '10px' }}>
+                <input type="checkbox" checked={form.repeatedEnabled} onChange={(e) => updateForm({ repeatedEnabled: e.target.checked })} />
+                Enabled
+              </label>
+            </div>
+
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+              <span className={sectionTitleClass}>Message patterns</span>
+              <button onClick={addPatternSet} className="text-sm text-[#a6192e] hover:underline">
+                Add pattern set
+              </button>
+            </div>
+            {form.patternSets.map((set, index) => (
+              <div key={index} className="bg-[#f8fafc] rounded-[10px]" style={{ padding: '12px', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1.5fr auto', gap: '8px', alignItems: 'end' }}>
+                  <div>
+                    <label style={labelStyle}>Reason code</label>
+                    <input type="text" value={set.code} placeholder="e.g. billing_question" onChange={(e) => updatePatternSet(index, { code: e.target.value })} style={inputStyle} />
+                  </div>
+                  <div>
+                    <label style={labelStyle}>Label</label>
+                    <input type="text" value={set.label} onChange={(e) => updatePatternSet(index, { label: e.target.value })} style={inputStyle} />
+                  </div>
+                  <div>
+                    <label style={labelStyle}>Urgency</label>
+                    <select value={set.urgency} onChange={(e) => updatePatternSet(index, { urgency: e.target.value as EscalationUrgency })} style={inputStyle}>
+                      <option value="normal">Normal</option>
+                      <option value="urgent">Urgent</option>
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label style={labelStyle}>Patterns (one case-insensitive regular expression per line)</label>
+                  <textarea rows={4} value={set.patterns} onChange={(e) => updatePatternSet(index, { patterns: e.target.value })} style={{ ...inputStyle, fontFamily: 'monospace', fontSize: '12px' }} />
+                </div>
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                  <label className="text-sm text-[#020617]" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    <input type="checkbox" checked={set.enabled} onChange={(e) => updatePatternSet(index, { enabled: e.target.checked })} />
+                    Enabled
+                  </label>
+                  <button onClick={() => removePatternSet(index)} className="text-sm text-[#64748b] hover:underline">
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))}
+
+            {saveError && <div className="text-red-600 text-sm">{saveError}</div>}
+            <div style={{ display: 'flex', gap: '10px', justifyContent: 'flex-end' }}>
+              <button
+                onClick={handleLoadDefaults}
+                className="px-6 py-3 text-base font-normal text-[#64748b] border border-[#cbd5e1] rounded-[10px] bg-white hover:bg-[#f8fafc] transition-colors"
+              >
+                Load Defaults
+              </button>
+              {editForm && (
+                <button
+                  onClick={handleDiscard}
+                  className="px-6 py-3 text-base font-normal text-[#64748b] border border-[#cbd5e1] rounded-[10px] bg-white hover:bg-[#f8fafc] transition-colors"
+                >
+                  Discard Changes
+                </button>
+              )}
+              <button
+                onClick={handleSave}
+                disabled={saving || !editForm}
+                className="px-6 py-3 text-base font-normal text-white bg-[#a6192e] rounded-[10px] hover:bg-[#8a1526] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Saving...' : 'Save Policy'}
+              </button>
+            </div>
+          </div>
+
+          {/* Dry run of the edited (unsaved) policy */}
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            <div className={sectionTitleClass}>Test a message</div>
+            <p className="text-[#64748b] text-xs m-0">
+              Checks the policy as edited here, before it is saved
+            </p>
+            <div>
+              <label style={labelStyle}>Message</label>
+              <textarea rows={3} value={sample.message} onChange={(e) => updateSample('message', e.target.value)} style={inputStyle} />
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr', gap: '12px' }}>
+              <div>
+                <label style={labelStyle}>Language</label>
+                <select value={sample.language} onChange={(e) => updateSample('language', e.target.value as SampleForm['language'])} style={inputStyle}>
+                  <option value="en">English</option>
+                  <option value="es">Spanish</option>
+                </select>
+              </div>
+              <div>
+                <label style={labelStyle}>Category</label>
+                <select value={sample.category} onChange={(e) => updateSample('category', e.target.value)} style={inputStyle}>
+                  <option value="">None</option>
+                  {Object.entries(ANALYTICS_CATEGORIES).map(([category, label]) => (
+                    <option key={category} value={category}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '12px' }}>
+              <div>
+                <label style={labelStyle}>Answer confidence</label>
+                <input type="number" min={0} max={1} step={0.05} value={sample.confidence} onChange={(e) => updateSample('confidence', e.target.value)} style={inputStyle} />
+              </div>
+              <div>
+                <label style={labelStyle}>Groundedness score</label>
+                <input type="number" min={0} max={1} step={0.05} value={sample.groundednessScore} onChange={(e) => updateSample('groundednessScore', e.target.value)} style={inputStyle} />
+              </div>
+              <div>
+                <label style={labelStyle}>Earlier low confidence answers</label>
+                <input type="number" min={0} step={1} value={sample.lowConfidenceCount} onChange={(e) => updateSample('lowConfidenceCount', e.target.value)} style={inputStyle} />
+              </div>
+            </div>
+            <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+              <button
+                onClick={handleEvaluate}
+                disabled={evaluating}
+                className="px-6 py-3 text-base font-normal text-white bg-[#a6192e] rounded-[10px] hover:bg-[#8a1526] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {evaluating ? 'Testing...' : 'Test'}
+              </button>
+            </div>
+
+            {evaluateError && <div className="text-red-600 text-sm">{evaluateError}</div>}
+            {evaluation && (
+              <div className="bg-[#f8fafc] rounded-[10px]" style={{ padding: '12px' }}>
+                <div className="text-sm font-medium" style={{ color: evaluation.escalate ? (evaluation.urgency === 'urgent' ? '#dc2626' : '#a6192e') : '#15803d' }}>
+                  {evaluation.escalate
+                    ? `Escalated${evaluation.urgency === 'urgent' ? ' (urgent)' : ''}`
+                    : 'Not escalated'}
+                </div>
+                {evaluation.reasons.map((reason) => (
+                  <div key={reason.code} className="text-[#020617] text-xs" style={{ marginTop: '4px' }}>
+                    {reason.label || reasonLabels[reason.code] || reason.code}
+                    <span className="text-[#64748b]"> · {reason.code}</span>
+                  </div>
+                ))}
+                <div className="text-[#64748b] text-xs" style={{ marginTop: '8px' }}>
+                  Confidence threshold for this message: {evaluation.confidenceThreshold}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
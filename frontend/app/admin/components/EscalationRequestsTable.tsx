@@ -1,14 +1,67 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useEscalationRequests } from '../hooks/useAdminData';
+import { Fragment, useState, useEffect } from 'react';
+import { useEscalationRequests, useEscalationAssignees } from '../hooks/useAdminData';
+import {
+  updateEscalationRequest,
+  type EscalationRequestItem,
+  type EscalationStatus,
+  type EscalationUpdate,
+} from '../../../lib/api/admin.service';
+import ExportButton from './ExportButton';
+import EscalationTranscript from './EscalationTranscript';
 
 const ITEMS_PER_PAGE = 10;
 
+const STATUS_LABELS: Record<EscalationStatus, string> = {
+  pending: 'Pending',
+  contacted: 'Contacted',
+  resolved: 'Resolved',
+  closed: 'Closed',
+};
+
+const STATUS_COLORS: Record<EscalationStatus, string> = {
+  pending: '#a6192e',
+  contacted: '#b45309',
+  resolved: '#15803d',
+  closed: '#64748b',
+};
+
+// Actions available from each status (transitions allowed by the escalation handler)
+const STATUS_ACTIONS: Record<EscalationStatus, Array<{ status: EscalationStatus; label: string }>> = {
+  pending: [{ status: 'contacted', label: 'Mark contacted' }, { status: 'resolved', label: 'Mark resolved' }, { status: 'closed', label: 'Close' }],
+  contacted: [{ status: 'resolved', label: 'Mark resolved' }, { status: 'closed', label: 'Close' }],
+  resolved: [{ status: 'contacted', label: 'Reopen' }, { status: 'closed', label: 'Close' }],
+  closed: [{ status: 'contacted', label: 'Reopen' }],
+};
+
+const STATUSES = Object.keys(STATUS_LABELS) as EscalationStatus[];
+
+const headerCellStyle = { textAlign: 'left' as const, color: '#a6192e', fontSize: '14px', fontWeight: 500, padding: '12px 16px', borderBottom: '1px solid #e2e8f0', backgroundColor: 'white' };
+const labelStyle = { display: 'block', color: '#64748b', fontSize: '12px', marginBottom: '4px' };
+const inputStyle = {
+  width: '100%',
+  border: '1px solid #e2e8f0',
+  borderRadius: '10px',
+  padding: '10px 12px',
+  fontSize: '14px',
+  lineHeight: '20px',
+  color: '#020617',
+  outline: 'none',
+  backgroundColor: 'white',
+  fontFamily: 'inherit',
+  boxSizing: 'border-box' as const,
+};
+
 export default function EscalationRequestsTable() {
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedSearch, setDebouncedSearch] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState<EscalationStatus | undefined>(undefined);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState('');
+  const [updating, setUpdating] = useState(false);
+  const [updateError, setUpdateError] = useState<string | null>(null);
 
   // Debounce search input to avoid too many API calls
   useEffect(() => {
@@ -19,7 +72,8 @@ export default function EscalationRequestsTable() {
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
-  const { data, loading, error } = useEscalationRequests(currentPage, ITEMS_PER_PAGE, debouncedSearch);
+  const { data, loading, error, refresh } = useEscalationRequests(currentPage, ITEMS_PER_PAGE, debouncedSearch, statusFilter);
+  const { data: assignees } = useEscalationAssignees();
 
   // Calculate total pages
   const totalPages = data?.total ? Math.ceil(data.total / ITEMS_PER_PAGE) : 0;
@@ -27,6 +81,35 @@ export default function EscalationRequestsTable() {
   // Server-side filtering - no need for client-side filter anymore
   const filteredData = data?.requests || [];
 
+  const totalRequests = data ? Object.values(data.statusCounts).reduce((sum, count) => sum + count, 0) : 0;
+
+  const handleToggle = (item: EscalationRequestItem) => {
+    setExpandedId(expandedId === item.escalationId ? null : item.escalationId);
+    setNoteDraft('');
+    setUpdateError(null);
+  };
+
+  const handleUpdate = async (item: EscalationRequestItem, update: EscalationUpdate) => {
+    setUpdating(true);
+    setUpdateError(null);
+    try {
+      await updateEscalationRequest(item.escalationId, update);
+      if (update.note) {
+        setNoteDraft('');
+      }
+      await refresh();
+    } catch (err) {
+      setUpdateError(err instanceof Error ? err.message : 'Failed to update escalation request');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const assigneeLabel = (item: EscalationRequestItem) => {
+    const staff = assignees.find((user) => user.username === item.assignee);
+    return staff?.name || staff?.email || item.assigneeEmail || item.assignee || 'Unassigned';
+  };
+
   const handlePageChange = (page: number) => {
     if (page >= 1 && page <= totalPages) {
       setCurrentPage(page);
@@ -44,50 +127,75 @@ export default function EscalationRequestsTable() {
         padding: '24px'
       }}
     >
-      {/* Header row: Title on left, Search on right */}
+      {/* Header row: Title on left, Search and export on right */}
       <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '16px' }}>
         <h2 style={{ color: '#a6192e', fontSize: '18px', fontWeight: 500, margin: 0 }}>Escalation Requests</h2>
         
-        {/* Search bar */}
-        <div style={{ position: 'relative', width: '280px' }}>
-          <input
-            type="text"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search by name or email"
-            className="placeholder:text-[#94a3b8]"
-            style={{
-              width: '100%',
-              height: '44px',
-              border: '1px solid #e2e8f0',
-              borderRadius: '10px',
-              paddingLeft: '40px',
-              paddingRight: '16px',
-              fontSize: '14px',
-              lineHeight: '20px',
-              color: '#020617',
-              outline: 'none',
-              backgroundColor: 'white',
-              fontFamily: 'inherit',
-              boxSizing: 'border-box',
-            }}
-          />
-          <svg
-            width="16"
-            height="16"
-            viewBox="0 0 16 16"
-            fill="none"
-            xmlns="http://www.w3.org/2000/svg"
-            style={{ position: 'absolute', left: '14px', top: '50%', transform: 'translateY(-50%)', pointerEvents: 'none' }}
-          >
-            <path
-              d="M11.3333 9.33333H10.5933L10.3267 9.07333C11.1733 8.06 11.6667 6.75333 11.6667 5.33333C11.6667 2.38667 9.28 0 6.33333 0C3.38667 0 1 2.38667 1 5.33333C1 8.28 3.38667 10.6667 6.33333 10.6667C7.75333 10.6667 9.06 10.1733 10.0733 9.32667L10.3333 9.59333V10.3333L14.3333 14.3267L15.6667 12.9933L11.3333 9.33333ZM6.33333 9.33333C4.12667 9.33333 2.33333 7.54 2.33333 5.33333C2.33333 3.12667 4.12667 1.33333 6.33333 1.33333C8.54 1.33333 10.3333 3.12667 10.3333 5.33333C10.3333 7.54 8.54 9.33333 6.33333 9.33333Z"
-              fill="#94a3b8"
+        <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+          {/* Search bar */}
+          <div style={{ position: 'relative', width: '280px' }}>
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search by name or email"
+              className="placeholder:text-[#94a3b8]"
+              style={{
+                width: '100%',
+                height: '44px',
+                border: '1px solid #e2e8f0',
+                borderRadius: '10px',
+                paddingLeft: '40px',
+                paddingRight: '16px',
+                fontSize: '14px',
+                lineHeight: '20px',
+                color: '#020617',
+                outline: 'none',
+                backgroundColor: 'white',
+                fontFamily: 'inherit',
+                boxSizing: 'border-box',
+              }}
             />
-          </svg>
+            <svg
+              width="16"
+              height="16"
+              viewBox="0 0 16 16"
+              fill="none"
+              xmlns="http://www.w3.org/2000/svg"
+              style={{ position: 'absolute', left: '14px', top: '50%', transform: 'translateY(-50%)', pointerEvents: 'none' }}
+            >
+              <path
+                d="M11.3333 9.33333H10.5933L10.3267 9.07333C11.1733 8.06 11.6667 6.75333 11.6667 5.33333C11.6667 2.38667 9.28 0 6.33333 0C3.38667 0 1 2.38667 1 5.33333C1 8.28 3.38667 10.6667 6.33333 10.6667C7.75333 10.6667 9.06 10.1733 10.0733 9.32667L10.3333 9.59333V10.3333L14.3333 14.3267L15.6667 12.9933L11.3333 9.33333ZM6.33333 9.33333C4.12667 9.33333 2.33333 7.54 2.33333 5.33333C2.33333 3.12667 4.12667 1.33333 6.33333 1.33333C8.54 1.33333 10.3333 3.12667 10.3333 5.33333C10.3333 7.54 8.54 9.33333 6.33333 9.33333Z"
+                fill="#94a3b8"
+              />
+            </svg>
+          </div>
+          <ExportButton dataset="escalations" />
         </div>
       </div>
 
+      {/* Status filter */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginBottom: '16px' }}>
+        {[undefined, ...STATUSES].map((status) => {
+          const selected = statusFilter === status;
+          const count = status ? data?.statusCounts?.[status] ?? 0 : totalRequests;
+          return (
+            <button
+              key={status || 'all'}
+              onClick={() => {
+                setStatusFilter(status);
+                setCurrentPage(1);
+                setExpandedId(null);
+              }}
+              className={`text-sm rounded-[10px] border ${selected ? 'bg-[#a6192e] text-white border-[#a6192e]' : 'bg-white text-[#64748b] border-[#cbd5e1] hover:bg-[#f8fafc]'}`}
+              style={{ padding: '6px 12px' }}
+            >
+              {status ? STATUS_LABELS[status] : 'All'} ({count})
+            </button>
+          );
+        })}
+      </div>
+
       {/* Loading/Error State */}
       {loading && (
         <div className="animate-pulse text-center py-8">Loading escalation requests...</div>
@@ -102,29 +210,147 @@ export default function EscalationRequestsTable() {
           <table style={{ width: '100%', borderCollapse: 'separate', borderSpacing: 0 }}>
             <thead>
               <tr>
-                <th style={{ textAlign: 'left', color: '#a6192e', fontSize: '14px', fontWeight: 500, padding: '12px 16px', borderBottom: '1px solid #e2e8f0', backgroundColor: 'white' }}>Name</th>
-                <th style={{ textAlign: 'left', color: '#a6192e', fontSize: '14px', fontWeight: 500, padding: '12px 16px', borderBottom: '1px solid #e2e8f0', backgroundColor: 'white' }}>Email</th>
-                <th style={{ textAlign: 'left', color: '#a6192e', fontSize: '14px', fontWeight: 500, padding: '12px 16px', borderBottom: '1px solid #e2e8f0', backgroundColor: 'white' }}>Phone</th>
-                <th style={{ textAlign: 'left', color: '#a6192e', fontSize: '14px', fontWeight: 500, padding: '12px 16px', borderBottom: '1px solid #e2e8f0', backgroundColor: 'white' }}>ZIP Code</th>
-                <th style={{ textAlign: 'left', color: '#a6192e', fontSize: '14px', fontWeight: 500, padding: '12px 16px', borderBottom: '1px solid #e2e8f0', backgroundColor: 'white' }}>Date & Time</th>
+                <th style={headerCellStyle}>Name</th>
+                <th style={headerCellStyle}>Email</th>
+                <th style={headerCellStyle}>Phone</th>
+                <th style={headerCellStyle}>ZIP Code</th>
+                <th style={headerCellStyle}>Date & Time</th>
+                <th style={headerCellStyle}>Status</th>
+                <th style={headerCellStyle}>Assignee</th>
               </tr>
             </thead>
             <tbody>
               {filteredData.length === 0 ? (
                 <tr>
-                  <td colSpan={5} style={{ textAlign: 'center', padding: '24px', color: '#64748b' }}>
+                  <td colSpan={7} style={{ textAlign: 'center', padding: '24px', color: '#64748b' }}>
                     No escalation requests found
                   </td>
                 </tr>
               ) : (
                 filteredData.map((item, index) => (
-                  <tr key={index} style={{ backgroundColor: index % 2 === 0 ? 'white' : '#f8fafc' }}>
-                    <td style={{ color: '#020617', fontSize: '14px', fontWeight: 400, padding: '12px 16px', borderBottom: '1px solid #e2e8f0', lineHeight: '20px' }}>{item.name}</td>
-                    <td style={{ color: '#020617', fontSize: '14px', fontWeight: 400, padding: '12px 16px', borderBottom: '1px solid #e2e8f0', lineHeight: '20px' }}>{item.email}</td>
-                    <td style={{ color: '#020617', fontSize: '14px', fontWeight: 400, padding: '12px 16px', borderBottom: '1px solid #e2e8f0', lineHeight: '20px' }}>{item.phone || '-'}</td>
-                    <td style={{ color: '#020617', fontSize: '14px', fontWeight: 400, padding: '12px 16px', borderBottom: '1px solid #e2e8f0', lineHeight: '20px' }}>{item.zipCode || '-'}</td>
-                    <td style={{ color: '#020617', fontSize: '14px', fontWeight: 400, padding: '12px 16px', borderBottom: '1px solid #e2e8f0', lineHeight: '20px' }}>{item.dateTime}</td>
-                  </tr>
+                  <Fragment key={item.escalationId || index}>
+                    <tr onClick={() => handleToggle(item)} className="cursor-pointer" style={{ backgroundColor: index % 2 === 0 ? 'white' : '#f8fafc' }}>
+                      <td style={{ color: '#020617', fontSize: '14px', fontWeight: 400, padding: '12px 16px', borderBottom: '1px solid #e2e8f0', lineHeight: '20px' }}>{item.name}</td>
+                      <td style={{ color: '#020617', fontSize: '14px', fontWeight: 400, padding: '12px 16px', borderBottom: '1px solid #e2e8f0', lineHeight: '20px' }}>{item.email}</td>
+                      <td style={{ color: '#020617', fontSize: '14px', fontWeight: 400, padding: '12px 16px', borderBottom: '1px solid #e2e8f0', lineHeight: '20px' }}>{item.phone || '-'}</td>
+                      <td style={{ color: '#020617', fontSize: '14px', fontWeight: 400, padding: '12px 16px', borderBottom: '1px solid #e2e8f0', lineHeight: '20px' }}>{item.zipCode || '-'}</td>
+                      <td style={{ color: '#020617', fontSize: '14px', fontWeight: 400, padding: '12px 16px', borderBottom: '1px solid #e2e8f0', lineHeight: '20px' }}>{item.dateTime}</td>
+                      <td style={{ color: STATUS_COLORS[item.status], fontSize: '14px', fontWeight: 500, padding: '12px 16px', borderBottom: '1px solid #e2e8f0', lineHeight: '20px' }}>
+                        {STATUS_LABELS[item.status]}
+                        {item.urgency === 'urgent' && (
+                          <span className="bg-[#a6192e] text-white text-xs rounded-[6px]" style={{ marginLeft: '6px', padding: '1px 6px' }}>Urgent</span>
+                        )}
+                      </td>
+                      <td style={{ color: '#020617', fontSize: '14px', fontWeight: 400, padding: '12px 16px', borderBottom: '1px solid #e2e8f0', lineHeight: '20px' }}>{assigneeLabel(item)}</td>
+                    </tr>
+
+                    {/* Row details and case actions */}
+                    {expandedId === item.escalationId && (
+                      <tr>
+                        <td colSpan={7} style={{ padding: '0 0 12px', borderBottom: '1px solid #e2e8f0' }}>
+                          <div className="bg-[#f8fafc] rounded-[10px]" style={{ padding: '16px', marginTop: '12px', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                            <div className="text-[#64748b] text-xs">
+                              {item.source === 'talk_to_person' ? 'Talk to a person' : 'Escalation form'}
+                              {item.timestamp && ` · Submitted ${new Date(item.timestamp).toLocaleString('en-US')}`}
+                              {item.updatedAt && ` · Last updated ${new Date(item.updatedAt).toLocaleString('en-US')} by ${item.updatedBy}`}
+                              {` · Emails in ${item.language === 'es' ? 'Spanish' : 'English'}`}
+                              {item.emailOptOut && ' (unsubscribed from status updates)'}
+                            </div>
+                            {item.reason && (
+                              <div className="text-[#a6192e] text-sm">
+                                Escalated by the chat: {item.reason}
+                                {item.reasonCodes?.length > 0 && ` [${item.reasonCodes.join(', ')}]`}
+                                {item.chatEscalatedAt && ` (${new Date(item.chatEscalatedAt).toLocaleString('en-US')})`}
+                              </div>
+                            )}
+                            <div>
+                              <span style={labelStyle}>Conversation</span>
+                              <EscalationTranscript escalationId={item.escalationId} />
+                            </div>
+                            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', alignItems: 'end' }}>
+                              <div>
+                                <span style={labelStyle}>Status</span>
+                                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+                                  {STATUS_ACTIONS[item.status].map((action) => (
+                                    <button
+                                      key={action.status}
+                                      onClick={() => handleUpdate(item, { status: action.status })}
+                                      disabled={updating}
+                                      className="text-sm text-[#64748b] border border-[#cbd5e1] rounded-[10px] bg-white hover:bg-[#f8fafc] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                      style={{ padding: '6px 12px' }}
+                                    >
+                                      {action.label}
+                                    </button>
+                                  ))}
+                                </div>
+                              </div>
+                              <div>
+                                <label style={labelStyle}>Assignee</label>
+                                <select
+                                  value={item.assignee || ''}
+                                  onChange={(e) => handleUpdate(item, { assignee: e.target.value })}
+                                  disabled={updating}
+                                  style={inputStyle}
+                                >
+                                  <option value="">Unassigned</option>
+                                  {item.assignee && !assignees.some((user) => user.username === item.assignee) && (
+                                    <option value={item.assignee}>{assigneeLabel(item)}</option>
+                                  )}
+                                  {assignees.map((user) => (
+                                    <option key={user.username} value={user.username}>{user.name || user.email || user.username}</option>
+                                  ))}
+                                </select>
+                              </div>
+                            </div>
+                            <div>
+                              <span style={labelStyle}>Notes</span>
+                              {item.notes.length === 0 ? (
+                                <div className="text-[#64748b] text-sm">No notes yet</div>
+                              ) : (
+                                <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                                  {item.notes.map((note) => (
+                                    <div key={note.at}>
+                                      <div className="text-[#020617] text-sm" style={{ whiteSpace: 'pre-wrap' }}>{note.text}</div>
+                                      <div className="text-[#64748b] text-xs">{note.by} · {new Date(note.at).toLocaleString('en-US')}</div>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                            <div style={{ display: 'flex', gap: '8px', alignItems: 'flex-start' }}>
+                              <textarea
+                                rows={2}
+                                value={noteDraft}
+                                onChange={(e) => setNoteDraft(e.target.value)}
+                                placeholder="Add a note"
+                                className="placeholder:text-[#94a3b8]"
+                                style={inputStyle}
+                              />
+                              <button
+                                onClick={() => handleUpdate(item, { note: noteDraft })}
+                                disabled={updating || !noteDraft.trim()}
+                                className="text-sm text-white bg-[#a6192e] rounded-[10px] hover:bg-[#8a1526] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                style={{ padding: '10px 16px', flexShrink: 0 }}
+                              >
+                                Add note
+                              </button>
+                            </div>
+                            {item.history.length > 0 && (
+                              <div className="text-[#64748b] text-xs">
+                                {item.history.slice(-5).reverse().map((entry) => (
+                                  <div key={entry.at}>
+                                    {new Date(entry.at).toLocaleString('en-US')} · {entry.by} · {STATUS_LABELS[entry.status]}
+                                    {entry.changes.length > 0 && ` (${entry.changes.join(', ')})`}
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                            {updateError && <div className="text-red-600 text-sm">{updateError}</div>}
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
                 ))
               )}
             </tbody>
@@ -0,0 +1,44 @@
+'use client';
+
+import { useEscalationTranscript } from '../hooks/useAdminData';
+
+interface EscalationTranscriptProps {
+  escalationId: string;
+}
+
+export default function EscalationTranscript({ escalationId }: EscalationTranscriptProps) {
+  const { data, loading, error } = useEscalationTranscript(escalationId);
+
+  if (loading) {
+    return <div className="animate-pulse text-sm text-[#64748b]">Loading transcript...</div>;
+  }
+  if (error) {
+    return <div className="text-red-600 text-sm">Error loading transcript: {error}</div>;
+  }
+  if (!data || data.messages.length === 0) {
+    return (
+      <div className="text-[#64748b] text-sm">
+        {data?.sessionId ? 'The conversation is no longer available' : 'Not submitted from a chat conversation'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white border border-[#e2e8f0] rounded-[10px]" style={{ padding: '12px', maxHeight: '320px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '10px' }}>
+      {data.messages.map((message) => (
+        <div key={`${message.timestamp}-${message.sender}`} style={{ alignSelf: message.sender === 'user' ? 'flex-end' : 'flex-start', maxWidth: '80%' }}>
+          <div
+            className={`text-sm rounded-[10px] ${message.sender === 'user' ? 'bg-[#a6192e] text-white' : 'bg-[#f1f5f9] text-[#020617]'}`}
+            style={{ padding: '8px 12px', whiteSpace: 'pre-wrap' }}
+          >
+            {message.content}
+          </div>
+          <div className="text-[#64748b] text-xs" style={{ marginTop: '2px', textAlign: message.sender === 'user' ? 'right' : 'left' }}>
+            {message.sender === 'user' ? 'User' : 'Clara'} · {new Date(message.timestamp).toLocaleString('en-US')}
+            {message.sender === 'bot' && typeof message.confidence === 'number' && ` · Confidence ${Math.round(message.confidence * 100)}%`}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  downloadAdminExport,
+  type AnalyticsFilters,
+  type ExportDataset,
+  type ExportFormat,
+  type ExportRedaction,
+} from '../../../lib/api/admin.service';
+
+interface ExportButtonProps {
+  dataset: ExportDataset;
+  filters?: AnalyticsFilters;
+  escalated?: boolean;
+}
+
+const REDACTION_LABELS: Record<ExportRedaction, string> = {
+  mask: 'Mask contact details',
+  remove: 'Remove contact details',
+  none: 'Include contact details',
+};
+
+const selectStyle = {
+  border: '1px solid #cbd5e1',
+  borderRadius: '10px',
+  padding: '6px 10px',
+  fontSize: '14px',
+  color: '#020617',
+  backgroundColor: 'white',
+  fontFamily: 'inherit',
+};
+
+export default function ExportButton({ dataset, filters, escalated }: ExportButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [redact, setRedact] = useState<ExportRedaction>('mask');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      await downloadAdminExport(dataset, { format, redact, filters, escalated });
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="text-sm text-[#64748b] border border-[#cbd5e1] rounded-[10px] bg-white hover:bg-[#f8fafc] transition-colors"
+        style={{ padding: '6px 12px' }}
+      >
+        Export
+      </button>
+      {open && (
+        <div
+          className="bg-white border border-[#cbd5e1] rounded-[10px] shadow-[0px_1px_3px_0px_rgba(0,0,0,0.1)]"
+          style={{ position: 'absolute', right: 0, top: 'calc(100% + 8px)', zIndex: 10, padding: '12px', display: 'flex', flexDirection: 'column', gap: '8px', minWidth: '220px' }}
+        >
+          <select aria-label="Export format" value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} style={selectStyle}>
+            <option value="csv">CSV</option>
+            <option value="ndjson">NDJSON</option>
+          </select>
+          {dataset === 'escalations' && (
+            <select aria-label="Contact details" value={redact} onChange={(e) => setRedact(e.target.value as ExportRedaction)} style={selectStyle}>
+              {(Object.keys(REDACTION_LABELS) as ExportRedaction[]).map((mode) => (
+                <option key={mode} value={mode}>{REDACTION_LABELS[mode]}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="text-sm bg-[#a6192e] text-white rounded-[10px] disabled:opacity-50 disabled:cursor-not-allowed"
+            style={{ padding: '6px 12px' }}
+          >
+            {exporting ? 'Exporting...' : 'Download'}
+          </button>
+          {error && <div className="text-red-600 text-xs">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 'use client';
 
 import { useLanguageSplit } from '../hooks/useAdminData';
+import type { AnalyticsFilters } from '../../../lib/api/admin.service';
 
-export default function LanguageSplitChart() {
-  const { data, loading, error } = useLanguageSplit();
+export default function LanguageSplitChart({ filters }: { filters?: AnalyticsFilters }) {
+  const { data, loading, error } = useLanguageSplit(filters);
   
   if (loading) {
     return (
@@ -36,7 +37,9 @@ export default function LanguageSplitChart() {
 
   return (
     <div className="bg-white border border-[#cbd5e1] rounded-[15px] shadow-[0px_1px_3px_0px_rgba(0,0,0,0.1)]" style={{ padding: '24px', height: '100%', display: 'flex', flexDirection: 'column' }}>
-      <h2 className="text-[#020617] text-lg font-medium m-0" style={{ marginBottom: '24px' }}>Language Split</h2>
+      <h2 className="text-[#020617] text-lg font-medium m-0" style={{ marginBottom: '24px' }}>
+        Language Split{data.basis === 'questions' && <span className="text-[#64748b] text-sm font-normal"> (questions)</span>}
+      </h2>
       
       <div className="flex flex-col items-center justify-center flex-1" style={{ gap: '24px' }}>
         {/* Donut Chart - no center text */}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useAdminMetrics } from '../hooks/useAdminData';
+import type { AnalyticsFilters } from '../../../lib/api/admin.service';
 
 interface MetricCardProps {
   title: string;
@@ -44,16 +45,17 @@ function MetricCard({ title, value, description, trend, trendPositive, icon }: M
   );
 }
 
-function formatNumber(num: number): string {
-  return new Intl.NumberFormat('en-US').format(num);
+// Null when the metric is not broken down by the selected language or category
+function formatNumber(num: number | null): string {
+  return num === null ? '—' : new Intl.NumberFormat('en-US').format(num);
 }
 
-function formatPercentage(num: number): string {
-  return `${num}%`;
+function formatPercentage(num: number | null): string {
+  return num === null ? '—' : `${num}%`;
 }
 
-export default function MetricCards() {
-  const { data, loading, error } = useAdminMetrics();
+export default function MetricCards({ filters }: { filters?: AnalyticsFilters }) {
+  const { data, loading, error } = useAdminMetrics(filters);
 
   if (loading) {
     return (
@@ -1,18 +1,21 @@
 'use client';
 
 import { useUnansweredQuestions } from '../hooks/useAdminData';
+import type { AnalyticsFilters } from '../../../lib/api/admin.service';
+import ExportButton from './ExportButton';
 
-export default function TopUnansweredQuestions() {
-  const { data, loading, error } = useUnansweredQuestions();
+export default function TopUnansweredQuestions({ filters }: { filters?: AnalyticsFilters }) {
+  const { data, loading, error } = useUnansweredQuestions(filters);
   
-  const questions = data?.questions?.map(q => q.question) || [];
+  const questions = data?.questions || [];
 
   return (
     <div className="bg-white border border-[#cbd5e1] rounded-[15px] shadow-[0px_1px_3px_0px_rgba(0,0,0,0.1)]" style={{ padding: '24px' }}>
-      <div className="bg-[#f8fafc] rounded-[10px] mb-6" style={{ padding: '12px 16px' }}>
+      <div className="bg-[#f8fafc] rounded-[10px] mb-6" style={{ padding: '12px 16px', display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
         <h2 className="text-[#a6192e] text-lg font-medium m-0">
           Top Unanswered Questions
         </h2>
+        <ExportButton dataset="questions" filters={filters} escalated />
       </div>
       {loading && <div className="animate-pulse py-4">Loading...</div>}
       {error && <div className="text-red-600 py-4">Error: {error}</div>}
@@ -21,10 +24,17 @@ export default function TopUnansweredQuestions() {
           {questions.length === 0 ? (
             <div className="text-[#64748b] text-sm py-4">No questions available</div>
           ) : (
-            questions.map((question, index) => (
-              <div key={index}>
-                <div className="text-[#020617] text-sm font-normal" style={{ padding: '14px 0' }}>
-                  {question}
+            questions.map((item, index) => (
+              <div key={item.clusterId || index}>
+                <div style={{ padding: '14px 0' }}>
+                  <div className="text-[#020617] text-sm font-normal">{item.question}</div>
+                  {item.count !== undefined && (
+                    <div className="text-[#64748b] text-xs" style={{ marginTop: '2px' }}>
+                      Asked {item.count} {item.count === 1 ? 'time' : 'times'}
+                      {item.trend && ` (${item.trend} vs previous period)`}
+                      {item.variants && item.variants.length > 1 && ` · Also asked as "${item.variants.filter((variant) => variant !== item.question).slice(0, 2).join('", "')}"`}
+                    </div>
+                  )}
                 </div>
                 {index < questions.length - 1 && (
                   <div style={{ borderBottom: '1px solid #e2e8f0', marginLeft: '0', marginRight: '0' }}></div>
@@ -0,0 +1,257 @@
+'use client';
+
+import { useState } from 'react';
+import { useUnansweredTriage, useCuratedAnswers } from '../hooks/useAdminData';
+import {
+  updateUnansweredTriage,
+  type TriageStatus,
+  type UnansweredCluster,
+} from '../../../lib/api/admin.service';
+
+const STATUS_LABELS: Record<TriageStatus, string> = {
+  new: 'New',
+  in_review: 'In review',
+  content_gap: 'Content gap filed',
+  answered: 'Answered (curated)',
+  dismissed: 'Dismissed',
+};
+
+const STATUS_COLORS: Record<TriageStatus, string> = {
+  new: '#a6192e',
+  in_review: '#b45309',
+  content_gap: '#1d4ed8',
+  answered: '#15803d',
+  dismissed: '#64748b',
+};
+
+const STATUSES = Object.keys(STATUS_LABELS) as TriageStatus[];
+
+const inputStyle = {
+  width: '100%',
+  border: '1px solid #e2e8f0',
+  borderRadius: '10px',
+  padding: '10px 12px',
+  fontSize: '14px',
+  lineHeight: '20px',
+  color: '#020617',
+  outline: 'none',
+  backgroundColor: 'white',
+  fontFamily: 'inherit',
+  boxSizing: 'border-box' as const,
+};
+
+const labelStyle = { display: 'block', color: '#64748b', fontSize: '12px', marginBottom: '4px' };
+
+interface TriageForm {
+  status: TriageStatus;
+  assignee: string;
+  notes: string;
+  contentGapRef: string;
+  curatedAnswerId: string;
+}
+
+function toForm(cluster: UnansweredCluster): TriageForm {
+  return {
+    status: cluster.status,
+    assignee: cluster.assignee || '',
+    notes: cluster.notes || '',
+    contentGapRef: cluster.contentGapRef || '',
+    curatedAnswerId: cluster.curatedAnswerId || '',
+  };
+}
+
+export default function UnansweredTriagePanel() {
+  const [statusFilter, setStatusFilter] = useState<TriageStatus | undefined>(undefined);
+  const { data, loading, error, refresh } = useUnansweredTriage(statusFilter);
+  const { data: curatedAnswers } = useCuratedAnswers();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<TriageForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const clusters = data?.clusters || [];
+  const totalClusters = data ? Object.values(data.statusCounts).reduce((sum, count) => sum + count, 0) : 0;
+
+  const handleSelect = (cluster: UnansweredCluster) => {
+    if (selectedId === cluster.clusterId) {
+      setSelectedId(null);
+      setForm(null);
+    } else {
+      setSelectedId(cluster.clusterId);
+      setForm(toForm(cluster));
+    }
+    setSaveError(null);
+  };
+
+  const updateField = <K extends keyof TriageForm>(field: K, value: TriageForm[K]) => {
+    setForm((current) => (current ? { ...current, [field]: value } : current));
+  };
+
+  const handleSave = async (cluster: UnansweredCluster) => {
+    if (!form) {
+      return;
+    }
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await updateUnansweredTriage(cluster.clusterId, {
+        question: cluster.question,
+        status: form.status,
+        assignee: form.assignee,
+        notes: form.notes,
+        contentGapRef: form.contentGapRef,
+        curatedAnswerId: form.curatedAnswerId,
+      });
+      setSelectedId(null);
+      setForm(null);
+      await refresh();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to update triage');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-[#cbd5e1] rounded-[15px] shadow-[0px_1px_3px_0px_rgba(0,0,0,0.1)]" style={{ padding: '24px' }}>
+      <div className="bg-[#f8fafc] rounded-[10px] mb-6" style={{ padding: '12px 16px' }}>
+        <h2 className="text-[#a6192e] text-lg font-medium m-0">
+          Unanswered Questions Triage
+        </h2>
+        <p className="text-[#64748b] text-xs m-0" style={{ marginTop: '4px' }}>
+          Review escalated questions and close the loop with a curated answer or a content gap
+        </p>
+      </div>
+
+      {/* Status filter */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginBottom: '16px' }}>
+        {[undefined, ...STATUSES].map((status) => {
+          const selected = statusFilter === status;
+          const count = status ? data?.statusCounts?.[status] ?? 0 : totalClusters;
+          return (
+            <button
+              key={status || 'all'}
+              onClick={() => {
+                setStatusFilter(status);
+                setSelectedId(null);
+                setForm(null);
+              }}
+              className={`text-sm rounded-[10px] border ${selected ? 'bg-[#a6192e] text-white border-[#a6192e]' : 'bg-white text-[#64748b] border-[#cbd5e1] hover:bg-[#f8fafc]'}`}
+              style={{ padding: '6px 12px' }}
+            >
+              {status ? STATUS_LABELS[status] : 'All'} ({count})
+            </button>
+          );
+        })}
+      </div>
+
+      {loading && <div className="animate-pulse py-4">Loading...</div>}
+      {error && <div className="text-red-600 py-4">Error: {error}</div>}
+      {!loading && !error && (
+        clusters.length === 0 ? (
+          <div className="text-[#64748b] text-sm py-4">No unanswered questions</div>
+        ) : (
+          <div style={{ display: 'flex', flexDirection: 'column' }}>
+            {clusters.map((cluster, index) => (
+              <div key={cluster.clusterId}>
+                <button
+                  onClick={() => handleSelect(cluster)}
+                  className="w-full text-left hover:bg-[#f8fafc]"
+                  style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px', padding: '14px 8px' }}
+                >
+                  <div style={{ minWidth: 0 }}>
+                    <div className="text-[#020617] text-sm font-normal">{cluster.question}</div>
+                    <div className="text-[#64748b] text-xs" style={{ marginTop: '2px' }}>
+                      Asked {cluster.count} {cluster.count === 1 ? 'time' : 'times'} ({cluster.trend} this week)
+                      {cluster.languages.length > 0 && ` · ${cluster.languages.map((language) => language.toUpperCase()).join(' / ')}`}
+                      {cluster.lastAskedAt && ` · Last ${new Date(cluster.lastAskedAt).toLocaleDateString('en-US')}`}
+                      {cluster.assignee && ` · ${cluster.assignee}`}
+                      {cluster.negativeFeedback > 0 && (
+                        <span className="text-[#a6192e]"> · {cluster.negativeFeedback} thumbs down</span>
+                      )}
+                      {cluster.askedSinceClosed && <span className="text-[#a6192e]"> · Asked again since closed</span>}
+                    </div>
+                  </div>
+                  <span className="text-xs font-medium" style={{ color: STATUS_COLORS[cluster.status], flexShrink: 0 }}>
+                    {STATUS_LABELS[cluster.status]}
+                  </span>
+                </button>
+
+                {/* Triage editor */}
+                {selectedId === cluster.clusterId && form && (
+                  <div className="bg-[#f8fafc] rounded-[10px]" style={{ padding: '16px', margin: '0 0 14px', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                    {cluster.variants.length > 1 && (
+                      <div>
+                        <span style={labelStyle}>Asked as</span>
+                        <ul className="text-[#020617] text-sm m-0" style={{ paddingLeft: '18px' }}>
+                          {cluster.variants.map((variant) => <li key={variant}>{variant}</li>)}
+                        </ul>
+                      </div>
+                    )}
+                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+                      <div>
+                        <label style={labelStyle}>Status</label>
+                        <select value={form.status} onChange={(e) => updateField('status', e.target.value as TriageStatus)} style={inputStyle}>
+                          {STATUSES.map((status) => <option key={status} value={status}>{STATUS_LABELS[status]}</option>)}
+                        </select>
+                      </div>
+                      <div>
+                        <label style={labelStyle}>Assignee</label>
+                        <input type="text" value={form.assignee} onChange={(e) => updateField('assignee', e.target.value)} style={inputStyle} />
+                      </div>
+                    </div>
+                    {form.status === 'content_gap' && (
+                      <div>
+                        <label style={labelStyle}>Content gap reference (ticket or link)</label>
+                        <input type="text" value={form.contentGapRef} onChange={(e) => updateField('contentGapRef', e.target.value)} style={inputStyle} />
+                      </div>
+                    )}
+                    {form.status === 'answered' && (
+                      <div>
+                        <label style={labelStyle}>Curated answer</label>
+                        <select value={form.curatedAnswerId} onChange={(e) => updateField('curatedAnswerId', e.target.value)} style={inputStyle}>
+                          <option value="">Select a curated answer</option>
+                          {(curatedAnswers?.answers || []).map((answer) => (
+                            <option key={answer.answerId} value={answer.answerId}>{answer.title}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                    <div>
+                      <label style={labelStyle}>Notes</label>
+                      <textarea rows={3} value={form.notes} onChange={(e) => updateField('notes', e.target.value)} style={inputStyle} />
+                    </div>
+                    {cluster.history.length > 0 && (
+                      <div className="text-[#64748b] text-xs">
+                        {cluster.history.slice(-3).reverse().map((entry) => (
+                          <div key={entry.at}>
+                            {new Date(entry.at).toLocaleString('en-US')} · {entry.by} · {STATUS_LABELS[entry.status]}
+                            {entry.changes.length > 0 && ` (${entry.changes.join(', ')})`}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {saveError && <div className="text-red-600 text-sm">{saveError}</div>}
+                    <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+                      <button
+                        onClick={() => handleSave(cluster)}
+                        disabled={saving || (form.status === 'answered' && !form.curatedAnswerId)}
+                        className="px-6 py-3 text-base font-normal text-white bg-[#a6192e] rounded-[10px] hover:bg-[#8a1526] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {saving ? 'Saving...' : 'Save'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {index < clusters.length - 1 && (
+                  <div style={{ borderBottom: '1px solid #e2e8f0' }}></div>
+                )}
+              </div>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
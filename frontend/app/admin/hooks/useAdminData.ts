@@ -1,9 +1,10 @@
 /**
  * Admin Data Hooks
  * Custom hooks for fetching admin dashboard data
+ * Hooks that take analytics filters refetch when the filters object changes, so keep it in state.
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import {
   getAdminMetrics,
   getConversationChart,
@@ -11,14 +12,29 @@ import {
   getEscalationRequests,
   getFrequentlyAskedQuestions,
   getUnansweredQuestions,
+  getCuratedAnswers,
+  getEscalationPolicy,
+  getAnswerFeedback,
+  getUnansweredTriage,
+  getEscalationAssignees,
+  getEscalationTranscript,
   type AdminMetrics,
   type ConversationChartData,
   type LanguageSplit,
   type EscalationRequestsResponse,
   type FAQResponse,
+  type AnswerFeedbackResponse,
+  type CuratedAnswersResponse,
+  type EscalationPolicyResponse,
+  type UnansweredTriageResponse,
+  type TriageStatus,
+  type EscalationStatus,
+  type StaffUser,
+  type EscalationTranscript,
+  type AnalyticsFilters,
 } from '../../../lib/api/admin.service';
 
-export function useAdminMetrics() {
+export function useAdminMetrics(filters?: AnalyticsFilters) {
   const [data, setData] = useState<AdminMetrics | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -30,7 +46,7 @@ export function useAdminMetrics() {
           setLoading(true);
         }
         setError(null);
-        const metrics = await getAdminMetrics();
+        const metrics = await getAdminMetrics(filters);
         setData(metrics);
       } catch (err) {
         console.error('Error fetching admin metrics:', err);
@@ -48,12 +64,12 @@ export function useAdminMetrics() {
     const interval = setInterval(() => fetchData(true), 30000);
     
     return () => clearInterval(interval);
-  }, []);
+  }, [filters]);
 
   return { data, loading, error };
 }
 
-export function useConversationChart() {
+export function useConversationChart(filters?: AnalyticsFilters) {
   const [data, setData] = useState<ConversationChartData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -65,7 +81,7 @@ export function useConversationChart() {
           setLoading(true);
         }
         setError(null);
-        const chartData = await getConversationChart();
+        const chartData = await getConversationChart(filters);
         setData(chartData);
       } catch (err) {
         console.error('Error fetching conversation chart:', err);
@@ -83,12 +99,12 @@ export function useConversationChart() {
     const interval = setInterval(() => fetchData(true), 30000);
     
     return () => clearInterval(interval);
-  }, []);
+  }, [filters]);
 
   return { data, loading, error };
 }
 
-export function useLanguageSplit() {
+export function useLanguageSplit(filters?: AnalyticsFilters) {
   const [data, setData] = useState<LanguageSplit | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -100,7 +116,7 @@ export function useLanguageSplit() {
           setLoading(true);
         }
         setError(null);
-        const split = await getLanguageSplit();
+        const split = await getLanguageSplit(filters);
         setData(split);
       } catch (err) {
         console.error('Error fetching language split:', err);
@@ -118,15 +134,16 @@ export function useLanguageSplit() {
     const interval = setInterval(() => fetchData(true), 30000);
     
     return () => clearInterval(interval);
-  }, []);
+  }, [filters]);
 
   return { data, loading, error };
 }
 
-export function useEscalationRequests(page: number = 1, limit: number = 10, search: string = '') {
+export function useEscalationRequests(page: number = 1, limit: number = 10, search: string = '', status?: EscalationStatus) {
   const [data, setData] = useState<EscalationRequestsResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const fetchRef = useRef<((skipLoading?: boolean) => Promise<void>) | null>(null);
 
   useEffect(() => {
     let isMounted = true;
@@ -142,8 +159,8 @@ export function useEscalationRequests(page: number = 1, limit: number = 10, sear
           setLoading(true);
         }
         setError(null);
-        console.log(`[useEscalationRequests] Fetching page ${page}, limit ${limit}, search "${search}"`);
-        const requests = await getEscalationRequests(page, limit, search);
+        console.log(`[useEscalationRequests] Fetching page ${page}, limit ${limit}, search "${search}", status "${status || ''}"`);
+        const requests = await getEscalationRequests(page, limit, search, status);
         console.log(`[useEscalationRequests] Received ${requests.requests.length} requests for page ${page}, total: ${requests.total}`);
 
         // Only update state if component is still mounted and we're still on the same page/search
@@ -162,7 +179,9 @@ export function useEscalationRequests(page: number = 1, limit: number = 10, sear
       }
     }
 
-    // Always fetch with loading state when page/limit/search changes
+    fetchRef.current = fetchData;
+
+    // Always fetch with loading state when page/limit/search/status changes
     fetchData(false);
 
     // Refresh data every 30 seconds for real-time updates (without showing loading state)
@@ -177,12 +196,59 @@ export function useEscalationRequests(page: number = 1, limit: number = 10, sear
       isMounted = false;
       clearInterval(interval);
     };
-  }, [page, limit, search]);
+  }, [page, limit, search, status]);
+
+  // Reload after an escalation update (without showing loading state)
+  const refresh = useCallback(async () => {
+    await fetchRef.current?.(true);
+  }, []);
+
+  return { data, loading, error, refresh };
+}
+
+export function useEscalationAssignees() {
+  const [data, setData] = useState<StaffUser[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getEscalationAssignees()
+      .then(setData)
+      .catch((err) => {
+        console.error('Error fetching escalation assignees:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load staff');
+      });
+  }, []);
+
+  return { data, error };
+}
+
+export function useEscalationTranscript(escalationId: string) {
+  const [data, setData] = useState<EscalationTranscript | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const transcript = await getEscalationTranscript(escalationId);
+      setData(transcript);
+    } catch (err) {
+      console.error('Error fetching escalation transcript:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load transcript');
+    } finally {
+      setLoading(false);
+    }
+  }, [escalationId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
 
   return { data, loading, error };
 }
 
-export function useFrequentlyAskedQuestions() {
+export function useFrequentlyAskedQuestions(filters?: AnalyticsFilters) {
   const [data, setData] = useState<FAQResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -194,7 +260,7 @@ export function useFrequentlyAskedQuestions() {
           setLoading(true);
         }
         setError(null);
-        const faq = await getFrequentlyAskedQuestions();
+        const faq = await getFrequentlyAskedQuestions(filters);
         setData(faq);
       } catch (err) {
         console.error('Error fetching FAQ:', err);
@@ -212,12 +278,12 @@ export function useFrequentlyAskedQuestions() {
     const interval = setInterval(() => fetchData(true), 30000);
     
     return () => clearInterval(interval);
-  }, []);
+  }, [filters]);
 
   return { data, loading, error };
 }
 
-export function useUnansweredQuestions() {
+export function useUnansweredQuestions(filters?: AnalyticsFilters) {
   const [data, setData] = useState<FAQResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -229,7 +295,7 @@ export function useUnansweredQuestions() {
           setLoading(true);
         }
         setError(null);
-        const questions = await getUnansweredQuestions();
+        const questions = await getUnansweredQuestions(filters);
         setData(questions);
       } catch (err) {
         console.error('Error fetching unanswered questions:', err);
@@ -247,8 +313,141 @@ export function useUnansweredQuestions() {
     const interval = setInterval(() => fetchData(true), 30000);
     
     return () => clearInterval(interval);
-  }, []);
+  }, [filters]);
 
   return { data, loading, error };
 }
 
+export function useAnswerFeedback(filters?: AnalyticsFilters) {
+  const [data, setData] = useState<AnswerFeedbackResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchData(skipLoading = false) {
+      try {
+        if (!skipLoading) {
+          setLoading(true);
+        }
+        setError(null);
+        const feedback = await getAnswerFeedback(filters);
+        setData(feedback);
+      } catch (err) {
+        console.error('Error fetching answer feedback:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load answer feedback');
+      } finally {
+        if (!skipLoading) {
+          setLoading(false);
+        }
+      }
+    }
+
+    fetchData();
+    
+    // Refresh data every 30 seconds for real-time updates (without showing loading state)
+    const interval = setInterval(() => fetchData(true), 30000);
+    
+    return () => clearInterval(interval);
+  }, [filters]);
+
+  return { data, loading, error };
+}
+
+export function useUnansweredTriage(status?: TriageStatus) {
+  const [data, setData] = useState<UnansweredTriageResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async (skipLoading = false) => {
+    try {
+      if (!skipLoading) {
+        setLoading(true);
+      }
+      setError(null);
+      const triage = await getUnansweredTriage(status);
+      setData(triage);
+    } catch (err) {
+      console.error('Error fetching unanswered triage:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load unanswered questions');
+    } finally {
+      if (!skipLoading) {
+        setLoading(false);
+      }
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Reload after a triage update (without showing loading state)
+  const refresh = useCallback(() => fetchData(true), [fetchData]);
+
+  return { data, loading, error, refresh };
+}
+
+export function useCuratedAnswers() {
+  const [data, setData] = useState<CuratedAnswersResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async (skipLoading = false) => {
+    try {
+      if (!skipLoading) {
+        setLoading(true);
+      }
+      setError(null);
+      const answers = await getCuratedAnswers();
+      setData(answers);
+    } catch (err) {
+      console.error('Error fetching curated answers:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load curated answers');
+    } finally {
+      if (!skipLoading) {
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Reload after a create, update or delete (without showing loading state)
+  const refresh = useCallback(() => fetchData(true), [fetchData]);
+
+  return { data, loading, error, refresh };
+}
+
+export function useEscalationPolicy() {
+  const [data, setData] = useState<EscalationPolicyResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async (skipLoading = false) => {
+    try {
+      if (!skipLoading) {
+        setLoading(true);
+      }
+      setError(null);
+      const policy = await getEscalationPolicy();
+      setData(policy);
+    } catch (err) {
+      console.error('Error fetching escalation policy:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load escalation policy');
+    } finally {
+      if (!skipLoading) {
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Reload after a save (without showing loading state)
+  const refresh = useCallback(() => fetchData(true), [fetchData]);
+
+  return { data, loading, error, refresh };
+}
@@ -1,14 +1,52 @@
 'use client';
 
+import { ReactNode } from 'react';
+import { useLanguage } from '../context/LanguageContext';
+import { translations } from '../translations';
+import type { ChatCitation } from '../../lib/api/chat.service';
+
 type MessageType = 'user' | 'assistant';
 
 interface ChatMessageProps {
   type: MessageType;
   content: string;
   sender?: string;
+  citations?: ChatCitation[];
+}
+
+// Render [n] markers that match a citation as superscript links to the source page
+function renderWithCitations(content: string, citations: ChatCitation[]): ReactNode[] {
+  return content.split(/(\[\d+\])/g).map((part, index) => {
+    const marker = part.match(/^\[(\d+)\]$/);
+    const citation = marker && citations.find((c) => c.id === Number(marker[1]));
+    if (!citation) {
+      return part;
+    }
+
+    return (
+      <sup key={index} style={{ fontSize: '10px' }}>
+        {citation.url ? (
+          <a
+            href={citation.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={citation.title}
+            className="text-[#a6192e] hover:underline"
+          >
+            [{citation.id}]
+          </a>
+        ) : (
+          <span className="text-[#a6192e]" title={citation.title}>[{citation.id}]</span>
+        )}
+      </sup>
+    );
+  });
 }
 
-export default function ChatMessage({ type, content, sender = 'Clara' }: ChatMessageProps) {
+export default function ChatMessage({ type, content, sender = 'Clara', citations = [] }: ChatMessageProps) {
+  const { language } = useLanguage();
+  const t = translations[language];
+
   if (type === 'user') {
     return (
       <div className="flex justify-end">
@@ -23,9 +61,39 @@ export default function ChatMessage({ type, content, sender = 'Clara' }: ChatMes
     <div className="flex justify-start">
       <div className="bg-white border-2 border-[rgba(166,25,46,0.2)] rounded-2xl shadow-[0px_1px_3px_0px_rgba(0,0,0,0.1),0px_1px_2px_-1px_rgba(0,0,0,0.1)] max-w-[700px] break-words" style={{ padding: '16px' }}>
         <p className="text-[#a6192e] text-xs font-normal m-0 mb-1" style={{ lineHeight: '16px' }}>{sender}</p>
-        <p className="text-[#020617] text-sm font-normal whitespace-pre-wrap m-0" style={{ lineHeight: '20px' }}>{content}</p>
+        <p className="text-[#020617] text-sm font-normal whitespace-pre-wrap m-0" style={{ lineHeight: '20px' }}>
+          {citations.length > 0 ? renderWithCitations(content, citations) : content}
+        </p>
+        {citations.length > 0 && (
+          <div className="border-t border-[rgba(166,25,46,0.1)]" style={{ marginTop: '12px', paddingTop: '8px' }}>
+            <p className="text-[#64748b] text-xs font-normal m-0" style={{ lineHeight: '16px', marginBottom: '4px' }}>{t.message.sources}</p>
+            <ol className="m-0 p-0 list-none" style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
+              {citations.map((citation) => (
+                <li key={citation.id} className="text-xs" style={{ lineHeight: '16px' }}>
+                  <span className="text-[#a6192e]">[{citation.id}] </span>
+                  {citation.url ? (
+                    <a
+                      href={citation.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-[#020617] underline hover:text-[#a6192e]"
+                    >
+                      {citation.title}
+                    </a>
+                  ) : (
+                    <span className="text-[#020617]">{citation.title}</span>
+                  )}
+                  {citation.lastCrawled && (
+                    <span className="text-[#64748b]">
+                      {' · '}{t.message.updated} {new Date(citation.lastCrawled).toLocaleDateString(language === 'es' ? 'es-US' : 'en-US')}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
       </div>
     </div>
   );
 }
-
@@ -1,45 +1,116 @@
 'use client';
 
-import { useState, useRef, useImperativeHandle, forwardRef, useEffect } from 'react';
+import { useState, useRef, useImperativeHandle, forwardRef, useEffect, useCallback } from 'react';
 import ChatMessage from './ChatMessage';
 import TypingIndicator from './TypingIndicator';
 import WelcomeLanding from './WelcomeLanding';
 import TalkToPersonForm from './TalkToPersonForm';
-import { sendChatMessage } from '../../lib/api/chat.service';
+import SafetyBanner from './SafetyBanner';
+import MessageFeedback from './MessageFeedback';
+import RecentConversations, { type RecentConversation } from './RecentConversations';
+import { useLanguage } from '../context/LanguageContext';
+import { translations } from '../translations';
+import { streamChatMessage, getChatHistory, ChatCitation, ChatHistoryMessage, ChatSafety } from '../../lib/api/chat.service';
 
 interface Message {
   id: string;
   type: 'user' | 'assistant';
   content: string;
+  messageId?: string; // Id of the stored answer (assistant messages), used for feedback
+  citations?: ChatCitation[];
+  safety?: ChatSafety;
   showTalkToPersonButton?: boolean;
 }
 
 export interface ChatPanelHandle {
   handleSend: (inputValue: string) => void;
-  resetChat: () => void;
+  newConversation: () => void;
 }
 
 // Session management
+const SESSION_STORAGE_KEY = 'ada-clara-session-id';
+const CONVERSATIONS_STORAGE_KEY = 'ada-clara-conversations';
+const MAX_RECENT_CONVERSATIONS = 10;
+
+function createSessionId(): string {
+  return `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
 function getOrCreateSessionId(): string {
   if (typeof window === 'undefined') {
-    return `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    return createSessionId();
   }
   
-  let sessionId = localStorage.getItem('ada-clara-session-id');
+  let sessionId = localStorage.getItem(SESSION_STORAGE_KEY);
   if (!sessionId) {
-    sessionId = `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    localStorage.setItem('ada-clara-session-id', sessionId);
+    sessionId = createSessionId();
+    localStorage.setItem(SESSION_STORAGE_KEY, sessionId);
   }
   return sessionId;
 }
 
+// Conversations started in this browser, most recent first (the API has no per-user session list)
+function loadRecentConversations(): RecentConversation[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONVERSATIONS_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveRecentConversations(conversations: RecentConversation[]): RecentConversation[] {
+  const recent = [...conversations]
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, MAX_RECENT_CONVERSATIONS);
+  localStorage.setItem(CONVERSATIONS_STORAGE_KEY, JSON.stringify(recent));
+  return recent;
+}
+
+// Add or move a conversation to the top of the list, keeping the title it was first saved with
+function rememberConversation(conversation: RecentConversation): RecentConversation[] {
+  const conversations = loadRecentConversations();
+  const existing = conversations.find((c) => c.sessionId === conversation.sessionId);
+  return saveRecentConversations([
+    { ...conversation, title: existing?.title || conversation.title },
+    ...conversations.filter((c) => c.sessionId !== conversation.sessionId),
+  ]);
+}
+
+function forgetConversation(sessionId: string): RecentConversation[] {
+  return saveRecentConversations(loadRecentConversations().filter((c) => c.sessionId !== sessionId));
+}
+
+function toMessage(message: ChatHistoryMessage): Message {
+  if (message.type === 'user') {
+    return { id: message.id, type: 'user', content: message.content };
+  }
+  return {
+    id: message.id,
+    type: 'assistant',
+    content: message.content,
+    messageId: message.id,
+    citations: message.citations,
+    safety: message.safety,
+    showTalkToPersonButton: message.escalated === true,
+  };
+}
+
 const ChatPanel = forwardRef<ChatPanelHandle>((props, ref) => {
   const messageIdCounter = useRef(0);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [showTalkToPersonForm, setShowTalkToPersonForm] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [sessionId] = useState<string>(() => getOrCreateSessionId());
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState<string>(() => getOrCreateSessionId());
   const [hasStartedChat, setHasStartedChat] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [restoreError, setRestoreError] = useState(false);
+  const [recentConversations, setRecentConversations] = useState<RecentConversation[]>([]);
+  // Responses and history loads for a conversation that is no longer open are dropped
+  const activeSessionRef = useRef(sessionId);
+  const { language, setLanguage } = useLanguage();
+  const t = translations[language].conversations;
   
   const [messages, setMessages] = useState<Message[]>([]);
 
@@ -54,6 +125,62 @@ const ChatPanel = forwardRef<ChatPanelHandle>((props, ref) => {
     }
   }, [messages, isLoading, hasStartedChat]);
 
+  const switchSession = (nextSessionId: string) => {
+    localStorage.setItem(SESSION_STORAGE_KEY, nextSessionId);
+    activeSessionRef.current = nextSessionId;
+    setSessionId(nextSessionId);
+    setMessages([]);
+    messageIdCounter.current = 0;
+    setHasStartedChat(false);
+    setIsLoading(false);
+    setStreamingMessageId(null);
+    setShowTalkToPersonForm(false);
+    setRestoreError(false);
+  };
+
+  // Load a conversation's messages from the API; an expired conversation is dropped from the list
+  const restoreConversation = useCallback(async (restoreSessionId: string) => {
+    setIsRestoring(true);
+    try {
+      const history = await getChatHistory(restoreSessionId);
+      if (activeSessionRef.current !== restoreSessionId) return;
+
+      if (history.messages.length === 0) {
+        setRecentConversations(forgetConversation(restoreSessionId));
+        return;
+      }
+
+      const firstQuestion = history.messages.find((message) => message.type === 'user');
+      setRecentConversations(rememberConversation({
+        sessionId: restoreSessionId,
+        title: firstQuestion?.content || history.messages[0].content,
+        updatedAt: history.messages[history.messages.length - 1].timestamp,
+      }));
+      // Messages sent while the history was loading come after it
+      setMessages((prev) => [...history.messages.map(toMessage), ...prev]);
+      setHasStartedChat(true);
+      const lastLanguage = history.messages[history.messages.length - 1].language;
+      if (lastLanguage) {
+        setLanguage(lastLanguage);
+      }
+    } catch (error) {
+      console.error('Error restoring conversation:', error);
+      if (activeSessionRef.current === restoreSessionId) {
+        setRestoreError(true);
+      }
+    } finally {
+      if (activeSessionRef.current === restoreSessionId) {
+        setIsRestoring(false);
+      }
+    }
+  }, [setLanguage]);
+
+  // Restore the conversation left open when the site was last used
+  useEffect(() => {
+    setRecentConversations(loadRecentConversations());
+    restoreConversation(activeSessionRef.current);
+  }, [restoreConversation]);
+
   const handleSend = async (inputValue: string) => {
     if (!inputValue.trim() || isLoading) return;
 
@@ -62,6 +189,13 @@ const ChatPanel = forwardRef<ChatPanelHandle>((props, ref) => {
       setHasStartedChat(true);
     }
 
+    const turnSessionId = sessionId;
+    setRecentConversations(rememberConversation({
+      sessionId: turnSessionId,
+      title: inputValue,
+      updatedAt: new Date().toISOString(),
+    }));
+
     messageIdCounter.current += 1;
     const userMessage: Message = {
       id: `user-${messageIdCounter.current}`,
@@ -72,47 +206,84 @@ const ChatPanel = forwardRef<ChatPanelHandle>((props, ref) => {
     setMessages((prev) => [...prev, userMessage]);
     setIsLoading(true);
 
+    // The assistant message is added on the first streamed fragment and then grown in place
+    messageIdCounter.current += 1;
+    const assistantId = `assistant-${messageIdCounter.current}`;
+    let hasStreamedText = false;
+
+    const upsertAssistantMessage = (update: (message: Message) => Message) => {
+      if (activeSessionRef.current !== turnSessionId) return;
+      setMessages((prev) =>
+        prev.some((message) => message.id === assistantId)
+          ? prev.map((message) => (message.id === assistantId ? update(message) : message))
+          : [...prev, update({ id: assistantId, type: 'assistant', content: '' })]
+      );
+    };
+
     try {
-      const response = await sendChatMessage({
-        message: inputValue,
-        sessionId: sessionId,
-        language: 'en',
-      });
-
-      messageIdCounter.current += 1;
-      const assistantMessage: Message = {
-        id: `assistant-${messageIdCounter.current}`,
-        type: 'assistant',
+      const response = await streamChatMessage(
+        {
+          message: inputValue,
+          sessionId: turnSessionId,
+          language,
+        },
+        {
+          onDelta: (text) => {
+            if (!hasStreamedText) {
+              hasStreamedText = true;
+              setStreamingMessageId(assistantId);
+            }
+            upsertAssistantMessage((message) => ({ ...message, content: message.content + text }));
+          },
+          // An answer that failed verification replaces the text already shown
+          onReset: (text) => {
+            upsertAssistantMessage((message) => ({ ...message, content: text }));
+          },
+        }
+      );
+
+      // The final message can differ from the streamed text (e.g. escalation wording)
+      upsertAssistantMessage((message) => ({
+        ...message,
         content: response.message,
+        messageId: response.messageId,
+        citations: response.citations,
+        safety: response.safety,
         showTalkToPersonButton: response.escalated === true,
-      };
-      
-      setMessages((prev) => [...prev, assistantMessage]);
+      }));
+
+      // Follow the conversation when the message was written in the other language
+      if (response.language && response.language !== language && activeSessionRef.current === turnSessionId) {
+        setLanguage(response.language);
+      }
     } catch (error) {
       console.error('Error sending message:', error);
-      messageIdCounter.current += 1;
-      const errorMessage: Message = {
-        id: `assistant-${messageIdCounter.current}`,
-        type: 'assistant',
+      upsertAssistantMessage((message) => ({
+        ...message,
         content: "I'm sorry, I encountered an error processing your request. Please try again.",
-      };
-      setMessages((prev) => [...prev, errorMessage]);
+      }));
     } finally {
-      setIsLoading(false);
+      if (activeSessionRef.current === turnSessionId) {
+        setIsLoading(false);
+        setStreamingMessageId(null);
+      }
     }
   };
 
-  const resetChat = () => {
-    setMessages([]);
-    messageIdCounter.current = 0;
-    setHasStartedChat(false);
-    setIsLoading(false);
-    setShowTalkToPersonForm(false);
+  // Start over with a new session id, so the next message opens a new conversation
+  const newConversation = () => {
+    switchSession(createSessionId());
+    setIsRestoring(false);
+  };
+
+  const openConversation = (conversationSessionId: string) => {
+    switchSession(conversationSessionId);
+    restoreConversation(conversationSessionId);
   };
 
   useImperativeHandle(ref, () => ({
     handleSend,
-    resetChat,
+    newConversation,
   }));
 
   const handleTalkToPersonClick = () => {
@@ -128,11 +299,20 @@ const ChatPanel = forwardRef<ChatPanelHandle>((props, ref) => {
     handleSend(question);
   };
 
-  // Show welcome landing if chat hasn't started
+  // Show welcome landing if chat hasn't started (and isn't being restored)
   if (!hasStartedChat) {
     return (
       <div className="flex-1 overflow-y-auto min-h-0 flex justify-center" style={{ paddingTop: '24px', paddingBottom: '40px' }}>
-        <WelcomeLanding onQuickAction={handleQuickAction} />
+        {isRestoring ? (
+          <div className="w-full max-w-[900px] mx-auto" style={{ padding: '16px' }}>
+            <TypingIndicator />
+          </div>
+        ) : (
+          <div className="flex flex-col w-full" style={{ gap: '24px' }}>
+            <WelcomeLanding onQuickAction={handleQuickAction} />
+            <RecentConversations conversations={recentConversations} onOpen={openConversation} error={restoreError} />
+          </div>
+        )}
       </div>
     );
   }
@@ -142,12 +322,26 @@ const ChatPanel = forwardRef<ChatPanelHandle>((props, ref) => {
       {/* Messages Area */}
       <div className="flex-1 overflow-y-auto min-h-0 flex justify-center" style={{ paddingBottom: '40px' }}>
         <div className="w-full max-w-[900px] mx-auto" style={{ display: 'flex', flexDirection: 'column', gap: '16px', padding: '16px' }}>
+          <div className="flex justify-end">
+            <button
+              onClick={newConversation}
+              className="border border-[#a6192e] text-[#a6192e] rounded-[10px] text-xs font-normal hover:bg-[rgba(166,25,46,0.05)] transition-colors"
+              style={{ padding: '6px 12px' }}
+            >
+              {t.newConversation}
+            </button>
+          </div>
           {messages.map((message) => (
             <div key={message.id}>
+              {message.safety && <SafetyBanner safety={message.safety} />}
               <ChatMessage
                 type={message.type}
                 content={message.content}
+                citations={message.citations}
               />
+              {message.messageId && !message.safety && (
+                <MessageFeedback sessionId={sessionId} messageId={message.messageId} />
+              )}
               {message.showTalkToPersonButton && (
                 <div className="flex justify-center" style={{ marginTop: '16px' }}>
                   <button
@@ -161,7 +355,7 @@ const ChatPanel = forwardRef<ChatPanelHandle>((props, ref) => {
               )}
             </div>
           ))}
-          {isLoading && <TypingIndicator />}
+          {isLoading && !streamingMessageId && <TypingIndicator />}
           {/* Scroll anchor - always at the bottom */}
           <div ref={messagesEndRef} style={{ height: '1px', flexShrink: 0 }}></div>
         </div>
@@ -172,6 +366,7 @@ const ChatPanel = forwardRef<ChatPanelHandle>((props, ref) => {
         isOpen={showTalkToPersonForm}
         onClose={() => setShowTalkToPersonForm(false)}
         onSubmit={handleFormSubmit}
+        sessionId={hasStartedChat ? sessionId : undefined}
       />
     </>
   );
@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import { useLanguage } from '../context/LanguageContext';
+import { translations } from '../translations';
+import { sendMessageFeedback, type FeedbackRating, type FeedbackReason } from '../../lib/api/chat.service';
+
+interface MessageFeedbackProps {
+  sessionId: string;
+  messageId: string;
+}
+
+const REASONS: FeedbackReason[] = ['incorrect', 'not_helpful', 'incomplete', 'hard_to_understand', 'outdated', 'other'];
+
+function ThumbIcon({ down = false }: { down?: boolean }) {
+  return (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" style={down ? { transform: 'rotate(180deg)' } : undefined}>
+      <path
+        d="M7 22H4C3.45 22 3 21.55 3 21V12C3 11.45 3.45 11 4 11H7M14 9V5C14 3.34 12.66 2 11 2L7 11V22H18.28C19.28 22 20.13 21.27 20.28 20.28L21.66 11.28C21.84 10.08 20.91 9 19.7 9H14Z"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    </svg>
+  );
+}
+
+// Thumbs up/down under an answer; thumbs down asks what was wrong before sending
+export default function MessageFeedback({ sessionId, messageId }: MessageFeedbackProps) {
+  const { language } = useLanguage();
+  const t = translations[language].feedback;
+  const [rating, setRating] = useState<FeedbackRating | null>(null);
+  const [reasons, setReasons] = useState<FeedbackReason[]>([]);
+  const [comment, setComment] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState(false);
+
+  const submit = async (selectedRating: FeedbackRating) => {
+    setSending(true);
+    setError(false);
+    try {
+      await sendMessageFeedback({
+        sessionId,
+        messageId,
+        rating: selectedRating,
+        reasons: selectedRating === 'down' ? reasons : [],
+        comment: selectedRating === 'down' ? comment.trim() || undefined : undefined,
+      });
+      setSent(true);
+    } catch {
+      setError(true);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRate = (selectedRating: FeedbackRating) => {
+    setRating(selectedRating);
+    if (selectedRating === 'up') {
+      submit('up');
+    }
+  };
+
+  const toggleReason = (reason: FeedbackReason) => {
+    setReasons((current) => (current.includes(reason) ? current.filter((r) => r !== reason) : [...current, reason]));
+  };
+
+  if (sent) {
+    return (
+      <p className="text-[#64748b] text-xs m-0" style={{ marginTop: '8px', lineHeight: '16px' }} role="status">
+        {t.thanks}
+      </p>
+    );
+  }
+
+  const thumbClass = (value: FeedbackRating) =>
+    `rounded-[8px] border transition-colors ${
+      rating === value ? 'border-[#a6192e] text-[#a6192e] bg-[rgba(166,25,46,0.05)]' : 'border-[#e2e8f0] text-[#64748b] hover:text-[#a6192e]'
+    }`;
+
+  return (
+    <div style={{ marginTop: '8px', maxWidth: '700px' }}>
+      <div className="flex items-center" style={{ gap: '8px' }}>
+        <span className="text-[#64748b] text-xs" style={{ lineHeight: '16px' }}>{t.question}</span>
+        <button
+          onClick={() => handleRate('up')}
+          disabled={sending}
+          aria-label={t.helpful}
+          aria-pressed={rating === 'up'}
+          title={t.helpful}
+          className={thumbClass('up')}
+          style={{ padding: '4px 6px' }}
+        >
+          <ThumbIcon />
+        </button>
+        <button
+          onClick={() => handleRate('down')}
+          disabled={sending}
+          aria-label={t.notHelpful}
+          aria-pressed={rating === 'down'}
+          title={t.notHelpful}
+          className={thumbClass('down')}
+          style={{ padding: '4px 6px' }}
+        >
+          <ThumbIcon down />
+        </button>
+      </div>
+
+      {rating === 'down' && (
+        <div className="bg-white border border-[#e2e8f0] rounded-[10px]" style={{ marginTop: '8px', padding: '12px' }}>
+          <p className="text-[#020617] text-xs m-0" style={{ lineHeight: '16px', marginBottom: '8px' }}>{t.reasonsTitle}</p>
+          <div className="flex flex-wrap" style={{ gap: '6px' }}>
+            {REASONS.map((reason) => (
+              <button
+                key={reason}
+                onClick={() => toggleReason(reason)}
+                aria-pressed={reasons.includes(reason)}
+                className={`text-xs rounded-full border transition-colors ${
+                  reasons.includes(reason) ? 'border-[#a6192e] bg-[#a6192e] text-white' : 'border-[#cbd5e1] text-[#020617] hover:border-[#a6192e]'
+                }`}
+                style={{ padding: '4px 10px' }}
+              >
+                {t.reasons[reason]}
+              </button>
+            ))}
+          </div>
+          <textarea
+            rows={2}
+            maxLength={1000}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={t.commentPlaceholder}
+            className="w-full text-sm text-[#020617] border border-[#e2e8f0] rounded-[10px] outline-none"
+            style={{ marginTop: '8px', padding: '8px 10px', fontFamily: 'inherit', resize: 'vertical', boxSizing: 'border-box' }}
+          />
+          <div className="flex justify-end" style={{ marginTop: '8px' }}>
+            <button
+              onClick={() => submit('down')}
+              disabled={sending}
+              className="bg-[#a6192e] text-white rounded-[10px] text-xs font-normal hover:opacity-90 transition-opacity disabled:opacity-50"
+              style={{ padding: '6px 14px' }}
+            >
+              {t.submit}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-red-600 text-xs m-0" style={{ marginTop: '6px', lineHeight: '16px' }} role="alert">
+          {t.error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useLanguage } from '../context/LanguageContext';
+import { translations } from '../translations';
+
+export interface RecentConversation {
+  sessionId: string;
+  title: string; // First question of the conversation
+  updatedAt: string;
+}
+
+interface RecentConversationsProps {
+  conversations: RecentConversation[];
+  onOpen: (sessionId: string) => void;
+  error?: boolean;
+}
+
+export default function RecentConversations({ conversations, onOpen, error = false }: RecentConversationsProps) {
+  const { language } = useLanguage();
+  const t = translations[language].conversations;
+
+  if (conversations.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <div className="w-full max-w-[800px] mx-auto px-4">
+      {error && (
+        <p className="text-red-600 text-sm text-center m-0" style={{ marginBottom: '12px' }} role="alert">
+          {t.loadError}
+        </p>
+      )}
+      {conversations.length > 0 && (
+        <>
+          <h2 className="text-base font-semibold text-gray-800 text-center" style={{ marginBottom: '16px' }}>
+            {t.recent}
+          </h2>
+          <div className="flex flex-col" style={{ gap: '8px' }}>
+            {conversations.map((conversation) => (
+              <button
+                key={conversation.sessionId}
+                onClick={() => onOpen(conversation.sessionId)}
+                className="flex items-center justify-between bg-white text-gray-700 hover:bg-gray-50 border border-gray-200 rounded-xl text-left transition-colors shadow-sm"
+                style={{ padding: '12px 16px', gap: '12px' }}
+              >
+                <span className="text-sm font-medium truncate">{conversation.title}</span>
+                <span className="text-xs text-gray-500 flex-shrink-0">
+                  {new Date(conversation.updatedAt).toLocaleDateString(language === 'es' ? 'es-US' : 'en-US')}
+                </span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
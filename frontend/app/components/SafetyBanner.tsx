@@ -0,0 +1,58 @@
+'use client';
+
+import { useLanguage } from '../context/LanguageContext';
+import { translations } from '../translations';
+import type { ChatSafety } from '../../lib/api/chat.service';
+
+interface SafetyBannerProps {
+  safety: ChatSafety;
+}
+
+// Urgent banner shown above the fixed response to an emergency or crisis message
+export default function SafetyBanner({ safety }: SafetyBannerProps) {
+  const { language } = useLanguage();
+  const t = translations[language].safety;
+  const isCrisis = safety.severity === 'crisis';
+
+  return (
+    <div
+      role="alert"
+      className="bg-[#fef2f2] border-2 border-[#dc2626] rounded-[15px] w-full"
+      style={{ padding: '16px', marginBottom: '12px' }}
+    >
+      <div className="flex items-start w-full" style={{ gap: '12px' }}>
+        <div className="w-6 h-6 flex-shrink-0" style={{ marginTop: '1px' }}>
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+            <path d="M1 21H23L12 2L1 21ZM13 18H11V16H13V18ZM13 14H11V10H13V14Z" fill="#dc2626" />
+          </svg>
+        </div>
+        <div className="flex flex-col flex-1" style={{ gap: '4px' }}>
+          <p className="text-[#dc2626] text-base font-semibold m-0" style={{ lineHeight: '24px' }}>
+            {isCrisis ? t.crisisTitle : t.emergencyTitle}
+          </p>
+          <p className="text-[#020617] text-sm font-normal m-0" style={{ lineHeight: '20px' }}>
+            {isCrisis ? t.crisisText : t.emergencyText}
+          </p>
+          <div className="flex flex-wrap" style={{ gap: '8px', marginTop: '8px' }}>
+            <a
+              href="tel:911"
+              className="bg-[#dc2626] text-white rounded-[10px] text-sm font-semibold hover:opacity-90 transition-opacity"
+              style={{ padding: '8px 16px' }}
+            >
+              911
+            </a>
+            {isCrisis && (
+              <a
+                href="tel:988"
+                className="bg-white text-[#dc2626] border-2 border-[#dc2626] rounded-[10px] text-sm font-semibold hover:opacity-90 transition-opacity"
+                style={{ padding: '6px 16px' }}
+              >
+                988
+              </a>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,11 +2,13 @@
 
 import { useState } from 'react';
 import { submitEscalationRequest } from '../../lib/api/escalation.service';
+import { useLanguage } from '../context/LanguageContext';
 
 interface TalkToPersonFormProps {
   isOpen: boolean;
   onClose: () => void;
   onSubmit: (data: FormData) => void;
+  sessionId?: string; // Set when opened from a conversation
 }
 
 interface FormData {
@@ -16,7 +18,8 @@ interface FormData {
   zipCode: string;
 }
 
-export default function TalkToPersonForm({ isOpen, onClose, onSubmit }: TalkToPersonFormProps) {
+export default function TalkToPersonForm({ isOpen, onClose, onSubmit, sessionId }: TalkToPersonFormProps) {
+  const { language } = useLanguage();
   const [formData, setFormData] = useState<FormData>({
     name: '',
     email: '',
@@ -28,6 +31,7 @@ export default function TalkToPersonForm({ isOpen, onClose, onSubmit }: TalkToPe
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [submitSuccess, setSubmitSuccess] = useState(false);
+  const [reference, setReference] = useState<string | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -53,18 +57,22 @@ export default function TalkToPersonForm({ isOpen, onClose, onSubmit }: TalkToPe
         email: formData.email,
         phoneNumber: formData.phoneNumber || undefined,
         zipCode: formData.zipCode || undefined,
+        sessionId,
+        language,
       });
 
       if (result.success) {
         setSubmitSuccess(true);
+        setReference(result.escalationId || null);
         onSubmit(formData);
         // Reset form after a short delay
         setTimeout(() => {
           setFormData({ name: '', email: '', phoneNumber: '', zipCode: '' });
           setErrors({});
           setSubmitSuccess(false);
+          setReference(null);
           onClose();
-        }, 2000);
+        }, 4000); // Long enough to note the reference number
       } else {
         setSubmitError(result.message || 'Failed to submit request. Please try again.');
       }
@@ -192,6 +200,7 @@ export default function TalkToPersonForm({ isOpen, onClose, onSubmit }: TalkToPe
             {submitSuccess && (
               <div className="bg-green-50 border border-green-200 rounded-[10px] p-3 text-sm text-green-800">
                 Thank you! Someone from the American Diabetes Association will reach out to you shortly.
+                {reference && ` Your reference number is ${reference}.`}
               </div>
             )}
             {submitError && (
@@ -20,7 +20,7 @@ export default function Home() {
 
   const handleLogoClick = () => {
     if (chatPanelRef.current) {
-      chatPanelRef.current.resetChat();
+      chatPanelRef.current.newConversation();
       setInputValue('');
     }
   };
@@ -23,6 +23,39 @@ export const translations = {
       placeholder: 'Ask a question about diabetes…',
       send: 'Send',
     },
+    message: {
+      sources: 'Sources',
+      updated: 'Updated',
+    },
+    safety: {
+      emergencyTitle: 'This may be a medical emergency',
+      emergencyText: 'Call 911 now or go to the nearest emergency room.',
+      crisisTitle: 'You are not alone',
+      crisisText: 'Call or text 988 to reach the Suicide & Crisis Lifeline, any time. If you are in immediate danger, call 911.',
+    },
+    feedback: {
+      question: 'Was this answer helpful?',
+      helpful: 'Helpful',
+      notHelpful: 'Not helpful',
+      reasonsTitle: 'What was wrong with this answer?',
+      reasons: {
+        incorrect: 'Incorrect',
+        not_helpful: 'Not helpful',
+        incomplete: 'Incomplete',
+        hard_to_understand: 'Hard to understand',
+        outdated: 'Out of date',
+        other: 'Other',
+      },
+      commentPlaceholder: 'Tell us more (optional)',
+      submit: 'Send feedback',
+      thanks: 'Thank you for your feedback!',
+      error: 'Your feedback could not be sent. Please try again.',
+    },
+    conversations: {
+      newConversation: 'New conversation',
+      recent: 'Recent conversations',
+      loadError: 'The conversation could not be loaded. Please try again.',
+    },
   },
   es: {
     welcome: {
@@ -48,6 +81,39 @@ export const translations = {
       placeholder: 'Haz una pregunta sobre diabetes…',
       send: 'Enviar',
     },
+    message: {
+      sources: 'Fuentes',
+      updated: 'Actualizado',
+    },
+    safety: {
+      emergencyTitle: 'Esto puede ser una emergencia médica',
+      emergencyText: 'Llama al 911 ahora o acude a la sala de emergencias más cercana.',
+      crisisTitle: 'No estás solo/a',
+      crisisText: 'Llama o envía un mensaje de texto al 988 (oprime 2 para español) para comunicarte con la Línea de Prevención del Suicidio y Crisis, a cualquier hora. Si estás en peligro inmediato, llama al 911.',
+    },
+    feedback: {
+      question: '¿Te fue útil esta respuesta?',
+      helpful: 'Útil',
+      notHelpful: 'No fue útil',
+      reasonsTitle: '¿Qué estuvo mal en esta respuesta?',
+      reasons: {
+        incorrect: 'Incorrecta',
+        not_helpful: 'No fue útil',
+        incomplete: 'Incompleta',
+        hard_to_understand: 'Difícil de entender',
+        outdated: 'Desactualizada',
+        other: 'Otro',
+      },
+      commentPlaceholder: 'Cuéntanos más (opcional)',
+      submit: 'Enviar comentarios',
+      thanks: '¡Gracias por tus comentarios!',
+      error: 'No se pudieron enviar tus comentarios. Inténtalo de nuevo.',
+    },
+    conversations: {
+      newConversation: 'Nueva conversación',
+      recent: 'Conversaciones recientes',
+      loadError: 'No se pudo cargar la conversación. Inténtalo de nuevo.',
+    },
   },
 };
 
@@ -6,10 +6,50 @@
 
 import { getConfig } from './config';
 
+export type AnalyticsGranularity = 'hour' | 'day' | 'week' | 'month';
+
+/**
+ * Filters accepted by every admin analytics endpoint
+ * Dates are YYYY-MM-DD (UTC, to is inclusive). Without from/to, each endpoint uses its default window.
+ */
+export interface AnalyticsFilters {
+  from?: string;
+  to?: string;
+  language?: 'en' | 'es';
+  category?: string;
+  granularity?: AnalyticsGranularity;
+}
+
+// Question categories assigned by the chat processor
+export const ANALYTICS_CATEGORIES: Record<string, string> = {
+  'type-1-diabetes': 'Type 1 Diabetes',
+  'type-2-diabetes': 'Type 2 Diabetes',
+  'gestational-diabetes': 'Gestational Diabetes',
+  'prediabetes': 'Prediabetes',
+  'symptoms-diagnosis': 'Symptoms & Diagnosis',
+  'blood-sugar-management': 'Blood Sugar Management',
+  'insulin-medication': 'Insulin & Medication',
+  'diet-nutrition': 'Diet & Nutrition',
+  'exercise-lifestyle': 'Exercise & Lifestyle',
+  'complications': 'Complications',
+  'emergency-care': 'Emergency Care',
+  'insurance-coverage': 'Insurance & Coverage',
+  'general-information': 'General Information',
+  'non-diabetes-related': 'Non-Diabetes Related',
+  'general': 'Uncategorized',
+};
+
+// Metrics that are not broken down by the language or category filter are null
 export interface AdminMetrics {
-  totalConversations: number;
-  escalationRate: number;
+  totalConversations: number | null;
+  escalationRate: number | null;
   outOfScopeRate: number;
+  answerCache?: {
+    hits: number;
+    misses: number;
+    hitRate: number;
+  } | null;
+  safetyEvents?: number | null;
   trends: {
     conversations: string;
     escalations: string;
@@ -19,38 +59,272 @@ export interface AdminMetrics {
 
 export interface ConversationChartData {
   data: Array<{
-    date: string;
-    conversations: number;
+    date: string; // YYYY-MM-DDTHH, YYYY-MM-DD (day or week start) or YYYY-MM
+    conversations: number | null; // Null when filtered by category
+    questions: number;
   }>;
+  granularity: AnalyticsGranularity;
+  from: string;
+  to: string;
 }
 
 export interface LanguageSplit {
   english: number;
   spanish: number;
+  basis: 'conversations' | 'questions'; // Questions when filtered by category
+}
+
+export type EscalationStatus = 'pending' | 'contacted' | 'resolved' | 'closed';
+
+export interface EscalationNote {
+  at: string;
+  by: string;
+  text: string;
+}
+
+export interface EscalationHistoryEntry {
+  at: string;
+  by: string;
+  status: EscalationStatus;
+  changes: string[]; // status, assignee and/or note
 }
 
 export interface EscalationRequestItem {
+  escalationId: string;
   name: string;
   email: string;
   phone: string;
   zipCode: string;
   dateTime: string;
+  timestamp: string;
+  source: string;
+  sessionId: string | null; // Chat session the request was submitted from
+  reason: string | null; // Why the chat escalated the conversation
+  reasonCodes: string[]; // Escalation policy rules that matched, e.g. 'low_confidence'
+  chatEscalatedAt: string | null;
+  urgency: 'normal' | 'urgent'; // 'urgent' when the chat detected an emergency
+  language: 'en' | 'es'; // Language of the emails sent to the requester
+  emailOptOut: boolean; // Requester unsubscribed from status emails
+  status: EscalationStatus;
+  assignee: string | null; // Cognito username
+  assigneeEmail: string | null;
+  notes: EscalationNote[];
+  history: EscalationHistoryEntry[];
+  updatedAt: string | null;
+  updatedBy: string | null;
 }
 
 export interface EscalationRequestsResponse {
   requests: EscalationRequestItem[];
   total: number;
+  statusCounts: Record<EscalationStatus, number>;
+}
+
+export interface EscalationUpdate {
+  status?: EscalationStatus;
+  assignee?: string; // Cognito username, empty to unassign
+  note?: string; // Added to the notes
+}
+
+export interface TranscriptMessage {
+  sender: 'user' | 'bot';
+  content: string;
+  timestamp: string;
+  language?: string;
+  confidence?: number;
+  sources?: Array<{ title?: string; url: string }>;
+}
+
+export interface EscalationTranscript {
+  escalationId: string;
+  sessionId: string | null;
+  messages: TranscriptMessage[]; // Oldest first; empty when not linked to a chat or expired
+}
+
+export interface StaffUser {
+  username: string;
+  email: string | null;
+  name: string | null;
 }
 
 export interface FAQItem {
-  question: string;
+  clusterId?: string;
+  question: string; // Representative phrasing of the question cluster
   count?: number;
+  trend?: string; // Change from the previous period (week by default), e.g. "+25%"
+  language?: string;
+  variants?: string[]; // Other ways the question was asked
 }
 
 export interface FAQResponse {
   questions: FAQItem[];
 }
 
+export type TriageStatus = 'new' | 'in_review' | 'content_gap' | 'answered' | 'dismissed';
+
+export interface TriageHistoryEntry {
+  at: string;
+  by: string;
+  status: TriageStatus;
+  changes: string[];
+}
+
+export interface UnansweredCluster {
+  clusterId: string;
+  question: string;
+  count: number;
+  languages: string[];
+  averageConfidence: number | null;
+  negativeFeedback: number; // Questions whose answer was rated thumbs down
+  lastAskedAt: string | null;
+  trend: string; // Change from the previous period (week by default), e.g. "+25%"
+  variants: string[]; // Ways the question was asked
+  status: TriageStatus;
+  assignee: string | null;
+  notes: string;
+  contentGapRef: string | null;
+  curatedAnswerId: string | null;
+  askedSinceClosed: boolean; // Answered or dismissed, but asked again since
+  updatedAt: string | null;
+  updatedBy: string | null;
+  history: TriageHistoryEntry[];
+}
+
+export interface UnansweredTriageResponse {
+  clusters: UnansweredCluster[];
+  total: number;
+  statusCounts: Record<TriageStatus, number>;
+}
+
+export interface SatisfactionCounts {
+  ratings: number;
+  positive: number;
+  negative: number;
+  satisfactionRate: number | null; // Share of positive ratings (0-100), null without ratings
+}
+
+export interface NegativeFeedbackItem {
+  sessionId: string;
+  messageId: string;
+  timestamp: string;
+  question: string | null;
+  reasons: string[];
+  comment: string | null;
+  category: string;
+  language: string;
+}
+
+export interface AnswerFeedbackResponse {
+  totals: SatisfactionCounts;
+  byCategory: Array<SatisfactionCounts & { category: string; displayName: string }>;
+  byLanguage: Array<SatisfactionCounts & { language: string }>;
+  bySourcePage: Array<SatisfactionCounts & { url: string; title: string }>; // Most negative ratings first
+  reasons: Array<{ reason: string; count: number }>;
+  recentNegative: NegativeFeedbackItem[];
+}
+
+export interface TriageUpdate {
+  question?: string; // Required the first time a cluster is triaged
+  status?: TriageStatus;
+  assignee?: string;
+  notes?: string;
+  contentGapRef?: string;
+  curatedAnswerId?: string;
+}
+
+export interface CuratedAnswerSource {
+  title: string;
+  url: string;
+}
+
+export interface CuratedAnswerInput {
+  title?: string;
+  questions: { en?: string[]; es?: string[] };
+  answers: { en?: string; es?: string };
+  sources?: CuratedAnswerSource[];
+  enabled: boolean;
+  effectiveFrom?: string;
+  expiresAt?: string;
+}
+
+export interface CuratedAnswer extends CuratedAnswerInput {
+  answerId: string;
+  title: string;
+  active: boolean; // Enabled and within the effective/expiry window
+  createdAt: string;
+  createdBy: string;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface CuratedAnswersResponse {
+  answers: CuratedAnswer[];
+  total: number;
+}
+
+export type EscalationUrgency = 'normal' | 'urgent';
+
+export interface EscalationPatternSet {
+  code: string; // Reason code recorded when a message matches, e.g. 'human_requested'
+  label: string;
+  urgency: EscalationUrgency;
+  enabled: boolean;
+  patterns: string[]; // Case-insensitive regular expressions
+}
+
+// Rules the chat processor escalates answers by (see escalation-policy.js in chat-processor)
+export interface EscalationPolicy {
+  confidence: {
+    minimum: number;
+    byLanguage: Partial<Record<'en' | 'es', number>>;
+    byCategory: Record<string, number>; // Wins over the language threshold
+  };
+  sources: { minRelevanceScore: number };
+  groundedness: { enabled: boolean; minScore: number };
+  repeatedLowConfidence: { enabled: boolean; confidenceBelow: number; count: number };
+  patternSets: EscalationPatternSet[];
+}
+
+export interface EscalationPolicyResponse {
+  policy: EscalationPolicy;
+  version: number; // 0 while the defaults apply
+  updatedAt: string | null;
+  updatedBy: string | null;
+  isDefault: boolean;
+  defaults?: EscalationPolicy;
+  reasonLabels?: Record<string, string>;
+}
+
+export interface EscalationPolicySample {
+  policy?: EscalationPolicy; // The active policy when omitted
+  message: string;
+  language?: 'en' | 'es';
+  category?: string;
+  confidence?: number;
+  groundednessScore?: number;
+  lowConfidenceCount?: number;
+}
+
+export interface EscalationPolicyEvaluation {
+  escalate: boolean;
+  urgency: EscalationUrgency;
+  reasonCodes: string[];
+  reasons: Array<{ code: string; label: string; urgency: EscalationUrgency }>;
+  confidenceThreshold: number;
+  lowConfidence: boolean;
+}
+
+export type ExportDataset = 'questions' | 'escalations' | 'sessions';
+export type ExportFormat = 'csv' | 'ndjson';
+export type ExportRedaction = 'mask' | 'remove' | 'none'; // Mask or remove names, emails and phone numbers
+
+export interface ExportOptions {
+  format?: ExportFormat;
+  redact?: ExportRedaction;
+  filters?: AnalyticsFilters;
+  escalated?: boolean; // Questions only
+}
+
 /**
  * Get authentication token from Cognito
  * Uses the auth service to get the current token
@@ -97,12 +371,26 @@ async function authenticatedFetch(endpoint: string, options: RequestInit = {}):
   return response;
 }
 
+/**
+ * Build the query string for analytics filters
+ */
+function analyticsQuery(filters?: AnalyticsFilters, extra: Record<string, string | undefined> = {}): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries({ ...filters, ...extra })) {
+    if (value) {
+      params.set(key, value);
+    }
+  }
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
 /**
  * Get admin dashboard metrics
  */
-export async function getAdminMetrics(): Promise<AdminMetrics> {
+export async function getAdminMetrics(filters?: AnalyticsFilters): Promise<AdminMetrics> {
   try {
-    const response = await authenticatedFetch('/admin/metrics', {
+    const response = await authenticatedFetch(`/admin/metrics${analyticsQuery(filters)}`, {
       method: 'GET',
     });
 
@@ -121,9 +409,9 @@ export async function getAdminMetrics(): Promise<AdminMetrics> {
 /**
  * Get conversation chart data
  */
-export async function getConversationChart(): Promise<ConversationChartData> {
+export async function getConversationChart(filters?: AnalyticsFilters): Promise<ConversationChartData> {
   try {
-    const response = await authenticatedFetch('/admin/conversations/chart', {
+    const response = await authenticatedFetch(`/admin/conversations/chart${analyticsQuery(filters)}`, {
       method: 'GET',
     });
 
@@ -142,9 +430,9 @@ export async function getConversationChart(): Promise<ConversationChartData> {
 /**
  * Get language split data
  */
-export async function getLanguageSplit(): Promise<LanguageSplit> {
+export async function getLanguageSplit(filters?: AnalyticsFilters): Promise<LanguageSplit> {
   try {
-    const response = await authenticatedFetch('/admin/language-split', {
+    const response = await authenticatedFetch(`/admin/language-split${analyticsQuery(filters)}`, {
       method: 'GET',
     });
 
@@ -163,12 +451,15 @@ export async function getLanguageSplit(): Promise<LanguageSplit> {
 /**
  * Get escalation requests
  */
-export async function getEscalationRequests(page: number = 1, limit: number = 10, search?: string): Promise<EscalationRequestsResponse> {
+export async function getEscalationRequests(page: number = 1, limit: number = 10, search?: string, status?: EscalationStatus): Promise<EscalationRequestsResponse> {
   try {
     let url = `/admin/escalation-requests?page=${page}&limit=${limit}`;
     if (search && search.trim()) {
       url += `&search=${encodeURIComponent(search.trim())}`;
     }
+    if (status) {
+      url += `&status=${status}`;
+    }
 
     const response = await authenticatedFetch(url, {
       method: 'GET',
@@ -186,12 +477,77 @@ export async function getEscalationRequests(page: number = 1, limit: number = 10
   }
 }
 
+/**
+ * Update the status or assignee of an escalation request, or add a note
+ */
+export async function updateEscalationRequest(escalationId: string, update: EscalationUpdate): Promise<EscalationRequestItem> {
+  try {
+    const response = await authenticatedFetch(`/admin/escalation-requests/${encodeURIComponent(escalationId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(update),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(error.message || error.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Update escalation request API error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the chat transcript of the conversation an escalation request came from
+ */
+export async function getEscalationTranscript(escalationId: string): Promise<EscalationTranscript> {
+  try {
+    const response = await authenticatedFetch(`/admin/escalation-requests/${encodeURIComponent(escalationId)}/transcript`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(error.message || error.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Escalation transcript API error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the staff users escalation requests can be assigned to
+ */
+export async function getEscalationAssignees(): Promise<StaffUser[]> {
+  try {
+    const response = await authenticatedFetch('/admin/escalation-requests/assignees', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(error.message || error.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.assignees || [];
+  } catch (error) {
+    console.error('Escalation assignees API error:', error);
+    throw error;
+  }
+}
+
 /**
  * Get frequently asked questions
  */
-export async function getFrequentlyAskedQuestions(): Promise<FAQResponse> {
+export async function getFrequentlyAskedQuestions(filters?: AnalyticsFilters): Promise<FAQResponse> {
   try {
-    const response = await authenticatedFetch('/admin/frequently-asked-questions', {
+    const response = await authenticatedFetch(`/admin/frequently-asked-questions${analyticsQuery(filters)}`, {
       method: 'GET',
     });
 
@@ -210,9 +566,9 @@ export async function getFrequentlyAskedQuestions(): Promise<FAQResponse> {
 /**
  * Get unanswered questions
  */
-export async function getUnansweredQuestions(): Promise<FAQResponse> {
+export async function getUnansweredQuestions(filters?: AnalyticsFilters): Promise<FAQResponse> {
   try {
-    const response = await authenticatedFetch('/admin/unanswered-questions', {
+    const response = await authenticatedFetch(`/admin/unanswered-questions${analyticsQuery(filters)}`, {
       method: 'GET',
     });
 
@@ -228,3 +584,231 @@ export async function getUnansweredQuestions(): Promise<FAQResponse> {
   }
 }
 
+/**
+ * Get answer satisfaction from chat feedback
+ */
+export async function getAnswerFeedback(filters?: AnalyticsFilters): Promise<AnswerFeedbackResponse> {
+  try {
+    const response = await authenticatedFetch(`/admin/feedback${analyticsQuery(filters)}`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(error.message || error.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Answer feedback API error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get unanswered question clusters with their triage status
+ */
+export async function getUnansweredTriage(status?: TriageStatus, filters?: AnalyticsFilters): Promise<UnansweredTriageResponse> {
+  try {
+    const response = await authenticatedFetch(`/admin/unanswered-questions/triage${analyticsQuery(filters, { status })}`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(error.message || error.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Unanswered triage API error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update the triage status, assignee or notes of an unanswered question cluster
+ */
+export async function updateUnansweredTriage(clusterId: string, update: TriageUpdate): Promise<void> {
+  try {
+    const response = await authenticatedFetch(`/admin/unanswered-questions/${encodeURIComponent(clusterId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(update),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(error.message || error.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+  } catch (error) {
+    console.error('Update unanswered triage API error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get curated answers
+ */
+export async function getCuratedAnswers(): Promise<CuratedAnswersResponse> {
+  try {
+    const response = await authenticatedFetch('/admin/curated-answers', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(error.message || error.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Curated answers API error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a curated answer, or replace it when answerId is given
+ */
+export async function saveCuratedAnswer(answer: CuratedAnswerInput, answerId?: string): Promise<CuratedAnswer> {
+  try {
+    const endpoint = answerId
+      ? `/admin/curated-answers/${encodeURIComponent(answerId)}`
+      : '/admin/curated-answers';
+    const response = await authenticatedFetch(endpoint, {
+      method: answerId ? 'PUT' : 'POST',
+      body: JSON.stringify(answer),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(error.message || error.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Save curated answer API error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a curated answer
+ */
+export async function deleteCuratedAnswer(answerId: string): Promise<void> {
+  try {
+    const response = await authenticatedFetch(`/admin/curated-answers/${encodeURIComponent(answerId)}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(error.message || error.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+  } catch (error) {
+    console.error('Delete curated answer API error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the active escalation policy
+ */
+export async function getEscalationPolicy(): Promise<EscalationPolicyResponse> {
+  try {
+    const response = await authenticatedFetch('/admin/escalation-policy', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(error.message || error.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Escalation policy API error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Replace the escalation policy; version is the version the edit started from
+ */
+export async function saveEscalationPolicy(policy: EscalationPolicy, version: number): Promise<EscalationPolicyResponse> {
+  try {
+    const response = await authenticatedFetch('/admin/escalation-policy', {
+      method: 'PUT',
+      body: JSON.stringify({ policy, version }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(error.message || error.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Save escalation policy API error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Dry run an escalation policy against a sample answer
+ */
+export async function evaluateEscalationPolicy(sample: EscalationPolicySample): Promise<EscalationPolicyEvaluation> {
+  try {
+    const response = await authenticatedFetch('/admin/escalation-policy/evaluate', {
+      method: 'POST',
+      body: JSON.stringify(sample),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(error.message || error.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Evaluate escalation policy API error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Download questions, escalation requests or chat sessions as a CSV or NDJSON file
+ * Only the date range applies to escalations and the category filter only to questions.
+ */
+export async function downloadAdminExport(dataset: ExportDataset, options: ExportOptions = {}): Promise<void> {
+  const { format = 'csv', redact = 'mask', filters, escalated } = options;
+  try {
+    const query = analyticsQuery({
+      from: filters?.from,
+      to: filters?.to,
+      language: dataset === 'escalations' ? undefined : filters?.language,
+      category: dataset === 'questions' ? filters?.category : undefined,
+    }, { format, redact, escalated: escalated ? 'true' : undefined });
+
+    const response = await authenticatedFetch(`/admin/export/${dataset}${query}`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(error.message || error.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ada-clara-${dataset}-${new Date().toISOString().split('T')[0]}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('Admin export API error:', error);
+    throw error;
+  }
+}
@@ -5,33 +5,87 @@
 
 import { getConfig } from './config';
 
+export type ChatLanguage = 'en' | 'es';
+
 export interface ChatRequest {
   message: string;
   sessionId?: string;
-  language?: string;
+  language?: ChatLanguage; // Language selected in the UI; a message clearly written in another language overrides it
 }
 
 export interface ChatSource {
-  url: string;
+  url: string | null;
+  title: string;
+  lastCrawled?: string | null;
+  excerpt: string;
+}
+
+export interface ChatCitation {
+  id: number;
+  url: string | null;
   title: string;
+  lastCrawled?: string | null;
   excerpt: string;
 }
 
+export interface ChatSafety {
+  category: 'self-harm' | 'severe-hypoglycemia' | 'dka' | 'medical-emergency';
+  severity: 'emergency' | 'crisis';
+}
+
 export interface ChatResponse {
   message: string;
+  messageId?: string; // Id of the stored answer, used to rate it
   sources?: ChatSource[];
+  citations?: ChatCitation[];
   sessionId: string;
+  language?: ChatLanguage; // Language the answer is in
   escalated?: boolean;
+  // Set when the message described an emergency or crisis; the message is fixed emergency guidance
+  safety?: ChatSafety;
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+export type FeedbackReason = 'incorrect' | 'not_helpful' | 'incomplete' | 'hard_to_understand' | 'outdated' | 'other';
+
+export interface MessageFeedbackRequest {
+  sessionId: string;
+  messageId: string;
+  rating: FeedbackRating;
+  reasons?: FeedbackReason[];
+  comment?: string;
+}
+
+export interface ChatStreamHandlers {
+  onDelta: (text: string) => void;
+  onReset: (text: string) => void; // Replaces the text streamed so far
+}
+
+/**
+ * Events emitted by POST /chat/stream, one JSON object per line
+ */
+type ChatStreamEvent =
+  | { type: 'start'; sessionId: string }
+  | { type: 'delta'; text: string }
+  | { type: 'reset'; text: string }
+  | ({ type: 'done' } & ChatResponse)
+  | { type: 'error'; error?: string; message?: string };
+
+export interface ChatHistoryMessage {
+  id: string; // For assistant messages, the messageId used to rate the answer
+  type: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  language?: ChatLanguage;
+  citations?: ChatCitation[];
+  escalated?: boolean;
+  safety?: ChatSafety;
 }
 
 export interface ChatHistoryResponse {
   sessionId: string;
-  messages: Array<{
-    id: string;
-    type: 'user' | 'assistant';
-    content: string;
-    timestamp: string;
-  }>;
+  messages: ChatHistoryMessage[];
   timestamp: string;
 }
 
@@ -68,7 +122,88 @@ export async function sendChatMessage(request: ChatRequest): Promise<ChatRespons
 }
 
 /**
- * Get chat history for a session
+ * Send a chat message and stream the answer as it is generated
+ * Calls handlers.onDelta for each text fragment, handlers.onReset when the streamed text is replaced,
+ * and resolves with the final response
+ */
+export async function streamChatMessage(request: ChatRequest, handlers: ChatStreamHandlers): Promise<ChatResponse> {
+  const config = getConfig();
+
+  try {
+    const response = await fetch(`${config.apiBaseUrl}/chat/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        message: request.message,
+        sessionId: request.sessionId,
+        language: request.language || 'en',
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(error.message || error.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    if (!response.body) {
+      throw new Error('Streaming responses are not supported');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let finalResponse: ChatResponse | null = null;
+
+    // Chunks can split a line, so keep the trailing partial line in the buffer
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+
+        const event = JSON.parse(line) as ChatStreamEvent;
+        if (event.type === 'delta') {
+          handlers.onDelta(event.text);
+        } else if (event.type === 'reset') {
+          handlers.onReset(event.text);
+        } else if (event.type === 'done') {
+          finalResponse = {
+            message: event.message,
+            messageId: event.messageId,
+            sources: event.sources,
+            citations: event.citations,
+            sessionId: event.sessionId,
+            language: event.language,
+            escalated: event.escalated,
+            safety: event.safety,
+          };
+        } else if (event.type === 'error') {
+          throw new Error(event.message || event.error || 'Streaming failed');
+        }
+      }
+
+      if (done) break;
+    }
+
+    if (!finalResponse) {
+      throw new Error('Chat stream ended before the response was complete');
+    }
+
+    return finalResponse;
+  } catch (error) {
+    console.error('Chat stream API error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get chat history for a session (its latest 100 messages, oldest first)
  */
 export async function getChatHistory(sessionId: string): Promise<ChatHistoryResponse> {
   const config = getConfig();
@@ -94,6 +229,31 @@ export async function getChatHistory(sessionId: string): Promise<ChatHistoryResp
   }
 }
 
+/**
+ * Rate an answer; rating the same message again replaces the earlier rating
+ */
+export async function sendMessageFeedback(request: MessageFeedbackRequest): Promise<void> {
+  const config = getConfig();
+
+  try {
+    const response = await fetch(`${config.apiBaseUrl}/chat/feedback`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(error.message || error.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+  } catch (error) {
+    console.error('Feedback API error:', error);
+    throw error;
+  }
+}
+
 /**
  * Health check for the API
  */
@@ -10,6 +10,8 @@ export interface EscalationRequest {
   email: string;
   phoneNumber?: string;
   zipCode?: string;
+  sessionId?: string; // Chat session the form was opened from, to link the request to the conversation
+  language?: 'en' | 'es'; // Language of the confirmation and status emails
 }
 
 export interface EscalationResponse {
@@ -39,6 +41,8 @@ export async function submitEscalationRequest(
         email: request.email,
         phoneNumber: request.phoneNumber || undefined,
         zipCode: request.zipCode || undefined,
+        sessionId: request.sessionId || undefined,
+        language: request.language || undefined,
         escalationType: 'submit', // Mark as submitted via Submit button
       }),
     });